@@ -1,8 +1,12 @@
 import { useEffect } from "react";
-import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
-import { ToastProvider, BottomNav, FAB } from "@/components/ui";
+import { BrowserRouter, Routes, Route, Navigate, useLocation } from "react-router-dom";
+import { ToastProvider, BottomNav, FAB, StorageWarningBanner } from "@/components/ui";
 import { useAccountStore } from "@/stores/accountStore";
-import { useSettingsStore } from "@/stores/settingsStore";
+import {
+  useSettingsStore,
+  setYjsCategoryBudgetOperations,
+  setYjsCurrencyOperations,
+} from "@/stores/settingsStore";
 import {
   useExpenseStore,
   setYjsExpenseOperations,
@@ -12,11 +16,38 @@ import {
   usePaymentStore,
   setYjsPaymentOperations,
 } from "@/stores/paymentStore";
+import {
+  useSplitPresetStore,
+  setYjsSplitPresetOperations,
+} from "@/stores/splitPresetStore";
+import {
+  useRecurringStore,
+  setYjsRecurringOperations,
+} from "@/stores/recurringStore";
+import {
+  useExchangeRateStore,
+  setYjsExchangeRateOperations,
+} from "@/stores/exchangeRateStore";
 import { useSyncStore } from "@/stores/syncStore";
 import { useOffline } from "@/hooks/useOffline";
 import { initDB, isDBInitialized } from "@/db/schema";
-import { YjsProvider, useYjs, migrateToYjs, isMigrationComplete } from "@/sync";
-import type { Expense, Person, Payment } from "@/types";
+import {
+  YjsProvider,
+  useYjs,
+  migrateToYjs,
+  isMigrationComplete,
+  useRecurringScheduler,
+  useAttachmentMigration,
+  useImageGC,
+  presenceColor,
+} from "@/sync";
+import type {
+  Expense,
+  Person,
+  Payment,
+  SplitPreset,
+  RecurringExpense,
+} from "@/types";
 import { generateId, getYearMonth } from "@/types";
 import {
   HomePage,
@@ -28,17 +59,21 @@ import {
   SettlePage,
   SyncPage,
   SettingsPage,
+  RecurringPage,
+  ImportReceiptsPage,
   OnboardingPage,
   JoinFromLinkHandler,
 } from "@/pages";
 import { CameraCapture } from "@/components/camera/CameraCapture";
 import { SyncActionsProvider } from "@/contexts/SyncActionsContext";
+import { ConnectionErrorBanner } from "@/components/sync";
 
 // Component to sync Yjs data with Zustand stores
 function YjsStoreSync() {
-  const { ydoc, isConnected, isSynced, connectedPeers, connect, setAwareness } =
+  const { ydoc, persistence, isConnected, isSynced, connectedPeers, connect, setAwareness } =
     useYjs();
   const currentAccount = useAccountStore((s) => s.getCurrentAccount());
+  const setAccountCurrency = useAccountStore((s) => s.setAccountCurrency);
   const selfPersonId = useAccountStore((s) => s.selfPersonId);
   const people = usePeopleStore((s) => s.people);
   const deviceId = useSyncStore((s) => s.deviceId);
@@ -46,6 +81,11 @@ function YjsStoreSync() {
   const setAllExpenses = useExpenseStore((s) => s.setAllExpenses);
   const setPeople = usePeopleStore((s) => s.setPeople);
   const setPayments = usePaymentStore((s) => s.setPayments);
+  const setPresets = useSplitPresetStore((s) => s.setPresets);
+  const setRules = useRecurringStore((s) => s.setRules);
+  const setCategoryBudgets = useSettingsStore((s) => s.setCategoryBudgets);
+  const setDocCurrency = useSettingsStore((s) => s.setAccountCurrency);
+  const setRates = useExchangeRateStore((s) => s.setRates);
   const setConnected = useSyncStore((s) => s.setConnected);
   const setSynced = useSyncStore((s) => s.setSynced);
   const setConnectedPeers = useSyncStore((s) => s.setConnectedPeers);
@@ -55,6 +95,11 @@ function YjsStoreSync() {
     const yExpenses = ydoc.getArray<Expense>("expenses");
     const yPeople = ydoc.getArray<Person>("people");
     const yPayments = ydoc.getArray<Payment>("payments");
+    const yPresets = ydoc.getArray<SplitPreset>("splitPresets");
+    const yRecurring = ydoc.getArray<RecurringExpense>("recurring");
+    const yBudgets = ydoc.getMap<number>("categoryBudgets");
+    const ySettings = ydoc.getMap<string>("settings");
+    const yRates = ydoc.getMap<number>("exchangeRates");
 
     // Wire up expense operations
     setYjsExpenseOperations({
@@ -72,6 +117,20 @@ function YjsStoreSync() {
         });
         return newExpense;
       },
+      addExpenses: (expenses) => {
+        const newExpenses: Expense[] = expenses.map((expense) => ({
+          ...expense,
+          id: generateId(),
+          syncId: generateId(),
+          syncStatus: "synced",
+          yearMonth: getYearMonth(expense.date),
+          createdAt: Date.now(),
+        }));
+        ydoc.transact(() => {
+          yExpenses.push(newExpenses);
+        });
+        return newExpenses;
+      },
       updateExpense: (id, updates) => {
         ydoc.transact(() => {
           const arr = yExpenses.toArray();
@@ -174,11 +233,128 @@ function YjsStoreSync() {
       },
     });
 
+    // Wire up split preset operations
+    setYjsSplitPresetOperations({
+      addPreset: (preset) => {
+        const newPreset: SplitPreset = {
+          ...preset,
+          id: generateId(),
+          syncId: generateId(),
+          createdAt: Date.now(),
+        };
+        ydoc.transact(() => {
+          yPresets.push([newPreset]);
+        });
+        return newPreset;
+      },
+      updatePreset: (id, updates) => {
+        ydoc.transact(() => {
+          const arr = yPresets.toArray();
+          const index = arr.findIndex((p) => p.id === id);
+          if (index !== -1) {
+            const existing = arr[index];
+            const updated = { ...existing, ...updates, updatedAt: Date.now() };
+            yPresets.delete(index, 1);
+            yPresets.insert(index, [updated]);
+          }
+        });
+      },
+      deletePreset: (id) => {
+        ydoc.transact(() => {
+          const arr = yPresets.toArray();
+          const index = arr.findIndex((p) => p.id === id);
+          if (index !== -1) {
+            yPresets.delete(index, 1);
+          }
+        });
+      },
+    });
+
+    // Wire up recurring rule operations
+    setYjsRecurringOperations({
+      addRule: (rule) => {
+        const newRule: RecurringExpense = {
+          ...rule,
+          id: generateId(),
+          syncId: generateId(),
+          active: true,
+          createdAt: Date.now(),
+        };
+        ydoc.transact(() => {
+          yRecurring.push([newRule]);
+        });
+        return newRule;
+      },
+      updateRule: (id, updates) => {
+        ydoc.transact(() => {
+          const arr = yRecurring.toArray();
+          const index = arr.findIndex((r) => r.id === id);
+          if (index !== -1) {
+            const existing = arr[index];
+            const updated = { ...existing, ...updates, updatedAt: Date.now() };
+            yRecurring.delete(index, 1);
+            yRecurring.insert(index, [updated]);
+          }
+        });
+      },
+      deleteRule: (id) => {
+        ydoc.transact(() => {
+          const arr = yRecurring.toArray();
+          const index = arr.findIndex((r) => r.id === id);
+          if (index !== -1) {
+            yRecurring.delete(index, 1);
+          }
+        });
+      },
+    });
+
+    // Wire up category budget operations
+    setYjsCategoryBudgetOperations({
+      setCategoryBudget: (category, amount) => {
+        yBudgets.set(category, amount);
+      },
+      removeCategoryBudget: (category) => {
+        yBudgets.delete(category);
+      },
+    });
+
+    // Wire up base currency operations
+    setYjsCurrencyOperations({
+      setCurrency: (currency) => {
+        ySettings.set("currency", currency);
+      },
+    });
+
+    // Wire up exchange rate operations
+    setYjsExchangeRateOperations({
+      updateRates: (entries) => {
+        ydoc.transact(() => {
+          Object.entries(entries).forEach(([code, rate]) => yRates.set(code, rate));
+        });
+      },
+      removeRate: (code) => {
+        yRates.delete(code);
+      },
+      replaceRates: (rates) => {
+        ydoc.transact(() => {
+          Array.from(yRates.keys()).forEach((code) => {
+            if (!(code in rates)) yRates.delete(code);
+          });
+          Object.entries(rates).forEach(([code, rate]) => yRates.set(code, rate));
+        });
+      },
+    });
+
     return () => {
       // Clear operations on unmount
       setYjsExpenseOperations({});
       setYjsPeopleOperations({});
       setYjsPaymentOperations({});
+      setYjsSplitPresetOperations({});
+      setYjsRecurringOperations({});
+      setYjsCategoryBudgetOperations({});
+      setYjsCurrencyOperations({});
+      setYjsExchangeRateOperations({});
     };
   }, [ydoc]);
 
@@ -187,27 +363,100 @@ function YjsStoreSync() {
     const yExpenses = ydoc.getArray<Expense>("expenses");
     const yPeople = ydoc.getArray<Person>("people");
     const yPayments = ydoc.getArray<Payment>("payments");
+    const yPresets = ydoc.getArray<SplitPreset>("splitPresets");
+    const yRecurring = ydoc.getArray<RecurringExpense>("recurring");
+    const yBudgets = ydoc.getMap<number>("categoryBudgets");
+    const ySettings = ydoc.getMap<string>("settings");
+    const yRates = ydoc.getMap<number>("exchangeRates");
 
     // Initial sync
     setAllExpenses(yExpenses.toArray());
     setPeople(yPeople.toArray());
     setPayments(yPayments.toArray());
+    setPresets(yPresets.toArray());
+    setRules(yRecurring.toArray());
+    setCategoryBudgets(yBudgets.toJSON());
+    setDocCurrency(ySettings.get("currency") ?? null);
+    setRates(yRates.toJSON());
 
     // Set up observers
     const expenseObserver = () => setAllExpenses(yExpenses.toArray());
     const peopleObserver = () => setPeople(yPeople.toArray());
     const paymentObserver = () => setPayments(yPayments.toArray());
+    const presetObserver = () => setPresets(yPresets.toArray());
+    const recurringObserver = () => setRules(yRecurring.toArray());
+    const budgetObserver = () => setCategoryBudgets(yBudgets.toJSON());
+    const settingsObserver = () => setDocCurrency(ySettings.get("currency") ?? null);
+    const rateObserver = () => setRates(yRates.toJSON());
 
     yExpenses.observe(expenseObserver);
     yPeople.observe(peopleObserver);
     yPayments.observe(paymentObserver);
+    yPresets.observe(presetObserver);
+    yRecurring.observe(recurringObserver);
+    yBudgets.observe(budgetObserver);
+    ySettings.observe(settingsObserver);
+    yRates.observe(rateObserver);
 
     return () => {
       yExpenses.unobserve(expenseObserver);
       yPeople.unobserve(peopleObserver);
       yPayments.unobserve(paymentObserver);
+      yPresets.unobserve(presetObserver);
+      yRecurring.unobserve(recurringObserver);
+      yBudgets.unobserve(budgetObserver);
+      ySettings.unobserve(settingsObserver);
+      yRates.unobserve(rateObserver);
     };
-  }, [ydoc, setAllExpenses, setPeople, setPayments]);
+  }, [
+    ydoc,
+    setAllExpenses,
+    setPeople,
+    setPayments,
+    setPresets,
+    setRules,
+    setCategoryBudgets,
+    setDocCurrency,
+    setRates,
+  ]);
+
+  // The base currency lives in the account's document so every member
+  // converts into the same one. Its owner adds it once: the currency picked
+  // for a new account, or for older ones the device setting their amounts
+  // were saved in. The account keeps a copy for the accounts list.
+  const accountId = currentAccount?.id;
+  const accountMode = currentAccount?.mode;
+  const accountHostDeviceId = currentAccount?.hostDeviceId;
+  const accountCurrency = currentAccount?.currency;
+  useEffect(() => {
+    // Only once the document open is this account's, loaded and migrated
+    if (!accountId || !isSynced || persistence?.name !== `expense-tracker-yjs-${accountId}`) return;
+    if (!isMigrationComplete()) return;
+    const ySettings = ydoc.getMap<string>("settings");
+    const mirror = () => {
+      const currency = ySettings.get("currency");
+      if (currency && currency !== useAccountStore.getState().accounts.find((a) => a.id === accountId)?.currency) {
+        setAccountCurrency(accountId, currency);
+      }
+    };
+    if (!ySettings.has("currency")) {
+      const isOwner = accountMode === "single" || !accountHostDeviceId || accountHostDeviceId === deviceId;
+      const hasAmounts = ydoc.getArray("expenses").length > 0 || ydoc.getArray("payments").length > 0;
+      if (isOwner) ySettings.set("currency", hasAmounts ? useSettingsStore.getState().currency : accountCurrency ?? "$");
+    }
+    mirror();
+    ySettings.observe(mirror);
+    return () => ySettings.unobserve(mirror);
+  }, [ydoc, persistence, isSynced, accountId, accountMode, accountHostDeviceId, accountCurrency, deviceId, setAccountCurrency]);
+
+  // Create due recurring expenses (catches up on missed periods)
+  useRecurringScheduler(ydoc, isSynced);
+
+  // Move single-image expenses (and ones from older peers) to attachment lists
+  useAttachmentMigration(ydoc, isSynced);
+
+  // Remove attachments that no expense has used for a while
+  useImageGC(ydoc, isSynced, currentAccount?.id ?? null);
 
   // Sync connection state
   useEffect(() => {
@@ -228,7 +477,7 @@ function YjsStoreSync() {
       migrateToYjs(ydoc).then((result) => {
         if (result.success) {
           console.log(
-            `[App] Migration complete: ${result.migratedExpenses} expenses, ${result.migratedPeople} people, ${result.migratedPayments} payments`
+            `[App] Migration complete: ${result.migratedExpenses} expenses, ${result.migratedPeople} people, ${result.migratedPayments} payments, ${result.migratedSplitPresets} split presets, ${result.migratedRecurring} recurring rules, ${result.migratedCategoryBudgets} category budgets`
           );
         } else {
           console.error("[App] Migration failed:", result.error);
@@ -242,17 +491,25 @@ function YjsStoreSync() {
     if (currentAccount?.mode === "shared" && currentAccount.id) {
       const roomName = `expense-tracker-${currentAccount.id}`;
       const hostDeviceId = currentAccount.hostDeviceId ?? deviceId;
-      connect(roomName, { deviceId, hostDeviceId });
+      connect(roomName, {
+        deviceId,
+        hostDeviceId,
+        signaling: currentAccount.signaling,
+        groupKey: currentAccount.groupKey,
+      });
       const selfPerson = people.find((p) => p.id === selfPersonId);
       setAwareness({
-        id: deviceId,
         name: selfPerson?.name || "Unknown",
+        personId: selfPerson?.id,
+        color: presenceColor(deviceId),
       });
     }
   }, [
     currentAccount?.mode,
     currentAccount?.id,
     currentAccount?.hostDeviceId,
+    currentAccount?.signaling,
+    currentAccount?.groupKey,
     connect,
     deviceId,
     selfPersonId,
@@ -260,6 +517,12 @@ function YjsStoreSync() {
     setAwareness,
   ]);
 
+  // Let peers see which screen we're on
+  const { pathname } = useLocation();
+  useEffect(() => {
+    setAwareness({ screen: pathname });
+  }, [pathname, setAwareness]);
+
   return null;
 }
 
@@ -299,12 +562,14 @@ function AppRoutes() {
         <Route path="/expense/:id" element={<ExpenseDetailPage />} />
         <Route path="/expense/:id/edit" element={<AddExpensePage />} />
         <Route path="/camera" element={<CameraCapture />} />
+        <Route path="/import" element={<ImportReceiptsPage />} />
         <Route path="/people" element={<PeoplePage />} />
         <Route path="/people/:id" element={<PersonDetailPage />} />
         <Route path="/stats" element={<StatsPage />} />
         <Route path="/settle" element={<SettlePage />} />
         <Route path="/sync" element={<SyncPage />} />
         <Route path="/settings" element={<SettingsPage />} />
+        <Route path="/recurring" element={<RecurringPage />} />
         <Route path="*" element={<Navigate to="/" replace />} />
       </Routes>
       <FAB />
@@ -322,6 +587,7 @@ function AppContent() {
   return (
     <YjsProvider dbName={dbName}>
       <SyncActionsProvider>
+        <ConnectionErrorBanner />
         <AppRoutes />
       </SyncActionsProvider>
     </YjsProvider>
@@ -354,6 +620,7 @@ function App() {
               Offline
             </div>
           )}
+          <StorageWarningBanner />
           <AppContent />
         </div>
       </ToastProvider>
@@ -1,12 +1,15 @@
 import { useRef, useEffect, useState, useCallback } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { Button, useToast } from '@/components/ui';
-import { useCamera } from '@/hooks/useCamera';
+import { useCamera, type OCRResult } from '@/hooks/useCamera';
 import { useExpenseStore } from '@/stores/expenseStore';
 import { usePeopleStore } from '@/stores/peopleStore';
 import { useAccountStore } from '@/stores/accountStore';
 import { useSettingsStore } from '@/stores/settingsStore';
 import { haptic, cn } from '@/lib/utils';
+import { parseAmount, sanitizeAmountInput, toAmountInput, getCurrencyDigits } from '@/lib/format';
+import { computeItemizedSplit } from '@/lib/receipt';
+import { LOW_CONFIDENCE } from '@/lib/receiptParser';
 import { getToday } from '@/types';
 
 export function CameraCapture() {
@@ -20,31 +23,59 @@ export function CameraCapture() {
     isActive,
     isProcessing,
     ocrProgress,
+    ocrStage,
     startCamera,
     stopCamera,
     captureImage,
     processOCR,
-    saveImage
+    saveAttachment
   } = useCamera();
   
   const addExpense = useExpenseStore(s => s.addExpense);
   const people = usePeopleStore(s => s.people);
   const lastPayerId = usePeopleStore(s => s.lastPayerId);
   const isSharedMode = useAccountStore(s => s.isSharedMode());
-  const currency = useSettingsStore(s => s.currency);
+  const currency = useSettingsStore(s => s.getCurrency());
+  const currencyCode = useSettingsStore(s => s.getCurrencyCode());
+  const currencyDigits = useSettingsStore(s => s.getCurrencyDigits());
+  const formatAmount = useSettingsStore(s => s.formatAmount);
+  const locale = useAccountStore(s => s.getLocale());
   
   const [capturedImage, setCapturedImage] = useState<Blob | null>(null);
   const [imagePreviewUrl, setImagePreviewUrl] = useState<string | null>(null);
-  const [ocrResult, setOcrResult] = useState<{
-    amount: number | null;
-    description: string | null;
-    date: string | null;
-  } | null>(null);
+  const [ocrResult, setOcrResult] = useState<OCRResult | null>(null);
   const [saving, setSaving] = useState(false);
   const [editMode, setEditMode] = useState(false);
   const [editAmount, setEditAmount] = useState('');
   const [editDescription, setEditDescription] = useState('');
   const [cameraError, setCameraError] = useState<string | null>(null);
+  // Before/after preview of the image cleaned up for OCR
+  const [processedUrl, setProcessedUrl] = useState<string | null>(null);
+  const [showProcessed, setShowProcessed] = useState(false);
+  // Split by item: who had each receipt line (nobody assigned = everyone)
+  const [splitByItem, setSplitByItem] = useState(false);
+  const [assignments, setAssignments] = useState<Record<string, string[]>>({});
+
+  // Payer in shared mode
+  const payerId = isSharedMode && people.length > 0
+    ? (lastPayerId || people[0].id)
+    : undefined;
+  const canSplitByItem = isSharedMode && people.length > 1 && (ocrResult?.items.length ?? 0) > 0;
+  const itemTotal = parseAmount(editAmount, locale) || ocrResult?.amount || 0;
+  const itemizedDetails = splitByItem && ocrResult
+    ? computeItemizedSplit(itemTotal, ocrResult.items, assignments, people.map(p => p.id), currencyDigits, payerId)
+    : null;
+
+  const toggleAssignment = (itemId: string, personId: string) => {
+    haptic('light');
+    setAssignments(prev => {
+      const current = prev[itemId] ?? [];
+      const next = current.includes(personId)
+        ? current.filter(id => id !== personId)
+        : [...current, personId];
+      return { ...prev, [itemId]: next };
+    });
+  };
 
   // Create preview URL when image changes
   const updatePreviewUrl = useCallback((blob: Blob | null) => {
@@ -91,13 +122,25 @@ export function CameraCapture() {
     };
   }, [startCamera, stopCamera]);
 
+  // Preview URL for the preprocessed image
+  useEffect(() => {
+    const processed = ocrResult?.processedImage;
+    if (!processed) {
+      setProcessedUrl(null);
+      return;
+    }
+    const url = URL.createObjectURL(processed);
+    setProcessedUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [ocrResult?.processedImage]);
+
   // Update edit fields when OCR result changes
   useEffect(() => {
     if (ocrResult) {
-      setEditAmount(ocrResult.amount?.toString() || '');
+      setEditAmount(ocrResult.amount ? toAmountInput(ocrResult.amount, currencyCode, locale) : '');
       setEditDescription(ocrResult.description || '');
     }
-  }, [ocrResult]);
+  }, [ocrResult, currencyCode, locale]);
 
   const handleCapture = async () => {
     haptic('light');
@@ -146,7 +189,7 @@ export function CameraCapture() {
     if (!capturedImage) return;
     
     // Validate amount
-    const finalAmount = parseFloat(editAmount) || ocrResult?.amount || 0;
+    const finalAmount = parseAmount(editAmount, locale) || ocrResult?.amount || 0;
     if (finalAmount <= 0) {
       showError('Please enter a valid amount');
       haptic('error');
@@ -158,20 +201,25 @@ export function CameraCapture() {
     
     try {
       // Save image
-      const imageId = await saveImage(capturedImage);
+      const imageId = await saveAttachment(capturedImage);
       
-      // Resolve payer in shared mode
-      const payerId = isSharedMode && people.length > 0
-        ? (lastPayerId || people[0].id)
-        : undefined;
+      // Split by item becomes a custom split with the computed amounts
+      const details = splitByItem && ocrResult
+        ? computeItemizedSplit(finalAmount, ocrResult.items, assignments, people.map(p => p.id), currencyDigits, payerId)
+        : null;
 
       // Create expense
       await addExpense({
         description: editDescription || ocrResult?.description || 'Receipt',
         amount: finalAmount,
+        currency: currencyCode,
+        originalAmount: finalAmount,
         date: ocrResult?.date || getToday(),
         imageId,
-        splitType: 'equal',
+        attachmentIds: [imageId],
+        ...(details
+          ? { splitType: 'custom' as const, splitWith: Object.keys(details), splitDetails: details, splitMode: 'exact' as const }
+          : { splitType: 'equal' as const }),
         payerId
       });
       
@@ -194,6 +242,9 @@ export function CameraCapture() {
     setEditMode(false);
     setEditAmount('');
     setEditDescription('');
+    setSplitByItem(false);
+    setAssignments({});
+    setShowProcessed(false);
   };
 
   return (
@@ -214,12 +265,28 @@ export function CameraCapture() {
 
       {/* Camera View or Captured Image */}
       {capturedImage && imagePreviewUrl ? (
-        <div className="flex-1 flex items-center justify-center bg-black pt-16">
+        <div className="flex-1 flex flex-col items-center justify-center bg-black pt-16 gap-3">
           <img
-            src={imagePreviewUrl}
-            alt="Captured receipt"
+            src={showProcessed && processedUrl ? processedUrl : imagePreviewUrl}
+            alt={showProcessed ? 'Enhanced receipt' : 'Captured receipt'}
             className="max-w-full max-h-[50vh] object-contain rounded-lg"
           />
+          {processedUrl && !isProcessing && (
+            <div className="flex gap-1 p-1 rounded-full bg-white/10 backdrop-blur-sm">
+              {[false, true].map(processed => (
+                <button
+                  key={String(processed)}
+                  onClick={() => { haptic('light'); setShowProcessed(processed); }}
+                  className={cn(
+                    'px-3 py-1 rounded-full text-sm font-medium transition-colors',
+                    showProcessed === processed ? 'bg-white text-black' : 'text-white/80'
+                  )}
+                >
+                  {processed ? 'Enhanced' : 'Original'}
+                </button>
+              ))}
+            </div>
+          )}
         </div>
       ) : cameraError ? (
         <div className="flex-1 flex flex-col items-center justify-center p-8 text-center">
@@ -271,13 +338,15 @@ export function CameraCapture() {
             </div>
           </div>
           <div className="text-white text-lg font-medium">Scanning receipt...</div>
-          <div className="text-white/60 text-sm mt-1">Extracting details</div>
+          <div className="text-white/60 text-sm mt-1">
+            {ocrStage === 'enhancing' ? 'Enhancing image' : 'Extracting details'}
+          </div>
         </div>
       )}
 
       {/* OCR Results Card */}
       {capturedImage && ocrResult && !isProcessing && (
-        <div className="bg-white rounded-t-3xl px-4 pt-6 pb-8">
+        <div className="bg-white rounded-t-3xl px-4 pt-6 pb-8 max-h-[60vh] overflow-y-auto">
           <div className="flex items-center justify-between mb-4">
             <h3 className="font-bold text-lg">Receipt Details</h3>
             <button
@@ -293,6 +362,9 @@ export function CameraCapture() {
             <div className="bg-[var(--bg)] rounded-xl p-4">
               <label className="text-xs text-[var(--text-secondary)] uppercase tracking-wide mb-1 block">
                 Amount
+                {ocrResult.amount && ocrResult.fieldConfidence.amount < LOW_CONFIDENCE && (
+                  <span className="normal-case tracking-normal text-amber-600 ml-2">Please check</span>
+                )}
               </label>
               {editMode ? (
                 <div className="flex items-center gap-2">
@@ -301,7 +373,10 @@ export function CameraCapture() {
                     type="text"
                     inputMode="decimal"
                     value={editAmount}
-                    onChange={e => setEditAmount(e.target.value.replace(/[^0-9.]/g, ''))}
+                    onChange={e => {
+                      const val = sanitizeAmountInput(e.target.value, getCurrencyDigits(currencyCode), locale);
+                      if (val !== null) setEditAmount(val);
+                    }}
                     placeholder="0.00"
                     className="flex-1 text-2xl font-bold bg-transparent border-none outline-none"
                     autoFocus
@@ -309,7 +384,7 @@ export function CameraCapture() {
                 </div>
               ) : (
                 <div className="text-2xl font-bold">
-                  {currency}{editAmount || ocrResult.amount?.toFixed(2) || '0.00'}
+                  {formatAmount(parseAmount(editAmount, locale) || ocrResult.amount || 0)}
                 </div>
               )}
             </div>
@@ -318,6 +393,9 @@ export function CameraCapture() {
             <div className="bg-[var(--bg)] rounded-xl p-4">
               <label className="text-xs text-[var(--text-secondary)] uppercase tracking-wide mb-1 block">
                 Description
+                {ocrResult.description && ocrResult.fieldConfidence.description < LOW_CONFIDENCE && (
+                  <span className="normal-case tracking-normal text-amber-600 ml-2">Please check</span>
+                )}
               </label>
               {editMode ? (
                 <input
@@ -339,11 +417,82 @@ export function CameraCapture() {
               <div className="bg-[var(--bg)] rounded-xl p-4">
                 <label className="text-xs text-[var(--text-secondary)] uppercase tracking-wide mb-1 block">
                   Date
+                  {ocrResult.date && ocrResult.fieldConfidence.date < LOW_CONFIDENCE && (
+                    <span className="normal-case tracking-normal text-amber-600 ml-2">Please check</span>
+                  )}
                 </label>
                 <div className="text-lg">{ocrResult.date}</div>
               </div>
             )}
 
+            {/* Split by item */}
+            {canSplitByItem && (
+              <div className="bg-[var(--bg)] rounded-xl p-4">
+                <div className="flex items-center justify-between">
+                  <label className="text-xs text-[var(--text-secondary)] uppercase tracking-wide block">
+                    Split by item
+                  </label>
+                  <button
+                    onClick={() => { haptic('light'); setSplitByItem(!splitByItem); }}
+                    className="text-[var(--teal-green)] text-sm font-medium"
+                  >
+                    {splitByItem ? 'Split equally' : `${ocrResult.items.length} items`}
+                  </button>
+                </div>
+                {splitByItem && (
+                  <>
+                    <div className="divide-y divide-[var(--border)] mt-2">
+                      {ocrResult.items.map(item => (
+                        <div key={item.id} className="py-2">
+                          <div className="flex items-center justify-between gap-3">
+                            <span className="truncate">{item.name}</span>
+                            <span className="font-medium flex-shrink-0">{formatAmount(item.price)}</span>
+                          </div>
+                          <div className="flex flex-wrap gap-1.5 mt-1.5">
+                            {people.map(person => (
+                              <button
+                                key={person.id}
+                                onClick={() => toggleAssignment(item.id, person.id)}
+                                className={cn(
+                                  'px-2.5 py-1 rounded-full text-xs font-medium transition-colors',
+                                  assignments[item.id]?.includes(person.id)
+                                    ? 'bg-[var(--teal-green)] text-white'
+                                    : 'bg-[var(--white)] text-[var(--text-secondary)]'
+                                )}
+                              >
+                                {person.name}
+                              </button>
+                            ))}
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                    {(ocrResult.tax || ocrResult.tip) && (
+                      <p className="text-xs text-[var(--text-secondary)] mt-2">
+                        {[ocrResult.tax && `Tax ${formatAmount(ocrResult.tax)}`, ocrResult.tip && `Tip ${formatAmount(ocrResult.tip)}`]
+                          .filter(Boolean)
+                          .join(' · ')}{' '}
+                        shared in proportion to each person's items.
+                      </p>
+                    )}
+                    <p className="text-xs text-[var(--text-secondary)] mt-1">
+                      Items nobody is picked for are shared by everyone.
+                    </p>
+                    {itemizedDetails && (
+                      <div className="mt-3 pt-3 border-t border-[var(--border)] space-y-1">
+                        {people.filter(p => itemizedDetails[p.id]).map(person => (
+                          <div key={person.id} className="flex justify-between text-sm">
+                            <span>{person.name}</span>
+                            <span className="font-semibold">{formatAmount(itemizedDetails[person.id])}</span>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </>
+                )}
+              </div>
+            )}
+
             {!ocrResult.amount && !editAmount && (
               <div className="text-center py-4 text-[var(--text-secondary)]">
                 <span className="text-2xl mb-2 block">🔍</span>
@@ -387,7 +536,7 @@ export function CameraCapture() {
               loading={saving}
               className="flex-1"
             >
-              Save {editAmount || ocrResult?.amount ? `${currency}${editAmount || ocrResult?.amount?.toFixed(2)}` : 'Expense'}
+              Save {editAmount || ocrResult?.amount ? formatAmount(parseAmount(editAmount, locale) || ocrResult?.amount || 0) : 'Expense'}
             </Button>
           </div>
         ) : (
@@ -0,0 +1,233 @@
+import { useState, useEffect, useRef } from 'react';
+import { useAttachment } from '@/hooks/useAttachment';
+import { cn } from '@/lib/utils';
+
+interface AttachmentGalleryProps {
+  ids: string[];
+  startIndex?: number;
+  onClose: () => void;
+}
+
+const MAX_ZOOM = 5;
+const DOUBLE_TAP_ZOOM = 2.5;
+/** Horizontal drag (px) that moves to the next attachment */
+const SWIPE_THRESHOLD = 60;
+
+interface Zoom {
+  scale: number;
+  x: number;
+  y: number;
+}
+
+const NO_ZOOM: Zoom = { scale: 1, x: 0, y: 0 };
+
+function distance(touches: React.TouchList): number {
+  return Math.hypot(touches[0].clientX - touches[1].clientX, touches[0].clientY - touches[1].clientY);
+}
+
+function openInNewTab(blob: Blob) {
+  const url = URL.createObjectURL(blob);
+  window.open(url, '_blank', 'noopener');
+  // The new tab has loaded it by then
+  setTimeout(() => URL.revokeObjectURL(url), 60_000);
+}
+
+interface SlideProps {
+  id: string;
+  zoom: Zoom;
+  /** Only the visible slide and its neighbours load their attachment */
+  active: boolean;
+}
+
+function Slide({ id, zoom, active }: SlideProps) {
+  const { attachment, loading } = useAttachment(active ? id : undefined);
+
+  return (
+    <div className="relative w-full h-full flex-shrink-0 flex items-center justify-center overflow-hidden">
+      {loading || !attachment ? (
+        <div className="w-10 h-10 border-2 border-white border-t-transparent rounded-full animate-spin" />
+      ) : attachment.kind === 'html' ? (
+        // E-receipts are untrusted: no scripts, forms or same-origin access
+        <iframe
+          sandbox=""
+          srcDoc={attachment.html ?? ''}
+          title="E-receipt"
+          className="w-full h-[calc(100%-120px)] bg-white"
+        />
+      ) : (
+        <>
+          <img
+            src={attachment.url ?? undefined}
+            alt="Attachment"
+            draggable={false}
+            className="max-w-full max-h-full object-contain select-none"
+            style={{ transform: `translate(${zoom.x}px, ${zoom.y}px) scale(${zoom.scale})` }}
+          />
+          {attachment.kind === 'pdf' && (
+            <button
+              onClick={() => openInNewTab(attachment.data)}
+              className="absolute bottom-8 safe-bottom px-4 py-2 rounded-full bg-white/20 text-white text-[15px] font-medium"
+            >
+              Open PDF
+            </button>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Full-screen viewer for an expense's attachments: swipe between them,
+ * pinch or double-tap to zoom, drag to pan while zoomed.
+ */
+export function AttachmentGallery({ ids, startIndex = 0, onClose }: AttachmentGalleryProps) {
+  const [index, setIndex] = useState(Math.min(startIndex, ids.length - 1));
+  const [zoom, setZoom] = useState<Zoom>(NO_ZOOM);
+  const [dragX, setDragX] = useState(0);
+  const [touching, setTouching] = useState(false);
+  const gesture = useRef<{
+    startX: number;
+    startY: number;
+    startZoom: Zoom;
+    startDistance: number;
+    pinching: boolean;
+  } | null>(null);
+  const lastTap = useRef(0);
+
+  const goTo = (next: number) => {
+    setIndex(Math.max(0, Math.min(ids.length - 1, next)));
+    setZoom(NO_ZOOM);
+    setDragX(0);
+  };
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+      if (e.key === 'ArrowLeft' || e.key === 'ArrowRight') {
+        const step = e.key === 'ArrowLeft' ? -1 : 1;
+        setIndex(i => Math.max(0, Math.min(ids.length - 1, i + step)));
+        setZoom(NO_ZOOM);
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [ids.length, onClose]);
+
+  const handleTouchStart = (e: React.TouchEvent) => {
+    const touch = e.touches[0];
+    setTouching(true);
+    gesture.current = {
+      startX: touch.clientX,
+      startY: touch.clientY,
+      startZoom: zoom,
+      startDistance: e.touches.length === 2 ? distance(e.touches) : 0,
+      pinching: e.touches.length === 2
+    };
+  };
+
+  const handleTouchMove = (e: React.TouchEvent) => {
+    const g = gesture.current;
+    if (!g) return;
+    if (e.touches.length === 2) {
+      if (!g.pinching) {
+        // Second finger joined: start the pinch from here
+        g.pinching = true;
+        g.startDistance = distance(e.touches);
+        g.startZoom = zoom;
+        setDragX(0);
+        return;
+      }
+      const scale = Math.min(MAX_ZOOM, Math.max(1, g.startZoom.scale * distance(e.touches) / g.startDistance));
+      setZoom(scale === 1 ? NO_ZOOM : { ...g.startZoom, scale });
+      return;
+    }
+    if (g.pinching) return;
+    const dx = e.touches[0].clientX - g.startX;
+    const dy = e.touches[0].clientY - g.startY;
+    if (g.startZoom.scale > 1) {
+      setZoom({ ...g.startZoom, x: g.startZoom.x + dx, y: g.startZoom.y + dy });
+    } else {
+      setDragX(dx);
+    }
+  };
+
+  const handleTouchEnd = (e: React.TouchEvent) => {
+    const g = gesture.current;
+    if (!g || e.touches.length > 0) return;
+    gesture.current = null;
+    setTouching(false);
+
+    if (!g.pinching && g.startZoom.scale === 1) {
+      if (dragX <= -SWIPE_THRESHOLD) return goTo(index + 1);
+      if (dragX >= SWIPE_THRESHOLD) return goTo(index - 1);
+      setDragX(0);
+    }
+
+    // Double tap zooms in, or back out
+    const now = Date.now();
+    const moved = Math.abs(e.changedTouches[0].clientX - g.startX) > 10;
+    if (!g.pinching && !moved && now - lastTap.current < 300) {
+      setZoom(zoom.scale > 1 ? NO_ZOOM : { scale: DOUBLE_TAP_ZOOM, x: 0, y: 0 });
+      lastTap.current = 0;
+    } else {
+      lastTap.current = now;
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[1000] bg-black flex flex-col touch-none">
+      <div className="absolute top-0 inset-x-0 z-10 safe-top px-4 py-3 flex items-center justify-between text-white">
+        <span className="text-[15px] font-medium">
+          {ids.length > 1 && `${index + 1} / ${ids.length}`}
+        </span>
+        <button
+          onClick={onClose}
+          className="w-10 h-10 rounded-full bg-white/20 flex items-center justify-center text-xl"
+          aria-label="Close"
+        >
+          ✕
+        </button>
+      </div>
+
+      <div
+        className="flex-1 min-h-0 overflow-hidden"
+        onTouchStart={handleTouchStart}
+        onTouchMove={handleTouchMove}
+        onTouchEnd={handleTouchEnd}
+      >
+        <div
+          className={cn('flex h-full', !touching && 'transition-transform duration-200')}
+          style={{ transform: `translateX(calc(${-index * 100}% + ${dragX}px))` }}
+        >
+          {ids.map((id, i) => (
+            <Slide key={id} id={id} zoom={i === index ? zoom : NO_ZOOM} active={Math.abs(i - index) <= 1} />
+          ))}
+        </div>
+      </div>
+
+      {ids.length > 1 && (
+        <>
+          {index > 0 && (
+            <button
+              onClick={() => goTo(index - 1)}
+              className="absolute left-2 top-1/2 -translate-y-1/2 w-10 h-10 rounded-full bg-white/20 text-white text-2xl"
+              aria-label="Previous attachment"
+            >
+              ‹
+            </button>
+          )}
+          {index < ids.length - 1 && (
+            <button
+              onClick={() => goTo(index + 1)}
+              className="absolute right-2 top-1/2 -translate-y-1/2 w-10 h-10 rounded-full bg-white/20 text-white text-2xl"
+              aria-label="Next attachment"
+            >
+              ›
+            </button>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
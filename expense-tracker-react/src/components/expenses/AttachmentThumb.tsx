@@ -0,0 +1,73 @@
+import { useEffect, useState } from 'react';
+import { createThumbnail, getAttachmentKind, kindOf, type AttachmentKind } from '@/lib/attachments';
+import { cn } from '@/lib/utils';
+import { useAccountStore } from '@/stores/accountStore';
+import { useSyncStore } from '@/stores/syncStore';
+import { useYjs } from '@/sync';
+import * as db from '@/db/operations';
+
+interface AttachmentThumbProps {
+  /** A saved attachment... */
+  id?: string;
+  /** ...or one that isn't saved yet */
+  blob?: Blob;
+  className?: string;
+}
+
+const KIND_BADGES = { pdf: 'PDF', html: 'Email' } as const;
+
+/**
+ * Small square preview of an attachment, with a badge for documents. Saved
+ * attachments missing on this device are requested from peers.
+ */
+export function AttachmentThumb({ id, blob, className }: AttachmentThumbProps) {
+  const isSharedMode = useAccountStore(s => s.isSharedMode());
+  const isConnected = useSyncStore(s => s.isConnected);
+  const requestImage = useYjs().requestImage;
+  const [thumbnail, setThumbnail] = useState<{ source: string | Blob; url: string; kind: AttachmentKind } | null>(null);
+  const source = blob ?? id;
+
+  useEffect(() => {
+    let cancelled = false;
+    let url: string | null = null;
+
+    const load = async () => {
+      let thumbnail: Blob | undefined;
+      let kind = blob ? kindOf(blob) : 'image';
+      if (blob) {
+        thumbnail = kind === 'image' ? blob : await createThumbnail(blob, kind);
+      } else if (id) {
+        let record = await db.getImage(id);
+        if (!record?.thumbnail && isSharedMode && isConnected) {
+          await requestImage(id, { thumbnailOnly: true });
+          record = await db.getImage(id);
+        }
+        thumbnail = record?.thumbnail;
+        kind = getAttachmentKind(record?.type, record?.name);
+      }
+      if (cancelled || !thumbnail || !source) return;
+      url = URL.createObjectURL(thumbnail);
+      setThumbnail({ source, url, kind });
+    };
+    load().catch(e => console.error('Failed to load attachment thumbnail:', e));
+
+    return () => {
+      cancelled = true;
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [id, blob, source, isSharedMode, isConnected, requestImage]);
+
+  // Never show the previous attachment's (revoked) URL for a new one
+  const shown = thumbnail?.source === source ? thumbnail : null;
+
+  return (
+    <div className={cn('relative rounded-lg overflow-hidden bg-[var(--bg)] flex-shrink-0', className)}>
+      {shown && <img src={shown.url} alt="" className="w-full h-full object-cover" />}
+      {shown && shown.kind !== 'image' && (
+        <span className="absolute bottom-1 left-1 px-1 rounded bg-black/60 text-white text-[10px] font-semibold">
+          {KIND_BADGES[shown.kind]}
+        </span>
+      )}
+    </div>
+  );
+}
@@ -1,7 +1,7 @@
-import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { useState, useEffect, useRef, useMemo } from 'react';
 import { useNavigate } from 'react-router-dom';
-import type { Expense, Template } from '@/types';
-import { getToday } from '@/types';
+import type { Expense, RecurringExpense, Template } from '@/types';
+import { getToday, generateId, CURRENCIES } from '@/types';
 import { Button, useToast } from '@/components/ui';
 import { Sheet } from '@/components/ui/Modal';
 import { useExpenseStore } from '@/stores/expenseStore';
@@ -9,9 +9,23 @@ import { usePeopleStore } from '@/stores/peopleStore';
 import { useAccountStore } from '@/stores/accountStore';
 import { useSettingsStore } from '@/stores/settingsStore';
 import { useSyncStore } from '@/stores/syncStore';
-import { useCamera } from '@/hooks/useCamera';
+import { useRecurringStore } from '@/stores/recurringStore';
+import { useExchangeRateStore } from '@/stores/exchangeRateStore';
+import { useCamera, type OCRResult } from '@/hooks/useCamera';
 import { haptic, cn } from '@/lib/utils';
+import { computeSplit, buildSplitFields, splitInputFromExpense, toBaseSplitFields, type SplitInput } from '@/lib/splits';
+import { getCurrencyCode, getCurrencySymbol, getRate, convertAmount } from '@/lib/currency';
+import { formatMoney, parseAmount, sanitizeAmountInput, toAmountInput, getCurrencyDigits } from '@/lib/format';
+import { FREQUENCY_LABELS, getNextOccurrence } from '@/lib/recurring';
+import { LOW_CONFIDENCE } from '@/lib/receiptParser';
+import { ATTACHMENT_ACCEPT, getAttachmentIds } from '@/lib/attachments';
 import * as db from '@/db/operations';
+import { useTypingPresence } from '@/sync';
+import { SplitEditor } from './SplitEditor';
+import { SplitPresetPicker } from './SplitPresetPicker';
+import { AttachmentThumb } from './AttachmentThumb';
+
+type ScannedField = keyof OCRResult['fieldConfidence'];
 
 interface ExpenseFormProps {
   expense?: Expense;
@@ -28,20 +42,54 @@ export function ExpenseForm({ expense, onSuccess }: ExpenseFormProps) {
   const lastPayerId = usePeopleStore(s => s.lastPayerId);
   const setLastPayer = usePeopleStore(s => s.setLastPayer);
   const isSharedMode = useAccountStore(s => s.isSharedMode());
-  const currency = useSettingsStore(s => s.currency);
+  const locale = useAccountStore(s => s.getLocale());
+  const currency = useSettingsStore(s => s.getCurrency());
+  const baseCode = getCurrencyCode(currency);
+  const rates = useExchangeRateStore(s => s.rates);
   const isConnected = useSyncStore(s => s.isConnected);
-  const { processOCR, saveImage, isProcessing, ocrProgress } = useCamera();
+  const notifyTyping = useTypingPresence();
+  const addRule = useRecurringStore(s => s.addRule);
+  const { processOCR, saveAttachment, isProcessing, ocrProgress } = useCamera();
 
   const [description, setDescription] = useState(expense?.description || '');
-  const [amount, setAmount] = useState(expense?.amount?.toString() || '');
+  const [currencyCode, setCurrencyCode] = useState(expense?.currency || baseCode);
+  // Amount as typed, in the account's locale (e.g. "12,50")
+  const [amount, setAmount] = useState(() => {
+    const initial = expense?.originalAmount ?? expense?.amount;
+    return initial ? toAmountInput(initial, expense?.currency || baseCode, locale) : '';
+  });
+  const amountValue = parseAmount(amount, locale) || 0;
   const [date, setDate] = useState(expense?.date || getToday());
   const [payerId, setPayerId] = useState(expense?.payerId || lastPayerId || '');
   const [notes, setNotes] = useState(expense?.notes || '');
   const [tags, setTags] = useState(expense?.tags || '');
+  const [repeat, setRepeat] = useState<RecurringExpense['frequency'] | ''>('');
   const [loading, setLoading] = useState(false);
   const [showMoreOptions, setShowMoreOptions] = useState(false);
-  const [attachedImage, setAttachedImage] = useState<Blob | null>(null);
-  const [imagePreviewUrl, setImagePreviewUrl] = useState<string | null>(null);
+  // Photos and documents picked here, saved with the expense
+  const [newAttachments, setNewAttachments] = useState<{ key: string; blob: Blob }[]>([]);
+  // The expense's saved attachments still kept (null until one is removed)
+  const [keptAttachmentIds, setKeptAttachmentIds] = useState<string[] | null>(null);
+  const existingAttachmentIds = keptAttachmentIds ?? (expense ? getAttachmentIds(expense) : []);
+  // Fields filled from a receipt scan the parser wasn't sure about
+  const [uncertainFields, setUncertainFields] = useState<ScannedField[]>([]);
+  const needsCheck = (field: ScannedField) => uncertainFields.includes(field);
+  const markChecked = (field: ScannedField) => {
+    if (needsCheck(field)) setUncertainFields(prev => prev.filter(f => f !== field));
+  };
+  // Split editor: until the user edits it, follow the expense being edited (or everyone)
+  const [splitInput, setSplitInput] = useState<SplitInput | null>(null);
+  const [splitEditorKey, setSplitEditorKey] = useState(0);
+  const peopleIds = useMemo(() => people.map(p => p.id), [people]);
+  const split = useMemo(
+    () => splitInput ?? splitInputFromExpense(expense, peopleIds),
+    [splitInput, expense, peopleIds]
+  );
+  const showSplitEditor = isSharedMode && people.length > 0;
+  // Foreign currency: amounts are entered as paid and converted to the base currency on save
+  const isForeign = currencyCode !== baseCode;
+  const rate = isForeign ? getRate(currencyCode, baseCode, rates) : 1;
+  const currencySymbol = getCurrencySymbol(currencyCode);
   
   // Templates state
   const [templates, setTemplates] = useState<Template[]>([]);
@@ -53,45 +101,18 @@ export function ExpenseForm({ expense, onSuccess }: ExpenseFormProps) {
   
   const amountInputRef = useRef<HTMLInputElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
-  const previewUrlRef = useRef<string | null>(null);
-
-  // Create preview URL when image changes
-  const updatePreviewUrl = useCallback((blob: Blob | null) => {
-    // Revoke old URL
-    if (previewUrlRef.current) {
-      URL.revokeObjectURL(previewUrlRef.current);
-      previewUrlRef.current = null;
-    }
-    
-    // Create new URL
-    if (blob) {
-      const url = URL.createObjectURL(blob);
-      previewUrlRef.current = url;
-      setImagePreviewUrl(url);
-    } else {
-      setImagePreviewUrl(null);
-    }
-  }, []);
-
-  // Cleanup on unmount
-  useEffect(() => {
-    return () => {
-      if (previewUrlRef.current) {
-        URL.revokeObjectURL(previewUrlRef.current);
-      }
-    };
-  }, []);
 
   // Sync form state when expense prop changes (e.g. async load for edit)
   useEffect(() => {
     if (!expense) return;
     setDescription(expense.description || '');
-    setAmount(expense.amount?.toString() || '');
+    setAmount(toAmountInput(expense.originalAmount ?? expense.amount, expense.currency || baseCode, locale));
+    setCurrencyCode(expense.currency || baseCode);
     setDate(expense.date || getToday());
     setPayerId(expense.payerId || lastPayerId || '');
     setNotes(expense.notes || '');
     setTags(expense.tags || '');
-  }, [expense?.id, expense?.description, expense?.amount, expense?.date, expense?.payerId, expense?.notes, expense?.tags, lastPayerId]);
+  }, [expense?.id, expense?.description, expense?.amount, expense?.originalAmount, expense?.currency, expense?.date, expense?.payerId, expense?.notes, expense?.tags, lastPayerId]);
 
   // Set default payer when adding in shared mode
   useEffect(() => {
@@ -143,7 +164,7 @@ export function ExpenseForm({ expense, onSuccess }: ExpenseFormProps) {
 
   const applyTemplate = async (template: Template) => {
     haptic('light');
-    if (template.amount) setAmount(template.amount.toString());
+    if (template.amount) setAmount(toAmountInput(template.amount, currencyCode, locale));
     setDescription(template.description);
     if (template.payerId) setPayerId(template.payerId);
     
@@ -163,7 +184,7 @@ export function ExpenseForm({ expense, onSuccess }: ExpenseFormProps) {
     try {
       await db.addTemplate({
         description: description.trim(),
-        amount: amount ? parseFloat(amount) : undefined,
+        amount: amountValue || undefined,
         payerId: isSharedMode ? payerId : undefined
       });
       showSuccess('Template saved!');
@@ -185,46 +206,65 @@ export function ExpenseForm({ expense, onSuccess }: ExpenseFormProps) {
     }
   };
 
-  const handleImageSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
+  const handleAttachmentSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    // Reset file input so same file can be selected again
+    e.target.value = '';
+    if (files.length === 0) return;
     
     haptic('light');
-    setAttachedImage(file);
-    updatePreviewUrl(file);
+    // Only the first receipt added fills in the form
+    const scan = newAttachments.length === 0;
+    setNewAttachments(prev => [...prev, ...files.map(blob => ({ key: generateId(), blob }))]);
+    if (!scan) return;
     
-    // Process OCR to extract data
-    const result = await processOCR(file);
+    // Read the receipt (text layer or OCR) to extract data
+    const result = await processOCR(files[0]);
+    const filled: ScannedField[] = [];
     
     if (result.amount && !amount) {
-      setAmount(result.amount.toString());
+      // Take the receipt's currency along with its amount
+      const code = result.currency && CURRENCIES.some(c => c.code === result.currency)
+        ? result.currency
+        : currencyCode;
+      if (code !== currencyCode) {
+        setCurrencyCode(code);
+        filled.push('currency');
+      }
+      setAmount(toAmountInput(result.amount, code, locale));
+      filled.push('amount');
     }
     if (result.description && !description) {
       setDescription(result.description);
+      filled.push('description');
     }
     if (result.date) {
       setDate(result.date);
+      filled.push('date');
     }
+    setUncertainFields(filled.filter(field => result.fieldConfidence[field] < LOW_CONFIDENCE));
     
     if (result.amount) {
       haptic('success');
       showSuccess('Receipt scanned!');
     }
-    
-    // Reset file input so same file can be selected again
-    e.target.value = '';
   };
 
-  const handleRemoveImage = () => {
+  const handleRemoveAttachment = (key: string) => {
+    haptic('light');
+    setNewAttachments(prev => prev.filter(a => a.key !== key));
+    if (newAttachments[0]?.key === key) setUncertainFields([]);
+  };
+
+  const handleRemoveExisting = (id: string) => {
     haptic('light');
-    setAttachedImage(null);
-    updatePreviewUrl(null);
+    setKeptAttachmentIds(existingAttachmentIds.filter(a => a !== id));
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
-    const amountNum = parseFloat(amount);
+    const amountNum = parseAmount(amount, locale);
     
     // Validation
     if (!amountNum || amountNum <= 0) {
@@ -248,38 +288,81 @@ export function ExpenseForm({ expense, onSuccess }: ExpenseFormProps) {
       haptic('error');
       return;
     }
+    const splitError = showSplitEditor ? computeSplit(amountNum, split, getCurrencyDigits(currencyCode)).error : null;
+    if (splitError) {
+      showError(splitError);
+      haptic('error');
+      return;
+    }
+    if (rate === null) {
+      showError(`Add an exchange rate for ${currencyCode} in Settings`);
+      haptic('error');
+      return;
+    }
+    // Keep the original conversion when an existing expense's amount didn't change
+    const unchanged = expense && expense.currency === currencyCode && expense.originalAmount === amountNum;
+    const baseAmount = unchanged
+      ? expense.amount
+      : isForeign ? convertAmount(amountNum, currencyCode, baseCode, rates)! : amountNum;
+    const enteredSplitFields = showSplitEditor
+      ? buildSplitFields(amountNum, split, peopleIds, getCurrencyDigits(currencyCode))
+      : { splitType: 'equal' as const };
+    const splitFields = isForeign ? toBaseSplitFields(enteredSplitFields, baseAmount, getCurrencyDigits(baseCode)) : enteredSplitFields;
+    const currencyFields = { amount: baseAmount, currency: currencyCode, originalAmount: amountNum };
 
     setLoading(true);
     haptic('light');
 
     try {
-      // Save image if attached
-      let imageId: string | undefined;
-      if (attachedImage) {
-        imageId = await saveImage(attachedImage);
+      // Save new attachments after the ones the expense already had
+      const attachmentIds = [...existingAttachmentIds];
+      for (const { blob } of newAttachments) {
+        // The same file attached twice is stored (and listed) once
+        const id = await saveAttachment(blob);
+        if (!attachmentIds.includes(id)) attachmentIds.push(id);
       }
+      // `imageId` keeps the first one visible to devices on older versions
+      const attachmentFields = { attachmentIds, imageId: attachmentIds[0] };
 
       if (expense) {
         await updateExpense(expense.id, {
           description: description.trim(),
-          amount: amountNum,
+          ...currencyFields,
           date,
           payerId: isSharedMode ? payerId : undefined,
           notes: notes.trim() || undefined,
           tags: tags.trim() || undefined,
-          imageId: imageId || expense.imageId
+          ...attachmentFields,
+          ...(showSplitEditor && splitFields)
         });
         showSuccess(isConnected ? 'Updated · synced' : 'Updated!');
       } else {
+        // Repeating expenses: this one is the first occurrence, the rule creates the rest
+        const rule = repeat
+          ? await addRule({
+              description: description.trim(),
+              ...currencyFields,
+              frequency: repeat,
+              anchorDate: date,
+              nextDue: getNextOccurrence(date, repeat, date),
+              payerId: isSharedMode ? payerId : undefined,
+              ...splitFields,
+              notes: notes.trim() || undefined,
+              tags: tags.trim() || undefined
+            })
+          : undefined;
+
         await addExpense({
           description: description.trim(),
-          amount: amountNum,
+          ...currencyFields,
           date,
           payerId: isSharedMode ? payerId : undefined,
-          splitType: 'equal',
+          ...splitFields,
           notes: notes.trim() || undefined,
           tags: tags.trim() || undefined,
-          imageId
+          ...(attachmentIds.length > 0 && attachmentFields),
+          recurring: rule?.frequency,
+          recurringId: rule?.id
         });
 
         if (payerId) {
@@ -304,42 +387,62 @@ export function ExpenseForm({ expense, onSuccess }: ExpenseFormProps) {
     }
   };
 
-  const formatDisplayAmount = (val: string) => {
-    if (!val) return '0';
-    const num = parseFloat(val);
-    if (isNaN(num)) return '0';
-    return num.toLocaleString('en-US', { minimumFractionDigits: 0, maximumFractionDigits: 2 });
-  };
-
   return (
-    <form onSubmit={handleSubmit} className="pb-2">
+    <form onSubmit={handleSubmit} onInput={notifyTyping} className="pb-2">
       {/* Amount Section - Hero */}
       <div className="bg-gradient-to-br from-[var(--teal-green)] to-[var(--primary)] text-white px-6 py-8 text-center">
         <div className="text-sm opacity-80 mb-2">Amount</div>
-        <div className="flex items-center justify-center gap-1">
-          <span className="text-4xl font-light">{currency}</span>
+        <div className={cn(
+          'flex items-center justify-center gap-1 rounded-xl',
+          needsCheck('amount') && 'ring-2 ring-amber-400'
+        )}>
+          <span className="text-4xl font-light">{currencySymbol}</span>
           <input
             ref={amountInputRef}
             type="text"
             inputMode="decimal"
             value={amount}
             onChange={e => {
-              const val = e.target.value.replace(/[^0-9.]/g, '');
-              // Only allow one decimal point
-              const parts = val.split('.');
-              if (parts.length > 2) return;
-              if (parts[1]?.length > 2) return;
-              setAmount(val);
+              // One decimal separator, no more decimals than the currency has
+              const val = sanitizeAmountInput(e.target.value, getCurrencyDigits(currencyCode), locale);
+              if (val !== null) setAmount(val);
+              markChecked('amount');
             }}
             placeholder="0"
             className="bg-transparent border-none outline-none text-5xl font-bold text-center w-40 placeholder:text-white/40"
           />
         </div>
-        {amount && parseFloat(amount) > 0 && (
+        {(needsCheck('amount') || needsCheck('currency')) && (
+          <div className="text-[13px] text-amber-200 mt-2">
+            Check the {needsCheck('amount') ? 'amount' : 'currency'} – the receipt was hard to read
+          </div>
+        )}
+        {amountValue > 0 && (
           <div className="text-sm opacity-70 mt-2">
-            {currency}{formatDisplayAmount(amount)}
+            {formatMoney(amountValue, currencyCode, locale)}
+            {isForeign && rate !== null && ` ≈ ${formatMoney(convertAmount(amountValue, currencyCode, baseCode, rates)!, baseCode, locale)}`}
           </div>
         )}
+        <div className="mt-2 flex items-center justify-center gap-2 text-sm">
+          <select
+            value={currencyCode}
+            onChange={e => { setCurrencyCode(e.target.value); markChecked('currency'); }}
+            className={cn(
+              'bg-white/20 rounded-full px-3 py-1 text-white text-[13px] font-medium outline-none',
+              needsCheck('currency') && 'ring-2 ring-amber-400'
+            )}
+            aria-label="Currency"
+          >
+            {CURRENCIES.map(c => (
+              <option key={c.code} value={c.code} className="text-black">{c.code}</option>
+            ))}
+          </select>
+          {isForeign && (
+            <span className="opacity-80 text-[13px]">
+              {rate !== null ? `1 ${currencyCode} = ${rate.toFixed(4)} ${baseCode}` : 'No exchange rate set'}
+            </span>
+          )}
+        </div>
         {/* Quick amount chips */}
         {!expense && (
           <div className="flex flex-wrap justify-center gap-2 mt-4 px-2">
@@ -347,7 +450,7 @@ export function ExpenseForm({ expense, onSuccess }: ExpenseFormProps) {
               <button
                 key={n}
                 type="button"
-                onClick={() => { haptic('light'); setAmount(prev => (parseFloat(prev || '0') + n).toString()); }}
+                onClick={() => { haptic('light'); setAmount(prev => toAmountInput((parseAmount(prev, locale) || 0) + n, currencyCode, locale)); }}
                 className="px-3 py-1.5 rounded-full text-[13px] font-medium bg-white/20 text-white active:bg-white/30"
               >
                 +{n}
@@ -357,36 +460,42 @@ export function ExpenseForm({ expense, onSuccess }: ExpenseFormProps) {
         )}
       </div>
 
-      {/* Existing receipt (edit mode) */}
-      {expense?.imageId && !attachedImage && (
-        <div className="mx-4 mt-4 px-4 py-3 rounded-xl bg-[var(--white)] border border-[var(--border)] flex items-center gap-3">
-          <span className="text-2xl">🧾</span>
-          <span className="text-[15px] text-[var(--text-secondary)]">Receipt attached</span>
-        </div>
-      )}
-
-      {/* Image Preview */}
-      {attachedImage && imagePreviewUrl && (
-        <div className="relative mx-4 mt-4">
-          <div className="relative rounded-xl overflow-hidden bg-[var(--bg)]">
-            <img
-              src={imagePreviewUrl}
-              alt="Receipt"
-              className="w-full h-40 object-cover"
-            />
-            {isProcessing && (
-              <div className="absolute inset-0 bg-black/60 flex flex-col items-center justify-center">
-                <div className="w-12 h-12 border-3 border-white border-t-transparent rounded-full animate-spin mb-2" />
-                <span className="text-white text-sm">Scanning... {ocrProgress}%</span>
+      {/* Attachments: saved ones (edit mode) first, then the ones added here */}
+      {(existingAttachmentIds.length > 0 || newAttachments.length > 0) && (
+        <div className="mx-4 mt-4">
+          <div className="flex gap-2 overflow-x-auto pb-1">
+            {existingAttachmentIds.map(id => (
+              <div key={id} className="relative">
+                <AttachmentThumb id={id} className="w-24 h-24 rounded-xl" />
+                <button
+                  type="button"
+                  onClick={() => handleRemoveExisting(id)}
+                  className="absolute top-1 right-1 w-7 h-7 rounded-full bg-black/60 text-white text-sm flex items-center justify-center active:scale-95"
+                  aria-label="Remove attachment"
+                >
+                  ✕
+                </button>
               </div>
-            )}
-            <button
-              type="button"
-              onClick={handleRemoveImage}
-              className="absolute top-2 right-2 w-8 h-8 rounded-full bg-black/60 text-white flex items-center justify-center active:scale-95"
-            >
-              ✕
-            </button>
+            ))}
+            {newAttachments.map(({ key, blob }, index) => (
+              <div key={key} className="relative">
+                <AttachmentThumb blob={blob} className="w-24 h-24 rounded-xl" />
+                {index === 0 && isProcessing && (
+                  <div className="absolute inset-0 rounded-xl bg-black/60 flex flex-col items-center justify-center">
+                    <div className="w-8 h-8 border-3 border-white border-t-transparent rounded-full animate-spin mb-1" />
+                    <span className="text-white text-xs">{ocrProgress}%</span>
+                  </div>
+                )}
+                <button
+                  type="button"
+                  onClick={() => handleRemoveAttachment(key)}
+                  className="absolute top-1 right-1 w-7 h-7 rounded-full bg-black/60 text-white text-sm flex items-center justify-center active:scale-95"
+                  aria-label="Remove attachment"
+                >
+                  ✕
+                </button>
+              </div>
+            ))}
           </div>
         </div>
       )}
@@ -415,7 +524,7 @@ export function ExpenseForm({ expense, onSuccess }: ExpenseFormProps) {
                 <span className="text-sm font-medium truncate max-w-[100px]">{template.description}</span>
                 {template.amount && (
                   <span className="text-xs text-[var(--teal-green)] font-semibold">
-                    {currency}{template.amount}
+                    {formatMoney(template.amount, baseCode, locale)}
                   </span>
                 )}
               </button>
@@ -427,15 +536,16 @@ export function ExpenseForm({ expense, onSuccess }: ExpenseFormProps) {
       {/* Main Form Fields */}
       <div className="bg-[var(--white)] divide-y divide-[var(--border)]">
         {/* Description with past-description suggestions */}
-        <div className="px-4 py-3 relative">
+        <div className={cn('px-4 py-3 relative', needsCheck('description') && 'bg-amber-500/10')}>
           <label className="text-xs text-[var(--text-secondary)] uppercase tracking-wide mb-1 block">
             Description
+            {needsCheck('description') && <span className="normal-case tracking-normal text-amber-600 ml-2">Check – scanned</span>}
           </label>
           <input
             ref={descriptionInputRef}
             type="text"
             value={description}
-            onChange={e => setDescription(e.target.value)}
+            onChange={e => { setDescription(e.target.value); markChecked('description'); }}
             onFocus={() => setShowDescriptionSuggestions(true)}
             onBlur={() => setTimeout(() => setShowDescriptionSuggestions(false), 180)}
             placeholder="What was this for?"
@@ -466,14 +576,15 @@ export function ExpenseForm({ expense, onSuccess }: ExpenseFormProps) {
         </div>
 
         {/* Date */}
-        <div className="px-4 py-3">
+        <div className={cn('px-4 py-3', needsCheck('date') && 'bg-amber-500/10')}>
           <label className="text-xs text-[var(--text-secondary)] uppercase tracking-wide mb-1 block">
             Date
+            {needsCheck('date') && <span className="normal-case tracking-normal text-amber-600 ml-2">Check – scanned</span>}
           </label>
           <input
             type="date"
             value={date}
-            onChange={e => setDate(e.target.value)}
+            onChange={e => { setDate(e.target.value); markChecked('date'); }}
             className="w-full min-h-[48px] bg-transparent border-none outline-none text-[16px] py-2"
           />
         </div>
@@ -499,6 +610,30 @@ export function ExpenseForm({ expense, onSuccess }: ExpenseFormProps) {
             </select>
           </div>
         )}
+
+        {/* Split (shared mode only) */}
+        {showSplitEditor && (
+          <div>
+            <SplitPresetPicker
+              people={people}
+              split={split}
+              onApply={(preset) => {
+                setSplitInput(preset);
+                // Remount so typed drafts don't mask the preset's values
+                setSplitEditorKey(k => k + 1);
+              }}
+            />
+            <SplitEditor
+              key={splitEditorKey}
+              total={amountValue}
+              people={people}
+              value={split}
+              onChange={setSplitInput}
+              currency={currencyCode}
+              payerId={payerId || undefined}
+            />
+          </div>
+        )}
       </div>
 
       {/* More Options Toggle */}
@@ -514,6 +649,25 @@ export function ExpenseForm({ expense, onSuccess }: ExpenseFormProps) {
       {/* Additional Options */}
       {showMoreOptions && (
         <div className="bg-[var(--white)] divide-y divide-[var(--border)] animate-fadeIn">
+          {/* Repeat (new expenses only; existing rules are managed on the Recurring screen) */}
+          {!expense && (
+            <div className="px-4 py-3">
+              <label className="text-xs text-[var(--text-secondary)] uppercase tracking-wide mb-1 block">
+                Repeat
+              </label>
+              <select
+                value={repeat}
+                onChange={e => setRepeat(e.target.value as RecurringExpense['frequency'] | '')}
+                className="w-full bg-transparent border-none outline-none text-[16px]"
+              >
+                <option value="">Never</option>
+                {(Object.keys(FREQUENCY_LABELS) as RecurringExpense['frequency'][]).map(f => (
+                  <option key={f} value={f}>{FREQUENCY_LABELS[f]}</option>
+                ))}
+              </select>
+            </div>
+          )}
+
           {/* Tags */}
           <div className="px-4 py-3">
             <label className="text-xs text-[var(--text-secondary)] uppercase tracking-wide mb-1 block">
@@ -548,8 +702,9 @@ export function ExpenseForm({ expense, onSuccess }: ExpenseFormProps) {
       <input
         ref={fileInputRef}
         type="file"
-        accept="image/*"
-        onChange={handleImageSelect}
+        accept={ATTACHMENT_ACCEPT}
+        multiple
+        onChange={handleAttachmentSelect}
         className="hidden"
       />
 
@@ -569,10 +724,22 @@ export function ExpenseForm({ expense, onSuccess }: ExpenseFormProps) {
           className="flex-1 flex items-center justify-center gap-2 py-3 bg-[var(--white)] rounded-xl text-[var(--text-secondary)] active:bg-[var(--bg)] transition-colors"
         >
           <span className="text-xl">🖼️</span>
-          <span className="text-[14px]">Add photo</span>
+          <span className="text-[14px]">Attach file</span>
         </button>
       </div>
 
+      {!expense && (
+        <div className="px-4 pb-4 -mt-2 text-center">
+          <button
+            type="button"
+            onClick={() => navigate('/import')}
+            className="text-[var(--teal-green)] text-sm font-medium"
+          >
+            Import many receipts
+          </button>
+        </div>
+      )}
+
       {/* Save as Template Button */}
       {!expense && (
         <div className="px-4 pb-4">
@@ -615,7 +782,7 @@ export function ExpenseForm({ expense, onSuccess }: ExpenseFormProps) {
                 <div className="flex-1 min-w-0">
                   <div className="font-medium truncate">{template.description}</div>
                   <div className="text-sm text-[var(--text-secondary)]">
-                    {template.amount ? `${currency}${template.amount}` : 'No amount'}
+                    {template.amount ? formatMoney(template.amount, baseCode, locale) : 'No amount'}
                     {template.useCount > 0 && ` · Used ${template.useCount}x`}
                   </div>
                 </div>
@@ -2,6 +2,8 @@ import { useState, useRef, useEffect, useCallback } from 'react';
 import type { Expense } from '@/types';
 import { formatDate } from '@/types';
 import { cn, haptic } from '@/lib/utils';
+import { getCurrencyCode, formatOriginalAmount } from '@/lib/currency';
+import { getAttachmentIds } from '@/lib/attachments';
 import { useSettingsStore } from '@/stores/settingsStore';
 import { usePeopleStore } from '@/stores/peopleStore';
 import { useAccountStore } from '@/stores/accountStore';
@@ -32,6 +34,8 @@ export function ExpenseItem({
   canDelete = true
 }: ExpenseItemProps) {
   const formatAmount = useSettingsStore(s => s.formatAmount);
+  const baseCode = getCurrencyCode(useSettingsStore(s => s.getCurrency()));
+  const locale = useAccountStore(s => s.getLocale());
   const getPersonName = usePeopleStore(s => s.getPersonName);
   const isSharedMode = useAccountStore(s => s.isSharedMode());
   const isConnected = useSyncStore(s => s.isConnected);
@@ -51,17 +55,23 @@ export function ExpenseItem({
   const thumbnailUrlRef = useRef<string | null>(null);
 
   const payerName = isSharedMode && expense.payerId ? getPersonName(expense.payerId) : '';
+  const originalAmount = formatOriginalAmount(expense, baseCode, locale);
   const initial = expense.description?.trim().charAt(0)?.toUpperCase() || '•';
 
-  // Load thumbnail for expenses with images; if missing and shared+connected, request from peers
+  const attachmentIds = getAttachmentIds(expense);
+  // First attachment is the one shown in the list
+  const firstAttachmentId = attachmentIds[0];
+  const transferProgress = useSyncStore(s => (firstAttachmentId ? s.imageProgress[firstAttachmentId] : undefined));
+
+  // Load thumbnail for expenses with attachments; if missing and shared+connected, request from peers
   const loadThumbnail = useCallback(async () => {
-    if (!expense.imageId) return;
-    const imageId = expense.imageId;
+    if (!firstAttachmentId) return;
+    const imageId = firstAttachmentId;
     try {
       let image = await db.getImage(imageId);
       if (!image?.thumbnail && isSharedMode && isConnected) {
         setThumbnailLoading(true);
-        await requestImage(imageId);
+        await requestImage(imageId, { thumbnailOnly: true });
         image = await db.getImage(imageId);
       }
       if (image?.thumbnail) {
@@ -75,7 +85,7 @@ export function ExpenseItem({
     } finally {
       setThumbnailLoading(false);
     }
-  }, [expense.imageId, isSharedMode, isConnected, requestImage]);
+  }, [firstAttachmentId, isSharedMode, isConnected, requestImage]);
 
   useEffect(() => {
     loadThumbnail();
@@ -252,12 +262,18 @@ export function ExpenseItem({
             <div className="w-5 h-5 border-2 border-[var(--teal-green)] border-t-transparent rounded-full animate-spin" />
           </div>
         ) : thumbnailUrl ? (
-          <div className="w-11 h-11 rounded-xl overflow-hidden flex-shrink-0">
+          <div className="relative w-11 h-11 rounded-xl overflow-hidden flex-shrink-0">
             <img 
               src={thumbnailUrl} 
               alt="" 
               className="w-full h-full object-cover"
             />
+            {/* Receipt still downloading from a peer */}
+            {transferProgress !== undefined && (
+              <div className="absolute inset-x-0 bottom-0 h-1 bg-black/30">
+                <div className="h-full bg-[var(--teal-green)]" style={{ width: `${Math.round(transferProgress * 100)}%` }} />
+              </div>
+            )}
           </div>
         ) : (
           <div className="w-11 h-11 rounded-xl bg-[var(--bg)] flex items-center justify-center text-lg font-semibold text-[var(--text-secondary)] flex-shrink-0">
@@ -274,13 +290,18 @@ export function ExpenseItem({
             {payerName && `${payerName} • `}
             {formatDate(expense.date)}
             {expense.recurring && ' • 🔄'}
-            {expense.imageId && ' • 📎'}
+            {attachmentIds.length > 0 && ` • 📎${attachmentIds.length > 1 ? attachmentIds.length : ''}`}
           </div>
         </div>
         
         {/* Amount */}
-        <div className="font-semibold text-[16px] flex-shrink-0">
-          {formatAmount(expense.amount)}
+        <div className="text-right flex-shrink-0">
+          <div className="font-semibold text-[16px]">
+            {formatAmount(expense.amount)}
+          </div>
+          {originalAmount && (
+            <div className="text-[12px] text-[var(--text-secondary)]">{originalAmount}</div>
+          )}
         </div>
         
         {/* Sync indicator */}
@@ -9,6 +9,7 @@ import { useSettingsStore } from '@/stores/settingsStore';
 import { useSyncStore } from '@/stores/syncStore';
 import { useToast } from '@/components/ui';
 import { canDeleteExpense } from '@/lib/policies';
+import { sumMoney } from '@/lib/money';
 
 interface ExpenseListProps {
   expenses: Expense[];
@@ -26,6 +27,7 @@ export function ExpenseList({ expenses, loading, newExpenseId, isFilteredEmpty,
   const deleteExpense = useExpenseStore(s => s.deleteExpense);
   const duplicateExpense = useExpenseStore(s => s.duplicateExpense);
   const formatAmount = useSettingsStore(s => s.formatAmount);
+  const currencyDigits = useSettingsStore(s => s.getCurrencyDigits());
   const isConnected = useSyncStore(s => s.isConnected);
   const currentAccount = useAccountStore(s => s.getCurrentAccount());
   const deviceId = useSyncStore(s => s.deviceId);
@@ -66,33 +68,33 @@ export function ExpenseList({ expenses, loading, newExpenseId, isFilteredEmpty,
       groups.push({
         label: 'Today',
         expenses: todayExpenses,
-        total: todayExpenses.reduce((sum, e) => sum + e.amount, 0)
+        total: sumMoney(todayExpenses.map(e => e.amount), currencyDigits)
       });
     }
     if (yesterdayExpenses.length > 0) {
       groups.push({
         label: 'Yesterday',
         expenses: yesterdayExpenses,
-        total: yesterdayExpenses.reduce((sum, e) => sum + e.amount, 0)
+        total: sumMoney(yesterdayExpenses.map(e => e.amount), currencyDigits)
       });
     }
     if (thisWeekExpenses.length > 0) {
       groups.push({
         label: 'This Week',
         expenses: thisWeekExpenses,
-        total: thisWeekExpenses.reduce((sum, e) => sum + e.amount, 0)
+        total: sumMoney(thisWeekExpenses.map(e => e.amount), currencyDigits)
       });
     }
     if (earlierExpenses.length > 0) {
       groups.push({
         label: 'Earlier',
         expenses: earlierExpenses,
-        total: earlierExpenses.reduce((sum, e) => sum + e.amount, 0)
+        total: sumMoney(earlierExpenses.map(e => e.amount), currencyDigits)
       });
     }
 
     return groups;
-  }, [expenses]);
+  }, [expenses, currencyDigits]);
 
   const handleDelete = async (id: string) => {
     try {
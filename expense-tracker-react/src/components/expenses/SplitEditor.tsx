@@ -0,0 +1,156 @@
+import { useMemo, useState } from 'react';
+import type { Person, SplitMode } from '@/types';
+import { computeSplit, SPLIT_MODE_LABELS, type SplitInput } from '@/lib/splits';
+import { haptic, cn } from '@/lib/utils';
+import { formatMoney, sanitizeAmountInput, parseAmount, getCurrencyDigits } from '@/lib/format';
+import { getCurrencySymbol } from '@/lib/currency';
+import { useAccountStore } from '@/stores/accountStore';
+
+interface SplitEditorProps {
+  total: number;
+  people: Person[];
+  value: SplitInput;
+  onChange: (value: SplitInput) => void;
+  /** ISO code of the currency the total is in */
+  currency: string;
+  /** Who paid - gets the uneven minor units of an equal split */
+  payerId?: string;
+}
+
+const MODES: SplitMode[] = ['equal', 'exact', 'percent', 'shares'];
+
+export function SplitEditor({ total, people, value, onChange, currency, payerId }: SplitEditorProps) {
+  // Raw text per person so partially typed numbers ("12.") survive re-renders
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const { mode, participants, values } = value;
+  const locale = useAccountStore(s => s.getLocale());
+
+  const digits = getCurrencyDigits(currency);
+  const result = useMemo(() => computeSplit(total, value, digits, payerId), [total, value, digits, payerId]);
+
+  const setMode = (next: SplitMode) => {
+    if (next === mode) return;
+    haptic('light');
+    setDrafts({});
+    const nextValues: Record<string, number> = {};
+    if (next === 'shares') {
+      participants.forEach(id => { nextValues[id] = 1; });
+    }
+    onChange({ mode: next, participants, values: nextValues });
+  };
+
+  const toggleParticipant = (id: string) => {
+    haptic('light');
+    const included = participants.includes(id);
+    const nextParticipants = included
+      ? participants.filter(p => p !== id)
+      : [...participants, id];
+    const nextValues = { ...values };
+    if (included) {
+      delete nextValues[id];
+    } else if (mode === 'shares') {
+      nextValues[id] = 1;
+    }
+    setDrafts(prev => {
+      const next = { ...prev };
+      delete next[id];
+      return next;
+    });
+    onChange({ mode, participants: nextParticipants, values: nextValues });
+  };
+
+  const setPersonValue = (id: string, text: string) => {
+    const cleaned = sanitizeAmountInput(text, mode === 'exact' ? digits : 2, locale);
+    if (cleaned === null) return;
+    setDrafts(prev => ({ ...prev, [id]: cleaned }));
+    const num = parseAmount(cleaned, locale);
+    onChange({ mode, participants, values: { ...values, [id]: Number.isNaN(num) ? 0 : num } });
+  };
+
+  const unit = mode === 'exact' ? getCurrencySymbol(currency) : mode === 'percent' ? '%' : mode === 'shares' ? '×' : '';
+
+  return (
+    <div className="px-4 py-3">
+      <div className="flex items-center justify-between mb-2">
+        <label className="text-xs text-[var(--text-secondary)] uppercase tracking-wide">
+          Split
+        </label>
+        <div className="flex bg-[var(--bg)] rounded-full p-0.5">
+          {MODES.map(m => (
+            <button
+              key={m}
+              type="button"
+              onClick={() => setMode(m)}
+              className={cn(
+                'px-3 py-1 rounded-full text-[13px] font-medium transition-colors',
+                mode === m ? 'bg-[var(--teal-green)] text-white' : 'text-[var(--text-secondary)]'
+              )}
+            >
+              {SPLIT_MODE_LABELS[m]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="divide-y divide-[var(--border)]">
+        {people.map(person => {
+          const included = participants.includes(person.id);
+          const share = result.details[person.id];
+          return (
+            <div key={person.id} className="flex items-center gap-3 py-2 min-h-[48px]">
+              <button
+                type="button"
+                onClick={() => toggleParticipant(person.id)}
+                className={cn(
+                  'w-6 h-6 rounded-md border-2 flex items-center justify-center text-[13px] flex-shrink-0',
+                  included
+                    ? 'bg-[var(--teal-green)] border-[var(--teal-green)] text-white'
+                    : 'border-[var(--border)]'
+                )}
+                aria-label={included ? `Remove ${person.name} from split` : `Add ${person.name} to split`}
+                aria-pressed={included}
+              >
+                {included && '✓'}
+              </button>
+              <span className={cn('flex-1 min-w-0 truncate text-[15px]', !included && 'text-[var(--text-secondary)]')}>
+                {person.name}
+              </span>
+              {included && mode !== 'equal' && (
+                <div className="flex items-center gap-1 bg-[var(--bg)] rounded-lg px-2">
+                  <input
+                    type="text"
+                    inputMode="decimal"
+                    value={drafts[person.id] ?? (values[person.id] ? String(values[person.id]) : '')}
+                    onChange={e => setPersonValue(person.id, e.target.value)}
+                    placeholder="0"
+                    className="w-16 py-1.5 bg-transparent border-none outline-none text-right text-[15px]"
+                    aria-label={`${person.name} ${SPLIT_MODE_LABELS[mode]}`}
+                  />
+                  <span className="text-[13px] text-[var(--text-secondary)]">{unit}</span>
+                </div>
+              )}
+              {included && mode !== 'exact' && (
+                <span className="w-20 text-right text-[13px] text-[var(--text-secondary)]">
+                  {share != null ? formatMoney(share, currency, locale) : '—'}
+                </span>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className={cn(
+        'text-[13px] mt-2',
+        result.error ? 'text-[var(--danger)]' : 'text-[var(--text-secondary)]'
+      )}>
+        {result.error ?? (
+          mode === 'equal'
+            ? `Split equally between ${participants.length} ${participants.length === 1 ? 'person' : 'people'}`
+            : mode === 'shares'
+              ? `${result.entered} shares in total`
+              : 'Adds up to the total'
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,241 @@
+import { useState } from 'react';
+import type { Person, SplitPreset } from '@/types';
+import { Input, useToast } from '@/components/ui';
+import { Sheet } from '@/components/ui/Modal';
+import { useSplitPresetStore } from '@/stores/splitPresetStore';
+import { presetFromSplitInput, splitInputFromPreset, describePreset, type SplitInput } from '@/lib/splits';
+import { haptic } from '@/lib/utils';
+
+interface SplitPresetPickerProps {
+  people: Person[];
+  /** Current split in the editor (used when saving or updating a preset) */
+  split: SplitInput;
+  onApply: (split: SplitInput) => void;
+}
+
+export function SplitPresetPicker({ people, split, onApply }: SplitPresetPickerProps) {
+  const { showSuccess, showError } = useToast();
+  const presets = useSplitPresetStore(s => s.presets);
+  const addPreset = useSplitPresetStore(s => s.addPreset);
+  const updatePreset = useSplitPresetStore(s => s.updatePreset);
+  const deletePreset = useSplitPresetStore(s => s.deletePreset);
+
+  const [showSave, setShowSave] = useState(false);
+  const [showManage, setShowManage] = useState(false);
+  const [name, setName] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editName, setEditName] = useState('');
+
+  const applyPreset = (preset: SplitPreset) => {
+    const input = splitInputFromPreset(preset, people.map(p => p.id));
+    if (input.participants.length === 0) {
+      showError('Nobody in this preset is in the group anymore');
+      return;
+    }
+    haptic('light');
+    onApply(input);
+    showSuccess(`Applied “${preset.name}”`);
+  };
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      showError('Enter a name for the preset');
+      return;
+    }
+    if (split.participants.length === 0) {
+      showError('Select at least one person to split with');
+      return;
+    }
+    try {
+      await addPreset({ name: name.trim(), ...presetFromSplitInput(split) });
+      haptic('success');
+      showSuccess('Preset saved');
+      setName('');
+      setShowSave(false);
+    } catch (e) {
+      console.error('Failed to save preset:', e);
+      showError('Failed to save preset');
+    }
+  };
+
+  const handleRename = async (preset: SplitPreset) => {
+    if (!editName.trim()) return;
+    try {
+      await updatePreset(preset.id, { name: editName.trim() });
+      setEditingId(null);
+      showSuccess('Preset renamed');
+    } catch {
+      showError('Failed to update preset');
+    }
+  };
+
+  const handleReplaceSplit = async (preset: SplitPreset) => {
+    if (split.participants.length === 0) {
+      showError('Select at least one person to split with');
+      return;
+    }
+    haptic('light');
+    try {
+      await updatePreset(preset.id, presetFromSplitInput(split));
+      showSuccess(`“${preset.name}” updated`);
+    } catch {
+      showError('Failed to update preset');
+    }
+  };
+
+  const handleDelete = async (preset: SplitPreset) => {
+    if (!confirm(`Delete preset “${preset.name}”?`)) return;
+    haptic('light');
+    try {
+      await deletePreset(preset.id);
+      showSuccess('Preset deleted');
+    } catch {
+      showError('Failed to delete preset');
+    }
+  };
+
+  const getName = (id: string) => people.find(p => p.id === id)?.name ?? 'Removed';
+
+  return (
+    <div className="px-4 pt-3">
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-xs text-[var(--text-secondary)] uppercase tracking-wide">Split presets</span>
+        <div className="flex gap-3">
+          {presets.length > 0 && (
+            <button
+              type="button"
+              onClick={() => setShowManage(true)}
+              className="text-xs text-[var(--teal-green)] font-medium"
+            >
+              Edit
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={() => setShowSave(true)}
+            className="text-xs text-[var(--teal-green)] font-medium"
+          >
+            + Save current
+          </button>
+        </div>
+      </div>
+      {presets.length > 0 && (
+        <div className="flex gap-2 overflow-x-auto pb-1 -mx-1 px-1 scrollbar-hide">
+          {presets.map(preset => (
+            <button
+              key={preset.id}
+              type="button"
+              onClick={() => applyPreset(preset)}
+              className="flex-shrink-0 px-3 py-2 bg-[var(--bg)] rounded-full text-sm font-medium truncate max-w-[160px] active:scale-95 transition-transform"
+            >
+              {preset.name}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {/* Save Preset */}
+      <Sheet
+        isOpen={showSave}
+        onClose={() => setShowSave(false)}
+        title="Save Split Preset"
+        actions={
+          <button
+            type="button"
+            onClick={handleSave}
+            className="text-[var(--teal-green)] text-[17px] font-semibold px-2 py-1 -mx-2 rounded-lg active:bg-[var(--teal-green)]/10"
+          >
+            Save
+          </button>
+        }
+      >
+        <div className="p-4 space-y-3">
+          <Input
+            label="Preset Name"
+            value={name}
+            onChange={e => setName(e.target.value)}
+            placeholder="e.g., Rent 60/40"
+            autoFocus
+          />
+          <p className="text-sm text-[var(--text-secondary)]">
+            {describePreset(presetFromSplitInput(split), getName)}
+          </p>
+        </div>
+      </Sheet>
+
+      {/* Manage Presets */}
+      <Sheet
+        isOpen={showManage}
+        onClose={() => { setShowManage(false); setEditingId(null); }}
+        title="Split Presets"
+      >
+        <div className="divide-y divide-[var(--border)]">
+          {presets.length === 0 ? (
+            <div className="p-8 text-center text-[var(--text-secondary)]">
+              No presets yet.
+            </div>
+          ) : (
+            presets.map(preset => (
+              <div key={preset.id} className="p-4">
+                {editingId === preset.id ? (
+                  <div className="flex gap-2">
+                    <input
+                      type="text"
+                      value={editName}
+                      onChange={e => setEditName(e.target.value)}
+                      onKeyDown={e => e.key === 'Enter' && handleRename(preset)}
+                      className="flex-1 px-3 py-2 rounded-lg border border-[var(--border)] bg-[var(--bg)] text-[16px]"
+                      autoFocus
+                    />
+                    <button
+                      type="button"
+                      onClick={() => handleRename(preset)}
+                      className="text-[var(--teal-green)] font-medium px-2"
+                    >
+                      Save
+                    </button>
+                  </div>
+                ) : (
+                  <div className="flex items-center justify-between gap-3">
+                    <div className="flex-1 min-w-0">
+                      <div className="font-medium truncate">{preset.name}</div>
+                      <div className="text-sm text-[var(--text-secondary)] truncate">
+                        {describePreset(preset, getName)}
+                      </div>
+                    </div>
+                    <button
+                      type="button"
+                      onClick={() => handleDelete(preset)}
+                      className="w-10 h-10 flex items-center justify-center text-[var(--danger)] text-xl rounded-full active:bg-[var(--danger)]/10"
+                      aria-label={`Delete ${preset.name}`}
+                    >
+                      ✕
+                    </button>
+                  </div>
+                )}
+                {editingId !== preset.id && (
+                  <div className="flex gap-4 mt-2">
+                    <button
+                      type="button"
+                      onClick={() => { setEditingId(preset.id); setEditName(preset.name); }}
+                      className="text-sm text-[var(--teal-green)] font-medium"
+                    >
+                      Rename
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => handleReplaceSplit(preset)}
+                      className="text-sm text-[var(--teal-green)] font-medium"
+                    >
+                      Use current split
+                    </button>
+                  </div>
+                )}
+              </div>
+            ))
+          )}
+        </div>
+      </Sheet>
+    </div>
+  );
+}
@@ -1,3 +1,6 @@
 export { ExpenseItem } from './ExpenseItem';
 export { ExpenseList } from './ExpenseList';
 export { ExpenseForm } from './ExpenseForm';
+export { SplitEditor } from './SplitEditor';
+export { AttachmentThumb } from './AttachmentThumb';
+export { AttachmentGallery } from './AttachmentGallery';
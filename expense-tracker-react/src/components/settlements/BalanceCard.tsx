@@ -1,30 +1,42 @@
 import type { Balance } from '@/types';
+import { cn } from '@/lib/utils';
 
 interface BalanceCardProps {
+  /** A balance from computeBalances (lib/settlements) */
   balance: Balance;
+  /** What the person paid for expenses, shown under their name */
+  spent?: number;
   formatAmount: (amount: number) => string;
 }
 
-export function BalanceCard({ balance, formatAmount }: BalanceCardProps) {
+export function BalanceCard({ balance, spent, formatAmount }: BalanceCardProps) {
+  const amount = balance.amount;
+
   return (
     <div className="flex items-center gap-3 p-4">
-      <div className="w-10 h-10 rounded-full bg-[var(--teal-green)] text-white flex items-center justify-center font-bold">
+      <div className="w-10 h-10 rounded-full bg-[var(--teal-green)]/10 text-[var(--teal-green)] flex items-center justify-center font-bold">
         {balance.personName.charAt(0).toUpperCase()}
       </div>
       <div className="flex-1">
         <div className="font-medium">{balance.personName}</div>
+        {spent !== undefined && (
+          <div className="text-sm text-[var(--text-secondary)]">
+            Spent {formatAmount(spent)}
+          </div>
+        )}
       </div>
-      <div
-        className={`font-semibold ${
-          balance.amount > 0
-            ? 'text-[var(--teal-green)]'
-            : balance.amount < 0
-              ? 'text-[var(--danger)]'
-              : ''
-        }`}
-      >
-        {balance.amount > 0 ? '+' : ''}
-        {formatAmount(balance.amount)}
+      <div className={cn(
+        'text-sm font-medium text-right',
+        amount > 0 && 'text-[var(--teal-green)]',
+        amount < 0 && 'text-[var(--danger)]'
+      )}>
+        {amount > 0 ? (
+          <>gets back<br/>{formatAmount(amount)}</>
+        ) : amount < 0 ? (
+          <>owes<br/>{formatAmount(-amount)}</>
+        ) : (
+          'settled'
+        )}
       </div>
     </div>
   );
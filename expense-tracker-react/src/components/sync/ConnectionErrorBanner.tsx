@@ -9,7 +9,7 @@ export function ConnectionErrorBanner() {
 
   return (
     <div className="bg-amber-500 text-white px-4 py-2 flex items-center justify-between gap-3 safe-top">
-      <span className="text-sm font-medium truncate flex-1">Connection failed</span>
+      <span className="text-sm font-medium line-clamp-2 flex-1">{connectionError}</span>
       <button
         type="button"
         onClick={() => syncActions?.retryConnection()}
@@ -1,38 +1,89 @@
-import type { AwarenessUser } from '@/sync';
+import type { AwarenessUser, Reachability } from '@/sync';
+import { screenLabel } from '@/sync';
+import { formatRelativeTime } from '@/lib/utils';
+
+export interface DeviceListItem {
+  /** Device id */
+  id: string;
+  name: string;
+  color: string;
+  status: Reachability;
+  /** What the device last told us about itself */
+  presence?: AwarenessUser;
+  /** Last message, disconnect or sync, whichever was latest */
+  lastSeen: number | null;
+  isCreator?: boolean;
+}
 
 interface DeviceListProps {
-  connectedPeers: AwarenessUser[];
+  devices: DeviceListItem[];
+  /** Remove an unreachable device from the group (e.g. a lost phone or cleared browser) */
+  onForget?: (device: DeviceListItem) => void;
+}
+
+function describe(device: DeviceListItem): string {
+  if (device.status === 'connected') {
+    if (device.presence?.typing) return 'Online · typing an expense…';
+    const screen = screenLabel(device.presence?.screen);
+    return screen ? `Online · ${screen}` : 'Online';
+  }
+  if (device.status === 'connecting') return 'Connecting…';
+  return device.lastSeen ? `Last seen ${formatRelativeTime(new Date(device.lastSeen)).toLowerCase()}` : 'Offline';
 }
 
-export function DeviceList({ connectedPeers }: DeviceListProps) {
-  if (connectedPeers.length === 0) {
+export function DeviceList({ devices, onForget }: DeviceListProps) {
+  if (devices.length === 0) {
     return null;
   }
 
+  const reachable = devices.filter(d => d.status === 'connected').length;
+
   return (
-    <div className="px-4 mb-6">
-      <h2 className="text-lg font-semibold mb-3">Connected Peers</h2>
-      <div className="bg-[var(--white)] rounded-xl divide-y divide-[var(--border)]">
-        {connectedPeers.map(peer => (
-          <div
-            key={peer.id}
-            className="flex items-center gap-3 p-4"
-          >
-            <div 
-              className="w-10 h-10 rounded-full flex items-center justify-center text-white font-bold"
-              style={{ backgroundColor: peer.color || '#00A884' }}
-            >
-              {peer.name.charAt(0).toUpperCase()}
-            </div>
-            <div className="flex-1 min-w-0">
-              <div className="font-medium truncate">{peer.name}</div>
-              <div className="flex items-center gap-2 text-sm">
-                <span className="w-2 h-2 rounded-full bg-green-500" />
-                <span className="text-[var(--text-secondary)]">Online</span>
+    <div className="px-4 mb-3">
+      <div className="bg-[var(--white)] rounded-xl shadow-sm">
+        <p className="px-4 pt-3 pb-1 text-[13px] text-[var(--text-secondary)]">
+          Members · {reachable} of {devices.length} reachable
+        </p>
+        <div className="divide-y divide-[var(--border)]">
+          {devices.map(device => (
+            <div key={device.id} className="flex items-center gap-3 px-4 py-3">
+              <div className="relative shrink-0">
+                <div
+                  className="w-9 h-9 rounded-full flex items-center justify-center text-white font-bold"
+                  style={{ backgroundColor: device.color }}
+                >
+                  {device.name.charAt(0).toUpperCase()}
+                </div>
+                <span
+                  className={`absolute -bottom-0.5 -right-0.5 w-3 h-3 rounded-full border-2 border-[var(--white)] ${
+                    device.status === 'connected'
+                      ? 'bg-[var(--teal-green)]'
+                      : device.status === 'connecting'
+                        ? 'bg-amber-500'
+                        : 'bg-[var(--text-secondary)]/40'
+                  }`}
+                />
+              </div>
+              <div className="flex-1 min-w-0">
+                <div className="font-medium text-[15px] truncate">
+                  {device.name}
+                  {device.isCreator && <span className="text-[var(--text-secondary)] font-normal"> · creator</span>}
+                </div>
+                <div className="text-[12px] text-[var(--text-secondary)] truncate">{describe(device)}</div>
               </div>
+              {onForget && device.status === 'unreachable' && !device.isCreator && (
+                <button
+                  type="button"
+                  onClick={() => onForget(device)}
+                  className="shrink-0 text-[13px] text-[var(--text-secondary)] px-2 py-1 rounded-lg active:bg-[var(--bg)]"
+                  aria-label={`Forget ${device.name}`}
+                >
+                  Forget
+                </button>
+              )}
             </div>
-          </div>
-        ))}
+          ))}
+        </div>
       </div>
     </div>
   );
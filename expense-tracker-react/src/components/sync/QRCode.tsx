@@ -1,24 +1,25 @@
 import { useState } from 'react';
 import { QRCodeSVG } from 'qrcode.react';
 import { Button } from '@/components/ui';
+import { generateInviteCode } from '@/lib/invite';
+import type { SignalingServer } from '@/types';
 
 interface QRCodeProps {
   deviceId: string;
   accountId: string;
   accountName: string;
+  /** The account's signaling server, so joiners use it too */
+  signaling?: SignalingServer;
+  /** The group's key: only devices that scanned it can sync */
+  groupKey?: string;
   onCopyCode: () => void;
   showQRByDefault?: boolean;
 }
 
-// Generate QR data in format: et:{accountId}:{deviceId}:{accountName}
-function generateQRData(accountId: string, deviceId: string, accountName: string): string {
-  return `et:${accountId}:${deviceId}:${accountName}`;
-}
-
-export function QRCode({ deviceId, accountId, accountName, onCopyCode, showQRByDefault = false }: QRCodeProps) {
+export function QRCode({ deviceId, accountId, accountName, signaling, groupKey, onCopyCode, showQRByDefault = false }: QRCodeProps) {
   const [showQR, setShowQR] = useState(showQRByDefault);
   
-  const qrData = generateQRData(accountId, deviceId, accountName);
+  const qrData = generateInviteCode(accountId, deviceId, accountName, signaling, groupKey);
 
   return (
     <div className="bg-[var(--white)] rounded-xl p-4">
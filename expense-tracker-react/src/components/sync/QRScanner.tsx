@@ -1,31 +1,14 @@
 import { useRef, useEffect, useState, useCallback } from 'react';
 import jsQR from 'jsqr';
 import { Button } from '@/components/ui';
+import { parseInviteInput, type InviteData } from '@/lib/invite';
 
 interface QRScannerProps {
-  onScan: (data: { accountId: string; deviceId: string; accountName: string }) => void;
+  onScan: (data: InviteData) => void;
   onError: (error: string) => void;
   onCancel: () => void;
 }
 
-// QR format: et:{accountId}:{deviceId}:{accountName}
-function parseQRData(data: string): { accountId: string; deviceId: string; accountName: string } | null {
-  if (!data.startsWith('et:')) {
-    return null;
-  }
-  
-  const parts = data.slice(3).split(':');
-  if (parts.length < 2) {
-    return null;
-  }
-  
-  return {
-    accountId: parts[0],
-    deviceId: parts[1],
-    accountName: parts[2] || 'Shared Group'
-  };
-}
-
 export function QRScanner({ onScan, onError, onCancel }: QRScannerProps) {
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
@@ -74,7 +57,7 @@ export function QRScanner({ onScan, onError, onCancel }: QRScannerProps) {
     });
     
     if (code && code.data) {
-      const parsed = parseQRData(code.data);
+      const parsed = parseInviteInput(code.data);
       if (parsed) {
         stopCamera();
         onScan(parsed);
@@ -1,13 +1,17 @@
 interface SyncStatusProps {
   isConnected: boolean;
   connectedCount: number;
+  /** e.g. syncStore.getLastSyncTimeFormatted() */
   lastSync: string;
+  /** Lost the signaling server and retrying */
+  reconnecting?: boolean;
 }
 
 export function SyncStatus({
   isConnected,
   connectedCount,
-  lastSync
+  lastSync,
+  reconnecting = false
 }: SyncStatusProps) {
   return (
     <div className="bg-[var(--white)] rounded-xl p-4">
@@ -20,12 +24,12 @@ export function SyncStatus({
         <span className="font-medium">
           {isConnected
             ? `Connected (${connectedCount} peer${connectedCount !== 1 ? 's' : ''})`
-            : 'Not connected'}
+            : reconnecting ? 'Reconnecting…' : 'Not connected'}
         </span>
       </div>
 
       <div className="text-sm text-[var(--text-secondary)] mb-2">
-        Status: {lastSync}
+        {lastSync}
       </div>
       
       {isConnected && (
@@ -1,4 +1,5 @@
 export { SyncStatus } from './SyncStatus';
 export { QRCode } from './QRCode';
 export { QRScanner } from './QRScanner';
-export { DeviceList } from './DeviceList';
+export { DeviceList, type DeviceListItem } from './DeviceList';
+export { ConnectionErrorBanner } from './ConnectionErrorBanner';
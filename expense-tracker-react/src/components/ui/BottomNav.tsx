@@ -15,9 +15,10 @@ export function BottomNav() {
   const location = useLocation();
   const isSharedMode = useAccountStore(s => s.isSharedMode());
   
-  // Hide nav on add, camera, expense detail, and person detail pages
+  // Hide nav on add, camera, import, expense detail, and person detail pages
   if (location.pathname === '/add' || 
       location.pathname === '/camera' || 
+      location.pathname === '/import' || 
       location.pathname.startsWith('/expense/') ||
       (location.pathname.startsWith('/people/') && location.pathname !== '/people')) return null;
 
@@ -0,0 +1,38 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useStorageQuota } from '@/hooks/useStorageQuota';
+import { cn } from '@/lib/utils';
+
+/** Warns while device storage is nearly full, before the browser starts refusing writes or evicting data */
+export function StorageWarningBanner() {
+  const estimate = useStorageQuota();
+  const navigate = useNavigate();
+  const [dismissedLevel, setDismissedLevel] = useState<string | null>(null);
+
+  if (!estimate || estimate.level === 'ok' || dismissedLevel === estimate.level) return null;
+  const critical = estimate.level === 'critical';
+
+  return (
+    <div className={cn('text-white px-4 py-2 flex items-center justify-between gap-3 safe-top', critical ? 'bg-[var(--danger)]' : 'bg-amber-500')}>
+      <span className="text-sm font-medium truncate flex-1">
+        {critical ? 'Storage full - new receipts may not save' : 'Storage almost full'}
+      </span>
+      <button
+        type="button"
+        onClick={() => navigate('/settings')}
+        className="flex-shrink-0 px-3 py-1.5 bg-white/20 rounded-lg text-sm font-medium active:bg-white/30"
+      >
+        Free up
+      </button>
+      {/* A critical warning comes back even after the earlier one was dismissed */}
+      <button
+        type="button"
+        onClick={() => setDismissedLevel(estimate.level)}
+        className="flex-shrink-0 text-lg leading-none"
+        aria-label="Dismiss"
+      >
+        ✕
+      </button>
+    </div>
+  );
+}
@@ -14,3 +14,4 @@ export {
   StatsCardSkeleton
 } from './Skeleton';
 export { ErrorBoundary } from './ErrorBoundary';
+export { StorageWarningBanner } from './StorageWarningBanner';
@@ -3,8 +3,12 @@ import { useYjs } from '@/sync';
 import { useExpenseStore } from '@/stores/expenseStore';
 import { usePeopleStore } from '@/stores/peopleStore';
 import { usePaymentStore } from '@/stores/paymentStore';
+import { useSplitPresetStore } from '@/stores/splitPresetStore';
+import { useRecurringStore } from '@/stores/recurringStore';
+import { useSettingsStore } from '@/stores/settingsStore';
+import { useExchangeRateStore } from '@/stores/exchangeRateStore';
 import { useSyncStore } from '@/stores/syncStore';
-import type { Expense, Person, Payment } from '@/types';
+import type { Expense, Person, Payment, SplitPreset, RecurringExpense } from '@/types';
 
 /** Manual refresh + connection retry */
 const SyncActionsContext = createContext<{
@@ -21,21 +25,36 @@ export function SyncActionsProvider({ children }: { children: React.ReactNode })
   const setAllExpenses = useExpenseStore(s => s.setAllExpenses);
   const setPeople = usePeopleStore(s => s.setPeople);
   const setPayments = usePaymentStore(s => s.setPayments);
+  const setPresets = useSplitPresetStore(s => s.setPresets);
+  const setRules = useRecurringStore(s => s.setRules);
+  const setCategoryBudgets = useSettingsStore(s => s.setCategoryBudgets);
+  const setRates = useExchangeRateStore(s => s.setRates);
+  const setAccountCurrency = useSettingsStore(s => s.setAccountCurrency);
 
   const refreshStores = useCallback(() => {
     const yExpenses = ydoc.getArray<Expense>('expenses');
     const yPeople = ydoc.getArray<Person>('people');
     const yPayments = ydoc.getArray<Payment>('payments');
+    const yPresets = ydoc.getArray<SplitPreset>('splitPresets');
+    const yRecurring = ydoc.getArray<RecurringExpense>('recurring');
+    const yBudgets = ydoc.getMap<number>('categoryBudgets');
+    const yRates = ydoc.getMap<number>('exchangeRates');
+    const ySettings = ydoc.getMap<string>('settings');
     setAllExpenses(yExpenses.toArray());
     setPeople(yPeople.toArray());
     setPayments(yPayments.toArray());
-  }, [ydoc, setAllExpenses, setPeople, setPayments]);
+    setPresets(yPresets.toArray());
+    setRules(yRecurring.toArray());
+    setCategoryBudgets(yBudgets.toJSON());
+    setRates(yRates.toJSON());
+    setAccountCurrency(ySettings.get('currency') ?? null);
+  }, [ydoc, setAllExpenses, setPeople, setPayments, setPresets, setRules, setCategoryBudgets, setRates, setAccountCurrency]);
 
   const retryConnection = useCallback(() => {
     const p = useSyncStore.getState().lastConnectParams;
     if (p) {
       disconnect();
-      connect(p.roomName, { deviceId: p.deviceId, hostDeviceId: p.hostDeviceId });
+      connect(p.roomName, { deviceId: p.deviceId, hostDeviceId: p.hostDeviceId, signaling: p.signaling, groupKey: p.groupKey });
     }
   }, [connect, disconnect]);
 
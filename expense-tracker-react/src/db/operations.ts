@@ -9,6 +9,7 @@ import type {
   Tombstone
 } from '@/types';
 import { generateId, getYearMonth } from '@/types';
+import { sha256Hex } from '@/lib/utils';
 
 // ============ EXPENSE OPERATIONS ============
 
@@ -160,18 +161,28 @@ export async function getAllPeople(): Promise<Person[]> {
 
 // ============ IMAGE OPERATIONS ============
 
-export async function addImage(data: Blob, thumbnail: Blob): Promise<ImageRecord> {
-  const db = getDB();
-  const id = generateId();
+/**
+ * Store an attachment under its content hash. Adding a file that's already
+ * stored (the same receipt attached twice) returns the existing record.
+ */
+export async function addImage(data: Blob, thumbnail: Blob, meta: { type?: string; name?: string } = {}): Promise<ImageRecord> {
+  const db = getDB();
+  const id = await sha256Hex(data);
+  const existing = await db.images.get(id);
+  if (existing && !existing.partial) {
+    if (existing.unreferencedAt) await db.images.update(id, { unreferencedAt: undefined });
+    return existing;
+  }
   const imageData: ImageRecord = {
     id,
     data,
     thumbnail,
-    syncId: generateId(),
+    ...meta,
+    syncId: id,
     createdAt: Date.now()
   };
   
-  await db.images.add(imageData);
+  await db.images.put(imageData);
   return imageData;
 }
 
@@ -180,14 +191,23 @@ export async function getImage(id: string): Promise<ImageRecord | undefined> {
   return db.images.get(id);
 }
 
-/** Put image with given id (e.g. when receiving from peer). Use same blob for thumbnail if not provided. */
-export async function putImage(id: string, data: Blob, thumbnail?: Blob): Promise<void> {
+/**
+ * Put image with given id (e.g. when receiving from peer). Use same blob for thumbnail if not provided.
+ * Older attachments have random ids, so the content hash is kept in `syncId` either way.
+ */
+export async function putImage(
+  id: string,
+  data: Blob,
+  thumbnail?: Blob,
+  meta: { type?: string; name?: string; partial?: boolean } = {}
+): Promise<void> {
   const db = getDB();
   const record: ImageRecord = {
     id,
     data,
     thumbnail: thumbnail ?? data,
-    syncId: generateId(),
+    ...meta,
+    syncId: meta.partial ? id : await sha256Hex(data),
     createdAt: Date.now()
   };
   await db.images.put(record);
@@ -211,6 +231,59 @@ export async function getAllImages(): Promise<ImageRecord[]> {
   return db.images.orderBy('createdAt').reverse().toArray();
 }
 
+/** Unused attachments are kept this long, so an expense deleted by mistake can still be restored with them */
+export const IMAGE_GC_GRACE_MS = 7 * 24 * 60 * 60 * 1000;
+/** Attachments this new are never collected: the expense using them may not be saved yet */
+const IMAGE_GC_MIN_AGE_MS = 10 * 60 * 1000;
+
+export function imageBytes(image: ImageRecord): number {
+  return image.data.size + (image.thumbnail === image.data ? 0 : image.thumbnail.size);
+}
+
+/**
+ * Delete attachments no expense uses. `refCounts` says how many expenses use
+ * each attachment (see countAttachmentRefs). An unused attachment is marked
+ * first and only deleted once it has stayed unused for `graceMs`; using it
+ * again clears the mark. Local only - peers collect their own copies.
+ */
+export async function collectUnusedImages(
+  refCounts: Map<string, number>,
+  graceMs = IMAGE_GC_GRACE_MS,
+  now = Date.now()
+): Promise<{ removed: number; freedBytes: number }> {
+  const db = getDB();
+  const mark: string[] = [];
+  const unmark: string[] = [];
+  const remove: string[] = [];
+  let freedBytes = 0;
+
+  await db.images.each(image => {
+    if (refCounts.get(image.id)) {
+      if (image.unreferencedAt) unmark.push(image.id);
+      return;
+    }
+    if (now - image.createdAt < IMAGE_GC_MIN_AGE_MS) return;
+    const since = image.unreferencedAt ?? now;
+    if (now - since >= graceMs) {
+      remove.push(image.id);
+      freedBytes += imageBytes(image);
+    } else if (!image.unreferencedAt) {
+      mark.push(image.id);
+    }
+  });
+
+  if (mark.length || unmark.length || remove.length) {
+    await db.transaction('rw', db.images, async () => {
+      await Promise.all([
+        ...mark.map(id => db.images.update(id, { unreferencedAt: now })),
+        ...unmark.map(id => db.images.update(id, { unreferencedAt: undefined }))
+      ]);
+      await db.images.bulkDelete(remove);
+    });
+  }
+  return { removed: remove.length, freedBytes };
+}
+
 // ============ RECURRING OPERATIONS ============
 
 export async function addRecurring(recurring: Omit<RecurringExpense, 'id' | 'active' | 'createdAt'>): Promise<RecurringExpense> {
@@ -360,13 +433,14 @@ export async function clearOldTombstones(olderThanDays: number = 30): Promise<vo
 
 export async function exportAllData() {
   const db = getDB();
-  const [expenses, people, payments, templates, recurring, categoryBudgets] = await Promise.all([
+  const [expenses, people, payments, templates, recurring, categoryBudgets, splitPresets] = await Promise.all([
     db.expenses.toArray(),
     db.people.toArray(),
     db.payments.toArray(),
     db.templates.toArray(),
     db.recurring.toArray(),
-    db.categoryBudgets.toArray()
+    db.categoryBudgets.toArray(),
+    db.splitPresets.toArray()
   ]);
   
   return {
@@ -376,6 +450,7 @@ export async function exportAllData() {
     templates,
     recurring,
     categoryBudgets,
+    splitPresets,
     exportedAt: new Date().toISOString()
   };
 }
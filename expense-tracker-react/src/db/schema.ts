@@ -38,6 +38,13 @@ export class ExpenseDB extends Dexie {
       splitPresets: 'id',
       tombstones: 'syncId, type, deletedAt'
     });
+
+    // Version 8 - expenses can have several attachments (imageId stays for older devices)
+    this.version(8).stores({}).upgrade(tx =>
+      tx.table<Expense>('expenses').toCollection().modify(expense => {
+        if (expense.imageId && !expense.attachmentIds) expense.attachmentIds = [expense.imageId];
+      })
+    );
   }
 }
 
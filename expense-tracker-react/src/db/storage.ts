@@ -0,0 +1,159 @@
+/**
+ * How much device storage each account uses: attachments in its Dexie
+ * database and the change history in its Yjs database. Other accounts'
+ * databases are opened just to read them. Also watches the browser's quota
+ * and shrinks stored photos to the compression policy.
+ */
+import Dexie from 'dexie';
+import * as Y from 'yjs';
+import type { Expense, ImageCompression } from '@/types';
+import { compressImage, countAttachmentRefs, getAttachmentKind } from '@/lib/attachments';
+import { sha256Hex } from '@/lib/utils';
+import { ExpenseDB, getDB, isDBInitialized } from './schema';
+import { imageBytes } from './operations';
+
+/** Share of the quota in use at which the app warns */
+export const STORAGE_WARNING_RATIO = 0.8;
+/** Share at which the browser may soon refuse writes or evict the app's data */
+export const STORAGE_CRITICAL_RATIO = 0.95;
+/** Recompressing only replaces photos it makes at least this much smaller (each re-encode loses detail) */
+const RECOMPRESS_MIN_SAVING = 0.1;
+
+export interface AccountStorage {
+  accountId: string;
+  attachments: number;
+  attachmentBytes: number;
+  /** Attachments no expense uses; garbage collection removes them */
+  unusedAttachments: number;
+  unusedBytes: number;
+  /** Expenses, people, etc. with their change history */
+  dataBytes: number;
+}
+
+/** Read an account's attachment database, opening it if it isn't the current one */
+async function withExpenseDB<T>(accountId: string, read: (db: ExpenseDB) => Promise<T>): Promise<T | null> {
+  const name = `ExpenseTracker_${accountId}`;
+  if (isDBInitialized() && getDB().name === name) return read(getDB());
+  // Opening a database that doesn't exist would create it
+  if (!(await Dexie.exists(name))) return null;
+  const db = new ExpenseDB(accountId);
+  try {
+    await db.open();
+    return await read(db);
+  } finally {
+    db.close();
+  }
+}
+
+/** Stored Yjs updates of an account (y-indexeddb keeps them in an 'updates' store) */
+async function readYjsUpdates(accountId: string): Promise<Uint8Array[]> {
+  const name = `expense-tracker-yjs-${accountId}`;
+  if (!(await Dexie.exists(name))) return [];
+  // No schema: open whatever version y-indexeddb created
+  const ydb = new Dexie(name);
+  try {
+    await ydb.open();
+    return await ydb.table<Uint8Array>('updates').toArray();
+  } finally {
+    ydb.close();
+  }
+}
+
+export async function getAccountStorage(accountId: string): Promise<AccountStorage> {
+  const updates = await readYjsUpdates(accountId);
+  const doc = new Y.Doc();
+  updates.forEach(update => Y.applyUpdate(doc, update));
+  const refs = countAttachmentRefs(doc.getArray<Expense>('expenses').toArray());
+  doc.destroy();
+
+  const usage: AccountStorage = {
+    accountId,
+    attachments: 0,
+    attachmentBytes: 0,
+    unusedAttachments: 0,
+    unusedBytes: 0,
+    dataBytes: updates.reduce((sum, update) => sum + update.byteLength, 0)
+  };
+  await withExpenseDB(accountId, db => db.images.each(image => {
+    const bytes = imageBytes(image);
+    usage.attachments++;
+    usage.attachmentBytes += bytes;
+    if (!refs.get(image.id)) {
+      usage.unusedAttachments++;
+      usage.unusedBytes += bytes;
+    }
+  }));
+  return usage;
+}
+
+export interface StorageEstimate {
+  usage: number;
+  quota: number;
+  level: 'ok' | 'warning' | 'critical';
+}
+
+/** Storage used by the whole app and the browser's limit for it, when the browser says */
+export async function getStorageEstimate(): Promise<StorageEstimate | null> {
+  if (!navigator.storage?.estimate) return null;
+  const { usage, quota } = await navigator.storage.estimate();
+  if (usage === undefined || !quota) return null;
+  const ratio = usage / quota;
+  const level = ratio >= STORAGE_CRITICAL_RATIO ? 'critical' : ratio >= STORAGE_WARNING_RATIO ? 'warning' : 'ok';
+  return { usage, quota, level };
+}
+
+const quotaListeners = new Set<(estimate: StorageEstimate | null) => void>();
+
+/**
+ * Re-read the estimate and tell subscribers (see useStorageQuota), e.g. after
+ * saving attachments. Once space runs low, asks the browser to make storage
+ * persistent so it isn't evicted to make room for other sites.
+ */
+export async function checkStorageQuota(): Promise<StorageEstimate | null> {
+  const estimate = await getStorageEstimate().catch(() => null);
+  if (estimate && estimate.level !== 'ok' && navigator.storage?.persist) {
+    const persisted = await navigator.storage.persisted?.().catch(() => false);
+    if (!persisted) await navigator.storage.persist().catch(() => false);
+  }
+  quotaListeners.forEach(listener => listener(estimate));
+  return estimate;
+}
+
+export function subscribeStorageQuota(listener: (estimate: StorageEstimate | null) => void): () => void {
+  quotaListeners.add(listener);
+  return () => quotaListeners.delete(listener);
+}
+
+/**
+ * Re-encode the current account's stored photos with `policy`. Attachments
+ * keep their ids (expenses point at them); `syncId` follows the new content.
+ * Photos still coming from peers, documents, and ones it can't shrink enough
+ * are left alone. Reads one record at a time to keep memory down.
+ */
+export async function recompressImages(
+  policy: ImageCompression,
+  onProgress?: (done: number, total: number) => void
+): Promise<{ recompressed: number; savedBytes: number }> {
+  const db = getDB();
+  const ids = await db.images.toCollection().primaryKeys();
+  let recompressed = 0;
+  let savedBytes = 0;
+
+  for (let i = 0; i < ids.length; i++) {
+    onProgress?.(i, ids.length);
+    const image = await db.images.get(ids[i]);
+    if (!image || image.partial || getAttachmentKind(image.type, image.name) !== 'image') continue;
+    const compressed = await compressImage(image.data, policy, RECOMPRESS_MIN_SAVING);
+    if (compressed === image.data) continue;
+    await db.images.update(image.id, {
+      data: compressed,
+      type: compressed.type,
+      syncId: await sha256Hex(compressed)
+    });
+    recompressed++;
+    savedBytes += image.data.size - compressed.size;
+  }
+  onProgress?.(ids.length, ids.length);
+  if (recompressed > 0) void checkStorageQuota();
+  return { recompressed, savedBytes };
+}
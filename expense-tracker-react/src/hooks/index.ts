@@ -1,3 +1,6 @@
 export { useCamera } from './useCamera';
 export { useOffline } from './useOffline';
+export { useStorageQuota } from './useStorageQuota';
+export { useReceiptQueue } from './useReceiptQueue';
+export { useAttachment, type LoadedAttachment } from './useAttachment';
 // Note: useSync is deprecated, use useYjs from '@/sync' instead
@@ -0,0 +1,94 @@
+import { useState, useEffect } from 'react';
+import { useYjs } from '@/sync';
+import { useAccountStore } from '@/stores/accountStore';
+import { useSyncStore } from '@/stores/syncStore';
+import { attachmentHtml, getAttachmentKind, type AttachmentKind } from '@/lib/attachments';
+import { renderPdfPage } from '@/lib/pdf';
+import * as db from '@/db/operations';
+
+/** PDFs are previewed by rendering their first page this wide */
+const PDF_PREVIEW_WIDTH = 1200;
+
+export interface LoadedAttachment {
+  kind: AttachmentKind;
+  /** The file itself (e.g. to open a PDF in the browser's viewer) */
+  data: Blob;
+  /** Object URL of the photo or rendered PDF page; null for e-receipts */
+  url: string | null;
+  /** E-receipt HTML - only show it in a sandboxed iframe */
+  html: string | null;
+  /** Only the thumbnail is here yet; the file is still coming from a peer */
+  partial: boolean;
+}
+
+/**
+ * Load an attachment for viewing. Missing ones are requested from peers when
+ * the account is shared and connected; the thumbnail shows until the file
+ * arrives, with `progress` (0-1) while it downloads.
+ */
+export function useAttachment(id: string | undefined) {
+  const isSharedMode = useAccountStore(s => s.isSharedMode());
+  const isConnected = useSyncStore(s => s.isConnected);
+  const requestImage = useYjs().requestImage;
+  const progress = useSyncStore(s => (id ? s.imageProgress[id] : undefined));
+  const [attachment, setAttachment] = useState<LoadedAttachment | null>(null);
+  const [loadedId, setLoadedId] = useState<string | undefined>(undefined);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!id) return;
+    let cancelled = false;
+    let url: string | null = null;
+
+    /** @param fetching - the file is still being requested */
+    const show = async (image: Awaited<ReturnType<typeof db.getImage>>, fetching = false) => {
+      if (cancelled || !image?.data) return;
+      // A partial record's data is its thumbnail, whatever the file is
+      const kind = image.partial ? 'image' : getAttachmentKind(image.type, image.name);
+      const preview = kind === 'html'
+        ? null
+        : kind === 'pdf'
+          ? await renderPdfPage(image.data, PDF_PREVIEW_WIDTH).catch(() => image.thumbnail)
+          : image.data;
+      const html = kind === 'html' ? await attachmentHtml(image.data) : null;
+      if (cancelled) return;
+      if (url) URL.revokeObjectURL(url);
+      url = preview ? URL.createObjectURL(preview) : null;
+      setAttachment({ kind, data: image.data, url, html, partial: Boolean(image.partial) });
+      setLoadedId(id);
+      setLoading(fetching);
+    };
+
+    const failed = (error: unknown) => {
+      console.error('Failed to load attachment:', error);
+      if (!cancelled) setLoading(false);
+    };
+
+    void db.getImage(id).then(image => {
+      if (cancelled) return;
+      const fetch = Boolean(image?.partial || !image?.data) && isSharedMode && isConnected;
+      if (image?.data) show(image, fetch).catch(failed);
+      if (fetch) {
+        setLoading(true);
+        void requestImage(id)
+          .then(() => db.getImage(id))
+          .then(full => {
+            if (full) return show(full);
+            if (!cancelled) setLoading(false);
+          })
+          .catch(() => {
+            if (!cancelled) setLoading(false);
+          });
+      }
+    }).catch(failed);
+
+    return () => {
+      cancelled = true;
+      setLoading(false);
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [id, isSharedMode, isConnected, requestImage]);
+
+  // Never show the previous attachment's (revoked) URL for a new id
+  return { attachment: loadedId === id ? attachment : null, loading, progress };
+}
@@ -1,13 +1,100 @@
 import { useState, useRef, useCallback, useEffect } from 'react';
-import Tesseract from 'tesseract.js';
 import jsQR from 'jsqr';
 import * as db from '@/db/operations';
+import { checkStorageQuota } from '@/db/storage';
+import { parseReceipt, type ParsedReceipt } from '@/lib/receiptParser';
+import { preprocessReceiptImage } from '@/lib/preprocess';
+import { recognizeReceipt } from '@/lib/ocr';
+import { compressImage, createThumbnail, extractDocumentText, kindOf } from '@/lib/attachments';
+import { renderPdfPage } from '@/lib/pdf';
+import type { ReceiptItem } from '@/lib/receipt';
+import { useAccountStore } from '@/stores/accountStore';
+import { useSettingsStore } from '@/stores/settingsStore';
 
-interface OCRResult {
+export interface OCRResult {
   amount: number | null;
   description: string | null;
   date: string | null;
+  /** ISO code of the currency printed on the receipt */
+  currency: string | null;
+  /** Tesseract's overall confidence (0-100) */
   confidence: number;
+  /** Per-field confidence from the receipt parser (0-1), see LOW_CONFIDENCE */
+  fieldConfidence: Record<'amount' | 'description' | 'date' | 'currency', number>;
+  /** Priced lines, for splitting the bill by item */
+  items: ReceiptItem[];
+  tax: number | null;
+  tip: number | null;
+  /** The cleaned-up image OCR ran on (null if preprocessing wasn't possible or not needed) */
+  processedImage: Blob | null;
+}
+
+/** PDF pages are rendered this wide for OCR */
+const PDF_OCR_WIDTH = 2000;
+
+function toOCRResult(parsed: ParsedReceipt, confidence: number, processedImage: Blob | null): OCRResult {
+  return {
+    amount: parsed.total.value,
+    description: parsed.merchant.value,
+    date: parsed.date.value,
+    currency: parsed.currency.value,
+    confidence,
+    fieldConfidence: {
+      amount: parsed.total.confidence,
+      description: parsed.merchant.confidence,
+      date: parsed.date.confidence,
+      currency: parsed.currency.confidence
+    },
+    items: parsed.items,
+    tax: parsed.tax,
+    tip: parsed.tip,
+    processedImage
+  };
+}
+
+const EMPTY_OCR_RESULT: OCRResult = {
+  amount: null,
+  description: null,
+  date: null,
+  currency: null,
+  confidence: 0,
+  fieldConfidence: { amount: 0, description: 0, date: 0, currency: 0 },
+  items: [],
+  tax: null,
+  tip: null,
+  processedImage: null
+};
+
+/**
+ * Read a receipt: PDFs and e-receipts with a text layer are parsed directly;
+ * photos (and scanned PDFs, first page) are cleaned up and OCR'd in the
+ * chosen languages. Throws when reading fails.
+ */
+export async function scanReceipt(
+  imageBlob: Blob,
+  onStage?: (stage: 'enhancing' | 'recognizing') => void,
+  onProgress?: (progress: number) => void
+): Promise<OCRResult> {
+  const locale = useAccountStore.getState().getLocale();
+  const ocrLanguages = useSettingsStore.getState().ocrLanguages;
+  const kind = kindOf(imageBlob);
+
+  if (kind !== 'image') {
+    const text = await extractDocumentText(imageBlob);
+    if (text !== null || kind === 'html') {
+      return toOCRResult(parseReceipt(text ?? '', { locale, languages: ocrLanguages }), 100, null);
+    }
+  }
+
+  onStage?.('enhancing');
+  const photo = kind === 'pdf' ? await renderPdfPage(imageBlob, PDF_OCR_WIDTH) : imageBlob;
+  // Clean up the photo first; crumpled, dim receipts are hard to read as-is
+  const processedImage = await preprocessReceiptImage(photo);
+  onStage?.('recognizing');
+
+  const { text, confidence, languages } = await recognizeReceipt(processedImage ?? photo, ocrLanguages, onProgress);
+  const parsed = parseReceipt(text, { locale, ocrConfidence: confidence, languages });
+  return toOCRResult(parsed, confidence, processedImage);
 }
 
 export function useCamera() {
@@ -17,6 +104,7 @@ export function useCamera() {
   const [isActive, setIsActive] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
   const [ocrProgress, setOcrProgress] = useState(0);
+  const [ocrStage, setOcrStage] = useState<'enhancing' | 'recognizing' | null>(null);
   const [error, setError] = useState<string | null>(null);
 
   // Cleanup on unmount
@@ -105,157 +193,20 @@ export function useCamera() {
     });
   }, []);
 
-  // Create thumbnail
-  const createThumbnail = useCallback(async (blob: Blob): Promise<Blob> => {
-    return new Promise((resolve, reject) => {
-      const img = new Image();
-      const objectUrl = URL.createObjectURL(blob);
-      
-      img.onload = () => {
-        // Revoke the object URL after image loads
-        URL.revokeObjectURL(objectUrl);
-        
-        const canvas = document.createElement('canvas');
-        const maxSize = 200;
-        let width = img.width;
-        let height = img.height;
-        
-        if (width > height) {
-          if (width > maxSize) {
-            height = (height * maxSize) / width;
-            width = maxSize;
-          }
-        } else {
-          if (height > maxSize) {
-            width = (width * maxSize) / height;
-            height = maxSize;
-          }
-        }
-        
-        canvas.width = width;
-        canvas.height = height;
-        
-        const ctx = canvas.getContext('2d');
-        if (!ctx) {
-          reject(new Error('Failed to get canvas context'));
-          return;
-        }
-        
-        ctx.drawImage(img, 0, 0, width, height);
-        
-        canvas.toBlob(
-          (thumb) => {
-            if (thumb) {
-              resolve(thumb);
-            } else {
-              reject(new Error('Failed to create thumbnail'));
-            }
-          },
-          'image/jpeg',
-          0.7
-        );
-      };
-      
-      img.onerror = () => {
-        URL.revokeObjectURL(objectUrl);
-        reject(new Error('Failed to load image'));
-      };
-      
-      img.src = objectUrl;
-    });
-  }, []);
-
   // Process image with OCR
   const processOCR = useCallback(async (imageBlob: Blob): Promise<OCRResult> => {
     setIsProcessing(true);
     setOcrProgress(0);
 
     try {
-      const result = await Tesseract.recognize(imageBlob, 'eng', {
-        logger: (m) => {
-          if (m.status === 'recognizing text') {
-            setOcrProgress(Math.round(m.progress * 100));
-          }
-        }
-      });
-
-      const text = result.data.text;
-      const confidence = result.data.confidence;
-
-      // Extract amount
-      const amountPatterns = [
-        /(?:total|amount|sum|due|balance)[:\s]*\$?\s*(\d+[.,]\d{2})/i,
-        /\$\s*(\d+[.,]\d{2})/,
-        /(\d+[.,]\d{2})\s*(?:total|due)/i,
-        /(\d{1,3}(?:,\d{3})*\.\d{2})/
-      ];
-
-      let amount: number | null = null;
-      for (const pattern of amountPatterns) {
-        const match = text.match(pattern);
-        if (match) {
-          // Use global regex to replace ALL commas (e.g., $1,234,567.89)
-          amount = parseFloat(match[1].replace(/,/g, ''));
-          break;
-        }
-      }
-
-      // Extract date
-      let date: string | null = null;
-      
-      // Pattern 1: MM/DD/YY or MM/DD/YYYY or MM-DD-YY or MM-DD-YYYY
-      const numericDateMatch = text.match(/(\d{1,2})[/-](\d{1,2})[/-](\d{2,4})/);
-      if (numericDateMatch) {
-        const [, part1, part2, part3] = numericDateMatch;
-        let year = parseInt(part3, 10);
-        const month = parseInt(part1, 10);
-        const day = parseInt(part2, 10);
-        
-        // Handle 2-digit years
-        if (year < 100) {
-          year = year >= 50 ? 1900 + year : 2000 + year;
-        }
-        
-        // Validate date parts
-        if (month >= 1 && month <= 12 && day >= 1 && day <= 31 && year >= 1900 && year <= 2100) {
-          date = `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
-        }
-      }
-      
-      // Pattern 2: Month DD, YYYY (e.g., "January 15, 2024")
-      if (!date) {
-        const textDateMatch = text.match(/(\w{3,9})\s+(\d{1,2}),?\s+(\d{4})/i);
-        if (textDateMatch) {
-          try {
-            const parsed = new Date(textDateMatch[0]);
-            if (!isNaN(parsed.getTime())) {
-              date = parsed.toISOString().split('T')[0];
-            }
-          } catch {
-            // Ignore parsing errors
-          }
-        }
-      }
-
-      // Extract description (first line or store name)
-      const lines = text.split('\n').filter(l => l.trim());
-      let description: string | null = null;
-      
-      for (const line of lines.slice(0, 3)) {
-        const cleaned = line.trim();
-        if (cleaned.length > 3 && cleaned.length < 50 && !/^\d+$/.test(cleaned)) {
-          description = cleaned;
-          break;
-        }
-      }
-
-      return { amount, description, date, confidence };
+      return await scanReceipt(imageBlob, setOcrStage, progress => setOcrProgress(Math.round(progress * 100)));
     } catch (error) {
       console.error('OCR error:', error);
-      return { amount: null, description: null, date: null, confidence: 0 };
+      return EMPTY_OCR_RESULT;
     } finally {
       setIsProcessing(false);
       setOcrProgress(0);
+      setOcrStage(null);
     }
   }, []);
 
@@ -285,28 +236,34 @@ export function useCamera() {
     return code?.data || null;
   }, []);
 
-  // Save image to database
-  const saveImage = useCallback(async (blob: Blob): Promise<string> => {
+  // Save a photo or document attachment to the database, photos compressed by the settings' policy
+  const saveAttachment = useCallback(async (blob: Blob): Promise<string> => {
     try {
-      const thumbnail = await createThumbnail(blob);
-      const record = await db.addImage(blob, thumbnail);
+      const stored = await compressImage(blob, useSettingsStore.getState().imageCompression);
+      const thumbnail = await createThumbnail(stored);
+      const record = await db.addImage(stored, thumbnail, {
+        type: stored.type || undefined,
+        name: blob instanceof File ? blob.name : undefined
+      });
+      void checkStorageQuota();
       return record.id;
     } catch (error) {
-      console.error('Failed to save image:', error);
+      console.error('Failed to save attachment:', error);
       throw error;
     }
-  }, [createThumbnail]);
+  }, []);
 
   return {
     isActive,
     isProcessing,
     ocrProgress,
+    ocrStage,
     error,
     startCamera,
     stopCamera,
     captureImage,
     processOCR,
     scanQRCode,
-    saveImage
+    saveAttachment
   };
 }
@@ -0,0 +1,101 @@
+import { useState, useRef, useCallback } from 'react';
+import { scanReceipt } from './useCamera';
+import { extractZipImages, imageTypeFor, isZipFile } from '@/lib/zip';
+import { LOW_CONFIDENCE } from '@/lib/receiptParser';
+import { getAttachmentKind } from '@/lib/attachments';
+import type { DraftField, ImportDraft } from '@/lib/batchImport';
+import { generateId, getToday } from '@/types';
+
+/**
+ * OCR queue for importing many receipt photos: scans them one at a time and
+ * turns each into a draft expense. Cancelling drops the photos not scanned
+ * yet; the finished drafts stay for review.
+ */
+export function useReceiptQueue() {
+  const [drafts, setDrafts] = useState<ImportDraft[]>([]);
+  const [running, setRunning] = useState(false);
+  /** OCR progress of the photo being scanned (0-1) */
+  const [progress, setProgress] = useState(0);
+  const cancelledRef = useRef(false);
+
+  const updateDraft = useCallback((id: string, updates: Partial<ImportDraft>) => {
+    setDrafts(prev => prev.map(d => (d.id === id ? { ...d, ...updates } : d)));
+  }, []);
+
+  const removeDraft = useCallback((id: string) => {
+    setDrafts(prev => prev.filter(d => d.id !== id));
+  }, []);
+
+  /** Queue photos, PDFs and e-receipts (and the photos inside zip files) and scan them */
+  const start = useCallback(async (files: File[], defaults: { currency: string; payerId?: string }) => {
+    const images: File[] = [];
+    for (const file of files) {
+      if (isZipFile(file)) {
+        images.push(...(await extractZipImages(file)));
+      } else if (
+        file.type.startsWith('image/') || imageTypeFor(file.name) || getAttachmentKind(file.type, file.name) !== 'image'
+      ) {
+        images.push(file);
+      }
+    }
+    if (images.length === 0) return 0;
+
+    const queued: ImportDraft[] = images.map(image => ({
+      id: generateId(),
+      fileName: image.name,
+      image,
+      status: 'queued',
+      description: '',
+      amount: null,
+      currency: defaults.currency,
+      date: getToday(),
+      payerId: defaults.payerId,
+      uncertain: [],
+      include: true
+    }));
+    setDrafts(prev => [...prev, ...queued]);
+    cancelledRef.current = false;
+    setRunning(true);
+
+    for (const draft of queued) {
+      if (cancelledRef.current) break;
+      updateDraft(draft.id, { status: 'scanning' });
+      setProgress(0);
+      try {
+        const result = await scanReceipt(draft.image, undefined, setProgress);
+        if (cancelledRef.current) break;
+        const confidence: Record<DraftField, number> = result.fieldConfidence;
+        updateDraft(draft.id, {
+          status: 'done',
+          description: result.description ?? '',
+          amount: result.amount,
+          currency: result.currency ?? defaults.currency,
+          date: result.date ?? draft.date,
+          uncertain: (Object.keys(confidence) as DraftField[]).filter(field => confidence[field] < LOW_CONFIDENCE)
+        });
+      } catch (error) {
+        console.error('OCR error:', error);
+        updateDraft(draft.id, { status: 'failed' });
+      }
+    }
+
+    if (cancelledRef.current) {
+      // The photo being scanned when cancelled counts as not scanned
+      const dropped = new Set(queued.map(d => d.id));
+      setDrafts(prev => prev.filter(d => !dropped.has(d.id) || d.status === 'done' || d.status === 'failed'));
+    }
+    setRunning(false);
+    setProgress(0);
+    return images.length;
+  }, [updateDraft]);
+
+  const cancel = useCallback(() => {
+    cancelledRef.current = true;
+  }, []);
+
+  const clear = useCallback(() => {
+    setDrafts([]);
+  }, []);
+
+  return { drafts, setDrafts, running, progress, start, cancel, updateDraft, removeDraft, clear };
+}
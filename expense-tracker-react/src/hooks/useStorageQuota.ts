@@ -0,0 +1,31 @@
+import { useState, useEffect } from 'react';
+import { checkStorageQuota, subscribeStorageQuota, type StorageEstimate } from '@/db/storage';
+
+/** How often the quota is re-read while the app is open */
+const CHECK_INTERVAL_MS = 10 * 60 * 1000;
+
+/**
+ * Hook to watch device storage against the browser's quota; `level` turns
+ * 'warning' and then 'critical' as it fills up. Null when the browser
+ * doesn't report it.
+ */
+export function useStorageQuota(): StorageEstimate | null {
+  const [estimate, setEstimate] = useState<StorageEstimate | null>(null);
+
+  useEffect(() => {
+    const unsubscribe = subscribeStorageQuota(setEstimate);
+    const check = () => {
+      if (document.visibilityState === 'visible') void checkStorageQuota();
+    };
+    check();
+    const interval = setInterval(check, CHECK_INTERVAL_MS);
+    document.addEventListener('visibilitychange', check);
+    return () => {
+      unsubscribe();
+      clearInterval(interval);
+      document.removeEventListener('visibilitychange', check);
+    };
+  }, []);
+
+  return estimate;
+}
@@ -0,0 +1,244 @@
+/**
+ * Expense attachments - receipt photos, PDFs and e-receipts (HTML emails).
+ * All of them live in the images table; `ImageRecord.type` says which kind a
+ * record is. Documents get a rendered thumbnail and their text is read
+ * directly, so OCR only runs on photos and scanned PDFs.
+ */
+import type { Expense, ImageCompression } from '@/types';
+import { extractPdfText, renderPdfPage } from './pdf';
+
+export type AttachmentKind = 'image' | 'pdf' | 'html';
+
+/** File input `accept` for attachments */
+export const ATTACHMENT_ACCEPT = 'image/*,application/pdf,.pdf,text/html,.html,.htm,message/rfc822,.eml';
+
+const THUMBNAIL_SIZE = 200;
+
+export const DEFAULT_IMAGE_COMPRESSION: ImageCompression = {
+  maxDimension: 2000,
+  format: 'jpeg',
+  quality: 0.8,
+  keepOriginal: false
+};
+
+/** Attachment ids of an expense, oldest first (older expenses only have `imageId`) */
+export function getAttachmentIds(expense: Pick<Expense, 'attachmentIds' | 'imageId'>): string[] {
+  if (expense.attachmentIds?.length) return expense.attachmentIds;
+  return expense.imageId ? [expense.imageId] : [];
+}
+
+/** How many expenses use each attachment id */
+export function countAttachmentRefs(expenses: Pick<Expense, 'attachmentIds' | 'imageId'>[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  expenses.forEach(expense => {
+    new Set([...getAttachmentIds(expense), ...(expense.imageId ? [expense.imageId] : [])])
+      .forEach(id => counts.set(id, (counts.get(id) ?? 0) + 1));
+  });
+  return counts;
+}
+
+/** Kind from a MIME type and/or file name; photos are the default */
+export function getAttachmentKind(type?: string, name?: string): AttachmentKind {
+  if (type === 'application/pdf' || /\.pdf$/i.test(name ?? '')) return 'pdf';
+  if (type === 'text/html' || type === 'message/rfc822' || /\.(html?|eml)$/i.test(name ?? '')) return 'html';
+  return 'image';
+}
+
+export function kindOf(blob: Blob): AttachmentKind {
+  return getAttachmentKind(blob.type, blob instanceof File ? blob.name : undefined);
+}
+
+function canvasToBlob(canvas: HTMLCanvasElement, type: string, quality?: number): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Failed to create thumbnail'))), type, quality);
+  });
+}
+
+function loadImage(blob: Blob): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    const objectUrl = URL.createObjectURL(blob);
+    img.onload = () => {
+      URL.revokeObjectURL(objectUrl);
+      resolve(img);
+    };
+    img.onerror = () => {
+      URL.revokeObjectURL(objectUrl);
+      reject(new Error('Failed to load image'));
+    };
+    img.src = objectUrl;
+  });
+}
+
+async function imageThumbnail(blob: Blob): Promise<Blob> {
+  const img = await loadImage(blob);
+  const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(img.width, img.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(img.width * scale);
+  canvas.height = Math.round(img.height * scale);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Failed to get canvas context');
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+  return canvasToBlob(canvas, 'image/jpeg', 0.7);
+}
+
+/**
+ * A photo as the compression policy stores it: scaled down to
+ * `maxDimension` and re-encoded. The original comes back when the policy
+ * keeps originals, for documents, animations and formats the browser can't
+ * decode, and when compressing wouldn't save at least `minSaving` of its size.
+ */
+export async function compressImage(blob: Blob, policy: ImageCompression, minSaving = 0): Promise<Blob> {
+  if (policy.keepOriginal || kindOf(blob) !== 'image' || /gif|svg/.test(blob.type)) return blob;
+  let img: HTMLImageElement;
+  try {
+    img = await loadImage(blob);
+  } catch {
+    return blob;
+  }
+  const scale = Math.min(1, policy.maxDimension / Math.max(img.width, img.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(img.width * scale);
+  canvas.height = Math.round(img.height * scale);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return blob;
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+  let compressed = await canvasToBlob(canvas, `image/${policy.format}`, policy.quality);
+  // Browsers that can't encode WebP hand back a PNG instead
+  if (compressed.type !== `image/${policy.format}`) {
+    compressed = await canvasToBlob(canvas, 'image/jpeg', policy.quality);
+  }
+  return compressed.size < blob.size * (1 - minSaving) ? compressed : blob;
+}
+
+/** A paper-like card with the first lines of an e-receipt */
+async function textThumbnail(text: string): Promise<Blob> {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(THUMBNAIL_SIZE * 0.75);
+  canvas.height = THUMBNAIL_SIZE;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Failed to get canvas context');
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.fillStyle = '#333333';
+  ctx.font = '9px sans-serif';
+  text.split('\n').filter(line => line.trim()).slice(0, 16).forEach((line, i) => {
+    ctx.fillText(line.trim().slice(0, 32), 8, 16 + i * 11, canvas.width - 16);
+  });
+  return canvasToBlob(canvas, 'image/png');
+}
+
+/** Thumbnail for any attachment: scaled photo, rendered first PDF page or text card */
+export async function createThumbnail(blob: Blob, kind = kindOf(blob)): Promise<Blob> {
+  switch (kind) {
+    case 'pdf':
+      return renderPdfPage(blob, THUMBNAIL_SIZE);
+    case 'html':
+      return textThumbnail((await extractHtmlText(blob)) || 'E-receipt');
+    default:
+      return imageThumbnail(blob);
+  }
+}
+
+/** Decode one MIME body by its Content-Transfer-Encoding */
+function decodeMimeBody(body: string, encoding: string, charset: string): string {
+  let bytes: Uint8Array;
+  if (/base64/i.test(encoding)) {
+    bytes = Uint8Array.from(atob(body.replace(/\s+/g, '')), c => c.charCodeAt(0));
+  } else if (/quoted-printable/i.test(encoding)) {
+    const raw = body.replace(/=\r?\n/g, '');
+    const out: number[] = [];
+    for (let i = 0; i < raw.length; i++) {
+      if (raw[i] === '=' && /^[0-9A-F]{2}$/i.test(raw.slice(i + 1, i + 3))) {
+        out.push(parseInt(raw.slice(i + 1, i + 3), 16));
+        i += 2;
+      } else {
+        out.push(raw.charCodeAt(i) & 0xff);
+      }
+    }
+    bytes = Uint8Array.from(out);
+  } else {
+    return body;
+  }
+  try {
+    return new TextDecoder(charset || 'utf-8').decode(bytes);
+  } catch {
+    return new TextDecoder().decode(bytes);
+  }
+}
+
+/**
+ * The HTML (or plain text) body of a saved email (.eml), walking multipart
+ * sections; HTML files are returned as they are.
+ */
+function emailBody(source: string): { body: string; html: boolean } {
+  const headerEnd = source.search(/\r?\n\r?\n/);
+  if (headerEnd < 0 || !/^[\w-]+:/m.test(source.slice(0, headerEnd))) return { body: source, html: true };
+
+  const parts: { headers: string; body: string }[] = [];
+  const walk = (headers: string, body: string) => {
+    const boundary = headers.match(/boundary="?([^";\r\n]+)"?/i)?.[1];
+    if (/content-type:\s*multipart\//i.test(headers) && boundary) {
+      body.split(`--${boundary}`).slice(1).forEach(section => {
+        const end = section.search(/\r?\n\r?\n/);
+        if (end >= 0) walk(section.slice(0, end), section.slice(end).trim());
+      });
+    } else {
+      parts.push({ headers, body });
+    }
+  };
+  walk(source.slice(0, headerEnd).replace(/\r?\n[ \t]+/g, ' '), source.slice(headerEnd).trim());
+
+  const pick = parts.find(p => /content-type:\s*text\/html/i.test(p.headers))
+    ?? parts.find(p => /content-type:\s*text\/plain/i.test(p.headers) || !/content-type:/i.test(p.headers));
+  if (!pick) return { body: '', html: false };
+  const encoding = pick.headers.match(/content-transfer-encoding:\s*([\w-]+)/i)?.[1] ?? '';
+  const charset = pick.headers.match(/charset="?([\w-]+)"?/i)?.[1] ?? 'utf-8';
+  return { body: decodeMimeBody(pick.body, encoding, charset), html: /text\/html/i.test(pick.headers) };
+}
+
+/**
+ * HTML of an e-receipt or saved email for display. Only show it in a
+ * sandboxed iframe (`sandbox=""`): it's untrusted and may contain scripts.
+ */
+export async function attachmentHtml(blob: Blob): Promise<string> {
+  const { body, html } = emailBody(await blob.text());
+  if (html) return body;
+  const escaped = body.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+  return `<pre style="white-space:pre-wrap;font-family:sans-serif">${escaped}</pre>`;
+}
+
+/** Readable text of an HTML e-receipt or saved email, one line per block or table row */
+export async function extractHtmlText(blob: Blob): Promise<string> {
+  const { body, html } = emailBody(await blob.text());
+  if (!html) return body.trim();
+
+  // DOMParser doesn't run scripts or load images
+  const doc = new DOMParser().parseFromString(body, 'text/html');
+  doc.querySelectorAll('script, style, head').forEach(el => el.remove());
+  // Line breaks in the source are just formatting
+  const walker = doc.createTreeWalker(doc.body, NodeFilter.SHOW_TEXT);
+  for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+    node.textContent = (node.textContent ?? '').replace(/\s+/g, ' ');
+  }
+  // Keep table cells of a row on one line so "Total ... $12.50" stays together
+  doc.querySelectorAll('td, th').forEach(cell => cell.append(' '));
+  doc.querySelectorAll('br, p, div, tr, li, h1, h2, h3, h4, h5, h6, table').forEach(el => el.after('\n'));
+  return (doc.body?.textContent ?? '')
+    .split('\n')
+    .map(line => line.replace(/\s+/g, ' ').trim())
+    .filter(Boolean)
+    .join('\n');
+}
+
+/**
+ * Text of a document attachment, or null when it has none - photos and
+ * scanned PDFs, which need OCR.
+ */
+export async function extractDocumentText(blob: Blob): Promise<string | null> {
+  const kind = kindOf(blob);
+  if (kind === 'image') return null;
+  const text = kind === 'pdf' ? await extractPdfText(blob) : await extractHtmlText(blob);
+  // A few stray characters is a scan with a watermark, not a text layer
+  return text.replace(/\s/g, '').length >= 20 ? text : null;
+}
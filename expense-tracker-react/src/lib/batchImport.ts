@@ -0,0 +1,97 @@
+/**
+ * Batch receipt import - draft expenses made from scanned photos, reviewed
+ * before they are added. Two photos of the same receipt (or a receipt that
+ * was already entered) are spotted by amount, date and store name.
+ */
+import type { Expense } from '@/types';
+import { toMinor } from './money';
+import { getCurrencyDigits } from './format';
+
+export type DraftField = 'description' | 'amount' | 'date' | 'currency';
+
+export interface ImportDraft {
+  id: string;
+  /** Source file name, shown while reviewing */
+  fileName: string;
+  image: Blob;
+  status: 'queued' | 'scanning' | 'done' | 'failed';
+  description: string;
+  /** As printed on the receipt, in `currency` */
+  amount: number | null;
+  /** ISO code */
+  currency: string;
+  date: string;
+  payerId?: string;
+  /** Fields the receipt parser wasn't sure about */
+  uncertain: DraftField[];
+  /** Added when the import is committed */
+  include: boolean;
+  /** Id of an earlier draft that looks like the same receipt */
+  duplicateOf?: string;
+  /** Id of an existing expense that looks like the same receipt */
+  existingId?: string;
+  /** The user said this isn't a duplicate */
+  notDuplicate?: boolean;
+}
+
+function normalizeName(name: string): string {
+  return name.toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+}
+
+/** Store names that could be the same (an unread name matches anything) */
+function sameStore(a: string, b: string): boolean {
+  const x = normalizeName(a), y = normalizeName(b);
+  return !x || !y || x.includes(y) || y.includes(x);
+}
+
+function sameReceipt(
+  a: { amount: number | null; currency: string; date: string; description: string },
+  b: { amount: number | null; currency: string; date: string; description: string }
+): boolean {
+  return a.amount !== null && b.amount !== null
+    && a.currency === b.currency
+    && toMinor(a.amount, getCurrencyDigits(a.currency)) === toMinor(b.amount, getCurrencyDigits(b.currency))
+    && a.date === b.date
+    && sameStore(a.description, b.description);
+}
+
+/**
+ * Flag drafts that repeat an earlier draft or an existing expense. Drafts the
+ * user marked as not duplicates, and failed scans, are left alone.
+ */
+export function markDuplicates(drafts: ImportDraft[], expenses: Expense[], baseCurrency: string): ImportDraft[] {
+  return drafts.map((draft, index) => {
+    if (draft.notDuplicate || draft.status !== 'done') {
+      return { ...draft, duplicateOf: undefined, existingId: undefined };
+    }
+    const earlier = drafts.slice(0, index).find(other => other.status === 'done' && sameReceipt(draft, other));
+    const existing = expenses.find(expense => sameReceipt(draft, {
+      amount: expense.originalAmount ?? expense.amount,
+      currency: expense.currency ?? baseCurrency,
+      date: expense.date,
+      description: expense.description
+    }));
+    return { ...draft, duplicateOf: earlier?.id, existingId: existing?.id };
+  });
+}
+
+/**
+ * One draft from two scans of the same receipt: each field comes from the scan
+ * that was sure about it, or that read it at all; `keep` wins ties.
+ */
+export function mergeDrafts(keep: ImportDraft, drop: ImportDraft): ImportDraft {
+  const sure = (draft: ImportDraft, field: DraftField) =>
+    !draft.uncertain.includes(field) && draft[field] !== null && draft[field] !== '';
+  const fromDrop = (field: DraftField) =>
+    !sure(keep, field) && (sure(drop, field) || keep[field] === null || keep[field] === '');
+
+  return {
+    ...keep,
+    description: fromDrop('description') ? drop.description : keep.description,
+    amount: fromDrop('amount') ? drop.amount : keep.amount,
+    date: fromDrop('date') ? drop.date : keep.date,
+    currency: fromDrop('currency') ? drop.currency : keep.currency,
+    uncertain: keep.uncertain.filter(field => !sure(drop, field)),
+    duplicateOf: undefined
+  };
+}
@@ -0,0 +1,23 @@
+/**
+ * Budget helpers - spending per category for budget progress and alerts.
+ */
+import type { Expense } from '@/types';
+import { CATEGORY_KEYS, getCategoryKey } from '@/types';
+import { fromMinor, toMinor } from './money';
+
+/** Categories a budget can be set for ('all' is only a list filter) */
+export const BUDGET_CATEGORY_KEYS = CATEGORY_KEYS.filter(key => key !== 'all');
+
+/** Total spent per category key, in minor units of the base currency (`digits` decimals) */
+export function getCategoryTotals(expenses: Expense[], digits: number): Record<string, number> {
+  const minor: Record<string, number> = {};
+  expenses.forEach(e => {
+    const key = getCategoryKey(e.description ?? '');
+    minor[key] = (minor[key] || 0) + toMinor(e.amount, digits);
+  });
+  const totals: Record<string, number> = {};
+  Object.entries(minor).forEach(([key, value]) => {
+    totals[key] = fromMinor(value, digits);
+  });
+  return totals;
+}
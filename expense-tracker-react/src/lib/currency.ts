@@ -0,0 +1,121 @@
+/**
+ * Currency conversion - exchange rate table and rates file import.
+ *
+ * Rates are stored as cross rates: `rates[code]` is how many units of `code`
+ * one unit of a common reference buys. Only ratios matter, so the table stays
+ * valid when the account's base currency changes.
+ */
+import { CURRENCIES } from '@/types';
+import { formatMoney, getCurrencyDigits } from './format';
+import { roundMoney } from './money';
+
+export type ExchangeRates = Record<string, number>;
+
+/** ISO code for a currency symbol from CURRENCIES (symbols are what settings store) */
+export function getCurrencyCode(symbol: string): string {
+  return CURRENCIES.find(c => c.symbol === symbol)?.code ?? symbol;
+}
+
+/** Display symbol for an ISO code, falling back to the code itself */
+export function getCurrencySymbol(code: string): string {
+  return CURRENCIES.find(c => c.code === code)?.symbol ?? code;
+}
+
+/**
+ * Whether the account's base currency can change without breaking stored
+ * amounts. Expenses, payments and recurring rules in another currency were
+ * converted into the current base when saved, so switching would relabel them
+ * as the new one; amounts in the base itself can be relabeled (fixing a wrong
+ * first choice).
+ */
+export function canChangeBaseCurrency(entries: { currency?: string }[], baseCode: string): boolean {
+  return entries.every(e => !e.currency || e.currency === baseCode);
+}
+
+/** How many units of `to` one unit of `from` buys, or null if either rate is missing */
+export function getRate(from: string, to: string, rates: ExchangeRates): number | null {
+  if (from === to) return 1;
+  const fromRate = rates[from];
+  const toRate = rates[to];
+  if (!fromRate || !toRate) return null;
+  return toRate / fromRate;
+}
+
+/** Convert an amount between currencies, rounded to `to`'s minor units; null if a rate is missing */
+export function convertAmount(amount: number, from: string, to: string, rates: ExchangeRates): number | null {
+  const rate = getRate(from, to, rates);
+  if (rate === null) return null;
+  return roundMoney(amount * rate, getCurrencyDigits(to));
+}
+
+/**
+ * Rate table entries for "1 `code` = `value` `base`", keeping existing rates
+ * on the same scale. The base currency is added as the reference if the table
+ * doesn't know it yet.
+ */
+export function rateEntriesFor(code: string, value: number, base: string, rates: ExchangeRates): ExchangeRates {
+  const baseRate = rates[base] ?? 1;
+  const entries: ExchangeRates = { [code]: baseRate / value };
+  if (!rates[base]) entries[base] = baseRate;
+  return entries;
+}
+
+/**
+ * Parse an exchange rates file. Accepted formats:
+ * - JSON as published by most rate APIs: `{ "base": "USD", "rates": { "EUR": 0.92, ... } }`
+ * - JSON object of rates: `{ "USD": 1, "EUR": 0.92 }`
+ * - CSV / text lines: `EUR,0.92` (an optional `base,USD` line names the reference)
+ * Rates are units of each currency per one unit of the base.
+ */
+export function parseRatesFile(text: string): ExchangeRates {
+  const rates: ExchangeRates = {};
+  const addRate = (code: string, value: unknown) => {
+    const rate = typeof value === 'string' ? parseFloat(value) : value;
+    const iso = code.trim().toUpperCase();
+    if (/^[A-Z]{3}$/.test(iso) && typeof rate === 'number' && Number.isFinite(rate) && rate > 0) {
+      rates[iso] = rate;
+    }
+  };
+
+  const trimmed = text.trim();
+  if (trimmed.startsWith('{')) {
+    let data: unknown;
+    try {
+      data = JSON.parse(trimmed);
+    } catch {
+      throw new Error('Rates file is not valid JSON');
+    }
+    const obj = data as { base?: unknown; rates?: unknown };
+    const table = obj.rates && typeof obj.rates === 'object' ? obj.rates : obj;
+    Object.entries(table as Record<string, unknown>).forEach(([code, value]) => addRate(code, value));
+    if (typeof obj.base === 'string') addRate(obj.base, 1);
+  } else {
+    trimmed.split(/\r?\n/).forEach(line => {
+      const [code, value] = line.split(/[,;\t ]+/);
+      if (!code || !value) return;
+      if (code.trim().toLowerCase() === 'base') {
+        addRate(value, 1);
+      } else {
+        addRate(code, value);
+      }
+    });
+  }
+
+  if (Object.keys(rates).length < 2) {
+    throw new Error('No exchange rates found in file');
+  }
+  return rates;
+}
+
+/**
+ * Amount as paid, e.g. "€20.00", for expenses and payments made in a currency
+ * other than the base currency; null otherwise.
+ */
+export function formatOriginalAmount(
+  item: { currency?: string; originalAmount?: number },
+  baseCode: string,
+  locale?: string
+): string | null {
+  if (!item.currency || item.currency === baseCode || item.originalAmount === undefined) return null;
+  return formatMoney(item.originalAmount, item.currency, locale);
+}
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { parseAmount, sanitizeAmountInput } from './format';
+
+describe('parseAmount', () => {
+  it.each([
+    ['12.50', 'en-US', 12.5],
+    ['12,50', 'de-DE', 12.5],
+    ['1,234.50', 'en-US', 1234.5],
+    ['1.234,50', 'de-DE', 1234.5],
+    ['12,50', 'en-US', 12.5],
+    ['12.50', 'de-DE', 12.5],
+    ['1.234.567', 'de-DE', 1234567],
+    ['-3,75', 'de-DE', -3.75]
+  ])('reads %s in %s as %s', (input, locale, expected) => {
+    expect(parseAmount(input, locale)).toBe(expected);
+  });
+
+  it('reads the other locale\'s separator before three digits as grouping', () => {
+    expect(parseAmount('1,234', 'en-US')).toBe(1234);
+    expect(parseAmount('1.234', 'de-DE')).toBe(1234);
+    expect(parseAmount('-12.345', 'de-DE')).toBe(-12345);
+    expect(parseAmount('1.234', 'en-US')).toBe(1.234);
+  });
+
+  it.each(['en-US', 'de-DE'])('reads 0.125 and 0,125 as decimals in %s', locale => {
+    expect(parseAmount('0.125', locale)).toBe(0.125);
+    expect(parseAmount('0,125', locale)).toBe(0.125);
+  });
+
+  it('reads a separator as decimal when the integer part is too long to be a group lead', () => {
+    expect(parseAmount('1234,567', 'en-US')).toBe(1234.567);
+  });
+
+  it('returns NaN for no number', () => {
+    expect(parseAmount('abc', 'en-US')).toBeNaN();
+  });
+});
+
+describe('sanitizeAmountInput', () => {
+  it('keeps both separators whatever the locale', () => {
+    expect(sanitizeAmountInput('12,5', 2, 'en-US')).toBe('12,5');
+    expect(sanitizeAmountInput('12.5', 2, 'de-DE')).toBe('12.5');
+  });
+
+  it('rejects more decimals than the currency has', () => {
+    expect(sanitizeAmountInput('1.234', 2, 'en-US')).toBeNull();
+    expect(sanitizeAmountInput('1.5', 0, 'en-US')).toBeNull();
+  });
+});
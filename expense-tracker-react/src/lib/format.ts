@@ -0,0 +1,175 @@
+/**
+ * Money formatting and parsing - Intl.NumberFormat keyed by the ISO codes in
+ * CURRENCIES, so decimals, symbol position and separators follow the locale.
+ */
+import { CURRENCIES } from '@/types';
+
+/** Locales offered in settings (empty = device default) */
+export const LOCALES = [
+  { code: 'en-US', name: 'English (US)' },
+  { code: 'en-GB', name: 'English (UK)' },
+  { code: 'en-IN', name: 'English (India)' },
+  { code: 'de-DE', name: 'Deutsch' },
+  { code: 'fr-FR', name: 'Français' },
+  { code: 'es-ES', name: 'Español' },
+  { code: 'it-IT', name: 'Italiano' },
+  { code: 'nl-NL', name: 'Nederlands' },
+  { code: 'pt-BR', name: 'Português (Brasil)' },
+  { code: 'ja-JP', name: '日本語' }
+];
+
+/** Minor units Intl doesn't know about (crypto codes aren't ISO 4217) */
+const EXTRA_DIGITS: Record<string, number> = { BTC: 8 };
+
+const formatters = new Map<string, Intl.NumberFormat>();
+
+export function getDeviceLocale(): string {
+  return typeof navigator !== 'undefined' && navigator.language ? navigator.language : 'en-US';
+}
+
+function getFormatter(code: string, locale: string): Intl.NumberFormat {
+  const key = `${locale}|${code}`;
+  let formatter = formatters.get(key);
+  if (!formatter) {
+    const digits = getCurrencyDigits(code);
+    try {
+      formatter = new Intl.NumberFormat(locale, {
+        style: 'currency',
+        currency: code,
+        minimumFractionDigits: digits,
+        maximumFractionDigits: digits
+      });
+    } catch {
+      // Unknown locale tag: fall back to the device default
+      formatter = new Intl.NumberFormat(undefined, {
+        style: 'currency',
+        currency: code,
+        minimumFractionDigits: digits,
+        maximumFractionDigits: digits
+      });
+    }
+    formatters.set(key, formatter);
+  }
+  return formatter;
+}
+
+/** Number of decimals a currency uses (JPY 0, BTC 8, most others 2) */
+export function getCurrencyDigits(code: string): number {
+  if (EXTRA_DIGITS[code] !== undefined) return EXTRA_DIGITS[code];
+  try {
+    return new Intl.NumberFormat('en', { style: 'currency', currency: code }).resolvedOptions().maximumFractionDigits ?? 2;
+  } catch {
+    return 2;
+  }
+}
+
+/** Format an amount, e.g. formatMoney(12.5, 'EUR', 'de-DE') → "12,50 €" */
+export function formatMoney(amount: number, code: string, locale: string = getDeviceLocale()): string {
+  let formatter: Intl.NumberFormat;
+  try {
+    formatter = getFormatter(code, locale);
+  } catch {
+    // Not a valid currency code (e.g. a bare symbol from old data)
+    return `${code}${amount.toFixed(2)}`;
+  }
+  const symbol = CURRENCIES.find(c => c.code === code)?.symbol;
+  // Intl shows the bare code for currencies it has no symbol for (BTC)
+  return formatter
+    .formatToParts(amount)
+    .map(part => (part.type === 'currency' && part.value === code && symbol ? symbol : part.value))
+    .join('');
+}
+
+/**
+ * Format an amount in a currency given by symbol or ISO code.
+ * Prefer formatMoney, which also takes a locale.
+ */
+export function formatAmount(amount: number, currency: string = '$'): string {
+  const code = CURRENCIES.find(c => c.symbol === currency)?.code ?? currency;
+  return formatMoney(amount, code);
+}
+
+/** Format a plain number with the locale's separators and the currency's decimals */
+export function formatNumber(amount: number, code: string, locale: string = getDeviceLocale()): string {
+  const digits = getCurrencyDigits(code);
+  return amount.toLocaleString(locale, { minimumFractionDigits: 0, maximumFractionDigits: digits });
+}
+
+/** Decimal and grouping separators used by a locale */
+export function getSeparators(locale: string = getDeviceLocale()): { decimal: string; group: string } {
+  const parts = new Intl.NumberFormat(locale).formatToParts(12345.6);
+  return {
+    decimal: parts.find(p => p.type === 'decimal')?.value ?? '.',
+    group: parts.find(p => p.type === 'group')?.value ?? ','
+  };
+}
+
+/**
+ * Clean up amount input as it's typed: digits and a single decimal separator
+ * ('.', ',' or the locale's), at most `digits` decimals. Both '.' and ',' are
+ * kept in every locale and parseAmount decides what they mean. Returns null
+ * to reject the keystroke.
+ */
+export function sanitizeAmountInput(value: string, digits: number, locale: string = getDeviceLocale()): string | null {
+  const { decimal } = getSeparators(locale);
+  const separators = `.,${decimal.replace(/[\]\\^-]/g, '\\$&')}`;
+  const cleaned = value.replace(new RegExp(`[^0-9${separators}]`, 'g'), '');
+  const parts = cleaned.split(new RegExp(`[${separators}]`));
+  if (parts.length > 2) return null;
+  if (parts[1] !== undefined && (digits === 0 || parts[1].length > digits)) return null;
+  return cleaned;
+}
+
+/**
+ * Parse an amount typed in the given locale: "12,50" in de-DE and "12.50" in
+ * en-US are both 12.5, and grouping separators are ignored ("1.234,50").
+ * A lone '.' or ',' is read as the decimal point in any locale (people type
+ * whichever their keyboard shows) unless it can only be grouping: exactly
+ * three digits after it and one to three before, not starting with 0.
+ * Returns NaN when the input is not a number.
+ */
+export function parseAmount(input: string, locale: string = getDeviceLocale()): number {
+  const { decimal, group } = getSeparators(locale);
+  let value = input.replace(/\s/g, '').replace(/[^0-9.,-]/g, '');
+  if (!value) return NaN;
+
+  if (value.includes(decimal)) {
+    const lastDecimal = value.lastIndexOf(decimal);
+    const whole = value.slice(0, lastDecimal).split(group).join('').replace(/[.,]/g, '');
+    value = `${whole}.${value.slice(lastDecimal + 1)}`;
+  } else {
+    const separators = value.match(/[.,]/g) ?? [];
+    const last = Math.max(value.lastIndexOf('.'), value.lastIndexOf(','));
+    const decimals = last >= 0 ? value.length - last - 1 : 0;
+    // "1.234" groups thousands; "0.125" or "1234.567" can't, so it's a decimal point
+    const grouping = decimals === 3 && /^-?[1-9]\d{0,2}$/.test(value.slice(0, last));
+    if (separators.length === 1 && !grouping) {
+      value = value.replace(/[.,]/, '.');
+    } else {
+      value = value.replace(/[.,]/g, '');
+    }
+  }
+  return Number(value);
+}
+
+/** Amount as text for an input field: locale decimal separator, no grouping */
+export function toAmountInput(amount: number, code: string, locale: string = getDeviceLocale()): string {
+  return amount.toLocaleString(locale, { useGrouping: false, maximumFractionDigits: getCurrencyDigits(code) });
+}
+
+/** Storage size like "12 KB" or "3.4 MB" */
+export function formatBytes(bytes: number, locale: string = getDeviceLocale()): string {
+  const units = ['byte', 'kilobyte', 'megabyte', 'gigabyte'] as const;
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1000 && unit < units.length - 1) {
+    value /= 1000;
+    unit++;
+  }
+  return value.toLocaleString(locale, {
+    style: 'unit',
+    unit: units[unit],
+    unitDisplay: 'short',
+    maximumFractionDigits: value < 10 && unit > 0 ? 1 : 0
+  });
+}
@@ -0,0 +1,243 @@
+/**
+ * Receipt image clean-up for OCR - plain functions on grayscale pixel buffers
+ * so they can run in a Web Worker (see preprocess.worker.ts).
+ *
+ * Pipeline: grayscale → contrast stretch → auto-crop → deskew → adaptive
+ * threshold. Dim photos get their full tonal range back, the table or hand
+ * around the receipt is cut away, a tilted receipt is straightened and uneven
+ * lighting (shadows, creases) is flattened into black text on white.
+ */
+
+export interface GrayImage {
+  width: number;
+  height: number;
+  /** One byte per pixel, 0 = black */
+  data: Uint8ClampedArray;
+}
+
+/** Luma of RGBA pixels */
+export function toGrayscale(rgba: Uint8ClampedArray, width: number, height: number): GrayImage {
+  const data = new Uint8ClampedArray(width * height);
+  for (let i = 0, p = 0; p < data.length; i += 4, p++) {
+    data[p] = (rgba[i] * 77 + rgba[i + 1] * 150 + rgba[i + 2] * 29) >> 8;
+  }
+  return { width, height, data };
+}
+
+/** Back to RGBA for drawing */
+export function toRgba(image: GrayImage): Uint8ClampedArray<ArrayBuffer> {
+  const rgba = new Uint8ClampedArray(image.width * image.height * 4);
+  for (let p = 0, i = 0; p < image.data.length; p++, i += 4) {
+    rgba[i] = rgba[i + 1] = rgba[i + 2] = image.data[p];
+    rgba[i + 3] = 255;
+  }
+  return rgba;
+}
+
+function histogram(data: Uint8ClampedArray): Uint32Array {
+  const hist = new Uint32Array(256);
+  for (let i = 0; i < data.length; i++) hist[data[i]]++;
+  return hist;
+}
+
+/**
+ * Stretch levels so the darkest 1% becomes black and the brightest 1% white.
+ * Fixes dim and washed-out photos before anything looks at brightness.
+ */
+export function stretchContrast(image: GrayImage, clip = 0.01): GrayImage {
+  const hist = histogram(image.data);
+  const cut = image.data.length * clip;
+  let low = 0, high = 255;
+  for (let sum = 0; low < 255 && sum + hist[low] <= cut; low++) sum += hist[low];
+  for (let sum = 0; high > 0 && sum + hist[high] <= cut; high--) sum += hist[high];
+  if (high - low < 16) return image;
+
+  const scale = 255 / (high - low);
+  const data = new Uint8ClampedArray(image.data.length);
+  for (let i = 0; i < data.length; i++) {
+    data[i] = (image.data[i] - low) * scale;
+  }
+  return { ...image, data };
+}
+
+/** Otsu's global threshold: pixels at or below it are the dark class */
+export function otsuThreshold(data: Uint8ClampedArray): number {
+  const hist = histogram(data);
+  const total = data.length;
+  let sumAll = 0;
+  for (let i = 0; i < 256; i++) sumAll += i * hist[i];
+
+  let sumBack = 0, weightBack = 0, best = 0, threshold = 127;
+  for (let t = 0; t < 256; t++) {
+    weightBack += hist[t];
+    if (weightBack === 0) continue;
+    const weightFore = total - weightBack;
+    if (weightFore === 0) break;
+    sumBack += t * hist[t];
+    const meanBack = sumBack / weightBack;
+    const meanFore = (sumAll - sumBack) / weightFore;
+    const between = weightBack * weightFore * (meanBack - meanFore) ** 2;
+    if (between > best) {
+      best = between;
+      threshold = t;
+    }
+  }
+  return threshold;
+}
+
+/**
+ * Crop to the receipt: the paper is the bright region, so keep the rows and
+ * columns where most pixels are above Otsu's threshold. Returns the image
+ * unchanged when no clear paper region stands out.
+ */
+export function autoCrop(image: GrayImage, margin = 0.02): GrayImage {
+  const { width, height, data } = image;
+  const threshold = otsuThreshold(data);
+  const rowBright = new Uint32Array(height);
+  const colBright = new Uint32Array(width);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (data[y * width + x] > threshold) {
+        rowBright[y]++;
+        colBright[x]++;
+      }
+    }
+  }
+
+  const span = (counts: Uint32Array, length: number, fraction: number): [number, number] => {
+    let start = 0, end = counts.length - 1;
+    while (start < end && counts[start] < length * fraction) start++;
+    while (end > start && counts[end] < length * fraction) end--;
+    return [start, end];
+  };
+  // Text lines make rows of paper darker, so rows need a lower bar than columns
+  const [left, right] = span(colBright, height, 0.4);
+  const [top, bottom] = span(rowBright, width, 0.25);
+
+  const cropWidth = right - left + 1;
+  const cropHeight = bottom - top + 1;
+  // Nothing worth cutting, or a "receipt" too small to be real
+  if (cropWidth < width * 0.2 || cropHeight < height * 0.2) return image;
+  if (cropWidth > width * 0.95 && cropHeight > height * 0.95) return image;
+
+  const padX = Math.round(width * margin);
+  const padY = Math.round(height * margin);
+  const x0 = Math.max(0, left - padX);
+  const y0 = Math.max(0, top - padY);
+  const x1 = Math.min(width - 1, right + padX);
+  const y1 = Math.min(height - 1, bottom + padY);
+  const outWidth = x1 - x0 + 1;
+  const outHeight = y1 - y0 + 1;
+
+  const out = new Uint8ClampedArray(outWidth * outHeight);
+  for (let y = 0; y < outHeight; y++) {
+    out.set(data.subarray((y0 + y) * width + x0, (y0 + y) * width + x0 + outWidth), y * outWidth);
+  }
+  return { width: outWidth, height: outHeight, data: out };
+}
+
+/**
+ * Skew angle in degrees (within ±maxAngle) by the projection-profile method:
+ * when the lines of text are horizontal, the dark pixels per row vary the
+ * most. Works on a sample of dark pixels to stay fast on big photos.
+ */
+export function detectSkew(image: GrayImage, maxAngle = 10, step = 0.5): number {
+  const { width, height, data } = image;
+  const threshold = otsuThreshold(data);
+  const stride = Math.max(1, Math.floor(Math.sqrt((width * height) / 250_000)));
+  const points: number[] = [];
+  for (let y = 0; y < height; y += stride) {
+    for (let x = 0; x < width; x += stride) {
+      if (data[y * width + x] <= threshold) points.push(x, y);
+    }
+  }
+  if (points.length < 200) return 0;
+
+  const diagonal = Math.ceil(Math.hypot(width, height));
+  let bestAngle = 0, bestScore = -1;
+  for (let angle = -maxAngle; angle <= maxAngle; angle += step) {
+    const rad = (angle * Math.PI) / 180;
+    const sin = Math.sin(rad), cos = Math.cos(rad);
+    const rows = new Uint32Array(diagonal * 2);
+    for (let i = 0; i < points.length; i += 2) {
+      const row = Math.round(points[i + 1] * cos - points[i] * sin) + diagonal;
+      rows[row]++;
+    }
+    let score = 0;
+    for (let i = 0; i < rows.length; i++) score += rows[i] * rows[i];
+    if (score > bestScore) {
+      bestScore = score;
+      bestAngle = angle;
+    }
+  }
+  return bestAngle;
+}
+
+/** Rotate by `angle` degrees around the centre (bilinear), filling with white */
+export function rotate(image: GrayImage, angle: number): GrayImage {
+  if (angle === 0) return image;
+  const { width, height, data } = image;
+  const rad = (angle * Math.PI) / 180;
+  const sin = Math.sin(rad), cos = Math.cos(rad);
+  const cx = width / 2, cy = height / 2;
+  const out = new Uint8ClampedArray(width * height);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      // Source position for this output pixel (inverse rotation)
+      const dx = x - cx, dy = y - cy;
+      const sx = dx * cos + dy * sin + cx;
+      const sy = -dx * sin + dy * cos + cy;
+      const x0 = Math.floor(sx), y0 = Math.floor(sy);
+      if (x0 < 0 || y0 < 0 || x0 >= width - 1 || y0 >= height - 1) {
+        out[y * width + x] = 255;
+        continue;
+      }
+      const fx = sx - x0, fy = sy - y0;
+      const i = y0 * width + x0;
+      const top = data[i] * (1 - fx) + data[i + 1] * fx;
+      const bottom = data[i + width] * (1 - fx) + data[i + width + 1] * fx;
+      out[y * width + x] = top * (1 - fy) + bottom * fy;
+    }
+  }
+  return { width, height, data: out };
+}
+
+/**
+ * Adaptive threshold (Bradley-Roth): a pixel is ink when it is `sensitivity`
+ * darker than the mean of its neighbourhood, so shadows and creases across
+ * the paper don't turn into black blobs.
+ */
+export function adaptiveThreshold(image: GrayImage, sensitivity = 0.15): GrayImage {
+  const { width, height, data } = image;
+  const integral = new Float64Array((width + 1) * (height + 1));
+  for (let y = 1; y <= height; y++) {
+    let rowSum = 0;
+    for (let x = 1; x <= width; x++) {
+      rowSum += data[(y - 1) * width + (x - 1)];
+      integral[y * (width + 1) + x] = integral[(y - 1) * (width + 1) + x] + rowSum;
+    }
+  }
+
+  const half = Math.max(8, Math.floor(Math.max(width, height) / 32));
+  const out = new Uint8ClampedArray(width * height);
+  for (let y = 0; y < height; y++) {
+    const y0 = Math.max(0, y - half), y1 = Math.min(height, y + half + 1);
+    for (let x = 0; x < width; x++) {
+      const x0 = Math.max(0, x - half), x1 = Math.min(width, x + half + 1);
+      const count = (x1 - x0) * (y1 - y0);
+      const sum = integral[y1 * (width + 1) + x1] - integral[y0 * (width + 1) + x1]
+        - integral[y1 * (width + 1) + x0] + integral[y0 * (width + 1) + x0];
+      out[y * width + x] = data[y * width + x] * count < sum * (1 - sensitivity) ? 0 : 255;
+    }
+  }
+  return { width, height, data: out };
+}
+
+/** The full pipeline */
+export function preprocessReceipt(image: GrayImage): GrayImage {
+  const stretched = stretchContrast(image);
+  const cropped = autoCrop(stretched);
+  const straightened = rotate(cropped, -detectSkew(cropped));
+  return adaptiveThreshold(straightened);
+}
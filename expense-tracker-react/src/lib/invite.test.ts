@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import type { Account } from '@/types';
+import { inviteConflictMessage, type InviteData } from './invite';
+
+const KEY_A = 'A'.repeat(43);
+const KEY_B = 'B'.repeat(43);
+const server = { host: 'sync.example.com', port: 443, path: '/', secure: true };
+
+const account: Account = {
+  id: 'acc1',
+  name: 'Trip',
+  mode: 'shared',
+  currency: 'EUR',
+  createdAt: 0,
+  hostDeviceId: 'host1',
+  signaling: server,
+  groupKey: KEY_A
+};
+
+const invite = (fields: Partial<InviteData>): InviteData => ({
+  accountId: 'acc1',
+  accountName: 'Trip',
+  deviceId: 'host1',
+  signaling: server,
+  groupKey: KEY_A,
+  ...fields
+});
+
+describe('inviteConflictMessage', () => {
+  it('lets the same invite through', () => {
+    expect(inviteConflictMessage(account, invite({}))).toBeNull();
+  });
+
+  it('lets an invite fill in what the account is missing', () => {
+    const bare: Account = { ...account, hostDeviceId: undefined, signaling: undefined, groupKey: undefined };
+    expect(inviteConflictMessage(bare, invite({ groupKey: KEY_B, deviceId: 'host2' }))).toBeNull();
+  });
+
+  it('ignores what the invite leaves out', () => {
+    expect(inviteConflictMessage(account, invite({ deviceId: '', signaling: undefined, groupKey: undefined }))).toBeNull();
+  });
+
+  it('asks before replacing a different group key', () => {
+    expect(inviteConflictMessage(account, invite({ groupKey: KEY_B }))).toContain('different group key for "Trip"');
+  });
+
+  it('names everything that would change', () => {
+    const message = inviteConflictMessage(account, invite({ groupKey: KEY_B, deviceId: 'host2', signaling: { ...server, host: 'evil.example.com' } }));
+    expect(message).toContain('group key, host device and sync server');
+  });
+});
@@ -1,23 +1,41 @@
+import type { Account, SignalingServer } from '@/types';
+import { decodeSignaling, encodeSignaling, sameSignaling } from './signaling';
+import { parseGroupKey } from '@/sync/groupAuth';
+
+export interface InviteData {
+  accountId: string;
+  deviceId: string;
+  accountName: string;
+  /** The group's signaling server; missing = public PeerJS cloud */
+  signaling?: SignalingServer;
+  /** The group's key; missing for groups created before keys */
+  groupKey?: string;
+}
+
 /**
  * Parse invite input from various formats:
- * - et:accountId:deviceId:accountName (QR format)
- * - URL: .../join?account=xxx&name=yyy
+ * - et:accountId:deviceId:accountName[:server[:key]] (QR format)
+ * - URL: .../join?account=xxx&name=yyy[&server=zzz][#key=kkk]
  * - URL: ...?account=xxx&name=yyy
+ * The server is base64url JSON (see encodeSignaling). The group key goes in
+ * the fragment, which browsers don't send to the web server.
  */
-export function parseInviteInput(
-  input: string
-): { accountId: string; deviceId: string; accountName: string } | null {
+export function parseInviteInput(input: string): InviteData | null {
   const trimmed = input.trim();
   if (!trimmed) return null;
 
-  // Format: et:accountId:deviceId:accountName
+  // Format: et:accountId:deviceId:accountName[:server[:key]]
   if (trimmed.startsWith('et:')) {
     const parts = trimmed.slice(3).split(':');
     if (parts.length >= 2) {
+      const signaling = decodeSignaling(parts[3]);
+      const groupKey = parseGroupKey(parts[4]);
       return {
         accountId: parts[0],
         deviceId: parts[1],
-        accountName: decodeURIComponent(parts[2] || 'Shared Group')
+        accountName: decodeURIComponent(parts[2] || 'Shared Group'),
+        ...(signaling && { signaling }),
+        ...(groupKey && { groupKey })
       };
     }
   }
@@ -32,11 +50,15 @@ export function parseInviteInput(
     const parsed = new URL(url);
     const accountId = parsed.searchParams.get('account');
     const accountName = parsed.searchParams.get('name') || 'Shared Group';
+    const signaling = decodeSignaling(parsed.searchParams.get('server'));
+    const groupKey = parseGroupKey(new URLSearchParams(parsed.hash.slice(1)).get('key'));
     if (accountId) {
       return {
         accountId,
         deviceId: parsed.searchParams.get('device') || '',
-        accountName: decodeURIComponent(accountName)
+        accountName: decodeURIComponent(accountName),
+        ...(signaling && { signaling }),
+        ...(groupKey && { groupKey })
       };
     }
   } catch {
@@ -60,9 +82,14 @@ export function parseInviteInput(
 export function generateInviteCode(
   accountId: string,
   deviceId: string,
-  accountName: string
+  accountName: string,
+  signaling?: SignalingServer,
+  groupKey?: string
 ): string {
-  return `et:${accountId}:${deviceId}:${encodeURIComponent(accountName)}`;
+  const code = `et:${accountId}:${deviceId}:${encodeURIComponent(accountName)}`;
+  const server = signaling ? encodeSignaling(signaling) : '';
+  if (groupKey) return `${code}:${server}:${groupKey}`;
+  return server ? `${code}:${server}` : code;
 }
 
 /**
@@ -73,6 +100,8 @@ export function generateInviteUrl(
   accountId: string,
   accountName: string,
   deviceId?: string,
+  signaling?: SignalingServer,
+  groupKey?: string,
   baseUrl: string = typeof window !== 'undefined' ? window.location.origin + (import.meta.env.BASE_URL || '/') : ''
 ): string {
   const path = baseUrl.replace(/\/$/, '') + '/join';
@@ -80,5 +109,23 @@ export function generateInviteUrl(
   params.set('account', accountId);
   params.set('name', accountName);
   if (deviceId) params.set('device', deviceId);
-  return `${path}?${params.toString()}`;
+  if (signaling) params.set('server', encodeSignaling(signaling));
+  const fragment = groupKey ? `#${new URLSearchParams({ key: groupKey }).toString()}` : '';
+  return `${path}?${params.toString()}${fragment}`;
+}
+
+/**
+ * Question to ask before an invite replaces the host device, sync server or
+ * group key of an account this device already has, or null when it only adds
+ * what the account is missing. Taking them decides who the account syncs
+ * with, so a stray or forged invite mustn't do it silently.
+ */
+export function inviteConflictMessage(account: Account, invite: InviteData): string | null {
+  const changes: string[] = [];
+  if (invite.groupKey && account.groupKey && invite.groupKey !== account.groupKey) changes.push('group key');
+  if (invite.deviceId && account.hostDeviceId && invite.deviceId !== account.hostDeviceId) changes.push('host device');
+  if (invite.signaling && account.signaling && !sameSignaling(invite.signaling, account.signaling)) changes.push('sync server');
+  if (changes.length === 0) return null;
+  const list = changes.length > 1 ? `${changes.slice(0, -1).join(', ')} and ${changes[changes.length - 1]}` : changes[0];
+  return `This invite has a different ${list} for "${account.name}". Only use it if you trust who sent it: this device will sync with whoever made it. Replace the ${list}?`;
 }
@@ -0,0 +1,96 @@
+/**
+ * Money arithmetic in integer minor units (cents, or satoshis for BTC).
+ *
+ * Amounts are stored as decimal numbers in the base currency. Sums, splits and
+ * balances convert them with toMinor first and only go back with fromMinor for
+ * the result, so float drift never builds up and every screen adds up the same
+ * way. `digits` is the currency's number of decimals (getCurrencyDigits: JPY 0,
+ * USD 2, BTC 8), so a minor unit is always the smallest amount it can show.
+ */
+
+/** Amount in minor units of a currency with `digits` decimals */
+export function toMinor(amount: number, digits: number): number {
+  return Math.round(amount * 10 ** digits);
+}
+
+/** Minor units back to an amount */
+export function fromMinor(minor: number, digits: number): number {
+  return minor / 10 ** digits;
+}
+
+/** Round an amount to whole minor units */
+export function roundMoney(amount: number, digits: number): number {
+  return fromMinor(toMinor(amount, digits), digits);
+}
+
+/** Exact sum of amounts (each rounded to minor units first) */
+export function sumMoney(amounts: number[], digits: number): number {
+  return fromMinor(amounts.reduce((sum, amount) => sum + toMinor(amount, digits), 0), digits);
+}
+
+/**
+ * Spread `totalMinor` over ids proportionally to `weights`. Each part is
+ * rounded down; the minor units left over go one at a time to the ids in
+ * `priority` order (default: largest weight first, then id), so the parts
+ * always add up to the total exactly and the same input always gives the same
+ * parts.
+ */
+export function allocateMinor(
+  totalMinor: number,
+  weights: Record<string, number>,
+  priority?: string[]
+): Record<string, number> {
+  const ids = Object.keys(weights).filter(id => weights[id] > 0);
+  const weightSum = ids.reduce((sum, id) => sum + weights[id], 0);
+  const result: Record<string, number> = {};
+  if (ids.length === 0 || weightSum <= 0) return result;
+
+  const sign = totalMinor < 0 ? -1 : 1;
+  const absTotal = Math.abs(totalMinor);
+  let assigned = 0;
+  ids.forEach(id => {
+    result[id] = Math.floor((absTotal * weights[id]) / weightSum);
+    assigned += result[id];
+  });
+
+  const order = (priority ?? [])
+    .filter(id => result[id] !== undefined)
+    .concat(
+      [...ids]
+        .filter(id => !priority?.includes(id))
+        .sort((a, b) => weights[b] - weights[a] || a.localeCompare(b))
+    );
+  for (let i = 0; assigned < absTotal; i = (i + 1) % order.length) {
+    result[order[i]] += 1;
+    assigned += 1;
+  }
+  // Past 2^53 (large BTC amounts in satoshis) a product can round up; take it back from the end
+  for (let i = order.length - 1; assigned > absTotal; i = (i + order.length - 1) % order.length) {
+    if (result[order[i]] === 0) continue;
+    result[order[i]] -= 1;
+    assigned -= 1;
+  }
+
+  if (sign < 0) ids.forEach(id => { result[id] = -result[id]; });
+  return result;
+}
+
+/**
+ * Equal split of `totalMinor` among participants. Uneven minor units go to the
+ * payer first (they are holding the money anyway), then to the other
+ * participants in id order - the same rule on every device and every screen.
+ */
+export function splitEvenlyMinor(
+  totalMinor: number,
+  participants: string[],
+  payerId?: string
+): Record<string, number> {
+  const weights: Record<string, number> = {};
+  participants.forEach(id => { weights[id] = 1; });
+  const priority = [...participants].sort((a, b) => {
+    if (a === payerId) return -1;
+    if (b === payerId) return 1;
+    return a.localeCompare(b);
+  });
+  return allocateMinor(totalMinor, weights, priority);
+}
@@ -0,0 +1,111 @@
+/**
+ * Receipt OCR with Tesseract - language packs, script detection and offline use.
+ *
+ * Tesseract's worker, WASM core and language data come from the jsDelivr CDN.
+ * The service worker keeps those responses in OCR_CACHE (see vite.config.ts)
+ * and Tesseract stores each traineddata in IndexedDB as well, so a language
+ * downloaded once keeps working without a connection.
+ */
+import Tesseract from 'tesseract.js';
+import { DEFAULT_OCR_LANGUAGES, getOcrLanguage } from './ocrLanguages';
+
+/** Cache name of the service worker rule for Tesseract files */
+export const OCR_CACHE = 'ocr-cache';
+
+/** OSD script confidence below which the guess is ignored */
+const MIN_SCRIPT_CONFIDENCE = 2;
+
+export interface OcrText {
+  text: string;
+  /** Tesseract's overall confidence (0-100) */
+  confidence: number;
+  /** Languages the text was read with */
+  languages: string[];
+}
+
+/** Codes of the language packs in the service worker cache */
+export async function getDownloadedLanguages(): Promise<Set<string>> {
+  const codes = new Set<string>();
+  if (typeof caches === 'undefined') return codes;
+  try {
+    const cache = await caches.open(OCR_CACHE);
+    (await cache.keys()).forEach(request => {
+      const match = request.url.match(/@tesseract\.js-data\/([^/]+)\//);
+      if (match) codes.add(match[1]);
+    });
+  } catch (error) {
+    console.warn('[OCR] Could not read the language cache:', error);
+  }
+  return codes;
+}
+
+/** Whether the languages are written in more than one script */
+function isMultiScript(languages: string[]): boolean {
+  return new Set(languages.map(code => getOcrLanguage(code)?.scripts[0])).size > 1;
+}
+
+/**
+ * Fetch the language packs (and Tesseract itself) so scanning works offline.
+ * Loading a worker is what fetches them; the service worker and Tesseract's
+ * own cache keep the files. Script detection data comes along when the
+ * languages span several scripts.
+ */
+export async function downloadLanguages(languages: string[], onProgress?: (progress: number) => void): Promise<void> {
+  const worker = await Tesseract.createWorker(languages, Tesseract.OEM.LSTM_ONLY, {
+    logger: (m) => {
+      if (m.status === 'loading language traineddata') onProgress?.(m.progress);
+    }
+  });
+  await worker.terminate();
+  if (isMultiScript(languages)) {
+    const osd = await Tesseract.createWorker('osd', Tesseract.OEM.TESSERACT_ONLY);
+    await osd.terminate();
+  }
+}
+
+/** Offline, only the downloaded packs can be loaded (all of them if none are known) */
+async function usableLanguages(languages: string[]): Promise<string[]> {
+  if (typeof navigator === 'undefined' || navigator.onLine) return languages;
+  const downloaded = await getDownloadedLanguages();
+  const usable = languages.filter(code => downloaded.has(code));
+  return usable.length > 0 ? usable : languages;
+}
+
+/**
+ * The languages to read a receipt with. When the chosen languages span several
+ * scripts, Tesseract's orientation and script detection picks the ones for the
+ * receipt's main script - reading a Latin receipt with the Japanese model too
+ * is slow and adds noise. Latin languages stay in for mixed receipts: brand
+ * names, codes and card slips are usually printed in Latin letters.
+ */
+async function pickLanguages(image: Blob, languages: string[]): Promise<string[]> {
+  if (!isMultiScript(languages)) return languages;
+  try {
+    const { data } = await Tesseract.detect(image);
+    const script: string | null = data.script;
+    if (!script || (data.script_confidence ?? 0) < MIN_SCRIPT_CONFIDENCE) return languages;
+    const matching = languages.filter(code => getOcrLanguage(code)?.scripts.includes(script));
+    if (matching.length === 0) return languages;
+    const latin = languages.filter(code => !matching.includes(code) && getOcrLanguage(code)?.scripts.includes('Latin'));
+    return [...matching, ...latin];
+  } catch (error) {
+    console.warn('[OCR] Script detection failed, reading with all languages:', error);
+    return languages;
+  }
+}
+
+/** Read the text of a receipt image in the chosen languages */
+export async function recognizeReceipt(
+  image: Blob,
+  languages: string[],
+  onProgress?: (progress: number) => void
+): Promise<OcrText> {
+  const usable = await usableLanguages(languages.length > 0 ? languages : DEFAULT_OCR_LANGUAGES);
+  const picked = await pickLanguages(image, usable);
+  const result = await Tesseract.recognize(image, picked.join('+'), {
+    logger: (m) => {
+      if (m.status === 'recognizing text') onProgress?.(m.progress);
+    }
+  });
+  return { text: result.data.text, confidence: result.data.confidence, languages: picked };
+}
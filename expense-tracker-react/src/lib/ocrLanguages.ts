@@ -0,0 +1,279 @@
+/**
+ * Receipt languages - the Tesseract language packs offered for scanning and
+ * the words and date formats the receipt parsers look for in each.
+ *
+ * English words are always recognised (receipts everywhere print TOTAL, VAT
+ * or VISA), so the English entry only names the pack; the parsers keep their
+ * own English tables and add the words of the other chosen languages.
+ */
+
+export type ReceiptWord = 'total' | 'subtotal' | 'tax' | 'tip' | 'payment';
+
+export interface OcrLanguage {
+  /** Tesseract language code */
+  code: string;
+  /** Name in the language itself */
+  name: string;
+  /** Tesseract OSD script names, used to pick packs for a receipt */
+  scripts: string[];
+  /** Decides DD/MM vs MM/DD on receipts in this language (default: the account's locale) */
+  locale?: string;
+  /** "Total", "VAT"... as printed on receipts; payment covers cash, card and change lines */
+  words?: Partial<Record<ReceiptWord, string[]>>;
+  /** January to December, or their common stems */
+  months?: string[];
+}
+
+export const OCR_LANGUAGES: OcrLanguage[] = [
+  { code: 'eng', name: 'English', scripts: ['Latin'] },
+  {
+    code: 'deu',
+    name: 'Deutsch',
+    scripts: ['Latin'],
+    locale: 'de-DE',
+    words: {
+      total: ['summe', 'gesamt', 'gesamtbetrag', 'endbetrag', 'zu zahlen', 'betrag'],
+      subtotal: ['zwischensumme', 'netto'],
+      tax: ['mwst', 'ust', 'mehrwertsteuer', 'steuer'],
+      tip: ['trinkgeld', 'bedienung'],
+      payment: ['bar', 'gegeben', 'rückgeld', 'wechselgeld', 'girocard', 'ec-karte', 'kartenzahlung']
+    },
+    months: ['januar', 'februar', 'märz', 'april', 'mai', 'juni', 'juli', 'august', 'september', 'oktober', 'november', 'dezember']
+  },
+  {
+    code: 'fra',
+    name: 'Français',
+    scripts: ['Latin'],
+    locale: 'fr-FR',
+    words: {
+      total: ['total ttc', 'montant', 'net à payer', 'à payer', 'somme'],
+      subtotal: ['sous-total', 'sous total', 'total ht'],
+      tax: ['tva', 'taxe'],
+      tip: ['pourboire', 'service'],
+      payment: ['espèces', 'rendu', 'monnaie', 'carte bancaire', 'cb']
+    },
+    months: ['janvier', 'février', 'mars', 'avril', 'mai', 'juin', 'juillet', 'août', 'septembre', 'octobre', 'novembre', 'décembre']
+  },
+  {
+    code: 'spa',
+    name: 'Español',
+    scripts: ['Latin'],
+    locale: 'es-ES',
+    words: {
+      total: ['importe', 'importe total', 'total a pagar', 'a pagar'],
+      subtotal: ['subtotal', 'base imponible'],
+      tax: ['iva', 'igic', 'impuesto'],
+      tip: ['propina', 'servicio'],
+      payment: ['efectivo', 'entregado', 'cambio', 'tarjeta']
+    },
+    months: ['enero', 'febrero', 'marzo', 'abril', 'mayo', 'junio', 'julio', 'agosto', 'septiembre', 'octubre', 'noviembre', 'diciembre']
+  },
+  {
+    code: 'ita',
+    name: 'Italiano',
+    scripts: ['Latin'],
+    locale: 'it-IT',
+    words: {
+      total: ['totale', 'totale complessivo', 'importo', 'da pagare'],
+      subtotal: ['subtotale', 'imponibile'],
+      tax: ['iva', 'imposta'],
+      tip: ['mancia', 'servizio', 'coperto'],
+      payment: ['contanti', 'resto', 'carta', 'pagamento elettronico']
+    },
+    months: ['gennaio', 'febbraio', 'marzo', 'aprile', 'maggio', 'giugno', 'luglio', 'agosto', 'settembre', 'ottobre', 'novembre', 'dicembre']
+  },
+  {
+    code: 'por',
+    name: 'Português',
+    scripts: ['Latin'],
+    locale: 'pt-BR',
+    words: {
+      total: ['valor total', 'total a pagar', 'valor a pagar', 'a pagar'],
+      subtotal: ['subtotal'],
+      tax: ['iva', 'icms', 'imposto'],
+      tip: ['gorjeta', 'serviço', 'taxa de serviço'],
+      payment: ['dinheiro', 'troco', 'cartão']
+    },
+    months: ['janeiro', 'fevereiro', 'março', 'abril', 'maio', 'junho', 'julho', 'agosto', 'setembro', 'outubro', 'novembro', 'dezembro']
+  },
+  {
+    code: 'nld',
+    name: 'Nederlands',
+    scripts: ['Latin'],
+    locale: 'nl-NL',
+    words: {
+      total: ['totaal', 'te betalen', 'bedrag'],
+      subtotal: ['subtotaal'],
+      tax: ['btw'],
+      tip: ['fooi', 'bediening'],
+      payment: ['contant', 'wisselgeld', 'retour', 'pin', 'pinnen']
+    },
+    months: ['januari', 'februari', 'maart', 'april', 'mei', 'juni', 'juli', 'augustus', 'september', 'oktober', 'november', 'december']
+  },
+  {
+    code: 'pol',
+    name: 'Polski',
+    scripts: ['Latin'],
+    locale: 'pl-PL',
+    words: {
+      total: ['suma', 'razem', 'do zapłaty'],
+      subtotal: ['wartość netto'],
+      tax: ['ptu', 'podatek'],
+      tip: ['napiwek'],
+      payment: ['gotówka', 'reszta', 'karta']
+    }
+  },
+  {
+    code: 'rus',
+    name: 'Русский',
+    scripts: ['Cyrillic'],
+    locale: 'ru-RU',
+    words: {
+      total: ['итого', 'итог', 'всего', 'к оплате', 'сумма'],
+      subtotal: ['подытог', 'промежуточный итог'],
+      tax: ['ндс', 'налог'],
+      tip: ['чаевые', 'обслуживание'],
+      payment: ['наличные', 'сдача', 'карта', 'безналичные']
+    },
+    // Stems, so "январь" and "января" both match
+    months: ['январ', 'феврал', 'март', 'апрел', 'ма', 'июн', 'июл', 'август', 'сентябр', 'октябр', 'ноябр', 'декабр']
+  },
+  {
+    code: 'ell',
+    name: 'Ελληνικά',
+    scripts: ['Greek'],
+    locale: 'el-GR',
+    words: {
+      total: ['σύνολο', 'πληρωτέο'],
+      subtotal: ['μερικό σύνολο'],
+      tax: ['φπα', 'φ.π.α.'],
+      tip: ['φιλοδώρημα'],
+      payment: ['μετρητά', 'ρέστα', 'κάρτα']
+    }
+  },
+  {
+    code: 'jpn',
+    name: '日本語',
+    scripts: ['Japanese', 'Han', 'Hiragana', 'Katakana'],
+    locale: 'ja-JP',
+    words: {
+      total: ['合計', '総合計', 'お会計', 'ご請求額', 'お買上計'],
+      subtotal: ['小計'],
+      tax: ['消費税', '内税', '外税'],
+      tip: ['サービス料'],
+      payment: ['お預り', 'お預かり', 'お釣り', 'おつり', '釣銭', '現金', 'クレジット']
+    }
+  },
+  {
+    code: 'chi_sim',
+    name: '简体中文',
+    scripts: ['Han'],
+    locale: 'zh-CN',
+    words: {
+      total: ['合计', '总计', '总额', '应付', '实付'],
+      subtotal: ['小计'],
+      tax: ['税额', '增值税'],
+      tip: ['服务费'],
+      payment: ['现金', '找零', '支付宝', '微信']
+    }
+  },
+  {
+    code: 'kor',
+    name: '한국어',
+    scripts: ['Hangul', 'Korean'],
+    locale: 'ko-KR',
+    words: {
+      total: ['합계', '총액', '결제금액', '받을금액'],
+      subtotal: ['소계'],
+      tax: ['부가세', '부가가치세', '세액'],
+      tip: ['봉사료'],
+      payment: ['현금', '거스름돈', '받은금액', '카드']
+    }
+  }
+];
+
+export const DEFAULT_OCR_LANGUAGES = ['eng'];
+
+export function getOcrLanguage(code: string): OcrLanguage | undefined {
+  return OCR_LANGUAGES.find(l => l.code === code);
+}
+
+// Scripts written without spaces between words; Tesseract often puts spaces
+// between their characters instead ("合 計")
+const UNSPACED = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/u;
+
+function wordPattern(word: string): string {
+  const escape = (s: string) => s.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+  if (UNSPACED.test(word)) return [...word].map(escape).join('\\s*');
+  // \b only knows ASCII letters, so look for letters on either side instead
+  return `(?<![\\p{L}\\p{N}])${escape(word).replace(/\s+/g, '\\s+')}(?![\\p{L}\\p{N}])`;
+}
+
+const patternCache = new Map<string, Partial<Record<ReceiptWord, RegExp>>>();
+
+/**
+ * Patterns for the receipt words of the given languages (English excluded,
+ * see above). Words missing from every language have no pattern.
+ */
+export function receiptWordPatterns(languages: string[]): Partial<Record<ReceiptWord, RegExp>> {
+  const key = languages.join('+');
+  let patterns = patternCache.get(key);
+  if (patterns) return patterns;
+
+  const words: Partial<Record<ReceiptWord, string[]>> = {};
+  languages.forEach(code => {
+    Object.entries(getOcrLanguage(code)?.words ?? {}).forEach(([kind, list]) => {
+      const type = kind as ReceiptWord;
+      words[type] = [...(words[type] ?? []), ...list];
+    });
+  });
+
+  patterns = {};
+  Object.entries(words).forEach(([kind, list]) => {
+    // Longest first so "total ttc" wins over "total"
+    const sorted = [...new Set(list)].sort((a, b) => b.length - a.length);
+    patterns![kind as ReceiptWord] = new RegExp(sorted.map(wordPattern).join('|'), 'iu');
+  });
+  patternCache.set(key, patterns);
+  return patterns;
+}
+
+/**
+ * The chosen language the receipt is most likely in, judged by how many of
+ * its lines contain that language's receipt words; undefined when none do.
+ */
+export function detectReceiptLanguage(text: string, languages: string[]): OcrLanguage | undefined {
+  const lines = text.split('\n');
+  let best: OcrLanguage | undefined;
+  let bestHits = 0;
+  languages.forEach(code => {
+    const language = getOcrLanguage(code);
+    if (!language?.words) return;
+    const patterns = Object.values(receiptWordPatterns([code]));
+    const hits = lines.filter(line => patterns.some(p => p.test(line))).length;
+    if (hits > bestHits) {
+      best = language;
+      bestHits = hits;
+    }
+  });
+  return best;
+}
+
+/** Lower case without accents, so OCR that drops them still matches */
+export function foldAccents(word: string): string {
+  return word.toLowerCase().normalize('NFD').replace(/\p{M}/gu, '');
+}
+
+/** Month names of the given languages (English always included), folded */
+export function monthNames(languages: string[]): string[][] {
+  const english = [
+    'january', 'february', 'march', 'april', 'may', 'june',
+    'july', 'august', 'september', 'october', 'november', 'december'
+  ];
+  const lists = [english];
+  languages.forEach(code => {
+    const months = getOcrLanguage(code)?.months;
+    if (months) lists.push(months.map(foldAccents));
+  });
+  return lists;
+}
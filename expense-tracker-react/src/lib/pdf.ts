@@ -0,0 +1,69 @@
+/**
+ * PDF receipts with pdf.js - render a page to an image and read the text
+ * layer. pdf.js is loaded on first use so it stays out of the main bundle.
+ */
+import type { PDFDocumentProxy, TextItem } from 'pdfjs-dist/types/src/display/api';
+
+type PdfJs = typeof import('pdfjs-dist');
+
+let pdfjs: Promise<PdfJs> | null = null;
+
+function loadPdfJs(): Promise<PdfJs> {
+  pdfjs ??= import('pdfjs-dist').then(lib => {
+    lib.GlobalWorkerOptions.workerSrc = new URL('pdfjs-dist/build/pdf.worker.min.mjs', import.meta.url).toString();
+    return lib;
+  });
+  return pdfjs;
+}
+
+async function withPdf<T>(blob: Blob, read: (doc: PDFDocumentProxy) => Promise<T>): Promise<T> {
+  const lib = await loadPdfJs();
+  const doc = await lib.getDocument({ data: new Uint8Array(await blob.arrayBuffer()) }).promise;
+  try {
+    return await read(doc);
+  } finally {
+    await doc.destroy();
+  }
+}
+
+/** Render a page (first by default) `width` pixels wide, as PNG */
+export function renderPdfPage(blob: Blob, width: number, pageNumber = 1): Promise<Blob> {
+  return withPdf(blob, async doc => {
+    const page = await doc.getPage(pageNumber);
+    const viewport = page.getViewport({ scale: width / page.getViewport({ scale: 1 }).width });
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(viewport.width);
+    canvas.height = Math.round(viewport.height);
+    await page.render({ canvas, viewport }).promise;
+    return new Promise<Blob>((resolve, reject) => {
+      canvas.toBlob(png => (png ? resolve(png) : reject(new Error('Failed to render PDF'))), 'image/png');
+    });
+  });
+}
+
+/**
+ * Text of the first `maxPages` pages, one line per row of text on the page
+ * (pieces are put back in reading order by position). Empty for scanned PDFs
+ * that have no text layer.
+ */
+export function extractPdfText(blob: Blob, maxPages = 5): Promise<string> {
+  return withPdf(blob, async doc => {
+    const pages: string[] = [];
+    for (let n = 1; n <= Math.min(doc.numPages, maxPages); n++) {
+      const content = await (await doc.getPage(n)).getTextContent();
+      const rows = new Map<number, { x: number; text: string }[]>();
+      content.items.forEach(item => {
+        const { str, transform } = item as TextItem;
+        if (!str?.trim()) return;
+        // Pieces within 2pt of each other vertically are on the same line
+        const y = Math.round(transform[5] / 2);
+        rows.set(y, [...(rows.get(y) ?? []), { x: transform[4], text: str.trim() }]);
+      });
+      const lines = [...rows.entries()]
+        .sort((a, b) => b[0] - a[0])
+        .map(([, pieces]) => pieces.sort((a, b) => a.x - b.x).map(p => p.text).join(' '));
+      pages.push(lines.join('\n'));
+    }
+    return pages.join('\n').trim();
+  });
+}
@@ -0,0 +1,48 @@
+/**
+ * Receipt preprocessing before OCR, run in a Web Worker (preprocess.worker.ts).
+ * Falls back to the original photo when workers or OffscreenCanvas aren't
+ * available or the worker fails - OCR on the raw photo beats no OCR.
+ */
+
+let worker: Worker | null = null;
+let nextId = 0;
+const pending = new Map<number, (image: Blob | null) => void>();
+
+function getWorker(): Worker | null {
+  if (worker) return worker;
+  if (typeof Worker === 'undefined' || typeof OffscreenCanvas === 'undefined') return null;
+  try {
+    worker = new Worker(new URL('./preprocess.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<{ id: number; image?: Blob; error?: string }>) => {
+      const { id, image, error } = event.data;
+      if (error) console.warn('[OCR] Preprocessing failed:', error);
+      pending.get(id)?.(image ?? null);
+      pending.delete(id);
+    };
+    worker.onerror = (event) => {
+      console.warn('[OCR] Preprocessing worker error:', event.message);
+      pending.forEach(resolve => resolve(null));
+      pending.clear();
+      worker?.terminate();
+      worker = null;
+    };
+  } catch (error) {
+    console.warn('[OCR] Could not start preprocessing worker:', error);
+    worker = null;
+  }
+  return worker;
+}
+
+/**
+ * Clean up a receipt photo for OCR: grayscale, contrast stretch, crop to the
+ * paper, deskew and adaptive threshold. Resolves to null if it can't be done.
+ */
+export function preprocessReceiptImage(image: Blob): Promise<Blob | null> {
+  const w = getWorker();
+  if (!w) return Promise.resolve(null);
+  const id = nextId++;
+  return new Promise(resolve => {
+    pending.set(id, resolve);
+    w.postMessage({ id, image });
+  });
+}
@@ -0,0 +1,39 @@
+/// <reference lib="webworker" />
+/**
+ * Web Worker: cleans up a receipt photo for OCR off the main thread.
+ * Receives { id, image: Blob }, replies { id, image: Blob } (PNG) or { id, error }.
+ */
+import { preprocessReceipt, toGrayscale, toRgba } from './imageFilters';
+
+/** Longest side to work at - plenty for Tesseract, keeps the filters quick */
+const MAX_SIDE = 2000;
+
+// The app's lib is DOM, where `self` is the window
+declare const self: DedicatedWorkerGlobalScope;
+
+self.onmessage = async (event: MessageEvent<{ id: number; image: Blob }>) => {
+  const { id, image } = event.data;
+  try {
+    const bitmap = await createImageBitmap(image);
+    const scale = Math.min(1, MAX_SIDE / Math.max(bitmap.width, bitmap.height));
+    const width = Math.round(bitmap.width * scale);
+    const height = Math.round(bitmap.height * scale);
+
+    const canvas = new OffscreenCanvas(width, height);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('No 2D context in worker');
+    ctx.drawImage(bitmap, 0, 0, width, height);
+    bitmap.close();
+
+    const gray = toGrayscale(ctx.getImageData(0, 0, width, height).data, width, height);
+    const result = preprocessReceipt(gray);
+
+    const out = new OffscreenCanvas(result.width, result.height);
+    const outCtx = out.getContext('2d');
+    if (!outCtx) throw new Error('No 2D context in worker');
+    outCtx.putImageData(new ImageData(toRgba(result), result.width, result.height), 0, 0);
+    self.postMessage({ id, image: await out.convertToBlob({ type: 'image/png' }) });
+  } catch (error) {
+    self.postMessage({ id, error: error instanceof Error ? error.message : String(error) });
+  }
+};
@@ -0,0 +1,109 @@
+/**
+ * Receipt line items - pull priced lines out of OCR text and split a bill by
+ * who had what.
+ */
+import { allocateMinor, fromMinor, splitEvenlyMinor, toMinor } from './money';
+import { receiptWordPatterns } from './ocrLanguages';
+
+export interface ReceiptItem {
+  id: string;
+  name: string;
+  price: number;
+}
+
+export interface ReceiptLines {
+  items: ReceiptItem[];
+  subtotal: number | null;
+  tax: number | null;
+  tip: number | null;
+  total: number | null;
+}
+
+// A price at the end of a line, optionally followed by a currency symbol or a
+// tax code letter ("4.50 A", "3,50 €")
+const PRICE_AT_END = /^(.*?)[\s.:]*[$€£¥₹]?\s*(-?\d{1,3}(?:[ ,.]\d{3})*[.,]\d{2}|-?\d+[.,]\d{2})\s*[$€£¥₹]?\s*[A-Z*]?$/;
+
+const SUBTOTAL_WORDS = /\b(sub\s*-?\s*total|subtotal|net)\b/i;
+const TAX_WORDS = /\b(tax|vat|gst|hst|pst|mwst|iva|tva)\b/i;
+const TIP_WORDS = /\b(tip|gratuity|service(\s+charge)?)\b/i;
+const TOTAL_WORDS = /\b(total|amount\s+due|balance(\s+due)?|to\s+pay)\b/i;
+// Payment and change lines repeat amounts that aren't items
+const SKIP_WORDS = /\b(cash|change|card|visa|mastercard|amex|debit|credit|tendered|paid|rounding|points|saved|you\s+save)\b/i;
+
+/** Number from a receipt price ("1,234.50", "12,50") */
+function parsePrice(value: string): number {
+  const lastSeparator = Math.max(value.lastIndexOf('.'), value.lastIndexOf(','));
+  const whole = value.slice(0, lastSeparator).replace(/[ ,.]/g, '');
+  return parseFloat(`${whole}.${value.slice(lastSeparator + 1)}`);
+}
+
+/**
+ * Split OCR text into priced items plus the subtotal, tax, tip and total
+ * lines. Lines without a price, and payment/change lines, are ignored.
+ * `languages` adds the receipt words of those OCR languages to the English ones.
+ */
+export function parseReceiptLines(text: string, languages: string[] = []): ReceiptLines {
+  const result: ReceiptLines = { items: [], subtotal: null, tax: null, tip: null, total: null };
+  const words = receiptWordPatterns(languages);
+  const has = (english: RegExp, other: RegExp | undefined, name: string) =>
+    english.test(name) || (other?.test(name) ?? false);
+
+  text.split('\n').forEach(raw => {
+    const line = raw.trim();
+    const match = line.match(PRICE_AT_END);
+    if (!match) return;
+    const name = match[1].replace(/[\s.:$€£¥₹-]+$/, '').trim();
+    const price = parsePrice(match[2]);
+    if (!Number.isFinite(price)) return;
+
+    if (has(SUBTOTAL_WORDS, words.subtotal, name)) {
+      result.subtotal = price;
+    } else if (has(TAX_WORDS, words.tax, name)) {
+      result.tax = (result.tax ?? 0) + price;
+    } else if (has(TIP_WORDS, words.tip, name)) {
+      result.tip = (result.tip ?? 0) + price;
+    } else if (has(TOTAL_WORDS, words.total, name)) {
+      // The first total wins; later ones are usually card slips
+      if (result.total === null) result.total = price;
+    } else if (has(SKIP_WORDS, words.payment, name)) {
+      return;
+    } else if (name.length >= 2 && /\p{L}/u.test(name) && price !== 0) {
+      // Stop collecting items once the totals block has started
+      if (result.total !== null || result.subtotal !== null) return;
+      result.items.push({ id: `item-${result.items.length}`, name, price });
+    }
+  });
+
+  return result;
+}
+
+/**
+ * Per-person amounts for an itemized bill. Each item is shared evenly by the
+ * people assigned to it (everyone when nobody is); tax, tip and anything else
+ * that makes up the difference to `total` is spread proportionally to what
+ * each person had. The amounts add up to `total` exactly, in minor units of
+ * a currency with `digits` decimals.
+ */
+export function computeItemizedSplit(
+  total: number,
+  items: ReceiptItem[],
+  assignments: Record<string, string[]>,
+  everyone: string[],
+  digits: number,
+  payerId?: string
+): Record<string, number> {
+  const subtotals: Record<string, number> = {};
+  items.forEach(item => {
+    const assigned = assignments[item.id]?.length ? assignments[item.id] : everyone;
+    const shares = splitEvenlyMinor(toMinor(item.price, digits), assigned, payerId);
+    Object.entries(shares).forEach(([personId, share]) => {
+      subtotals[personId] = (subtotals[personId] ?? 0) + share;
+    });
+  });
+
+  const details: Record<string, number> = {};
+  Object.entries(allocateMinor(toMinor(total, digits), subtotals)).forEach(([personId, minor]) => {
+    if (minor !== 0) details[personId] = fromMinor(minor, digits);
+  });
+  return details;
+}
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { parseReceipt, type ParseReceiptOptions } from './receiptParser';
+
+/** OCR text dumps of real-world style receipts, by file name */
+const fixtures = Object.fromEntries(
+  Object.entries(import.meta.glob<string>('./__fixtures__/receipts/*.txt', { query: '?raw', import: 'default', eager: true }))
+    .map(([path, text]) => [path.split('/').pop()!, text])
+);
+
+interface ReceiptCase {
+  name: string;
+  file: string;
+  options: ParseReceiptOptions;
+  expected: { total: number | null; merchant: string | null; date: string | null; currency: string | null };
+}
+
+const today = new Date(2024, 11, 31);
+
+const cases: ReceiptCase[] = [
+  {
+    name: 'Walmart: TOTAL over SUBTOTAL, cash tendered and CHANGE DUE',
+    file: 'walmart-cash.txt',
+    options: { locale: 'en-US', today },
+    expected: { total: 7, merchant: 'Walmart', date: '2024-03-14', currency: null }
+  },
+  {
+    name: 'German REWE: SUMME with decimal commas, DD.MM date',
+    file: 'rewe-karte.txt',
+    options: { locale: 'en-US', today, languages: ['eng', 'deu'] },
+    expected: { total: 6.48, merchant: 'Rewe', date: '2024-03-05', currency: 'EUR' }
+  },
+  {
+    name: 'Ambiguous 04/05/24 read MM/DD on an en-US phone',
+    file: 'corner-cafe-us.txt',
+    options: { locale: 'en-US', today },
+    expected: { total: 22.52, merchant: 'The Corner Cafe', date: '2024-04-05', currency: 'USD' }
+  },
+  {
+    name: 'Ambiguous 04/05/24 read DD/MM on an en-GB phone',
+    file: 'corner-cafe-gb.txt',
+    options: { locale: 'en-GB', today },
+    expected: { total: 12.5, merchant: 'The Corner Cafe', date: '2024-05-04', currency: 'GBP' }
+  },
+  {
+    name: 'Day over 12 decides the order whatever the locale',
+    file: 'tesco-express.txt',
+    options: { locale: 'en-US', today },
+    expected: { total: 5.35, merchant: 'Tesco', date: '2024-02-23', currency: 'GBP' }
+  }
+];
+
+describe('parseReceipt corpus', () => {
+  it('has a case for every fixture', () => {
+    expect(Object.keys(fixtures).sort()).toEqual([...new Set(cases.map(c => c.file))].sort());
+  });
+
+  it.each(cases)('$name', ({ file, options, expected }) => {
+    const parsed = parseReceipt(fixtures[file], options);
+    expect({
+      total: parsed.total.value,
+      merchant: parsed.merchant.value,
+      date: parsed.date.value,
+      currency: parsed.currency.value
+    }).toEqual(expected);
+  });
+
+  it('reads the same ambiguous date by the locale', () => {
+    const text = fixtures['corner-cafe-us.txt'];
+    expect(parseReceipt(text, { locale: 'en-US', today }).date.value).toBe('2024-04-05');
+    expect(parseReceipt(text, { locale: 'en-GB', today }).date.value).toBe('2024-05-04');
+  });
+
+  it('is less sure of a date only the locale decides', () => {
+    const ambiguous = parseReceipt(fixtures['corner-cafe-us.txt'], { locale: 'en-US', today }).date;
+    const certain = parseReceipt(fixtures['tesco-express.txt'], { locale: 'en-US', today }).date;
+    expect(ambiguous.confidence).toBeLessThan(certain.confidence);
+  });
+});
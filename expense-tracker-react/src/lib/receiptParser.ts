@@ -0,0 +1,344 @@
+/**
+ * Receipt parser - turns raw OCR text into expense fields.
+ *
+ * Every amount on the receipt is a candidate total and gets scored by the
+ * words on its line (TOTAL beats SUBTOTAL, CHANGE and TAX count against it)
+ * and by how it relates to the other amounts. Each field comes back with a
+ * confidence between 0 and 1 so the form can ask the user to check the
+ * uncertain ones.
+ */
+import { CURRENCIES } from '@/types';
+import { parseReceiptLines, type ReceiptItem } from './receipt';
+import { getDeviceLocale } from './format';
+import { detectReceiptLanguage, foldAccents, monthNames, receiptWordPatterns, type ReceiptWord } from './ocrLanguages';
+
+export interface ReceiptField<T> {
+  value: T | null;
+  /** 0 (guess) to 1 (certain) */
+  confidence: number;
+}
+
+export interface ParsedReceipt {
+  total: ReceiptField<number>;
+  merchant: ReceiptField<string>;
+  date: ReceiptField<string>;
+  /** ISO currency code */
+  currency: ReceiptField<string>;
+  subtotal: number | null;
+  tax: number | null;
+  tip: number | null;
+  items: ReceiptItem[];
+}
+
+export interface ParseReceiptOptions {
+  /** Decides DD/MM vs MM/DD when a date could be either */
+  locale?: string;
+  /** Tesseract's overall confidence (0-100); scales every field */
+  ocrConfidence?: number;
+  /** Used to reject dates in the future; defaults to now */
+  today?: Date;
+  /** OCR languages the text was read in; adds their words and date formats */
+  languages?: string[];
+}
+
+/** Fields below this confidence are flagged for the user to check */
+export const LOW_CONFIDENCE = 0.6;
+
+/**
+ * Chains whose receipts print their name in many ways ("WAL*MART #1234",
+ * "STARBUCKS COFFEE 0213"). Patterns match the upper-cased header lines with
+ * spaces and punctuation removed.
+ */
+export const KNOWN_MERCHANTS: { name: string; patterns: string[] }[] = [
+  { name: 'Walmart', patterns: ['WALMART', 'WALMARTSUPERCENTER'] },
+  { name: 'Target', patterns: ['TARGET'] },
+  { name: 'Costco', patterns: ['COSTCO', 'COSTCOWHOLESALE'] },
+  { name: 'Starbucks', patterns: ['STARBUCKS'] },
+  { name: "McDonald's", patterns: ['MCDONALDS', 'MCDONALD'] },
+  { name: 'Subway', patterns: ['SUBWAY'] },
+  { name: 'Whole Foods', patterns: ['WHOLEFOODS', 'WHOLEFOODSMARKET'] },
+  { name: "Trader Joe's", patterns: ['TRADERJOES', 'TRADERJOE'] },
+  { name: 'Walgreens', patterns: ['WALGREENS'] },
+  { name: 'CVS', patterns: ['CVSPHARMACY', 'CVS'] },
+  { name: 'Home Depot', patterns: ['HOMEDEPOT', 'THEHOMEDEPOT'] },
+  { name: 'IKEA', patterns: ['IKEA'] },
+  { name: 'Tesco', patterns: ['TESCO'] },
+  { name: "Sainsbury's", patterns: ['SAINSBURYS', 'SAINSBURY'] },
+  { name: 'Aldi', patterns: ['ALDI'] },
+  { name: 'Lidl', patterns: ['LIDL'] },
+  { name: 'Carrefour', patterns: ['CARREFOUR'] },
+  { name: 'Rewe', patterns: ['REWE'] },
+  { name: 'Edeka', patterns: ['EDEKA'] },
+  { name: 'Uber', patterns: ['UBER', 'UBEREATS'] },
+  { name: 'Shell', patterns: ['SHELL'] },
+  { name: '7-Eleven', patterns: ['7ELEVEN', 'SEVENELEVEN'] }
+];
+
+// An amount with exactly two decimals that isn't part of a longer number
+const AMOUNT = /(?<![\d.,/:-])(?:([$€£¥₹₿]|[A-Z]\$)\s?)?(\d{1,3}(?:[,.\s]\d{3})+|\d+)[.,](\d{2})(?![\d/:%]|[.,]\d)/g;
+const PHONE = /\(?\d{3}\)?[\s.-]\d{3}[\s.-]\d{4}/;
+
+const LINE_SCORES: { pattern: RegExp; score: number }[] = [
+  { pattern: /\b(grand\s+total|total\s+due|amount\s+due|balance\s+due|total\s+to\s+pay)\b/i, score: 6 },
+  { pattern: /\btotal\b/i, score: 5 },
+  { pattern: /\b(amount|balance|due|sum)\b/i, score: 2 },
+  // "Sub Total" also matches /total/ above; the penalty keeps it well below a TOTAL line
+  { pattern: /\b(sub\s*-?\s*total|subtotal|net)\b/i, score: -4 },
+  { pattern: /\b(tax|vat|gst|hst|tip|gratuity|service)\b/i, score: -4 },
+  { pattern: /\b(change|cash|tendered|rounding|you\s+saved?|savings|discount|points)\b/i, score: -6 },
+  { pattern: /\b(visa|mastercard|amex|card|debit|credit)\b/i, score: -1 }
+];
+
+/** Scores for the other languages' receipt words, as for their English counterparts */
+const WORD_SCORES: Record<ReceiptWord, number> = { total: 5, subtotal: -4, tax: -4, tip: -4, payment: -6 };
+
+function lineScores(languages: string[]): { pattern: RegExp; score: number }[] {
+  const patterns = receiptWordPatterns(languages);
+  return LINE_SCORES.concat(
+    (Object.keys(patterns) as ReceiptWord[]).map(word => ({ pattern: patterns[word]!, score: WORD_SCORES[word] }))
+  );
+}
+
+interface AmountCandidate {
+  value: number;
+  line: number;
+  score: number;
+}
+
+const clamp = (n: number) => Math.max(0, Math.min(1, n));
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+function findAmounts(line: string): { value: number; symbol: string | undefined }[] {
+  if (PHONE.test(line)) return [];
+  const found: { value: number; symbol: string | undefined }[] = [];
+  for (const match of line.matchAll(AMOUNT)) {
+    const whole = match[2].replace(/[,.\s]/g, '');
+    found.push({ value: parseFloat(`${whole}.${match[3]}`), symbol: match[1] });
+  }
+  return found;
+}
+
+function scoreTotal(
+  lines: string[],
+  extras: { subtotal: number | null; tax: number | null; tip: number | null },
+  languages: string[]
+): ReceiptField<number> {
+  const scores = lineScores(languages);
+  const candidates: AmountCandidate[] = [];
+  lines.forEach((line, index) => {
+    findAmounts(line).forEach(({ value, symbol }) => {
+      if (value <= 0) return;
+      let score = scores.reduce((sum, { pattern, score: s }) => (pattern.test(line) ? sum + s : sum), 0);
+      if (symbol) score += 1;
+      // Totals sit in the lower part of the receipt
+      if (index >= lines.length / 2) score += 0.5;
+      candidates.push({ value, line: index, score });
+    });
+  });
+  if (candidates.length === 0) return { value: null, confidence: 0 };
+
+  const max = Math.max(...candidates.map(c => c.value));
+  const expected = extras.subtotal !== null
+    ? round2(extras.subtotal + (extras.tax ?? 0) + (extras.tip ?? 0))
+    : null;
+  candidates.forEach(c => {
+    if (c.value === max) c.score += 1;
+    // Subtotal + tax + tip adds up to this amount
+    if (expected !== null && round2(c.value) === expected && c.value !== extras.subtotal) c.score += 3;
+  });
+
+  candidates.sort((a, b) => b.score - a.score || b.value - a.value);
+  const best = candidates[0];
+  const rival = candidates.find(c => c.value !== best.value);
+  const margin = rival ? best.score - rival.score : best.score;
+  const confidence = best.score >= 5 ? 0.9 : best.score >= 2 ? 0.7 : 0.4;
+  return { value: best.value, confidence: clamp(confidence - (margin < 1 ? 0.3 : 0)) };
+}
+
+function detectCurrency(text: string): ReceiptField<string> {
+  const codes = CURRENCIES.map(c => c.code);
+  const codeMatch = text.toUpperCase().match(new RegExp(`\\b(${codes.join('|')})\\b`));
+  if (codeMatch) return { value: codeMatch[1], confidence: 0.9 };
+
+  // Longest symbols first so "C$" isn't counted as "$"
+  const symbols = [...CURRENCIES].sort((a, b) => b.symbol.length - a.symbol.length);
+  let rest = text;
+  const counts = new Map<string, number>();
+  symbols.forEach(({ symbol, code }) => {
+    const parts = rest.split(symbol);
+    if (parts.length > 1) {
+      counts.set(code, parts.length - 1);
+      rest = parts.join(' ');
+    }
+  });
+  if (counts.size === 0) return { value: null, confidence: 0 };
+  const [code] = [...counts.entries()].sort((a, b) => b[1] - a[1])[0];
+  // "$" alone doesn't say which dollar
+  return { value: code, confidence: code === 'USD' ? 0.5 : 0.8 };
+}
+
+/** Edit distance, for OCR-mangled merchant names */
+function distance(a: string, b: string): number {
+  const row = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let prev = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const current = row[j];
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, prev + (a[i - 1] === b[j - 1] ? 0 : 1));
+      prev = current;
+    }
+  }
+  return row[b.length];
+}
+
+function detectMerchant(lines: string[]): ReceiptField<string> {
+  const header = lines.slice(0, 6);
+  for (const line of header) {
+    const key = line.toUpperCase().replace(/[^A-Z0-9]/g, '');
+    if (!key) continue;
+    for (const merchant of KNOWN_MERCHANTS) {
+      for (const pattern of merchant.patterns) {
+        if (key.includes(pattern)) return { value: merchant.name, confidence: 0.95 };
+        // Allow one misread character per six letters
+        const slice = key.slice(0, pattern.length);
+        if (pattern.length >= 5 && distance(slice, pattern) <= Math.floor(pattern.length / 6)) {
+          return { value: merchant.name, confidence: 0.8 };
+        }
+      }
+    }
+  }
+
+  // Unknown store: first header line that reads like a name
+  for (const line of header.slice(0, 3)) {
+    const cleaned = line.replace(/[^\p{L}\p{N}&'\s.-]/gu, '').replace(/\s+/g, ' ').trim();
+    const letters = cleaned.replace(/[^\p{L}]/gu, '').length;
+    if (cleaned.length < 3 || cleaned.length > 40 || letters < cleaned.length / 2) continue;
+    if (PHONE.test(line) || /\d{1,2}[/.-]\d{1,2}[/.-]\d{2,4}/.test(line)) continue;
+    const name = cleaned === cleaned.toUpperCase()
+      ? cleaned.toLowerCase().replace(/(^|\s)\p{L}/gu, c => c.toUpperCase())
+      : cleaned;
+    return { value: name, confidence: 0.4 };
+  }
+  return { value: null, confidence: 0 };
+}
+
+/** Whether the locale writes the month before the day (en-US: 1/31) */
+function isMonthFirst(locale: string): boolean {
+  try {
+    const parts = new Intl.DateTimeFormat(locale).formatToParts(new Date(2000, 0, 31));
+    return parts.findIndex(p => p.type === 'month') < parts.findIndex(p => p.type === 'day');
+  } catch {
+    return true;
+  }
+}
+
+/**
+ * Month number for a (possibly abbreviated or inflected) month name in English
+ * or one of `languages`, or 0
+ */
+function monthNumber(word: string, languages: string[]): number {
+  const folded = foldAccents(word);
+  if (folded.length < 3) return 0;
+  for (const months of monthNames(languages)) {
+    const index = months.findIndex(m => m.startsWith(folded) || folded.startsWith(m));
+    if (index >= 0) return index + 1;
+  }
+  return 0;
+}
+
+function toIsoDate(year: number, month: number, day: number): string | null {
+  if (year < 100) year += year >= 50 ? 1900 : 2000;
+  const date = new Date(year, month - 1, day);
+  if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) return null;
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+function detectDate(text: string, locale: string, today: Date, languages: string[]): ReceiptField<string> {
+  const candidates: ReceiptField<string>[] = [];
+  // A German receipt is DD.MM even when scanned on an en-US phone
+  const monthFirst = isMonthFirst(detectReceiptLanguage(text, languages)?.locale ?? locale);
+
+  // 2024-01-31
+  for (const m of text.matchAll(/\b(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})\b/g)) {
+    const value = toIsoDate(+m[1], +m[2], +m[3]);
+    if (value) candidates.push({ value, confidence: 0.95 });
+  }
+
+  // 31/01/2024 or 01/31/24 - order from the numbers when one is over 12, else from the
+  // receipt's language or the locale
+  for (const m of text.matchAll(/\b(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})\b/g)) {
+    const [a, b, year] = [+m[1], +m[2], +m[3]];
+    let value: string | null;
+    let confidence: number;
+    if (a > 12 && b <= 12) {
+      value = toIsoDate(year, b, a);
+      confidence = 0.9;
+    } else if (b > 12 && a <= 12) {
+      value = toIsoDate(year, a, b);
+      confidence = 0.9;
+    } else if (a === b) {
+      value = toIsoDate(year, a, b);
+      confidence = 0.9;
+    } else {
+      value = monthFirst ? toIsoDate(year, a, b) : toIsoDate(year, b, a);
+      confidence = 0.6;
+    }
+    if (value) candidates.push({ value, confidence });
+  }
+
+  // 2024年1月31日 (Japanese, Chinese), 2024년 1월 31일 (Korean)
+  for (const m of text.matchAll(/(\d{4})\s*[年년]\s*(\d{1,2})\s*[月월]\s*(\d{1,2})\s*[日일]/g)) {
+    const value = toIsoDate(+m[1], +m[2], +m[3]);
+    if (value) candidates.push({ value, confidence: 0.95 });
+  }
+
+  // 31 Jan 2024, 31. Januar 2024, 31 de enero de 2024, Jan 31, 2024
+  const monthName = '(\\p{L}{3,12})\\.?';
+  for (const m of text.matchAll(new RegExp(`\\b(\\d{1,2})\\.?\\s+(?:de\\s+)?${monthName},?\\s+(?:de\\s+)?(\\d{4})\\b`, 'gu'))) {
+    const month = monthNumber(m[2], languages);
+    const value = month ? toIsoDate(+m[3], month, +m[1]) : null;
+    if (value) candidates.push({ value, confidence: 0.9 });
+  }
+  for (const m of text.matchAll(new RegExp(`(?<![\\p{L}\\p{N}])${monthName}\\s+(\\d{1,2}),?\\s+(\\d{4})\\b`, 'gu'))) {
+    const month = monthNumber(m[1], languages);
+    const value = month ? toIsoDate(+m[3], month, +m[2]) : null;
+    if (value) candidates.push({ value, confidence: 0.9 });
+  }
+
+  // Receipts aren't dated in the future (or decades ago)
+  const todayIso = toIsoDate(today.getFullYear(), today.getMonth() + 1, today.getDate())!;
+  const oldest = `${today.getFullYear() - 10}`;
+  const plausible = candidates.filter(c => c.value! <= todayIso && c.value! >= oldest);
+  if (plausible.length === 0) {
+    return candidates.length > 0 ? { value: candidates[0].value, confidence: 0.2 } : { value: null, confidence: 0 };
+  }
+  return plausible.sort((a, b) => b.confidence - a.confidence)[0];
+}
+
+/** Parse OCR text from a receipt into expense fields with confidences */
+export function parseReceipt(text: string, options: ParseReceiptOptions = {}): ParsedReceipt {
+  const locale = options.locale ?? getDeviceLocale();
+  const today = options.today ?? new Date();
+  const languages = options.languages ?? [];
+  // A blurry scan makes every field less certain
+  const ocrFactor = options.ocrConfidence !== undefined ? clamp(options.ocrConfidence / 85) : 1;
+  const scale = <T>(field: ReceiptField<T>): ReceiptField<T> => ({
+    value: field.value,
+    confidence: round2(field.confidence * ocrFactor)
+  });
+
+  const lines = text.split('\n').map(l => l.trim()).filter(Boolean);
+  const { items, subtotal, tax, tip } = parseReceiptLines(text, languages);
+
+  return {
+    total: scale(scoreTotal(lines, { subtotal, tax, tip }, languages)),
+    merchant: scale(detectMerchant(lines)),
+    date: scale(detectDate(text, locale, today, languages)),
+    currency: scale(detectCurrency(text)),
+    subtotal,
+    tax,
+    tip,
+    items
+  };
+}
@@ -0,0 +1,127 @@
+/**
+ * Recurring expense schedule - which occurrences of a rule are due.
+ * Dates are YYYY-MM-DD strings; all arithmetic is done in UTC so the
+ * result doesn't shift with the device timezone.
+ */
+import type { Expense, RecurringExpense } from '@/types';
+import { getYearMonth } from '@/types';
+
+/** Safety cap so a rule paused for decades can't flood the list in one run */
+export const MAX_CATCH_UP_OCCURRENCES = 120;
+
+export const FREQUENCY_LABELS: Record<RecurringExpense['frequency'], string> = {
+  weekly: 'Weekly',
+  monthly: 'Monthly',
+  yearly: 'Yearly'
+};
+
+function parseDate(date: string): { year: number; month: number; day: number } {
+  const [year, month, day] = date.split('-').map(Number);
+  return { year, month: month - 1, day };
+}
+
+function toDateString(year: number, month: number, day: number): string {
+  const d = new Date(Date.UTC(year, month, day));
+  return d.toISOString().split('T')[0];
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
+
+/**
+ * The nth occurrence of a schedule that started on `anchor`.
+ * Monthly and yearly dates are clamped to the end of shorter months, so a
+ * rule anchored on Jan 31 falls on Feb 28/29 and then back on Mar 31.
+ */
+export function getOccurrence(anchor: string, frequency: RecurringExpense['frequency'], n: number): string {
+  const { year, month, day } = parseDate(anchor);
+  switch (frequency) {
+    case 'weekly':
+      return toDateString(year, month, day + n * 7);
+    case 'monthly': {
+      const target = new Date(Date.UTC(year, month + n, 1));
+      const y = target.getUTCFullYear();
+      const m = target.getUTCMonth();
+      return toDateString(y, m, Math.min(day, daysInMonth(y, m)));
+    }
+    case 'yearly':
+      return toDateString(year + n, month, Math.min(day, daysInMonth(year + n, month)));
+  }
+}
+
+/** First occurrence of the schedule strictly after `date` */
+export function getNextOccurrence(anchor: string, frequency: RecurringExpense['frequency'], date: string): string {
+  // Start just before the target so long-running rules don't iterate from the anchor
+  const a = parseDate(anchor);
+  const d = parseDate(date);
+  const months = (d.year - a.year) * 12 + (d.month - a.month);
+  const estimate = frequency === 'weekly'
+    ? Math.floor((Date.parse(date) - Date.parse(anchor)) / (7 * 86400000)) - 1
+    : frequency === 'monthly'
+      ? months - 1
+      : Math.floor(months / 12) - 1;
+  let n = Math.max(0, estimate);
+  let next = getOccurrence(anchor, frequency, n);
+  while (next <= date) {
+    n++;
+    next = getOccurrence(anchor, frequency, n);
+  }
+  return next;
+}
+
+/** Every occurrence from the rule's nextDue up to and including `today` */
+export function getDueOccurrences(rule: RecurringExpense, today: string): string[] {
+  if (!rule.active || !rule.nextDue || rule.nextDue > today) return [];
+  const anchor = rule.anchorDate ?? rule.nextDue;
+  const dates: string[] = [];
+  let due = rule.nextDue;
+  while (due <= today && dates.length < MAX_CATCH_UP_OCCURRENCES) {
+    dates.push(due);
+    due = getNextOccurrence(anchor, rule.frequency, due);
+  }
+  return dates;
+}
+
+/**
+ * Deterministic id for the expense a rule creates on a given date.
+ * Two devices catching up on the same rule produce the same id, which lets
+ * the scheduler drop the duplicate once their documents merge.
+ */
+export function getRecurringExpenseId(ruleId: string, date: string): string {
+  return `recurring-${ruleId}-${date}`;
+}
+
+/** Build the expense a rule creates for one occurrence */
+export function buildRecurringExpense(rule: RecurringExpense, date: string): Expense {
+  const id = getRecurringExpenseId(rule.id, date);
+  return {
+    id,
+    description: rule.description,
+    amount: rule.amount,
+    currency: rule.currency,
+    originalAmount: rule.originalAmount,
+    date,
+    payerId: rule.payerId,
+    splitType: rule.splitType ?? 'equal',
+    splitWith: rule.splitWith,
+    splitDetails: rule.splitDetails,
+    splitMode: rule.splitMode,
+    splitWeights: rule.splitWeights,
+    recurring: rule.frequency,
+    recurringId: rule.id,
+    tags: rule.tags,
+    notes: rule.notes,
+    syncId: id,
+    syncStatus: 'synced',
+    yearMonth: getYearMonth(date),
+    createdAt: Date.now()
+  };
+}
+
+/** First occurrence of the schedule on or after `date` (used when resuming a paused rule) */
+export function getOccurrenceOnOrAfter(anchor: string, frequency: RecurringExpense['frequency'], date: string): string {
+  if (anchor >= date) return anchor;
+  const { year, month, day } = parseDate(date);
+  return getNextOccurrence(anchor, frequency, toDateString(year, month, day - 1));
+}
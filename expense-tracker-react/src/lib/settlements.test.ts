@@ -0,0 +1,222 @@
+import { describe, expect, it } from 'vitest';
+import type { Expense, Payment, Person } from '@/types';
+import { computeBalances, computeGroupSettlement, getExpenseSharesMinor } from './settlements';
+
+const person = (id: string, name: string): Person => ({ id, name, syncId: id, createdAt: 0 });
+
+const expense = (id: string, fields: Partial<Expense> & Pick<Expense, 'amount'>): Expense => ({
+  id,
+  description: id,
+  date: '2026-01-15',
+  splitType: 'equal',
+  syncId: id,
+  syncStatus: 'synced',
+  yearMonth: '2026-01',
+  createdAt: 0,
+  ...fields
+});
+
+const payment = (id: string, fromId: string, toId: string, amount: number): Payment => ({
+  id, fromId, toId, amount, date: '2026-01-20', syncId: id, createdAt: 0
+});
+
+const alex = person('a', 'Alex');
+const sam = person('b', 'Sam');
+const jo = person('c', 'Jo');
+const kim = person('d', 'Kim');
+const trio = [alex, sam, jo];
+const trioIds = trio.map(p => p.id);
+
+/** Balances as { name: amount }, easier to read in a failing test */
+const byName = (balances: { personName: string; amount: number }[]) =>
+  Object.fromEntries(balances.map(b => [b.personName, b.amount]));
+
+const transfers = (settlements: { from: Person; to: Person; amount: number }[]) =>
+  settlements.map(s => `${s.from.name} → ${s.to.name} ${s.amount}`);
+
+describe('getExpenseSharesMinor', () => {
+  it('splits evenly among everyone, uneven cents to the payer', () => {
+    expect(getExpenseSharesMinor(expense('e', { amount: 100, payerId: 'b' }), trioIds, 2))
+      .toEqual({ a: 3333, b: 3334, c: 3333 });
+  });
+
+  it('splits evenly among splitWith only', () => {
+    expect(getExpenseSharesMinor(expense('e', { amount: 10, payerId: 'a', splitWith: ['b', 'c'] }), trioIds, 2))
+      .toEqual({ b: 500, c: 500 });
+  });
+
+  it('puts a full expense on the payer', () => {
+    expect(getExpenseSharesMinor(expense('e', { amount: 42.5, payerId: 'c', splitType: 'full' }), trioIds, 2))
+      .toEqual({ c: 4250 });
+  });
+
+  it('keeps a custom split that adds up', () => {
+    const exp = expense('e', { amount: 90, payerId: 'b', splitType: 'custom', splitWith: ['a', 'c'], splitDetails: { a: 60.01, c: 29.99 } });
+    expect(getExpenseSharesMinor(exp, trioIds, 2)).toEqual({ a: 6001, c: 2999 });
+  });
+
+  it('rescales a custom split that falls short of the amount', () => {
+    const exp = expense('e', { amount: 100, payerId: 'a', splitType: 'custom', splitDetails: { a: 30, b: 30 } });
+    expect(getExpenseSharesMinor(exp, trioIds, 2)).toEqual({ a: 5000, b: 5000 });
+  });
+
+  it('rescales a custom split that goes over the amount', () => {
+    const exp = expense('e', { amount: 50, payerId: 'a', splitType: 'custom', splitDetails: { a: 60, b: 40 } });
+    expect(getExpenseSharesMinor(exp, trioIds, 2)).toEqual({ a: 3000, b: 2000 });
+  });
+
+  it('rescales so the cents still add up exactly', () => {
+    const exp = expense('e', { amount: 10, payerId: 'c', splitType: 'custom', splitDetails: { a: 1, b: 1, c: 1 } });
+    const shares = getExpenseSharesMinor(exp, trioIds, 2);
+    expect(shares).toEqual({ a: 334, b: 333, c: 333 });
+    expect(Object.values(shares).reduce((sum, s) => sum + s, 0)).toBe(1000);
+  });
+
+  it('gives a deleted person\'s custom share to the others', () => {
+    const exp = expense('e', { amount: 50, payerId: 'a', splitType: 'custom', splitDetails: { a: 20, z: 30 } });
+    expect(getExpenseSharesMinor(exp, trioIds, 2)).toEqual({ a: 5000 });
+  });
+
+  it('drops deleted people from splitWith, or falls back to everyone', () => {
+    expect(getExpenseSharesMinor(expense('e', { amount: 50, payerId: 'z', splitWith: ['a', 'z'] }), trioIds, 2))
+      .toEqual({ a: 5000 });
+    expect(getExpenseSharesMinor(expense('e', { amount: 30, payerId: 'z', splitWith: ['z'] }), trioIds, 2))
+      .toEqual({ a: 1000, b: 1000, c: 1000 });
+  });
+
+  it('works in the currency\'s own minor units', () => {
+    expect(getExpenseSharesMinor(expense('e', { amount: 1000, payerId: 'a' }), trioIds, 0))
+      .toEqual({ a: 334, b: 333, c: 333 });
+  });
+});
+
+describe('computeBalances', () => {
+  it('returns nothing without people', () => {
+    expect(computeBalances([expense('e', { amount: 10, payerId: 'a' })], [], [], 2)).toEqual([]);
+  });
+
+  it('credits the payer and debits every share', () => {
+    const balances = computeBalances([expense('e', { amount: 100, payerId: 'a' })], trio, [], 2);
+    expect(byName(balances)).toEqual({ Alex: 66.66, Sam: -33.33, Jo: -33.33 });
+    expect(balances.map(b => b.personId)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('nets a full expense to zero', () => {
+    const balances = computeBalances([expense('e', { amount: 40, payerId: 'b', splitType: 'full' })], trio, [], 2);
+    expect(byName(balances)).toEqual({ Alex: 0, Sam: 0, Jo: 0 });
+  });
+
+  it('applies custom splits', () => {
+    const expenses = [
+      expense('e1', { amount: 90, payerId: 'b', splitType: 'custom', splitWith: ['a', 'c'], splitDetails: { a: 60, c: 30 } }),
+      expense('e2', { amount: 100, payerId: 'a', splitType: 'custom', splitDetails: { a: 30, b: 30 } })
+    ];
+    expect(byName(computeBalances(expenses, trio, [], 2))).toEqual({ Alex: -10, Sam: 40, Jo: -30 });
+  });
+
+  it('reduces debts by partial payments', () => {
+    const expenses = [expense('e', { amount: 100, payerId: 'a' })];
+    const payments = [payment('p1', 'b', 'a', 20), payment('p2', 'c', 'a', 33.33)];
+    expect(byName(computeBalances(expenses, trio, payments, 2))).toEqual({ Alex: 13.33, Sam: -13.33, Jo: 0 });
+  });
+
+  it('ignores the deleted side of expenses and payments', () => {
+    const expenses = [
+      expense('e1', { amount: 50, payerId: 'z', splitWith: ['a', 'z'] }),
+      expense('e2', { amount: 30, payerId: 'b', splitWith: ['b', 'z'] })
+    ];
+    const payments = [payment('p', 'a', 'z', 15)];
+    expect(byName(computeBalances(expenses, trio, payments, 2))).toEqual({ Alex: -35, Sam: 0, Jo: 0 });
+  });
+
+  it('adds up to exactly zero when every payer is known', () => {
+    const expenses = [
+      expense('e1', { amount: 10, payerId: 'a' }),
+      expense('e2', { amount: 0.1, payerId: 'b' }),
+      expense('e3', { amount: 0.2, payerId: 'c', splitWith: ['a', 'b'] }),
+      expense('e4', { amount: 19.99, payerId: 'a', splitType: 'custom', splitDetails: { b: 7, c: 7 } })
+    ];
+    const balances = computeBalances(expenses, trio, [payment('p', 'b', 'a', 3.33)], 2);
+    expect(balances.reduce((sum, b) => sum + Math.round(b.amount * 100), 0)).toBe(0);
+  });
+
+  it('keeps satoshis for BTC', () => {
+    const balances = computeBalances([expense('e', { amount: 0.0001234, payerId: 'a' })], trio, [], 8);
+    expect(byName(balances)).toEqual({ Alex: 0.00008226, Sam: -0.00004113, Jo: -0.00004113 });
+  });
+});
+
+describe('computeGroupSettlement', () => {
+  const group = [alex, sam, jo, kim];
+  const expenses = [
+    expense('e1', { amount: 120, payerId: 'a' }),
+    expense('e2', { amount: 60, payerId: 'b', splitType: 'custom', splitWith: ['c', 'd'], splitDetails: { c: 40, d: 20 } }),
+    expense('e3', { amount: 45, payerId: 'c', splitType: 'full' })
+  ];
+  const payments = [payment('p', 'd', 'a', 10)];
+
+  it('summarises spending and balances', () => {
+    const result = computeGroupSettlement(expenses, group, payments, 2);
+    expect(result.total).toBe(225);
+    expect(result.perPerson).toBe(56.25);
+    expect(result.personSpent).toEqual({ a: 120, b: 60, c: 45, d: 0 });
+    expect(byName(result.balances)).toEqual({ Alex: 80, Sam: 30, Jo: -70, Kim: -40 });
+  });
+
+  it('matches the largest debtor with the largest creditor', () => {
+    const { settlements } = computeGroupSettlement(expenses, group, payments, 2, 'greedy');
+    expect(transfers(settlements)).toEqual(['Jo → Alex 70', 'Kim → Alex 10', 'Kim → Sam 30']);
+  });
+
+  it('settles the same balances in the fewest transfers', () => {
+    const { balances, settlements } = computeGroupSettlement(expenses, group, payments, 2, 'optimal');
+    expect(settlements).toHaveLength(3);
+    const net: Record<string, number> = {};
+    settlements.forEach(s => {
+      net[s.from.name] = (net[s.from.name] ?? 0) - s.amount;
+      net[s.to.name] = (net[s.to.name] ?? 0) + s.amount;
+    });
+    balances.forEach(b => expect(net[b.personName] ?? 0).toBe(b.amount));
+  });
+
+  it('settles zero-sum groups separately where greedy needs more transfers', () => {
+    const lee = person('e', 'Lee');
+    // Balances +6, +4, -3, -3, -4
+    const split = [
+      expense('e1', { amount: 6, payerId: 'a', splitType: 'custom', splitDetails: { c: 3, d: 3 } }),
+      expense('e2', { amount: 4, payerId: 'b', splitType: 'custom', splitDetails: { e: 4 } })
+    ];
+    const five = [alex, sam, jo, kim, lee];
+
+    const greedy = computeGroupSettlement(split, five, [], 2, 'greedy');
+    expect(byName(greedy.balances)).toEqual({ Alex: 6, Sam: 4, Jo: -3, Kim: -3, Lee: -4 });
+    expect(transfers(greedy.settlements)).toEqual(['Lee → Alex 4', 'Jo → Alex 2', 'Jo → Sam 1', 'Kim → Sam 3']);
+
+    const optimal = computeGroupSettlement(split, five, [], 2, 'optimal');
+    expect(transfers(optimal.settlements).sort()).toEqual(['Jo → Alex 3', 'Kim → Alex 3', 'Lee → Sam 4']);
+  });
+
+  it('pays back each payer directly, net of payments', () => {
+    const { settlements } = computeGroupSettlement(expenses, group, payments, 2, 'direct');
+    expect(transfers(settlements)).toEqual([
+      'Jo → Sam 40',
+      'Sam → Alex 30',
+      'Jo → Alex 30',
+      'Kim → Alex 20',
+      'Kim → Sam 20'
+    ]);
+  });
+
+  it('has nothing to settle once everyone has paid up', () => {
+    const settledUp = [...payments, payment('p2', 'c', 'a', 70), payment('p3', 'd', 'a', 10), payment('p4', 'd', 'b', 30)];
+    const result = computeGroupSettlement(expenses, group, settledUp, 2);
+    expect(byName(result.balances)).toEqual({ Alex: 0, Sam: 0, Jo: 0, Kim: 0 });
+    expect(result.settlements).toEqual([]);
+  });
+
+  it('settles in whole yen', () => {
+    const { balances, settlements } = computeGroupSettlement([expense('e', { amount: 1000, payerId: 'a' })], trio, [], 0);
+    expect(byName(balances)).toEqual({ Alex: 666, Sam: -333, Jo: -333 });
+    expect(transfers(settlements)).toEqual(['Sam → Alex 333', 'Jo → Alex 333']);
+  });
+});
@@ -1,86 +1,100 @@
 /**
  * Settlement calculations - who owes whom
  */
-import type { Expense, Person, Payment, Balance, Settlement } from '@/types';
+import type { Expense, Person, Payment, Balance, Settlement, SettlementMode } from '@/types';
+import { allocateMinor, fromMinor, splitEvenlyMinor, toMinor } from './money';
 
-// Round to 2 decimal places for currency precision
-const roundCurrency = (amount: number) => Math.round(amount * 100) / 100;
+/**
+ * Who owes what for one expense, in minor units of the base currency (`digits`
+ * decimals). The shares always add up to the expense amount exactly: custom
+ * splits that don't (older data, rounding) are scaled to it, and equal splits
+ * hand out the uneven minor units with splitEvenlyMinor's rule.
+ */
+export function getExpenseSharesMinor(exp: Expense, peopleIds: string[], digits: number): Record<string, number> {
+  const known = new Set(peopleIds);
+  const amountMinor = toMinor(exp.amount, digits);
+
+  if (exp.splitType === 'custom' && exp.splitDetails) {
+    const weights: Record<string, number> = {};
+    let detailsMinor = 0;
+    Object.entries(exp.splitDetails).forEach(([personId, share]) => {
+      if (!known.has(personId)) return;
+      weights[personId] = toMinor(share, digits);
+      detailsMinor += weights[personId];
+    });
+    if (detailsMinor === amountMinor) return weights;
+    if (detailsMinor > 0) return allocateMinor(amountMinor, weights);
+  }
+
+  // Determine split participants
+  let splitParticipants: string[];
+  if (exp.splitType === 'full' && exp.payerId) {
+    // Full means only the payer owes (no split with others)
+    splitParticipants = [exp.payerId];
+  } else if (exp.splitWith && exp.splitWith.length > 0) {
+    // Custom split participants
+    splitParticipants = exp.splitWith;
+  } else {
+    // Default: equal split among all people
+    splitParticipants = peopleIds;
+  }
+  splitParticipants = splitParticipants.filter(id => known.has(id));
 
-// Threshold for considering amounts as zero (half a cent)
-const EPSILON = 0.005;
+  // Fallback if no valid participants
+  if (splitParticipants.length === 0) {
+    splitParticipants = peopleIds;
+  }
+
+  return splitEvenlyMinor(amountMinor, splitParticipants, exp.payerId);
+}
 
 /**
  * Compute balances for each person based on expenses and payments.
  * Positive balance = person is owed money (they paid more than their share)
  * Negative balance = person owes money (they paid less than their share)
+ * Works in the account's base currency: expenses and payments in another
+ * currency carry their converted amount (and split) in `amount` / `splitDetails`.
+ * Sums are kept in minor units (`digits` = the base currency's decimals), so
+ * the balances add up to exactly zero as long as every payer is in `people`.
  */
 export function computeBalances(
   expenses: Expense[],
   people: Person[],
-  payments: Payment[]
+  payments: Payment[],
+  digits: number
 ): Balance[] {
   if (people.length === 0) return [];
 
-  const personTotals: Record<string, { paid: number; owes: number }> = {};
+  const peopleIds = people.map(p => p.id);
+  const balanceMinor: Record<string, number> = {};
   
   // Initialize all people
   people.forEach(p => {
-    personTotals[p.id] = { paid: 0, owes: 0 };
+    balanceMinor[p.id] = 0;
   });
 
   // Process each expense
   expenses.forEach(exp => {
     // Track what the payer paid
-    if (exp.payerId && personTotals[exp.payerId]) {
-      personTotals[exp.payerId].paid += exp.amount;
+    if (exp.payerId && balanceMinor[exp.payerId] !== undefined) {
+      balanceMinor[exp.payerId] += toMinor(exp.amount, digits);
     }
 
-    // Determine split participants
-    let splitParticipants: string[];
-    
-    if (exp.splitType === 'full' && exp.payerId) {
-      // Full means only the payer owes (no split with others)
-      splitParticipants = [exp.payerId];
-    } else if (exp.splitWith && exp.splitWith.length > 0) {
-      // Custom split participants
-      splitParticipants = exp.splitWith.filter(id => personTotals[id]);
-    } else {
-      // Default: equal split among all people
-      splitParticipants = people.map(p => p.id);
-    }
-
-    // Fallback if no valid participants
-    if (splitParticipants.length === 0) {
-      splitParticipants = people.map(p => p.id);
-    }
-
-    // Calculate shares
-    if (exp.splitType === 'custom' && exp.splitDetails) {
-      // Custom amounts per person
-      for (const [personId, shareAmount] of Object.entries(exp.splitDetails)) {
-        if (personTotals[personId]) {
-          personTotals[personId].owes += shareAmount;
-        }
-      }
-    } else {
-      // Equal split among participants
-      const share = roundCurrency(exp.amount / splitParticipants.length);
-      splitParticipants.forEach(personId => {
-        if (personTotals[personId]) {
-          personTotals[personId].owes += share;
-        }
-      });
-    }
+    const shares = getExpenseSharesMinor(exp, peopleIds, digits);
+    Object.entries(shares).forEach(([personId, share]) => {
+      balanceMinor[personId] -= share;
+    });
   });
 
   // Adjust for payments already made
   // When A pays B: A effectively "paid" more, B's share increases (cancels their credit)
   payments.forEach(payment => {
-    if (personTotals[payment.fromId]) {
-      personTotals[payment.fromId].paid += payment.amount;
+    const amountMinor = toMinor(payment.amount, digits);
+    if (balanceMinor[payment.fromId] !== undefined) {
+      balanceMinor[payment.fromId] += amountMinor;
     }
-    if (personTotals[payment.toId]) {
-      personTotals[payment.toId].owes += payment.amount;
+    if (balanceMinor[payment.toId] !== undefined) {
+      balanceMinor[payment.toId] -= amountMinor;
     }
   });
 
@@ -88,60 +102,192 @@ export function computeBalances(
   return people.map(p => ({
     personId: p.id,
     personName: p.name,
-    amount: roundCurrency(personTotals[p.id].paid - personTotals[p.id].owes)
+    amount: fromMinor(balanceMinor[p.id], digits)
   }));
 }
 
+/** Labels for the settlement modes on SettlePage */
+export const SETTLEMENT_MODE_LABELS: Record<SettlementMode, string> = {
+  greedy: 'Simplified',
+  optimal: 'Fewest',
+  direct: 'Direct'
+};
+
 /**
- * Compute optimal settlement transactions to balance all debts.
- * Uses a greedy algorithm to minimize the number of transactions.
+ * Largest group (people with a non-zero balance) the optimal mode searches
+ * exhaustively; the search is O(2^n · n), so bigger groups use greedy.
  */
-export function computeSettlements(
-  balances: Balance[],
-  people: Person[]
-): Settlement[] {
-  const settlements: Settlement[] = [];
-  
+export const MAX_OPTIMAL_PEOPLE = 16;
+
+/** A balance in minor units: positive = owed money, negative = owes money */
+interface MinorBalance {
+  personId: string;
+  amount: number;
+}
+
+/**
+ * Greedy matching: largest debtor pays largest creditor until everyone is
+ * settled. Balances must sum to zero. Returns transfers in minor units.
+ */
+function greedyTransfers(balances: MinorBalance[]): { from: string; to: string; amount: number }[] {
+  const transfers: { from: string; to: string; amount: number }[] = [];
+
   // Separate into debtors (negative balance) and creditors (positive balance)
   const debtors = balances
-    .filter(b => b.amount < -EPSILON)
-    .map(b => ({ ...b, amount: roundCurrency(-b.amount) })); // Convert to positive for easier math
-  
+    .filter(b => b.amount < 0)
+    .map(b => ({ personId: b.personId, amount: -b.amount })); // Convert to positive for easier math
   const creditors = balances
-    .filter(b => b.amount > EPSILON)
-    .map(b => ({ ...b, amount: roundCurrency(b.amount) }));
+    .filter(b => b.amount > 0)
+    .map(b => ({ ...b }));
 
-  // Sort by amount descending for optimal settlement
+  // Sort by amount descending
   debtors.sort((a, b) => b.amount - a.amount);
   creditors.sort((a, b) => b.amount - a.amount);
 
-  // Greedy matching
   let i = 0, j = 0;
   while (i < debtors.length && j < creditors.length) {
     const debtor = debtors[i];
     const creditor = creditors[j];
-    const paymentAmount = roundCurrency(Math.min(debtor.amount, creditor.amount));
-
-    if (paymentAmount > EPSILON) {
-      const fromPerson = people.find(p => p.id === debtor.personId);
-      const toPerson = people.find(p => p.id === creditor.personId);
-      
-      if (fromPerson && toPerson) {
-        settlements.push({
-          from: fromPerson,
-          to: toPerson,
-          amount: paymentAmount
-        });
+    const amount = Math.min(debtor.amount, creditor.amount);
+
+    transfers.push({ from: debtor.personId, to: creditor.personId, amount });
+
+    debtor.amount -= amount;
+    creditor.amount -= amount;
+
+    if (debtor.amount === 0) i++;
+    if (creditor.amount === 0) j++;
+  }
+
+  return transfers;
+}
+
+/**
+ * Split people with a non-zero balance into as many zero-sum groups as
+ * possible. Each group of k people settles in k - 1 transfers, so this gives
+ * the fewest transfers overall.
+ *
+ * dp[mask] is the most zero-sum groups a chain of removals from `mask` passes
+ * through; walking the best chain back down yields the groups.
+ */
+function zeroSumGroups(balances: MinorBalance[]): MinorBalance[][] {
+  const n = balances.length;
+  const full = (1 << n) - 1;
+  const sum = new Array<number>(full + 1).fill(0);
+  const dp = new Array<number>(full + 1).fill(0);
+  const removed = new Array<number>(full + 1).fill(-1);
+
+  for (let mask = 1; mask <= full; mask++) {
+    const low = Math.log2(mask & -mask);
+    sum[mask] = sum[mask & (mask - 1)] + balances[low].amount;
+    for (let i = 0; i < n; i++) {
+      if (!(mask & (1 << i))) continue;
+      const prev = mask ^ (1 << i);
+      if (removed[mask] === -1 || dp[prev] > dp[mask]) {
+        dp[mask] = dp[prev];
+        removed[mask] = i;
       }
     }
+    if (sum[mask] === 0) dp[mask] += 1;
+  }
 
-    debtor.amount = roundCurrency(debtor.amount - paymentAmount);
-    creditor.amount = roundCurrency(creditor.amount - paymentAmount);
-
-    if (debtor.amount <= EPSILON) i++;
-    if (creditor.amount <= EPSILON) j++;
+  const groups: MinorBalance[][] = [];
+  let current: MinorBalance[] = [];
+  for (let mask = full; mask > 0; ) {
+    const i = removed[mask];
+    current.push(balances[i]);
+    mask ^= 1 << i;
+    if (sum[mask] === 0) {
+      groups.push(current);
+      current = [];
+    }
   }
+  return groups;
+}
 
+/**
+ * Compute settlement transactions to balance all debts.
+ * 'greedy' matches largest debtor with largest creditor; 'optimal' finds the
+ * fewest transactions (greedy beyond MAX_OPTIMAL_PEOPLE). For 'direct' use
+ * computeDirectSettlements, which needs the expenses rather than balances.
+ * `digits` is the base currency's decimals, as for computeBalances.
+ */
+export function computeSettlements(
+  balances: Balance[],
+  people: Person[],
+  digits: number,
+  mode: Exclude<SettlementMode, 'direct'> = 'greedy'
+): Settlement[] {
+  const open = balances
+    .map(b => ({ personId: b.personId, amount: toMinor(b.amount, digits) }))
+    .filter(b => b.amount !== 0);
+
+  const transfers = mode === 'optimal' && open.length <= MAX_OPTIMAL_PEOPLE
+    ? zeroSumGroups(open).flatMap(greedyTransfers)
+    : greedyTransfers(open);
+
+  return toSettlements(transfers, people, digits);
+}
+
+/**
+ * Settlements without simplifying: each person pays back exactly the people
+ * who paid for them, netted per pair (A owes B 30, B owes A 10 → A pays B 20).
+ * Payments recorded between a pair reduce what they owe each other.
+ */
+export function computeDirectSettlements(
+  expenses: Expense[],
+  people: Person[],
+  payments: Payment[],
+  digits: number
+): Settlement[] {
+  const peopleIds = people.map(p => p.id);
+  const known = new Set(peopleIds);
+  // owed[a][b] = minor units a owes b (net, a before b in id order, may be negative)
+  const owed = new Map<string, number>();
+  const addDebt = (from: string, to: string, amount: number) => {
+    if (from === to || !known.has(from) || !known.has(to)) return;
+    const [a, b, signed] = from < to ? [from, to, amount] : [to, from, -amount];
+    const key = `${a}|${b}`;
+    owed.set(key, (owed.get(key) ?? 0) + signed);
+  };
+
+  expenses.forEach(exp => {
+    if (!exp.payerId) return;
+    const shares = getExpenseSharesMinor(exp, peopleIds, digits);
+    Object.entries(shares).forEach(([personId, share]) => {
+      addDebt(personId, exp.payerId!, share);
+    });
+  });
+
+  // A payment from A to B pays off what A owes B
+  payments.forEach(payment => {
+    addDebt(payment.fromId, payment.toId, -toMinor(payment.amount, digits));
+  });
+
+  const transfers: { from: string; to: string; amount: number }[] = [];
+  owed.forEach((amount, key) => {
+    const [a, b] = key.split('|');
+    if (amount > 0) transfers.push({ from: a, to: b, amount });
+    if (amount < 0) transfers.push({ from: b, to: a, amount: -amount });
+  });
+  transfers.sort((x, y) => y.amount - x.amount);
+
+  return toSettlements(transfers, people, digits);
+}
+
+function toSettlements(
+  transfers: { from: string; to: string; amount: number }[],
+  people: Person[],
+  digits: number
+): Settlement[] {
+  const settlements: Settlement[] = [];
+  transfers.forEach(t => {
+    const fromPerson = people.find(p => p.id === t.from);
+    const toPerson = people.find(p => p.id === t.to);
+    if (fromPerson && toPerson) {
+      settlements.push({ from: fromPerson, to: toPerson, amount: fromMinor(t.amount, digits) });
+    }
+  });
   return settlements;
 }
 
@@ -150,25 +296,71 @@ export function computeSettlements(
  */
 export function computeExpenseStats(
   expenses: Expense[],
-  people: Person[]
+  people: Person[],
+  digits: number
 ): { total: number; perPerson: number; personSpent: Record<string, number> } {
-  const personSpent: Record<string, number> = {};
-  let total = 0;
+  const spentMinor: Record<string, number> = {};
+  let totalMinor = 0;
 
   people.forEach(p => {
-    personSpent[p.id] = 0;
+    spentMinor[p.id] = 0;
   });
 
   expenses.forEach(exp => {
-    total += exp.amount;
-    if (exp.payerId && personSpent[exp.payerId] !== undefined) {
-      personSpent[exp.payerId] += exp.amount;
+    const amountMinor = toMinor(exp.amount, digits);
+    totalMinor += amountMinor;
+    if (exp.payerId && spentMinor[exp.payerId] !== undefined) {
+      spentMinor[exp.payerId] += amountMinor;
     }
   });
 
+  const personSpent: Record<string, number> = {};
+  Object.entries(spentMinor).forEach(([id, minor]) => {
+    personSpent[id] = fromMinor(minor, digits);
+  });
+
   return {
-    total: roundCurrency(total),
-    perPerson: people.length > 0 ? roundCurrency(total / people.length) : 0,
+    total: fromMinor(totalMinor, digits),
+    perPerson: people.length > 0 ? fromMinor(Math.round(totalMinor / people.length), digits) : 0,
     personSpent
   };
 }
+
+export interface GroupSettlement {
+  /** Total of all expenses */
+  total: number;
+  /** Total divided evenly by the number of people */
+  perPerson: number;
+  /** What each person paid for expenses (payments not included) */
+  personSpent: Record<string, number>;
+  /** Balance per person, in the order of `people` */
+  balances: Balance[];
+  /** Suggested payments to settle up */
+  settlements: Settlement[];
+}
+
+/**
+ * Everything the settle-up screens show for a group, computed in one place so
+ * every screen agrees on the numbers. Balances are the same in every mode;
+ * only the suggested payments differ. `digits` is the base currency's
+ * decimals (settingsStore.getCurrencyDigits).
+ */
+export function computeGroupSettlement(
+  expenses: Expense[],
+  people: Person[],
+  payments: Payment[],
+  digits: number,
+  mode: SettlementMode = 'greedy'
+): GroupSettlement {
+  const { total, perPerson, personSpent } = computeExpenseStats(expenses, people, digits);
+  const balances = computeBalances(expenses, people, payments, digits);
+  return {
+    total,
+    perPerson,
+    personSpent,
+    balances,
+    settlements: mode === 'direct'
+      ? computeDirectSettlements(expenses, people, payments, digits)
+      : computeSettlements(balances, people, digits, mode)
+  };
+}
@@ -0,0 +1,96 @@
+/**
+ * Signaling server settings. Peers find each other through a PeerJS server:
+ * the public PeerJS cloud unless the account names its own (signaling-server/
+ * in this repo runs one). Invites carry the account's server so everyone in
+ * the group uses the same one.
+ */
+import type { PeerOptions } from 'peerjs';
+import type { IceServer, SignalingServer } from '@/types';
+
+export const PUBLIC_SIGNALING: SignalingServer = {
+  host: '0.peerjs.com',
+  port: 443,
+  path: '/',
+  secure: true
+};
+
+/** Options for `new Peer(id, options)` */
+export function peerOptions(server: SignalingServer = PUBLIC_SIGNALING): PeerOptions {
+  return {
+    host: server.host,
+    port: server.port,
+    path: server.path || '/',
+    secure: server.secure,
+    ...(server.key && { key: server.key }),
+    ...(server.iceServers?.length && { config: { iceServers: server.iceServers } })
+  };
+}
+
+/** Short description for settings, e.g. "sync.example.com:9000" */
+export function signalingLabel(server?: SignalingServer): string {
+  if (!server) return 'PeerJS cloud';
+  const defaultPort = server.secure ? 443 : 80;
+  const path = server.path && server.path !== '/' ? server.path : '';
+  return `${server.host}${server.port === defaultPort ? '' : `:${server.port}`}${path}`;
+}
+
+/** Same server (and ICE servers), so an open connection can be kept */
+export function sameSignaling(a?: SignalingServer, b?: SignalingServer): boolean {
+  return JSON.stringify(a ?? PUBLIC_SIGNALING) === JSON.stringify(b ?? PUBLIC_SIGNALING);
+}
+
+function toBase64Url(text: string): string {
+  const bytes = new TextEncoder().encode(text);
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(encoded: string): string {
+  const base64 = encoded.replace(/-/g, '+').replace(/_/g, '/');
+  return new TextDecoder().decode(Uint8Array.from(atob(base64), c => c.charCodeAt(0)));
+}
+
+/** Server settings for an invite: base64url JSON, safe in URLs and `et:` codes */
+export function encodeSignaling(server: SignalingServer): string {
+  return toBase64Url(JSON.stringify(server));
+}
+
+/** Settings from an invite, or undefined when missing or malformed */
+export function decodeSignaling(encoded: string | null | undefined): SignalingServer | undefined {
+  if (!encoded) return undefined;
+  try {
+    const server = JSON.parse(fromBase64Url(encoded)) as Partial<SignalingServer>;
+    if (typeof server.host !== 'string' || !server.host || typeof server.port !== 'number') return undefined;
+    return {
+      host: server.host,
+      port: server.port,
+      path: typeof server.path === 'string' ? server.path : '/',
+      secure: server.secure !== false,
+      ...(typeof server.key === 'string' && server.key && { key: server.key }),
+      ...(Array.isArray(server.iceServers) && {
+        iceServers: server.iceServers.filter(ice => typeof ice?.urls === 'string')
+      })
+    };
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * ICE servers from text, one per line: the URL, then optionally a username
+ * and credential for TURN, e.g. `turn:turn.example.com:3478 alice s3cret`.
+ */
+export function parseIceServers(text: string): IceServer[] {
+  return text
+    .split('\n')
+    .map(line => line.trim().split(/\s+/))
+    .filter(([urls]) => /^(stun|turns?):/i.test(urls ?? ''))
+    .map(([urls, username, credential]) => ({
+      urls,
+      ...(username && { username }),
+      ...(credential && { credential })
+    }));
+}
+
+export function formatIceServers(servers: IceServer[] = []): string {
+  return servers.map(s => [s.urls, s.username, s.credential].filter(Boolean).join(' ')).join('\n');
+}
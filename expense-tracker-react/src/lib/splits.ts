@@ -0,0 +1,205 @@
+/**
+ * Split calculations - turn split editor input into the Expense split fields
+ * (splitType / splitWith / splitDetails) that computeBalances understands.
+ */
+import type { Expense, SplitMode, SplitPreset } from '@/types';
+import { allocateMinor, fromMinor, roundMoney, splitEvenlyMinor, sumMoney, toMinor } from './money';
+import { getCurrencyDigits } from './format';
+
+// Threshold for considering percentages as equal
+const EPSILON = 0.005;
+
+const roundValue = (value: number) => Math.round(value * 100) / 100;
+
+export const SPLIT_MODE_LABELS: Record<SplitMode, string> = {
+  equal: 'Equal',
+  exact: 'Amounts',
+  percent: '%',
+  shares: 'Shares'
+};
+
+/** Editor state: who takes part and the raw value typed for each person */
+export interface SplitInput {
+  mode: SplitMode;
+  participants: string[];
+  values: Record<string, number>;
+}
+
+export type SplitFields = Pick<Expense, 'splitType' | 'splitWith' | 'splitDetails' | 'splitMode' | 'splitWeights'>;
+
+export interface SplitComputation {
+  /** Resulting amount per participant (sums to the total when valid) */
+  details: Record<string, number>;
+  /** Total of the raw values entered (amounts, percentages or shares) */
+  entered: number;
+  /** What still has to be assigned, in the unit of the mode (0 when valid) */
+  remaining: number;
+  error: string | null;
+}
+
+/**
+ * Spread `total` over participants proportionally to `weights`.
+ * Each part is rounded to minor units of a currency with `digits` decimals;
+ * leftover units go to the largest weights first so the parts always add up
+ * to the total exactly.
+ */
+export function distributeByWeight(total: number, weights: Record<string, number>, digits: number): Record<string, number> {
+  const parts = allocateMinor(toMinor(total, digits), weights);
+  const result: Record<string, number> = {};
+  Object.entries(parts).forEach(([id, minor]) => { result[id] = fromMinor(minor, digits); });
+  return result;
+}
+
+/**
+ * Compute per-person amounts for the given editor input and validate that
+ * the parts add up (amounts to the total, percentages to 100). `digits` is
+ * the decimals of the currency `total` is in; `payerId` decides who gets the
+ * uneven minor units of an equal split, as in computeBalances.
+ */
+export function computeSplit(total: number, input: SplitInput, digits: number, payerId?: string): SplitComputation {
+  const { mode, participants } = input;
+  const values: Record<string, number> = {};
+  participants.forEach(id => {
+    const v = input.values[id];
+    values[id] = Number.isFinite(v) && v > 0 ? v : 0;
+  });
+  // Amounts add up in minor units; percentages and shares to 2 decimals
+  const entered = mode === 'exact'
+    ? sumMoney(participants.map(id => values[id]), digits)
+    : roundValue(participants.reduce((sum, id) => sum + values[id], 0));
+
+  if (participants.length === 0) {
+    return { details: {}, entered: 0, remaining: 0, error: 'Select at least one person to split with' };
+  }
+
+  switch (mode) {
+    case 'equal': {
+      const details: Record<string, number> = {};
+      Object.entries(splitEvenlyMinor(toMinor(total, digits), participants, payerId)).forEach(([id, minor]) => {
+        details[id] = fromMinor(minor, digits);
+      });
+      return { details, entered: total, remaining: 0, error: null };
+    }
+    case 'exact': {
+      const remaining = fromMinor(toMinor(total, digits) - toMinor(entered, digits), digits);
+      const error = remaining !== 0
+        ? remaining > 0
+          ? `${remaining.toFixed(digits)} left to assign`
+          : `${(-remaining).toFixed(digits)} over the total`
+        : null;
+      const details: Record<string, number> = {};
+      participants.forEach(id => {
+        if (values[id] > 0) details[id] = roundMoney(values[id], digits);
+      });
+      return { details, entered, remaining, error };
+    }
+    case 'percent': {
+      const remaining = roundValue(100 - entered);
+      const error = Math.abs(remaining) > EPSILON
+        ? `Percentages add up to ${entered}%, not 100%`
+        : null;
+      return { details: distributeByWeight(total, values, digits), entered, remaining, error };
+    }
+    case 'shares': {
+      const error = entered <= 0 ? 'Enter at least one share' : null;
+      return { details: distributeByWeight(total, values, digits), entered, remaining: 0, error };
+    }
+  }
+}
+
+/**
+ * Build the Expense split fields from editor input.
+ * Equal among everyone is stored as a plain 'equal' split so new people are
+ * included automatically; anything else records who takes part explicitly.
+ */
+export function buildSplitFields(total: number, input: SplitInput, allPeopleIds: string[], digits: number): SplitFields {
+  const { mode, participants } = input;
+
+  if (mode === 'equal') {
+    const everyone = allPeopleIds.length > 0 && allPeopleIds.every(id => participants.includes(id));
+    return {
+      splitType: 'equal',
+      splitWith: everyone ? undefined : [...participants],
+      splitDetails: undefined,
+      splitMode: undefined,
+      splitWeights: undefined
+    };
+  }
+
+  const { details } = computeSplit(total, input, digits);
+  const splitWith = Object.keys(details);
+  const weights: Record<string, number> = {};
+  if (mode === 'percent' || mode === 'shares') {
+    splitWith.forEach(id => { weights[id] = input.values[id]; });
+  }
+
+  return {
+    splitType: 'custom',
+    splitWith,
+    splitDetails: details,
+    splitMode: mode,
+    splitWeights: mode === 'exact' ? undefined : weights
+  };
+}
+
+/**
+ * Convert split fields built from an amount in another currency to the base
+ * currency amount (`baseDigits` decimals), keeping each person's proportion.
+ */
+export function toBaseSplitFields(fields: SplitFields, baseTotal: number, baseDigits: number): SplitFields {
+  if (!fields.splitDetails) return fields;
+  return { ...fields, splitDetails: distributeByWeight(baseTotal, fields.splitDetails, baseDigits) };
+}
+
+/** Recreate editor input from a stored expense (for editing) */
+export function splitInputFromExpense(expense: Expense | undefined, allPeopleIds: string[]): SplitInput {
+  if (!expense) {
+    return { mode: 'equal', participants: [...allPeopleIds], values: {} };
+  }
+  if (expense.splitType === 'custom' && expense.splitDetails) {
+    const weighted = (expense.splitMode === 'percent' || expense.splitMode === 'shares') && expense.splitWeights;
+    const mode: SplitMode = weighted ? expense.splitMode! : 'exact';
+    // splitDetails are in the base currency; exact amounts are edited in the currency paid
+    const foreign = expense.currency !== undefined && expense.originalAmount !== undefined && expense.originalAmount !== expense.amount;
+    const values = weighted
+      ? { ...expense.splitWeights }
+      : foreign
+        ? distributeByWeight(expense.originalAmount!, expense.splitDetails, getCurrencyDigits(expense.currency!))
+        : { ...expense.splitDetails };
+    return { mode, participants: Object.keys(values), values };
+  }
+  if (expense.splitType === 'full' && expense.payerId) {
+    return { mode: 'equal', participants: [expense.payerId], values: {} };
+  }
+  const participants = expense.splitWith && expense.splitWith.length > 0
+    ? expense.splitWith.filter(id => allPeopleIds.includes(id))
+    : [...allPeopleIds];
+  return { mode: 'equal', participants, values: {} };
+}
+
+/** Preset fields for the current editor input; equal splits store one share each */
+export function presetFromSplitInput(input: SplitInput): Pick<SplitPreset, 'mode' | 'splits'> {
+  const splits: Record<string, number> = {};
+  input.participants.forEach(id => {
+    splits[id] = input.mode === 'equal' ? 1 : input.values[id] ?? 0;
+  });
+  return { mode: input.mode, splits };
+}
+
+/** Editor input for a preset, skipping people who are no longer in the group */
+export function splitInputFromPreset(preset: Pick<SplitPreset, 'mode' | 'splits'>, allPeopleIds: string[]): SplitInput {
+  const participants = Object.keys(preset.splits).filter(id => allPeopleIds.includes(id));
+  const values: Record<string, number> = {};
+  participants.forEach(id => { values[id] = preset.splits[id]; });
+  return { mode: preset.mode ?? 'shares', participants, values };
+}
+
+/** Short human-readable summary, e.g. "Alex 60% · Sam 40%" */
+export function describePreset(preset: Pick<SplitPreset, 'mode' | 'splits'>, getName: (id: string) => string): string {
+  const ids = Object.keys(preset.splits);
+  if (ids.length === 0) return 'Nobody selected';
+  const mode = preset.mode ?? 'shares';
+  if (mode === 'equal') return `Equal: ${ids.map(getName).join(', ')}`;
+  const suffix = mode === 'percent' ? '%' : mode === 'shares' ? '×' : '';
+  return ids.map(id => `${getName(id)} ${preset.splits[id]}${suffix}`).join(' · ');
+}
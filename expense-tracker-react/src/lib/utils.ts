@@ -144,3 +144,10 @@ export function blobToBase64(blob: Blob): Promise<string> {
 export function base64ToBlob(base64: string, mimeType = 'image/jpeg'): Promise<Blob> {
   return fetch(`data:${mimeType};base64,${base64}`).then((r) => r.blob());
 }
+
+/** SHA-256 of a blob or bytes, as lowercase hex */
+export async function sha256Hex(data: Blob | Uint8Array<ArrayBuffer>): Promise<string> {
+  const bytes = data instanceof Blob ? await data.arrayBuffer() : data;
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', bytes));
+  return Array.from(digest, b => b.toString(16).padStart(2, '0')).join('');
+}
@@ -0,0 +1,84 @@
+/**
+ * Minimal zip reader for importing receipt photos - reads the central
+ * directory and inflates entries with the browser's DecompressionStream.
+ * Stored and deflated entries are supported; encrypted and zip64 entries are
+ * skipped.
+ */
+
+const IMAGE_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp',
+  gif: 'image/gif',
+  bmp: 'image/bmp'
+};
+
+/** MIME type for an image file name, or null if it isn't one OCR can read */
+export function imageTypeFor(name: string): string | null {
+  const ext = name.split('.').pop()?.toLowerCase() ?? '';
+  return IMAGE_TYPES[ext] ?? null;
+}
+
+export function isZipFile(file: File): boolean {
+  return file.type === 'application/zip' || file.type === 'application/x-zip-compressed' || /\.zip$/i.test(file.name);
+}
+
+async function inflate(data: Uint8Array<ArrayBuffer>, type: string): Promise<Blob> {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  const inflated = await new Response(stream).arrayBuffer();
+  return new Blob([inflated], { type });
+}
+
+/** The images in a zip archive, in archive order (folders and hidden files skipped) */
+export async function extractZipImages(zip: Blob): Promise<File[]> {
+  const bytes = new Uint8Array(await zip.arrayBuffer());
+  const view = new DataView(bytes.buffer);
+
+  // End of central directory record: scan back over a possible comment
+  let eocd = -1;
+  for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) throw new Error('Not a zip file');
+
+  const count = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+  const decoder = new TextDecoder();
+  const files: File[] = [];
+
+  for (let n = 0; n < count; n++) {
+    if (view.getUint32(offset, true) !== 0x02014b50) throw new Error('Zip file is damaged');
+    const flags = view.getUint16(offset + 8, true);
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const path = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    const name = path.split('/').pop() ?? '';
+    const type = imageTypeFor(name);
+    const encrypted = (flags & 1) !== 0;
+    const zip64 = compressedSize === 0xffffffff || localOffset === 0xffffffff;
+    if (!type || !name || name.startsWith('.') || path.startsWith('__MACOSX/') || encrypted || zip64) continue;
+
+    // Data follows the local header, whose name and extra field lengths can differ
+    const localNameLength = view.getUint16(localOffset + 26, true);
+    const localExtraLength = view.getUint16(localOffset + 28, true);
+    const start = localOffset + 30 + localNameLength + localExtraLength;
+    const data = bytes.slice(start, start + compressedSize);
+
+    if (method === 0) {
+      files.push(new File([data], name, { type }));
+    } else if (method === 8) {
+      files.push(new File([await inflate(data, type)], name, { type }));
+    }
+  }
+  return files;
+}
@@ -1,4 +1,4 @@
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import type { Expense } from '@/types';
 import { formatDate } from '@/types';
@@ -9,9 +9,12 @@ import { usePeopleStore } from '@/stores/peopleStore';
 import { useAccountStore } from '@/stores/accountStore';
 import { useSettingsStore } from '@/stores/settingsStore';
 import { useSyncStore } from '@/stores/syncStore';
-import { useYjs } from '@/sync';
-import { haptic } from '@/lib/utils';
+import { haptic, cn } from '@/lib/utils';
+import { getCurrencyCode, formatOriginalAmount } from '@/lib/currency';
 import { canDeleteExpense } from '@/lib/policies';
+import { getAttachmentIds } from '@/lib/attachments';
+import { useAttachment } from '@/hooks/useAttachment';
+import { AttachmentGallery, AttachmentThumb } from '@/components/expenses';
 import * as db from '@/db/operations';
 
 export function ExpenseDetailPage() {
@@ -24,9 +27,10 @@ export function ExpenseDetailPage() {
   const getPersonName = usePeopleStore(s => s.getPersonName);
   const isSharedMode = useAccountStore(s => s.isSharedMode());
   const formatAmount = useSettingsStore(s => s.formatAmount);
+  const baseCode = getCurrencyCode(useSettingsStore(s => s.getCurrency()));
+  const locale = useAccountStore(s => s.getLocale());
   const isSynced = useSyncStore(s => s.isSynced);
   const isConnected = useSyncStore(s => s.isConnected);
-  const requestImage = useYjs().requestImage;
   const currentAccount = useAccountStore(s => s.getCurrentAccount());
   const deviceId = useSyncStore(s => s.deviceId);
   const canDelete = canDeleteExpense(currentAccount, deviceId);
@@ -37,12 +41,12 @@ export function ExpenseDetailPage() {
   const [dbFetched, setDbFetched] = useState(false);
   const effectiveExpense = expenseFromStore ?? expenseFromDb;
   
-  const [imageUrl, setImageUrl] = useState<string | null>(null);
-  const [imageLoading, setImageLoading] = useState(false);
-  const [showFullImage, setShowFullImage] = useState(false);
+  const attachmentIds = effectiveExpense ? getAttachmentIds(effectiveExpense) : [];
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const selectedId = attachmentIds[Math.min(selectedIndex, attachmentIds.length - 1)];
+  const { attachment, loading: attachmentLoading, progress: attachmentProgress } = useAttachment(selectedId);
+  const [showGallery, setShowGallery] = useState(false);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
-  
-  const imageUrlRef = useRef<string | null>(null);
 
   // Fallback: load from IndexedDB (e.g. before Yjs has synced or legacy data)
   useEffect(() => {
@@ -62,53 +66,6 @@ export function ExpenseDetailPage() {
     loadFromDb();
   }, [id]);
 
-  // Load image from IndexedDB; if missing and shared+connected, request from peers
-  useEffect(() => {
-    if (!effectiveExpense?.imageId) return;
-    const imageId = effectiveExpense.imageId;
-    let revoked = false;
-
-    const setUrlFromImage = (image: Awaited<ReturnType<typeof db.getImage>>) => {
-      if (revoked || !image?.data) return;
-      if (imageUrlRef.current) URL.revokeObjectURL(imageUrlRef.current);
-      const url = URL.createObjectURL(image.data);
-      imageUrlRef.current = url;
-      setImageUrl(url);
-      setImageLoading(false);
-    };
-
-    void db.getImage(imageId).then((image) => {
-      if (revoked) return;
-      if (image?.data) {
-        setUrlFromImage(image);
-        return;
-      }
-      if (isSharedMode && isConnected) {
-        setImageLoading(true);
-        void requestImage(imageId)
-          .then(() => db.getImage(imageId))
-          .then((image2) => {
-            if (!revoked) setUrlFromImage(image2);
-          })
-          .catch(() => {
-            if (!revoked) setImageLoading(false);
-          })
-          .finally(() => {
-            if (!revoked) setImageLoading((prev) => (prev ? false : prev));
-          });
-      }
-    });
-
-    return () => {
-      revoked = true;
-      setImageLoading(false);
-      if (imageUrlRef.current) {
-        URL.revokeObjectURL(imageUrlRef.current);
-        imageUrlRef.current = null;
-      }
-    };
-  }, [effectiveExpense?.imageId, isSharedMode, isConnected, requestImage]);
-
   // Loading: wait for either expense to appear (store or DB) or for sync + DB result
   const loading = Boolean(
     id && !effectiveExpense && (!dbFetched || !isSynced)
@@ -191,26 +148,65 @@ export function ExpenseDetailPage() {
 
       {/* Content */}
       <div className="flex-1 min-h-0 overflow-y-auto overscroll-contain pb-safe">
-        {/* Image Preview */}
-        {effectiveExpense.imageId && (
-          <div className="w-full aspect-video bg-[var(--border)] flex items-center justify-center">
-            {imageLoading ? (
+        {/* Attachment Preview */}
+        {selectedId && (
+          <div className="relative w-full aspect-video bg-[var(--border)] flex items-center justify-center">
+            {attachmentLoading && !attachment ? (
               <div className="flex flex-col items-center gap-2 text-[var(--text-secondary)]">
                 <div className="w-10 h-10 border-2 border-[var(--teal-green)] border-t-transparent rounded-full animate-spin" />
-                <span className="text-[13px]">Loading receipt…</span>
+                <span className="text-[13px]">
+                  Loading receipt…{attachmentProgress !== undefined && ` ${Math.round(attachmentProgress * 100)}%`}
+                </span>
               </div>
-            ) : imageUrl ? (
+            ) : attachment?.kind === 'html' ? (
+              <>
+                {/* E-receipts are untrusted: no scripts, forms or same-origin access */}
+                <iframe
+                  sandbox=""
+                  srcDoc={attachment.html ?? ''}
+                  title="E-receipt"
+                  className="w-full h-full bg-white"
+                />
+                <button
+                  onClick={() => setShowGallery(true)}
+                  className="absolute bottom-2 right-2 px-3 py-1.5 rounded-full bg-black/60 text-white text-[13px] font-medium"
+                >
+                  View
+                </button>
+              </>
+            ) : attachment?.url ? (
               <button
-                onClick={() => setShowFullImage(true)}
+                onClick={() => setShowGallery(true)}
                 className="w-full h-full flex items-center justify-center"
               >
                 <img
-                  src={imageUrl}
+                  src={attachment.url}
                   alt="Receipt"
                   className="max-w-full max-h-full object-contain"
                 />
               </button>
             ) : null}
+            {/* Thumbnail shown while the file downloads from a peer */}
+            {attachmentLoading && attachment && (
+              <div className="absolute inset-x-0 bottom-0 px-3 py-2 bg-black/50 text-white text-[13px] flex items-center gap-2">
+                <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin" />
+                Downloading{attachmentProgress !== undefined && ` ${Math.round(attachmentProgress * 100)}%`}
+              </div>
+            )}
+          </div>
+        )}
+        {attachmentIds.length > 1 && (
+          <div className="flex gap-2 overflow-x-auto px-4 py-2 bg-[var(--white)] border-b border-[var(--border)]">
+            {attachmentIds.map((attachmentId, index) => (
+              <button
+                key={attachmentId}
+                onClick={() => setSelectedIndex(index)}
+                className={cn('rounded-lg', attachmentId === selectedId && 'ring-2 ring-[var(--teal-green)]')}
+                aria-label="Show attachment"
+              >
+                <AttachmentThumb id={attachmentId} className="w-14 h-14" />
+              </button>
+            ))}
           </div>
         )}
 
@@ -219,6 +215,11 @@ export function ExpenseDetailPage() {
           <div className="text-5xl font-bold mb-2">
             {formatAmount(effectiveExpense.amount)}
           </div>
+          {formatOriginalAmount(effectiveExpense, baseCode, locale) && (
+            <div className="text-white/80 mb-1">
+              Paid {formatOriginalAmount(effectiveExpense, baseCode, locale)}
+            </div>
+          )}
           <div className="text-white/80">
             {formatDate(effectiveExpense.date)}
           </div>
@@ -287,24 +288,13 @@ export function ExpenseDetailPage() {
         </div>
       </div>
 
-      {/* Full Image Modal */}
-      {showFullImage && imageUrl && (
-        <div 
-          className="fixed inset-0 z-[1000] bg-black flex items-center justify-center"
-          onClick={() => setShowFullImage(false)}
-        >
-          <button 
-            className="absolute top-4 right-4 w-10 h-10 rounded-full bg-white/20 text-white flex items-center justify-center text-xl safe-top"
-            onClick={() => setShowFullImage(false)}
-          >
-            ✕
-          </button>
-          <img 
-            src={imageUrl} 
-            alt="Receipt" 
-            className="max-w-full max-h-full object-contain"
-          />
-        </div>
+      {/* Attachment Gallery */}
+      {showGallery && (
+        <AttachmentGallery
+          ids={attachmentIds}
+          startIndex={attachmentIds.indexOf(selectedId)}
+          onClose={() => setShowGallery(false)}
+        />
       )}
 
       {/* Delete Confirmation */}
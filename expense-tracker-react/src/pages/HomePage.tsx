@@ -8,6 +8,8 @@ import { useAccountStore } from '@/stores/accountStore';
 import { usePeopleStore } from '@/stores/peopleStore';
 import { useSyncActions } from '@/contexts/SyncActionsContext';
 import { cn } from '@/lib/utils';
+import { BUDGET_CATEGORY_KEYS, getCategoryTotals } from '@/lib/budgets';
+import { getCategoryLabel } from '@/types';
 
 const PULL_THRESHOLD = 56;
 const MAX_PULL_DISPLAY = 80;
@@ -46,7 +48,10 @@ export function HomePage() {
   } = useExpenseStore();
   
   const formatAmount = useSettingsStore(s => s.formatAmount);
+  const currencyDigits = useSettingsStore(s => s.getCurrencyDigits());
   const getBudgetStatus = useSettingsStore(s => s.getBudgetStatus);
+  const categoryBudgets = useSettingsStore(s => s.categoryBudgets);
+  const getCategoryBudgetStatus = useSettingsStore(s => s.getCategoryBudgetStatus);
   const isConnected = useSyncStore(s => s.isConnected);
   const isSharedMode = useAccountStore(s => s.isSharedMode());
   const selfPersonId = useAccountStore(s => s.selfPersonId);
@@ -71,6 +76,14 @@ export function HomePage() {
   const todayTotal = getTodayTotal();
   const budgetStatus = getBudgetStatus(monthTotal);
 
+  // Categories at 80% or more of their budget this month
+  const monthExpenses = useExpenseStore(s => s.expenses);
+  const categoryTotals = getCategoryTotals(monthExpenses, currencyDigits);
+  const categoryAlerts = BUDGET_CATEGORY_KEYS
+    .filter(key => categoryBudgets[key] > 0)
+    .map(key => ({ key, spent: categoryTotals[key] ?? 0, status: getCategoryBudgetStatus(key, categoryTotals[key] ?? 0) }))
+    .filter(alert => alert.status && alert.status.status !== 'ok');
+
   const [refreshing, setRefreshing] = useState(false);
   const [pullDelta, setPullDelta] = useState(0);
   const scrollRef = useRef<HTMLDivElement>(null);
@@ -185,6 +198,29 @@ export function HomePage() {
           )}
         </div>
 
+        {/* Category budget alerts */}
+        {categoryAlerts.length > 0 && (
+          <button
+            type="button"
+            onClick={() => navigate('/stats')}
+            className="w-full flex flex-col gap-1 px-4 py-3 mb-3 rounded-xl bg-orange-400/10 border border-orange-400/30 text-left"
+          >
+            {categoryAlerts.map(({ key, spent, status }) => (
+              <span
+                key={key}
+                className={cn(
+                  'text-[14px] font-medium',
+                  status?.status === 'over' ? 'text-[var(--danger)]' : 'text-orange-500'
+                )}
+              >
+                {status?.status === 'over'
+                  ? `${getCategoryLabel(key)} is over budget by ${formatAmount(-status.remaining)}`
+                  : `${getCategoryLabel(key)}: ${Math.round(status?.percent ?? 0)}% of budget used (${formatAmount(spent)})`}
+              </span>
+            ))}
+          </button>
+        )}
+
         {/* Set who you are (shared account, switched and no identity yet) */}
         {needsWhoAreYou && (
           <button
@@ -0,0 +1,365 @@
+import { useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Button, useToast } from '@/components/ui';
+import { AttachmentThumb } from '@/components/expenses';
+import { useCamera } from '@/hooks/useCamera';
+import { useReceiptQueue } from '@/hooks/useReceiptQueue';
+import { useExpenseStore } from '@/stores/expenseStore';
+import { usePeopleStore } from '@/stores/peopleStore';
+import { useAccountStore } from '@/stores/accountStore';
+import { useSettingsStore } from '@/stores/settingsStore';
+import { useExchangeRateStore } from '@/stores/exchangeRateStore';
+import { markDuplicates, mergeDrafts, type DraftField, type ImportDraft } from '@/lib/batchImport';
+import { convertAmount } from '@/lib/currency';
+import { ATTACHMENT_ACCEPT } from '@/lib/attachments';
+import { formatMoney, getCurrencyDigits, parseAmount, sanitizeAmountInput, toAmountInput } from '@/lib/format';
+import { haptic, cn } from '@/lib/utils';
+import { CURRENCIES, type Person } from '@/types';
+
+interface DraftCardProps {
+  draft: ImportDraft;
+  index: number;
+  people: Person[];
+  locale: string;
+  duplicateIndex: number | null;
+  onChange: (updates: Partial<ImportDraft>) => void;
+  onRemove: () => void;
+  onMerge: () => void;
+}
+
+function DraftCard({ draft, index, people, locale, duplicateIndex, onChange, onRemove, onMerge }: DraftCardProps) {
+  // Text being typed into the amount; null shows the draft's amount (from the scan or a merge)
+  const [amountText, setAmountText] = useState<string | null>(null);
+
+  const check = (field: DraftField) => draft.uncertain.includes(field) && 'ring-2 ring-amber-500';
+  const checked = (field: DraftField) => draft.uncertain.filter(f => f !== field);
+  const scanning = draft.status === 'queued' || draft.status === 'scanning';
+
+  return (
+    <div className={cn('bg-[var(--white)] rounded-xl p-3', !draft.include && 'opacity-60')}>
+      <div className="flex gap-3">
+        <AttachmentThumb blob={draft.image} className="w-16 h-20" />
+        <div className="flex-1 min-w-0 space-y-2">
+          <div className="flex items-center justify-between gap-2">
+            <span className="text-xs text-[var(--text-secondary)] truncate">
+              {index + 1}. {draft.fileName}
+            </span>
+            <div className="flex items-center gap-3 flex-shrink-0">
+              <button
+                onClick={() => onChange({ include: !draft.include })}
+                className="text-sm font-medium text-[var(--teal-green)]"
+              >
+                {draft.include ? 'Skip' : 'Include'}
+              </button>
+              <button onClick={onRemove} className="text-sm text-[var(--danger)]" aria-label="Remove">
+                ✕
+              </button>
+            </div>
+          </div>
+
+          {scanning ? (
+            <p className="text-sm text-[var(--text-secondary)]">
+              {draft.status === 'scanning' ? 'Scanning…' : 'Waiting…'}
+            </p>
+          ) : (
+            <>
+              {draft.status === 'failed' && (
+                <p className="text-xs text-amber-600">Couldn't read this receipt - fill it in by hand</p>
+              )}
+              <input
+                type="text"
+                value={draft.description}
+                onChange={e => onChange({ description: e.target.value, uncertain: checked('description') })}
+                placeholder="Description"
+                className={cn('w-full bg-[var(--bg)] rounded-lg px-3 py-2 text-[15px] outline-none', check('description'))}
+              />
+              <div className="flex gap-2">
+                <select
+                  value={draft.currency}
+                  onChange={e => onChange({ currency: e.target.value, uncertain: checked('currency') })}
+                  className={cn('bg-[var(--bg)] rounded-lg px-2 py-2 text-[15px] outline-none', check('currency'))}
+                >
+                  {CURRENCIES.map(c => (
+                    <option key={c.code} value={c.code}>{c.code}</option>
+                  ))}
+                </select>
+                <input
+                  type="text"
+                  inputMode="decimal"
+                  value={amountText ?? (draft.amount !== null ? toAmountInput(draft.amount, draft.currency, locale) : '')}
+                  onChange={e => {
+                    const text = sanitizeAmountInput(e.target.value, getCurrencyDigits(draft.currency), locale);
+                    if (text === null) return;
+                    setAmountText(text);
+                    onChange({ amount: parseAmount(text, locale) || null, uncertain: checked('amount') });
+                  }}
+                  onBlur={() => setAmountText(null)}
+                  placeholder="0.00"
+                  className={cn('flex-1 min-w-0 bg-[var(--bg)] rounded-lg px-3 py-2 text-[15px] outline-none', check('amount'))}
+                />
+              </div>
+              <div className="flex gap-2">
+                <input
+                  type="date"
+                  value={draft.date}
+                  onChange={e => onChange({ date: e.target.value, uncertain: checked('date') })}
+                  className={cn('flex-1 min-w-0 bg-[var(--bg)] rounded-lg px-3 py-2 text-[15px] outline-none', check('date'))}
+                />
+                {people.length > 0 && (
+                  <select
+                    value={draft.payerId ?? ''}
+                    onChange={e => onChange({ payerId: e.target.value || undefined })}
+                    className="flex-1 min-w-0 bg-[var(--bg)] rounded-lg px-2 py-2 text-[15px] outline-none"
+                    aria-label="Paid by"
+                  >
+                    {people.map(p => (
+                      <option key={p.id} value={p.id}>Paid by {p.name}</option>
+                    ))}
+                  </select>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+
+      {duplicateIndex !== null && (
+        <div className="mt-3 flex items-center justify-between gap-2 rounded-lg bg-amber-500/10 px-3 py-2">
+          <span className="text-sm text-amber-600">Same receipt as #{duplicateIndex + 1}?</span>
+          <div className="flex gap-3 flex-shrink-0">
+            <button onClick={onMerge} className="text-sm font-medium text-[var(--teal-green)]">Merge</button>
+            <button
+              onClick={() => onChange({ notDuplicate: true })}
+              className="text-sm text-[var(--text-secondary)]"
+            >
+              Keep both
+            </button>
+          </div>
+        </div>
+      )}
+      {duplicateIndex === null && draft.existingId && (
+        <div className="mt-3 flex items-center justify-between gap-2 rounded-lg bg-amber-500/10 px-3 py-2">
+          <span className="text-sm text-amber-600">Looks like an expense you already added</span>
+          <button
+            onClick={() => onChange({ notDuplicate: true })}
+            className="text-sm text-[var(--text-secondary)] flex-shrink-0"
+          >
+            Keep
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function ImportReceiptsPage() {
+  const navigate = useNavigate();
+  const { showSuccess, showError } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const { saveAttachment } = useCamera();
+  const { drafts, setDrafts, running, progress, start, cancel, updateDraft, removeDraft } = useReceiptQueue();
+  const addExpenses = useExpenseStore(s => s.addExpenses);
+  const allExpenses = useExpenseStore(s => s.allExpenses);
+  const people = usePeopleStore(s => s.people);
+  const lastPayerId = usePeopleStore(s => s.lastPayerId);
+  const setLastPayer = usePeopleStore(s => s.setLastPayer);
+  const isSharedMode = useAccountStore(s => s.isSharedMode());
+  const locale = useAccountStore(s => s.getLocale());
+  const baseCode = useSettingsStore(s => s.getCurrencyCode());
+  const rates = useExchangeRateStore(s => s.rates);
+
+  const [saving, setSaving] = useState(false);
+
+  const payers = isSharedMode ? people : [];
+  const reviewed = markDuplicates(drafts, allExpenses, baseCode);
+  const included = reviewed.filter(d => d.include && d.status !== 'queued' && d.status !== 'scanning');
+  const scannedCount = drafts.filter(d => d.status === 'done' || d.status === 'failed').length;
+  const total = included.reduce<Record<string, number>>((sums, d) => {
+    sums[d.currency] = (sums[d.currency] ?? 0) + (d.amount ?? 0);
+    return sums;
+  }, {});
+
+  const handleFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = '';
+    if (files.length === 0) return;
+    haptic('light');
+    try {
+      const count = await start(files, {
+        currency: baseCode,
+        payerId: isSharedMode && people.length > 0 ? (lastPayerId || people[0].id) : undefined
+      });
+      if (count === 0) {
+        showError('No receipts found');
+      } else {
+        haptic('success');
+      }
+    } catch (error) {
+      console.error('Import error:', error);
+      showError(error instanceof Error ? error.message : 'Could not read the files');
+    }
+  };
+
+  const handleCancel = () => {
+    haptic('light');
+    cancel();
+  };
+
+  const handleMerge = (draft: ImportDraft) => {
+    const target = drafts.find(d => d.id === draft.duplicateOf);
+    if (!target) return;
+    haptic('light');
+    const merged = mergeDrafts(target, draft);
+    setDrafts(prev => prev.filter(d => d.id !== draft.id).map(d => (d.id === target.id ? merged : d)));
+  };
+
+  const handleCommit = async () => {
+    if (included.length === 0) return;
+    const problem = included.find(d => !d.amount || d.amount <= 0);
+    if (problem) {
+      showError(`Enter an amount for #${reviewed.indexOf(problem) + 1}`);
+      haptic('error');
+      return;
+    }
+    const noRate = included.find(d => d.currency !== baseCode && convertAmount(1, d.currency, baseCode, rates) === null);
+    if (noRate) {
+      showError(`Add an exchange rate for ${noRate.currency} in Settings`);
+      haptic('error');
+      return;
+    }
+
+    setSaving(true);
+    haptic('light');
+    try {
+      const expenses = [];
+      for (const draft of included) {
+        const imageId = await saveAttachment(draft.image);
+        const amount = draft.amount!;
+        expenses.push({
+          description: draft.description.trim() || 'Receipt',
+          amount: draft.currency === baseCode ? amount : convertAmount(amount, draft.currency, baseCode, rates)!,
+          currency: draft.currency,
+          originalAmount: amount,
+          date: draft.date,
+          payerId: isSharedMode ? draft.payerId : undefined,
+          imageId,
+          attachmentIds: [imageId],
+          splitType: 'equal' as const
+        });
+      }
+      await addExpenses(expenses);
+      const lastPayer = included[included.length - 1].payerId;
+      if (isSharedMode && lastPayer) setLastPayer(lastPayer);
+
+      haptic('success');
+      showSuccess(`Added ${expenses.length} expense${expenses.length === 1 ? '' : 's'}`);
+      navigate('/');
+    } catch (error) {
+      console.error('Failed to import:', error);
+      showError('Failed to add expenses');
+      haptic('error');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col h-full bg-[var(--bg)]">
+      {/* Header */}
+      <header className="flex-shrink-0 safe-top px-4 py-3 flex items-center justify-between border-b border-[var(--border)] bg-[var(--bg)]">
+        <button
+          onClick={() => { cancel(); navigate(-1); }}
+          className="text-[var(--teal-green)] text-[17px] font-medium px-2 py-1 -mx-2 rounded-lg active:bg-[var(--teal-green)]/10"
+        >
+          ‹ Back
+        </button>
+        <span className="text-[17px] font-semibold">Import Receipts</span>
+        <div className="w-14" aria-hidden />
+      </header>
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept={`${ATTACHMENT_ACCEPT},.zip,application/zip`}
+        multiple
+        onChange={handleFiles}
+        className="hidden"
+      />
+
+      <div className="flex-1 min-h-0 overflow-y-auto overscroll-contain p-4 pb-[calc(90px+env(safe-area-inset-bottom))] space-y-3">
+        {drafts.length === 0 ? (
+          <div className="p-8 text-center text-[var(--text-secondary)]">
+            <div className="text-4xl mb-3">🧾</div>
+            <p>Pick receipt photos, PDFs or e-receipts, or a zip of photos.</p>
+            <p className="text-sm mt-1">Each one is scanned into a draft you can check before adding.</p>
+            <Button className="mt-6" onClick={() => fileInputRef.current?.click()}>
+              Choose files
+            </Button>
+          </div>
+        ) : (
+          <>
+            {running && (
+              <div className="bg-[var(--white)] rounded-xl p-4">
+                <div className="flex items-center justify-between mb-2">
+                  <span className="text-sm font-medium">
+                    Scanning {Math.min(scannedCount + 1, drafts.length)} of {drafts.length}
+                  </span>
+                  <button onClick={handleCancel} className="text-sm font-medium text-[var(--danger)]">
+                    Cancel
+                  </button>
+                </div>
+                <div className="h-2 rounded-full bg-[var(--bg)] overflow-hidden">
+                  <div
+                    className="h-full bg-[var(--teal-green)] transition-all"
+                    style={{ width: `${((scannedCount + progress) / drafts.length) * 100}%` }}
+                  />
+                </div>
+              </div>
+            )}
+
+            {reviewed.map((draft, index) => {
+              const duplicateIndex = draft.duplicateOf ? reviewed.findIndex(d => d.id === draft.duplicateOf) : -1;
+              return (
+                <DraftCard
+                  key={draft.id}
+                  draft={draft}
+                  index={index}
+                  people={payers}
+                  locale={locale}
+                  duplicateIndex={duplicateIndex >= 0 ? duplicateIndex : null}
+                  onChange={updates => updateDraft(draft.id, updates)}
+                  onRemove={() => removeDraft(draft.id)}
+                  onMerge={() => handleMerge(draft)}
+                />
+              );
+            })}
+
+            {!running && (
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                className="w-full py-3 bg-[var(--white)] rounded-xl text-[var(--text-secondary)] text-sm font-medium active:bg-[var(--bg)] transition-colors border border-[var(--border)]"
+              >
+                Add more receipts
+              </button>
+            )}
+          </>
+        )}
+      </div>
+
+      {drafts.length > 0 && (
+        <div className="fixed bottom-0 left-0 right-0 p-4 pb-[calc(16px+env(safe-area-inset-bottom))] bg-[var(--bg)] border-t border-[var(--border)]">
+          <Button
+            onClick={handleCommit}
+            loading={saving}
+            disabled={running || included.length === 0}
+            className="w-full min-h-[52px] text-[17px] font-semibold rounded-2xl"
+          >
+            Add {included.length} expense{included.length === 1 ? '' : 's'}
+            {included.length > 0 && ` · ${Object.entries(total).map(([code, sum]) => formatMoney(sum, code, locale)).join(' + ')}`}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
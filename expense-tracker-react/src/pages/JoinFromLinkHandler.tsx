@@ -1,6 +1,6 @@
 import { useEffect } from 'react';
-import { useNavigate, useSearchParams } from 'react-router-dom';
-import { parseInviteInput } from '@/lib/invite';
+import { useLocation, useNavigate, useSearchParams } from 'react-router-dom';
+import { inviteConflictMessage, parseInviteInput } from '@/lib/invite';
 import { useAccountStore } from '@/stores/accountStore';
 
 /**
@@ -10,21 +10,35 @@ import { useAccountStore } from '@/stores/accountStore';
 export function JoinFromLinkHandler() {
   const navigate = useNavigate();
   const [searchParams] = useSearchParams();
+  // The group key is in the fragment
+  const { hash } = useLocation();
   const createAccountWithId = useAccountStore(s => s.createAccountWithId);
+  const replaceAccountInvite = useAccountStore(s => s.replaceAccountInvite);
   const setCurrentAccount = useAccountStore(s => s.setCurrentAccount);
 
   useEffect(() => {
-    const account = searchParams.get('account');
-    const name = searchParams.get('name');
-    const device = searchParams.get('device');
-    if (!account) {
+    if (!searchParams.get('account')) {
       navigate('/', { replace: true });
       return;
     }
-    const query = `?account=${account}&name=${name || 'Shared Group'}${device ? `&device=${encodeURIComponent(device)}` : ''}`;
-    const parsed = parseInviteInput(query);
+    const parsed = parseInviteInput(`?${searchParams.toString()}${hash}`);
     if (parsed) {
-      createAccountWithId(parsed.accountId, parsed.accountName, 'shared', '$', parsed.deviceId || undefined);
+      const existing = useAccountStore.getState().accounts.find(a => a.id === parsed.accountId);
+      const conflict = existing && inviteConflictMessage(existing, parsed);
+      if (conflict && !confirm(conflict)) {
+        navigate('/', { replace: true });
+        return;
+      }
+      createAccountWithId(
+        parsed.accountId,
+        parsed.accountName,
+        'shared',
+        '$',
+        parsed.deviceId || undefined,
+        parsed.signaling,
+        parsed.groupKey
+      );
+      if (conflict) replaceAccountInvite(parsed.accountId, parsed);
       setCurrentAccount(parsed.accountId).then(async () => {
         await new Promise(resolve => setTimeout(resolve, 500)); // Wait for Yjs doc to switch
         navigate('/sync', { replace: true, state: { joinData: parsed } });
@@ -32,7 +46,7 @@ export function JoinFromLinkHandler() {
     } else {
       navigate('/', { replace: true });
     }
-  }, [searchParams, createAccountWithId, setCurrentAccount, navigate]);
+  }, [searchParams, hash, createAccountWithId, replaceAccountInvite, setCurrentAccount, navigate]);
 
   return (
     <div className="flex-1 flex items-center justify-center p-6">
@@ -5,12 +5,11 @@ import { Button, Input, useToast } from '@/components/ui';
 import { QRScanner } from '@/components/sync';
 import { useAccountStore } from '@/stores/accountStore';
 import { usePeopleStore } from '@/stores/peopleStore';
-import { useSettingsStore } from '@/stores/settingsStore';
 import { useSyncStore } from '@/stores/syncStore';
 import { useYjs } from '@/sync';
 import { CURRENCIES } from '@/types';
 import { haptic, copyToClipboard } from '@/lib/utils';
-import { parseInviteInput, generateInviteUrl } from '@/lib/invite';
+import { parseInviteInput, generateInviteCode, generateInviteUrl, inviteConflictMessage, type InviteData } from '@/lib/invite';
 import type { Person } from '@/types';
 
 type Step = 
@@ -33,6 +32,8 @@ export function OnboardingPage() {
   // Account store
   const createAccount = useAccountStore(s => s.createAccount);
   const createAccountWithId = useAccountStore(s => s.createAccountWithId);
+  const replaceAccountInvite = useAccountStore(s => s.replaceAccountInvite);
+  const accounts = useAccountStore(s => s.accounts);
   const setCurrentAccount = useAccountStore(s => s.setCurrentAccount);
   const setOnboarded = useAccountStore(s => s.setOnboarded);
   const setSelfPersonId = useAccountStore(s => s.setSelfPersonId);
@@ -41,9 +42,6 @@ export function OnboardingPage() {
   const addPerson = usePeopleStore(s => s.addPerson);
   const claimPerson = usePeopleStore(s => s.claimPerson);
   
-  // Settings store
-  const setCurrency = useSettingsStore(s => s.setCurrency);
-  
   // Sync store
   const deviceId = useSyncStore(s => s.deviceId);
   
@@ -70,7 +68,7 @@ export function OnboardingPage() {
   const [joinAccountName, setJoinAccountName] = useState('');
   const [joinError, setJoinError] = useState<string | null>(null);
   const [syncedPeople, setSyncedPeople] = useState<Person[]>([]);
-  const [lastScannedData, setLastScannedData] = useState<{ accountId: string; deviceId: string; accountName: string } | null>(null);
+  const [lastScannedData, setLastScannedData] = useState<InviteData | null>(null);
   const [retryCount, setRetryCount] = useState(0);
 
   // Load people when we reach selectName step - use Yjs data
@@ -91,9 +89,8 @@ export function OnboardingPage() {
   const [searchParams] = useSearchParams();
   useEffect(() => {
     const account = searchParams.get('account');
-    const name = searchParams.get('name');
     if (account && step === 'welcome') {
-      const parsed = parseInviteInput(`?account=${account}&name=${name || 'Shared Group'}`);
+      const parsed = parseInviteInput(`?${searchParams.toString()}${window.location.hash}`);
       if (parsed) {
         setJoinAccountName(parsed.accountName);
         setStep('connecting');
@@ -136,7 +133,6 @@ export function OnboardingPage() {
           selectedCurrency,
           deviceId ?? undefined
         );
-        setCurrency(selectedCurrency);
         await setCurrentAccount(account.id);
         
         // Wait for React to re-render and YjsProvider to create the account-specific document
@@ -144,13 +140,10 @@ export function OnboardingPage() {
         
         const roomName = `expense-tracker-${account.id}`;
         const hostDeviceId = account.hostDeviceId ?? deviceId;
-        connect(roomName, { deviceId: deviceId ?? '', hostDeviceId });
+        connect(roomName, { deviceId: deviceId ?? '', hostDeviceId, signaling: account.signaling, groupKey: account.groupKey });
         
         // Set awareness with our info
-        setAwareness({
-          id: deviceId,
-          name: userName.trim()
-        });
+        setAwareness({ name: userName.trim() });
         
         // Brief wait for WebRTC connection to establish
         await new Promise(resolve => setTimeout(resolve, 300));
@@ -183,7 +176,6 @@ export function OnboardingPage() {
         'single',
         selectedCurrency
       );
-      setCurrency(selectedCurrency);
       await setCurrentAccount(account.id);
       
       setOnboarded(true);
@@ -251,7 +243,7 @@ export function OnboardingPage() {
     await attemptConnection(parsed);
   };
 
-  const handleQRScanned = async (data: { accountId: string; deviceId: string; accountName: string }) => {
+  const handleQRScanned = async (data: InviteData) => {
     haptic('success');
     setLastScannedData(data);
     setJoinAccountName(data.accountName);
@@ -259,7 +251,14 @@ export function OnboardingPage() {
     await attemptConnection(data);
   };
 
-  const attemptConnection = async (data: { accountId: string; deviceId: string; accountName: string }) => {
+  const attemptConnection = async (data: InviteData) => {
+    const existing = accounts.find(a => a.id === data.accountId);
+    const conflict = existing && inviteConflictMessage(existing, data);
+    if (conflict && !confirm(conflict)) {
+      setJoinError('Kept the group settings this device already has. Scan an invite you trust to join.');
+      setStep('connectionFailed');
+      return;
+    }
     setStep('connecting');
     
     try {
@@ -269,8 +268,11 @@ export function OnboardingPage() {
         data.accountName,
         'shared',
         '$',
-        data.deviceId
+        data.deviceId,
+        data.signaling,
+        data.groupKey
       );
+      if (conflict) replaceAccountInvite(data.accountId, data);
       await setCurrentAccount(data.accountId);
 
       // Yield to React so YjsProvider can run its effect and create the new ydoc, then wait before connecting
@@ -278,13 +280,10 @@ export function OnboardingPage() {
       await new Promise(resolve => setTimeout(resolve, 1200));
 
       const roomName = `expense-tracker-${data.accountId}`;
-      connectRef.current(roomName, { deviceId: deviceId ?? '', hostDeviceId: data.deviceId });
+      connectRef.current(roomName, { deviceId: deviceId ?? '', hostDeviceId: data.deviceId, signaling: data.signaling, groupKey: data.groupKey });
       
       // Set awareness
-      setAwareness({
-        id: deviceId,
-        name: 'New User'
-      });
+      setAwareness({ name: 'New User' });
       
       // Wait for WebRTC connection and CRDT sync - poll for people data
       // Use ref to read from the correct (new) document's people array
@@ -361,7 +360,7 @@ export function OnboardingPage() {
   // Generate QR data for invite
   const currentAccount = useAccountStore(s => s.getCurrentAccount());
   const qrData = currentAccount && deviceId 
-    ? `et:${currentAccount.id}:${deviceId}:${currentAccount.name}`
+    ? generateInviteCode(currentAccount.id, deviceId, currentAccount.name, currentAccount.signaling, currentAccount.groupKey)
     : '';
 
   return (
@@ -604,7 +603,7 @@ export function OnboardingPage() {
                 </p>
                 <Input
                   readOnly
-                  value={generateInviteUrl(currentAccount.id, currentAccount.name, currentAccount.hostDeviceId ?? deviceId ?? undefined)}
+                  value={generateInviteUrl(currentAccount.id, currentAccount.name, currentAccount.hostDeviceId ?? deviceId ?? undefined, currentAccount.signaling, currentAccount.groupKey)}
                   className="text-sm font-mono"
                   aria-label="Invite URL for this account"
                 />
@@ -614,7 +613,7 @@ export function OnboardingPage() {
                     variant="secondary"
                     className="flex-1 min-h-[44px]"
                     onClick={async () => {
-                      const url = generateInviteUrl(currentAccount.id, currentAccount.name, currentAccount.hostDeviceId ?? deviceId ?? undefined);
+                      const url = generateInviteUrl(currentAccount.id, currentAccount.name, currentAccount.hostDeviceId ?? deviceId ?? undefined, currentAccount.signaling, currentAccount.groupKey);
                       const success = await copyToClipboard(url);
                       if (success) {
                         haptic('success');
@@ -632,7 +631,7 @@ export function OnboardingPage() {
                     className="flex-1 min-h-[44px]"
                     onClick={async () => {
                       try {
-                        const url = generateInviteUrl(currentAccount.id, currentAccount.name, currentAccount.hostDeviceId ?? deviceId ?? undefined);
+                        const url = generateInviteUrl(currentAccount.id, currentAccount.name, currentAccount.hostDeviceId ?? deviceId ?? undefined, currentAccount.signaling, currentAccount.groupKey);
                         const success = await copyToClipboard(url);
                         if (success) {
                           haptic('success');
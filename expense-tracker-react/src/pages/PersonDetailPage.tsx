@@ -8,7 +8,7 @@ import { useSettingsStore } from '@/stores/settingsStore';
 import { useSyncStore } from '@/stores/syncStore';
 import { Button, useToast } from '@/components/ui';
 import { Modal } from '@/components/ui/Modal';
-import { computeBalances } from '@/lib/settlements';
+import { computeGroupSettlement } from '@/lib/settlements';
 import { canManagePeople } from '@/lib/policies';
 import { formatDate } from '@/types';
 import { cn } from '@/lib/utils';
@@ -27,18 +27,15 @@ export function PersonDetailPage() {
   const setSelfPersonId = useAccountStore(s => s.setSelfPersonId);
   const deviceId = useSyncStore(s => s.deviceId);
   const formatAmount = useSettingsStore(s => s.formatAmount);
+  const currencyDigits = useSettingsStore(s => s.getCurrencyDigits());
   const currentAccount = useAccountStore(s => s.getCurrentAccount());
   const canManage = canManagePeople(currentAccount, deviceId);
 
   const person = id ? people.find(p => p.id === id) : null;
 
-  const totalPaid = allExpenses
-    .filter(e => e.payerId === id)
-    .reduce((sum, e) => sum + e.amount, 0);
-
-  const balances = computeBalances(allExpenses, people, payments);
-  const balanceObj = balances.find(b => b.personId === id);
-  const balance = balanceObj?.amount ?? 0;
+  const { personSpent, balances } = computeGroupSettlement(allExpenses, people, payments, currencyDigits);
+  const totalPaid = (id && personSpent[id]) || 0;
+  const balance = balances.find(b => b.personId === id)?.amount ?? 0;
 
   const expensesPaid = allExpenses
     .filter(e => e.payerId === id)
@@ -192,10 +189,10 @@ export function PersonDetailPage() {
             <div className="text-[12px] text-[var(--text-secondary)] uppercase tracking-wide mb-1">Balance</div>
             <div className={cn(
               'text-xl font-bold',
-              balance > 0.01 && 'text-[var(--teal-green)]',
-              balance < -0.01 && 'text-[var(--danger)]'
+              balance > 0 && 'text-[var(--teal-green)]',
+              balance < 0 && 'text-[var(--danger)]'
             )}>
-              {balance > 0.01 ? `Gets back ${formatAmount(balance)}` : balance < -0.01 ? `Owes ${formatAmount(-balance)}` : 'Settled'}
+              {balance > 0 ? `Gets back ${formatAmount(balance)}` : balance < 0 ? `Owes ${formatAmount(-balance)}` : 'Settled'}
             </div>
           </div>
         </div>
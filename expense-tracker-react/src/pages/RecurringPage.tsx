@@ -0,0 +1,235 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import type { RecurringExpense } from '@/types';
+import { getToday } from '@/types';
+import { Input, Sheet, useToast } from '@/components/ui';
+import { useRecurringStore } from '@/stores/recurringStore';
+import { useSettingsStore } from '@/stores/settingsStore';
+import { useAccountStore } from '@/stores/accountStore';
+import { FREQUENCY_LABELS, getOccurrenceOnOrAfter } from '@/lib/recurring';
+import { parseAmount, sanitizeAmountInput, toAmountInput, getCurrencyDigits } from '@/lib/format';
+import { haptic, cn } from '@/lib/utils';
+
+type Frequency = RecurringExpense['frequency'];
+
+export function RecurringPage() {
+  const navigate = useNavigate();
+  const { showSuccess, showError } = useToast();
+  const rules = useRecurringStore(s => s.rules);
+  const updateRule = useRecurringStore(s => s.updateRule);
+  const deleteRule = useRecurringStore(s => s.deleteRule);
+  const setRuleActive = useRecurringStore(s => s.setRuleActive);
+  const formatAmount = useSettingsStore(s => s.formatAmount);
+  const baseCode = useSettingsStore(s => s.getCurrencyCode());
+  const locale = useAccountStore(s => s.getLocale());
+
+  const [editing, setEditing] = useState<RecurringExpense | null>(null);
+  const [description, setDescription] = useState('');
+  const [amount, setAmount] = useState('');
+  const [frequency, setFrequency] = useState<Frequency>('monthly');
+  const [nextDue, setNextDue] = useState('');
+
+  const sortedRules = [...rules].sort((a, b) => {
+    if (a.active !== b.active) return a.active ? -1 : 1;
+    return a.nextDue.localeCompare(b.nextDue);
+  });
+
+  const openEdit = (rule: RecurringExpense) => {
+    setEditing(rule);
+    setDescription(rule.description);
+    setAmount(toAmountInput(rule.amount, baseCode, locale));
+    setFrequency(rule.frequency);
+    setNextDue(rule.nextDue);
+  };
+
+  const handleSave = async () => {
+    if (!editing) return;
+    const amountNum = parseAmount(amount, locale);
+    if (!description.trim()) {
+      showError('Enter a description');
+      return;
+    }
+    if (!amountNum || amountNum <= 0) {
+      showError('Enter a valid amount greater than 0');
+      return;
+    }
+    if (!nextDue) {
+      showError('Pick the next date');
+      return;
+    }
+    const scheduleChanged = frequency !== editing.frequency || nextDue !== editing.nextDue;
+    try {
+      await updateRule(editing.id, {
+        description: description.trim(),
+        amount: amountNum,
+        frequency,
+        nextDue,
+        // A new date or frequency starts a new schedule from that date
+        ...(scheduleChanged && { anchorDate: nextDue })
+      });
+      haptic('success');
+      showSuccess('Recurring expense updated');
+      setEditing(null);
+    } catch {
+      showError('Failed to update');
+    }
+  };
+
+  const handleToggle = async (rule: RecurringExpense) => {
+    haptic('light');
+    try {
+      if (rule.active) {
+        await setRuleActive(rule.id, false);
+        showSuccess('Paused');
+        return;
+      }
+      // Resuming skips the periods missed while paused
+      const today = getToday();
+      const nextDue = rule.nextDue < today
+        ? getOccurrenceOnOrAfter(rule.anchorDate ?? rule.nextDue, rule.frequency, today)
+        : rule.nextDue;
+      await updateRule(rule.id, { active: true, nextDue });
+      showSuccess('Resumed');
+    } catch {
+      showError('Failed to update');
+    }
+  };
+
+  const handleDelete = async (rule: RecurringExpense) => {
+    if (!confirm(`Stop repeating “${rule.description}”? Expenses already created are kept.`)) return;
+    haptic('light');
+    try {
+      await deleteRule(rule.id);
+      setEditing(null);
+      showSuccess('Recurring expense deleted');
+    } catch {
+      showError('Failed to delete');
+    }
+  };
+
+  const formatDate = (date: string) =>
+    new Date(date + 'T00:00:00').toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' });
+
+  return (
+    <div className="flex flex-col h-full bg-[var(--bg)]">
+      {/* Header */}
+      <header className="flex-shrink-0 safe-top px-4 py-3 flex items-center justify-between border-b border-[var(--border)] bg-[var(--bg)]">
+        <button
+          onClick={() => navigate('/settings')}
+          className="text-[var(--teal-green)] text-[17px] font-medium px-2 py-1 -mx-2 rounded-lg active:bg-[var(--teal-green)]/10"
+        >
+          ‹ Back
+        </button>
+        <span className="text-[17px] font-semibold">Recurring</span>
+        <div className="w-14" aria-hidden />
+      </header>
+
+      <div className="flex-1 min-h-0 overflow-y-auto overscroll-contain p-4 pb-[calc(90px+env(safe-area-inset-bottom))]">
+        {sortedRules.length === 0 ? (
+          <div className="p-8 text-center text-[var(--text-secondary)]">
+            <div className="text-4xl mb-3">🔁</div>
+            <p>No recurring expenses yet.</p>
+            <p className="text-sm mt-1">Choose “Repeat” under More options when adding an expense.</p>
+          </div>
+        ) : (
+          <div className="bg-[var(--white)] rounded-xl divide-y divide-[var(--border)]">
+            {sortedRules.map(rule => (
+              <div key={rule.id} className={cn('p-4', !rule.active && 'opacity-60')}>
+                <button onClick={() => openEdit(rule)} className="w-full text-left">
+                  <div className="flex items-center justify-between gap-3">
+                    <span className="font-medium truncate">{rule.description}</span>
+                    <span className="font-semibold flex-shrink-0">{formatAmount(rule.amount)}</span>
+                  </div>
+                  <div className="text-sm text-[var(--text-secondary)] mt-0.5">
+                    {FREQUENCY_LABELS[rule.frequency]} · {rule.active ? `Next ${formatDate(rule.nextDue)}` : 'Paused'}
+                  </div>
+                </button>
+                <div className="flex gap-4 mt-2">
+                  <button
+                    onClick={() => handleToggle(rule)}
+                    className="text-sm text-[var(--teal-green)] font-medium"
+                  >
+                    {rule.active ? 'Pause' : 'Resume'}
+                  </button>
+                  <button
+                    onClick={() => handleDelete(rule)}
+                    className="text-sm text-[var(--danger)] font-medium"
+                  >
+                    Delete
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Edit Rule */}
+      <Sheet
+        isOpen={editing !== null}
+        onClose={() => setEditing(null)}
+        title="Edit Recurring"
+        actions={
+          <button
+            type="button"
+            onClick={handleSave}
+            className="text-[var(--teal-green)] text-[17px] font-semibold px-2 py-1 -mx-2 rounded-lg active:bg-[var(--teal-green)]/10"
+          >
+            Save
+          </button>
+        }
+      >
+        <div className="p-4 space-y-4">
+          <Input
+            label="Description"
+            value={description}
+            onChange={e => setDescription(e.target.value)}
+          />
+          <Input
+            label="Amount"
+            type="text"
+            inputMode="decimal"
+            value={amount}
+            onChange={e => {
+              const value = sanitizeAmountInput(e.target.value, getCurrencyDigits(baseCode), locale);
+              if (value !== null) setAmount(value);
+            }}
+          />
+          <div>
+            <span className="block text-[13px] font-medium text-[var(--text-secondary)] mb-2 uppercase tracking-wide">Repeats</span>
+            <div className="flex gap-2">
+              {(Object.keys(FREQUENCY_LABELS) as Frequency[]).map(f => (
+                <button
+                  key={f}
+                  type="button"
+                  onClick={() => setFrequency(f)}
+                  className={cn(
+                    'flex-1 py-2 rounded-full text-sm font-medium transition-colors',
+                    frequency === f ? 'bg-[var(--teal-green)] text-white' : 'bg-[var(--bg)]'
+                  )}
+                >
+                  {FREQUENCY_LABELS[f]}
+                </button>
+              ))}
+            </div>
+          </div>
+          <Input
+            label="Next date"
+            type="date"
+            value={nextDue}
+            onChange={e => setNextDue(e.target.value)}
+          />
+          {editing && (
+            <button
+              type="button"
+              onClick={() => handleDelete(editing)}
+              className="w-full py-3 text-[var(--danger)] font-medium"
+            >
+              Delete recurring expense
+            </button>
+          )}
+        </div>
+      </Sheet>
+    </div>
+  );
+}
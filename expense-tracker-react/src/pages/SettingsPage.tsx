@@ -1,15 +1,33 @@
-import { useState } from 'react';
+import { useRef, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useAccountStore } from '@/stores/accountStore';
 import { useExpenseStore } from '@/stores/expenseStore';
 import { usePeopleStore } from '@/stores/peopleStore';
 import { usePaymentStore } from '@/stores/paymentStore';
+import { useSplitPresetStore } from '@/stores/splitPresetStore';
+import { useRecurringStore } from '@/stores/recurringStore';
 import { useSettingsStore } from '@/stores/settingsStore';
+import { useExchangeRateStore } from '@/stores/exchangeRateStore';
 import { useSyncStore } from '@/stores/syncStore';
 import { Button, Input, Sheet, useToast } from '@/components/ui';
-import { CURRENCIES, getCategoryKey } from '@/types';
+import { CURRENCIES, getCategoryKey, getCategoryLabel } from '@/types';
 import { haptic, downloadFile, cn } from '@/lib/utils';
 import { clearAllData } from '@/db/schema';
+import { getAccountStorage, getStorageEstimate, recompressImages, type AccountStorage, type StorageEstimate } from '@/db/storage';
+import { IMAGE_GC_GRACE_MS } from '@/db/operations';
+import { useYjs, collectImageGarbage, generateGroupKey } from '@/sync';
+import { isGroupCreator } from '@/lib/policies';
+import { BUDGET_CATEGORY_KEYS } from '@/lib/budgets';
+import { roundMoney } from '@/lib/money';
+import { canChangeBaseCurrency, getCurrencyCode, getRate, rateEntriesFor, parseRatesFile } from '@/lib/currency';
+import { LOCALES, formatBytes, formatMoney, getDeviceLocale } from '@/lib/format';
+import { OCR_LANGUAGES, getOcrLanguage } from '@/lib/ocrLanguages';
+import { formatIceServers, parseIceServers, signalingLabel } from '@/lib/signaling';
+import { downloadLanguages, getDownloadedLanguages } from '@/lib/ocr';
+
+/** Choices for the longest side of stored photos */
+const PHOTO_SIZES = [1280, 1600, 2000, 3000];
+const PHOTO_QUALITIES = [0.6, 0.7, 0.8, 0.9];
 
 export function SettingsPage() {
   const navigate = useNavigate();
@@ -22,16 +40,46 @@ export function SettingsPage() {
   const deleteAccount = useAccountStore(s => s.deleteAccount);
   const setCurrentAccount = useAccountStore(s => s.setCurrentAccount);
   const setOnboarded = useAccountStore(s => s.setOnboarded);
+  const setAccountLocale = useAccountStore(s => s.setAccountLocale);
+  const setAccountSignaling = useAccountStore(s => s.setAccountSignaling);
+  const setAccountGroupKey = useAccountStore(s => s.setAccountGroupKey);
+  const locale = useAccountStore(s => s.getLocale());
   
-  const { currency, monthlyBudget, darkMode, debugMode, setCurrency, setMonthlyBudget, setDarkMode, setDebugMode } = useSettingsStore();
+  const currency = useSettingsStore(s => s.getCurrency());
+  const {
+    monthlyBudget, darkMode, debugMode, categoryBudgets, ocrLanguages, imageCompression,
+    setCurrency, setMonthlyBudget, setDarkMode, setDebugMode, setCategoryBudget, removeCategoryBudget, setOcrLanguages,
+    setImageCompression
+  } = useSettingsStore();
   const deviceId = useSyncStore(s => s.deviceId);
+  const recurringRules = useRecurringStore(s => s.rules);
+  const { rates, updateRates, removeRate, replaceRates } = useExchangeRateStore();
+  const baseCode = getCurrencyCode(currency);
   
   const [showCurrencyModal, setShowCurrencyModal] = useState(false);
   const [showBudgetModal, setShowBudgetModal] = useState(false);
+  const [showLocaleModal, setShowLocaleModal] = useState(false);
+  const [showOcrModal, setShowOcrModal] = useState(false);
+  const [downloadedLanguages, setDownloadedLanguages] = useState<Set<string>>(new Set());
+  const [downloadProgress, setDownloadProgress] = useState<number | null>(null);
   const [showAccountsModal, setShowAccountsModal] = useState(false);
   const [showNewAccountModal, setShowNewAccountModal] = useState(false);
   const [budgetInput, setBudgetInput] = useState(monthlyBudget.toString());
+  const [showCategoryBudgetsModal, setShowCategoryBudgetsModal] = useState(false);
+  const [categoryBudgetInputs, setCategoryBudgetInputs] = useState<Record<string, string>>({});
+  const [showRatesModal, setShowRatesModal] = useState(false);
+  const [rateInputs, setRateInputs] = useState<Record<string, string>>({});
+  const ratesFileRef = useRef<HTMLInputElement>(null);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
+  const [showStorageModal, setShowStorageModal] = useState(false);
+  const [accountStorage, setAccountStorage] = useState<AccountStorage[] | null>(null);
+  const [storageEstimate, setStorageEstimate] = useState<StorageEstimate | null>(null);
+  const [collecting, setCollecting] = useState(false);
+  const [showPhotoModal, setShowPhotoModal] = useState(false);
+  const [showServerModal, setShowServerModal] = useState(false);
+  const [serverForm, setServerForm] = useState({ host: '', port: '', path: '/', secure: true, iceServers: '' });
+  const [recompressProgress, setRecompressProgress] = useState<number | null>(null);
+  const { ydoc, isSynced } = useYjs();
   
   // New account form
   const [newAccountName, setNewAccountName] = useState('');
@@ -40,12 +88,259 @@ export function SettingsPage() {
   const [creatingAccount, setCreatingAccount] = useState(false);
 
   const handleCurrencyChange = (symbol: string) => {
+    if (symbol === currency) {
+      setShowCurrencyModal(false);
+      return;
+    }
+    // Amounts converted from other currencies are in the current base; switching would relabel them
+    const { allExpenses } = useExpenseStore.getState();
+    const { payments } = usePaymentStore.getState();
+    if (!canChangeBaseCurrency([...allExpenses, ...payments, ...recurringRules], baseCode)) {
+      showError(`Some amounts were converted into ${baseCode} from other currencies. Keep ${baseCode}, or start a new account for the other currency.`);
+      return;
+    }
     setCurrency(symbol);
     haptic('light');
     setShowCurrencyModal(false);
     showSuccess('Currency updated');
   };
 
+  const handleLocaleChange = (code: string) => {
+    if (!currentAccountId) return;
+    setAccountLocale(currentAccountId, code || undefined);
+    haptic('light');
+    setShowLocaleModal(false);
+    showSuccess('Number format updated');
+  };
+
+  const openOcrLanguages = async () => {
+    setShowOcrModal(true);
+    setDownloadedLanguages(await getDownloadedLanguages());
+  };
+
+  const toggleOcrLanguage = (code: string) => {
+    const selected = ocrLanguages.includes(code)
+      ? ocrLanguages.filter(c => c !== code)
+      : [...ocrLanguages, code];
+    if (selected.length === 0) {
+      showError('Keep at least one language');
+      return;
+    }
+    setOcrLanguages(selected);
+    haptic('light');
+  };
+
+  const handleDownloadLanguages = async () => {
+    setDownloadProgress(0);
+    try {
+      await downloadLanguages(ocrLanguages, setDownloadProgress);
+      setDownloadedLanguages(await getDownloadedLanguages());
+      haptic('success');
+      showSuccess('Languages ready for offline scanning');
+    } catch (error) {
+      console.error('Failed to download OCR languages:', error);
+      showError('Download failed - check your connection');
+    } finally {
+      setDownloadProgress(null);
+    }
+  };
+
+  const missingLanguages = ocrLanguages.filter(code => !downloadedLanguages.has(code));
+
+  const loadStorage = async () => {
+    const [usage, estimate] = await Promise.all([
+      Promise.all(accounts.map(a => getAccountStorage(a.id))),
+      getStorageEstimate()
+    ]);
+    setAccountStorage(usage);
+    setStorageEstimate(estimate);
+  };
+
+  const openStorage = async () => {
+    setShowStorageModal(true);
+    try {
+      await loadStorage();
+    } catch (error) {
+      console.error('Failed to read storage usage:', error);
+      showError('Could not read storage usage');
+    }
+  };
+
+  const handleRemoveUnused = async () => {
+    setCollecting(true);
+    try {
+      const result = await collectImageGarbage(ydoc, isSynced, currentAccountId, 0);
+      if (!result) {
+        showError('This account is still loading. Try again in a moment.');
+        return;
+      }
+      const { removed, freedBytes } = result;
+      await loadStorage();
+      haptic('success');
+      showSuccess(removed > 0 ? `Freed ${formatBytes(freedBytes, locale)}` : 'Nothing to remove');
+    } catch (error) {
+      console.error('Failed to remove unused attachments:', error);
+      showError('Failed to remove unused attachments');
+    } finally {
+      setCollecting(false);
+    }
+  };
+
+  // Groups created before group keys: only members with a new invite can sync after this
+  const handleEnableGroupKey = () => {
+    if (!currentAccountId) return;
+    if (!confirm('Only devices that join with a new invite link or QR code will be able to sync. Turn on member verification?')) return;
+    setAccountGroupKey(currentAccountId, generateGroupKey());
+    haptic('success');
+    showSuccess('Verification on. Share a new invite with every member.');
+  };
+
+  const openServer = () => {
+    const server = currentAccount?.signaling;
+    setServerForm(server
+      ? { host: server.host, port: String(server.port), path: server.path, secure: server.secure, iceServers: formatIceServers(server.iceServers) }
+      : { host: '', port: '', path: '/', secure: true, iceServers: '' });
+    setShowServerModal(true);
+  };
+
+  const handleSaveServer = () => {
+    if (!currentAccountId) return;
+    // Accept a pasted URL like https://sync.example.com:9000/app as the host
+    const host = serverForm.host.trim().replace(/^(https?|wss?):\/\//i, '').replace(/\/.*$/, '');
+    const [hostname, portInHost] = host.split(':');
+    const port = Number(serverForm.port || portInHost || (serverForm.secure ? 443 : 80));
+    if (!hostname || !Number.isInteger(port) || port <= 0 || port > 65535) {
+      showError('Enter a valid host and port');
+      return;
+    }
+    const iceServers = parseIceServers(serverForm.iceServers);
+    setAccountSignaling(currentAccountId, {
+      host: hostname,
+      port,
+      path: serverForm.path.trim() || '/',
+      secure: serverForm.secure,
+      ...(iceServers.length > 0 && { iceServers })
+    });
+    haptic('success');
+    setShowServerModal(false);
+    showSuccess('Sync server saved. Share a new invite so others use it too.');
+  };
+
+  const handleUsePublicServer = () => {
+    if (!currentAccountId) return;
+    setAccountSignaling(currentAccountId, undefined);
+    haptic('light');
+    setShowServerModal(false);
+    showSuccess('Using the public PeerJS server');
+  };
+
+  const handleRecompress = async () => {
+    setRecompressProgress(0);
+    try {
+      const { recompressed, savedBytes } = await recompressImages(
+        imageCompression,
+        (done, total) => setRecompressProgress(total ? done / total : 1)
+      );
+      haptic('success');
+      showSuccess(recompressed > 0
+        ? `${recompressed} photo${recompressed === 1 ? '' : 's'} recompressed, ${formatBytes(savedBytes, locale)} freed`
+        : 'Photos are already compressed');
+    } catch (error) {
+      console.error('Failed to recompress photos:', error);
+      showError('Failed to recompress photos');
+    } finally {
+      setRecompressProgress(null);
+    }
+  };
+
+  const currentStorage = accountStorage?.find(s => s.accountId === currentAccountId);
+
+  const openCategoryBudgets = () => {
+    const inputs: Record<string, string> = {};
+    BUDGET_CATEGORY_KEYS.forEach(key => {
+      inputs[key] = categoryBudgets[key] ? categoryBudgets[key].toString() : '';
+    });
+    setCategoryBudgetInputs(inputs);
+    setShowCategoryBudgetsModal(true);
+  };
+
+  const handleCategoryBudgetsSave = () => {
+    const amounts: Record<string, number> = {};
+    for (const key of BUDGET_CATEGORY_KEYS) {
+      const value = categoryBudgetInputs[key]?.trim();
+      const amount = value ? parseFloat(value) : 0;
+      if (isNaN(amount) || amount < 0) {
+        showError(`Enter a valid amount for ${getCategoryLabel(key)}`);
+        return;
+      }
+      amounts[key] = amount;
+    }
+    BUDGET_CATEGORY_KEYS.forEach(key => {
+      if (amounts[key] > 0) {
+        if (amounts[key] !== categoryBudgets[key]) setCategoryBudget(key, amounts[key]);
+      } else if (categoryBudgets[key] !== undefined) {
+        removeCategoryBudget(key);
+      }
+    });
+    haptic('success');
+    setShowCategoryBudgetsModal(false);
+    showSuccess('Category budgets updated');
+  };
+
+  const foreignCurrencies = CURRENCIES.filter(c => c.code !== baseCode);
+
+  const openRates = () => {
+    const inputs: Record<string, string> = {};
+    foreignCurrencies.forEach(c => {
+      const rate = getRate(c.code, baseCode, rates);
+      inputs[c.code] = rate !== null ? String(Number(rate.toPrecision(6))) : '';
+    });
+    setRateInputs(inputs);
+    setShowRatesModal(true);
+  };
+
+  const handleRatesSave = () => {
+    let table = { ...rates };
+    for (const c of foreignCurrencies) {
+      const value = rateInputs[c.code]?.trim();
+      if (!value) {
+        if (table[c.code] !== undefined) {
+          removeRate(c.code);
+          delete table[c.code];
+        }
+        continue;
+      }
+      const rate = parseFloat(value);
+      if (isNaN(rate) || rate <= 0) {
+        showError(`Enter a valid rate for ${c.code}`);
+        return;
+      }
+      const current = getRate(c.code, baseCode, table);
+      if (current !== null && Math.abs(current - rate) < 1e-9) continue;
+      const entries = rateEntriesFor(c.code, rate, baseCode, table);
+      table = { ...table, ...entries };
+      updateRates(entries);
+    }
+    haptic('success');
+    setShowRatesModal(false);
+    showSuccess('Exchange rates updated');
+  };
+
+  const handleRatesImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const imported = parseRatesFile(await file.text());
+      replaceRates(imported);
+      haptic('success');
+      setShowRatesModal(false);
+      showSuccess(`Imported ${Object.keys(imported).length} rates`);
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Failed to import rates');
+    }
+  };
+
   const handleBudgetSave = () => {
     const budget = parseFloat(budgetInput);
     if (isNaN(budget) || budget < 0) {
@@ -143,14 +438,14 @@ export function SettingsPage() {
     try {
       const expenses = useExpenseStore.getState().allExpenses;
       const getPersonName = usePeopleStore.getState().getPersonName;
-      const roundCurrency = (n: number) => Math.round(n * 100) / 100;
       const escapeCsv = (s: string) => `"${(s ?? '').replace(/"/g, '""')}"`;
+      const digits = useSettingsStore.getState().getCurrencyDigits();
 
       const header = 'Date,Description,Amount,Payer,Category,Tags,Notes\n';
       const rows = expenses.map(exp => {
         const date = exp.date ?? '';
         const desc = escapeCsv(exp.description ?? '');
-        const amount = roundCurrency(exp.amount);
+        const amount = roundMoney(exp.amount, digits).toFixed(digits);
         const payer = escapeCsv(exp.payerId ? getPersonName(exp.payerId) : '');
         const category = escapeCsv(getCategoryKey(exp.description ?? ''));
         const tags = escapeCsv(exp.tags ?? '');
@@ -173,14 +468,19 @@ export function SettingsPage() {
       const expenses = useExpenseStore.getState().allExpenses;
       const people = usePeopleStore.getState().people;
       const payments = usePaymentStore.getState().payments;
-      const { currency, monthlyBudget } = useSettingsStore.getState();
+      const splitPresets = useSplitPresetStore.getState().presets;
+      const recurring = useRecurringStore.getState().rules;
+      const { getCurrency, monthlyBudget } = useSettingsStore.getState();
 
       const backup = {
         account: currentAccount ?? null,
         expenses,
         people,
         payments,
-        settings: { currency, monthlyBudget },
+        splitPresets,
+        recurring,
+        settings: { currency: getCurrency(), monthlyBudget, categoryBudgets: useSettingsStore.getState().categoryBudgets },
+        exchangeRates: useExchangeRateStore.getState().rates,
         exportedAt: new Date().toISOString(),
       };
       downloadFile(
@@ -243,6 +543,34 @@ export function SettingsPage() {
               <span className="text-[var(--text-secondary)]">›</span>
             </div>
           </button>
+          {currentAccount?.mode === 'shared' && (
+            <button
+              onClick={openServer}
+              className="flex items-center justify-between p-4 w-full text-left"
+            >
+              <span>Sync Server</span>
+              <span className="text-[var(--text-secondary)] truncate ml-4">{signalingLabel(currentAccount.signaling)}</span>
+            </button>
+          )}
+          {currentAccount?.mode === 'shared' && (
+            <div className="flex items-center justify-between p-4">
+              <div>
+                <div>Member Verification</div>
+                <div className="text-sm text-[var(--text-secondary)]">
+                  {currentAccount.groupKey ? 'Only invited devices can sync; data is encrypted' : 'Anyone with the group code can sync'}
+                </div>
+              </div>
+              {currentAccount.groupKey ? (
+                <span className="text-[var(--text-secondary)] ml-4">On</span>
+              ) : isGroupCreator(currentAccount, deviceId) ? (
+                <Button size="sm" variant="secondary" onClick={handleEnableGroupKey}>
+                  Turn On
+                </Button>
+              ) : (
+                <span className="text-[var(--text-secondary)] ml-4">Off</span>
+              )}
+            </div>
+          )}
           <div className="flex items-center justify-between p-4">
             <span>Device ID</span>
             <span className="font-mono text-sm text-[var(--text-secondary)]">{deviceId}</span>
@@ -270,7 +598,57 @@ export function SettingsPage() {
           >
             <span>Monthly Budget</span>
             <span className="text-[var(--text-secondary)]">
-              {monthlyBudget > 0 ? `${currency}${monthlyBudget}` : 'Not set'}
+              {monthlyBudget > 0 ? formatMoney(monthlyBudget, baseCode, locale) : 'Not set'}
+            </span>
+          </button>
+
+          <button
+            onClick={() => setShowLocaleModal(true)}
+            className="flex items-center justify-between p-4 w-full text-left"
+          >
+            <span>Number Format</span>
+            <span className="text-[var(--text-secondary)]">{formatMoney(1234.5, baseCode, locale)}</span>
+          </button>
+
+          <button
+            onClick={openOcrLanguages}
+            className="flex items-center justify-between p-4 w-full text-left"
+          >
+            <span>Receipt Languages</span>
+            <span className="text-[var(--text-secondary)] truncate ml-4">
+              {ocrLanguages.map(code => getOcrLanguage(code)?.name ?? code).join(', ')}
+            </span>
+          </button>
+
+          <button
+            onClick={() => setShowPhotoModal(true)}
+            className="flex items-center justify-between p-4 w-full text-left"
+          >
+            <span>Photo Quality</span>
+            <span className="text-[var(--text-secondary)]">
+              {imageCompression.keepOriginal
+                ? 'Original'
+                : `${imageCompression.maxDimension} px · ${imageCompression.format.toUpperCase()} ${Math.round(imageCompression.quality * 100)}%`}
+            </span>
+          </button>
+
+          <button
+            onClick={openRates}
+            className="flex items-center justify-between p-4 w-full text-left"
+          >
+            <span>Exchange Rates</span>
+            <span className="text-[var(--text-secondary)]">
+              {Object.keys(rates).length > 0 ? `${Object.keys(rates).length} currencies` : 'Not set'}
+            </span>
+          </button>
+
+          <button
+            onClick={openCategoryBudgets}
+            className="flex items-center justify-between p-4 w-full text-left"
+          >
+            <span>Category Budgets</span>
+            <span className="text-[var(--text-secondary)]">
+              {Object.keys(categoryBudgets).length > 0 ? `${Object.keys(categoryBudgets).length} set` : 'Not set'}
             </span>
           </button>
           
@@ -305,6 +683,27 @@ export function SettingsPage() {
           Data
         </h2>
         <div className="bg-[var(--white)] rounded-xl divide-y divide-[var(--border)]">
+          <button
+            onClick={() => navigate('/recurring')}
+            className="flex items-center justify-between p-4 w-full text-left"
+          >
+            <span>Recurring Expenses</span>
+            <div className="flex items-center gap-2">
+              {recurringRules.length > 0 && (
+                <span className="text-[var(--text-secondary)]">{recurringRules.length}</span>
+              )}
+              <span className="text-[var(--text-secondary)]">›</span>
+            </div>
+          </button>
+
+          <button
+            onClick={openStorage}
+            className="flex items-center justify-between p-4 w-full text-left"
+          >
+            <span>Storage</span>
+            <span className="text-[var(--text-secondary)]">›</span>
+          </button>
+
           <button
             onClick={handleExportCSV}
             className="flex items-center justify-between p-4 w-full text-left"
@@ -523,6 +922,303 @@ export function SettingsPage() {
         </div>
       </Sheet>
 
+      {/* Number Format Modal */}
+      <Sheet
+        isOpen={showLocaleModal}
+        onClose={() => setShowLocaleModal(false)}
+        title="Number Format"
+      >
+        <div className="divide-y divide-[var(--border)]">
+          {[{ code: '', name: 'Device default' }, ...LOCALES].map(option => (
+            <button
+              key={option.code || 'device'}
+              onClick={() => handleLocaleChange(option.code)}
+              className={`flex items-center justify-between p-4 w-full text-left ${
+                (currentAccount?.locale ?? '') === option.code ? 'bg-[var(--teal-green)]/10' : ''
+              }`}
+            >
+              <span className="font-medium">{option.name}</span>
+              <span className="text-[var(--text-secondary)]">
+                {formatMoney(1234.5, baseCode, option.code || getDeviceLocale())}
+              </span>
+            </button>
+          ))}
+        </div>
+      </Sheet>
+
+      {/* Receipt Languages Modal */}
+      <Sheet
+        isOpen={showOcrModal}
+        onClose={() => setShowOcrModal(false)}
+        title="Receipt Languages"
+      >
+        <p className="px-4 pt-2 text-sm text-[var(--text-secondary)]">
+          Scanned receipts are read in these languages. When they use different scripts, the script
+          of each receipt is detected and only the matching languages are used.
+        </p>
+        <div className="divide-y divide-[var(--border)]">
+          {OCR_LANGUAGES.map(language => {
+            const selected = ocrLanguages.includes(language.code);
+            return (
+              <button
+                key={language.code}
+                onClick={() => toggleOcrLanguage(language.code)}
+                className={`flex items-center justify-between p-4 w-full text-left ${
+                  selected ? 'bg-[var(--teal-green)]/10' : ''
+                }`}
+              >
+                <span className="font-medium">
+                  <span className="inline-block w-5 text-[var(--teal-green)]">{selected && '✓'}</span>
+                  {language.name}
+                </span>
+                <span className="text-sm text-[var(--text-secondary)]">
+                  {downloadedLanguages.has(language.code) ? 'Available offline' : language.scripts[0]}
+                </span>
+              </button>
+            );
+          })}
+        </div>
+        <div className="p-4">
+          <Button
+            variant="secondary"
+            className="w-full"
+            onClick={handleDownloadLanguages}
+            loading={downloadProgress !== null}
+            disabled={missingLanguages.length === 0}
+          >
+            {downloadProgress !== null
+              ? `Downloading ${Math.round(downloadProgress * 100)}%`
+              : missingLanguages.length === 0 ? 'Selected languages are offline' : 'Download for offline use'}
+          </Button>
+        </div>
+      </Sheet>
+
+      {/* Sync Server Modal */}
+      <Sheet
+        isOpen={showServerModal}
+        onClose={() => setShowServerModal(false)}
+        title="Sync Server"
+        actions={
+          <button
+            onClick={handleSaveServer}
+            className="text-[var(--teal-green)] text-[17px] font-semibold px-2 py-1 -mx-2 rounded-lg active:bg-[var(--teal-green)]/10"
+          >
+            Save
+          </button>
+        }
+      >
+        <p className="px-4 pt-2 text-sm text-[var(--text-secondary)]">
+          Devices in this group find each other through a PeerJS server. Run your own (see
+          signaling-server in the app's repository) if the public one is down or blocked. New invites
+          include this server; everyone in the group must use the same one.
+        </p>
+        <div className="p-4 space-y-4">
+          <Input
+            label="Host"
+            value={serverForm.host}
+            onChange={e => setServerForm(f => ({ ...f, host: e.target.value }))}
+            placeholder="sync.example.com"
+            autoCapitalize="off"
+            autoCorrect="off"
+          />
+          <div className="grid grid-cols-2 gap-3">
+            <Input
+              label="Port"
+              inputMode="numeric"
+              value={serverForm.port}
+              onChange={e => setServerForm(f => ({ ...f, port: e.target.value.replace(/\D/g, '') }))}
+              placeholder={serverForm.secure ? '443' : '80'}
+            />
+            <Input
+              label="Path"
+              value={serverForm.path}
+              onChange={e => setServerForm(f => ({ ...f, path: e.target.value }))}
+              placeholder="/"
+              autoCapitalize="off"
+            />
+          </div>
+          <div className="flex items-center justify-between">
+            <div>
+              <span>Secure (TLS)</span>
+              <div className="text-xs text-[var(--text-secondary)]">Required when the app is served over HTTPS</div>
+            </div>
+            <button
+              onClick={() => setServerForm(f => ({ ...f, secure: !f.secure }))}
+              className={`w-12 h-7 rounded-full transition-colors ${serverForm.secure ? 'bg-[var(--teal-green)]' : 'bg-[var(--border)]'}`}
+            >
+              <div className={`w-5 h-5 bg-white rounded-full shadow transition-transform mx-1 ${serverForm.secure ? 'translate-x-5' : ''}`} />
+            </button>
+          </div>
+          <div>
+            <label className="block text-[13px] font-medium text-[var(--text-secondary)] mb-2 uppercase tracking-wide">
+              STUN / TURN servers
+            </label>
+            <textarea
+              value={serverForm.iceServers}
+              onChange={e => setServerForm(f => ({ ...f, iceServers: e.target.value }))}
+              placeholder={'stun:stun.example.com:3478\nturn:turn.example.com:3478 username password'}
+              rows={3}
+              autoCapitalize="off"
+              className="w-full px-4 py-3 rounded-xl bg-[var(--bg)] text-[15px] font-mono outline-none resize-none placeholder:text-[var(--text-secondary)]"
+            />
+            <p className="mt-1 text-xs text-[var(--text-secondary)]">
+              One per line. Leave empty for PeerJS's defaults.
+            </p>
+          </div>
+          {currentAccount?.signaling && (
+            <Button variant="secondary" className="w-full" onClick={handleUsePublicServer}>
+              Use public PeerJS server
+            </Button>
+          )}
+        </div>
+      </Sheet>
+
+      {/* Photo Quality Modal */}
+      <Sheet
+        isOpen={showPhotoModal}
+        onClose={() => setShowPhotoModal(false)}
+        title="Photo Quality"
+      >
+        <p className="px-4 pt-2 text-sm text-[var(--text-secondary)]">
+          Receipt photos are scaled down and compressed when saved, so they take less space and sync
+          faster. PDFs and e-receipts are kept as they are.
+        </p>
+        <div className="flex items-center justify-between p-4">
+          <span>Keep originals</span>
+          <button
+            onClick={() => setImageCompression({ keepOriginal: !imageCompression.keepOriginal })}
+            className={`w-12 h-7 rounded-full transition-colors ${imageCompression.keepOriginal ? 'bg-[var(--teal-green)]' : 'bg-[var(--border)]'}`}
+          >
+            <div className={`w-5 h-5 bg-white rounded-full shadow transition-transform mx-1 ${imageCompression.keepOriginal ? 'translate-x-5' : ''}`} />
+          </button>
+        </div>
+        {!imageCompression.keepOriginal && (
+          <div className="px-4 space-y-4">
+            {([
+              {
+                label: 'Largest side',
+                options: PHOTO_SIZES.map(size => ({ label: `${size} px`, selected: imageCompression.maxDimension === size, change: { maxDimension: size } }))
+              },
+              {
+                label: 'Format',
+                options: (['jpeg', 'webp'] as const).map(format => ({ label: format.toUpperCase(), selected: imageCompression.format === format, change: { format } }))
+              },
+              {
+                label: 'Quality',
+                options: PHOTO_QUALITIES.map(quality => ({ label: `${Math.round(quality * 100)}%`, selected: imageCompression.quality === quality, change: { quality } }))
+              }
+            ]).map(group => (
+              <div key={group.label}>
+                <div className="text-sm text-[var(--text-secondary)] mb-2">{group.label}</div>
+                <div className="flex gap-2">
+                  {group.options.map(option => (
+                    <button
+                      key={option.label}
+                      onClick={() => { setImageCompression(option.change); haptic('light'); }}
+                      className={cn(
+                        'flex-1 py-2 rounded-lg text-sm font-medium',
+                        option.selected ? 'bg-[var(--teal-green)] text-white' : 'bg-[var(--bg)]'
+                      )}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+        <div className="p-4">
+          <Button
+            variant="secondary"
+            className="w-full"
+            onClick={handleRecompress}
+            loading={recompressProgress !== null}
+            disabled={imageCompression.keepOriginal}
+          >
+            {recompressProgress !== null
+              ? `Recompressing ${Math.round(recompressProgress * 100)}%`
+              : 'Recompress existing photos'}
+          </Button>
+        </div>
+      </Sheet>
+
+      {/* Storage Modal */}
+      <Sheet
+        isOpen={showStorageModal}
+        onClose={() => setShowStorageModal(false)}
+        title="Storage"
+      >
+        {storageEstimate && (
+          <div className="px-4 pt-2">
+            <div className="flex justify-between text-sm">
+              <span>Used on this device</span>
+              <span className="text-[var(--text-secondary)]">
+                {formatBytes(storageEstimate.usage, locale)} of {formatBytes(storageEstimate.quota, locale)}
+              </span>
+            </div>
+            <div className="mt-2 h-2 rounded-full bg-[var(--border)] overflow-hidden">
+              <div
+                className={cn('h-full', storageEstimate.level === 'ok' ? 'bg-[var(--teal-green)]' : storageEstimate.level === 'warning' ? 'bg-amber-500' : 'bg-[var(--danger)]')}
+                style={{ width: `${Math.min(100, (storageEstimate.usage / storageEstimate.quota) * 100)}%` }}
+              />
+            </div>
+            {storageEstimate.level !== 'ok' && (
+              <p className="mt-2 text-sm text-[var(--danger)]">
+                Almost out of space. Remove unused attachments or lower the photo quality and recompress.
+              </p>
+            )}
+          </div>
+        )}
+        {!accountStorage ? (
+          <div className="flex justify-center p-8">
+            <div className="w-8 h-8 border-2 border-[var(--teal-green)] border-t-transparent rounded-full animate-spin" />
+          </div>
+        ) : (
+          <div className="divide-y divide-[var(--border)]">
+            {accountStorage.map(usage => {
+              const account = accounts.find(a => a.id === usage.accountId);
+              return (
+                <div key={usage.accountId} className="p-4">
+                  <div className="flex items-center justify-between">
+                    <span className="font-medium">
+                      {account?.name ?? 'Account'}
+                      {usage.accountId === currentAccountId && (
+                        <span className="ml-2 text-xs text-[var(--teal-green)]">Current</span>
+                      )}
+                    </span>
+                    <span className="font-medium">{formatBytes(usage.attachmentBytes + usage.dataBytes, locale)}</span>
+                  </div>
+                  <div className="text-sm text-[var(--text-secondary)] mt-1">
+                    {usage.attachments} attachment{usage.attachments === 1 ? '' : 's'} ({formatBytes(usage.attachmentBytes, locale)})
+                    {' · '}expense data {formatBytes(usage.dataBytes, locale)}
+                  </div>
+                  {usage.unusedAttachments > 0 && (
+                    <div className="text-sm text-[var(--text-secondary)] mt-1">
+                      {usage.unusedAttachments} unused ({formatBytes(usage.unusedBytes, locale)})
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+        <div className="p-4">
+          <p className="text-sm text-[var(--text-secondary)] mb-3">
+            Attachments of deleted expenses are removed after {Math.round(IMAGE_GC_GRACE_MS / 86_400_000)} days.
+          </p>
+          <Button
+            variant="secondary"
+            className="w-full"
+            onClick={handleRemoveUnused}
+            loading={collecting}
+            disabled={!currentStorage?.unusedAttachments}
+          >
+            Remove unused attachments now
+          </Button>
+        </div>
+      </Sheet>
+
       {/* Budget Modal */}
       <Sheet
         isOpen={showBudgetModal}
@@ -552,6 +1248,91 @@ export function SettingsPage() {
         </div>
       </Sheet>
 
+      {/* Exchange Rates Modal */}
+      <Sheet
+        isOpen={showRatesModal}
+        onClose={() => setShowRatesModal(false)}
+        title="Exchange Rates"
+        actions={
+          <button
+            onClick={handleRatesSave}
+            className="text-[var(--teal-green)] text-[17px] font-semibold px-2 py-1 -mx-2 rounded-lg active:bg-[var(--teal-green)]/10"
+          >
+            Save
+          </button>
+        }
+      >
+        <div className="p-4 space-y-3">
+          {foreignCurrencies.map(c => (
+            <div key={c.code} className="flex items-center gap-3">
+              <span className="flex-1 font-medium">1 {c.code} =</span>
+              <div className="w-32">
+                <Input
+                  type="number"
+                  inputMode="decimal"
+                  value={rateInputs[c.code] ?? ''}
+                  onChange={e => setRateInputs(prev => ({ ...prev, [c.code]: e.target.value }))}
+                  placeholder="Not set"
+                  aria-label={`${c.code} to ${baseCode} rate`}
+                />
+              </div>
+              <span className="w-10 text-[var(--text-secondary)]">{baseCode}</span>
+            </div>
+          ))}
+          <input
+            ref={ratesFileRef}
+            type="file"
+            accept=".json,.csv,.txt,application/json,text/csv,text/plain"
+            onChange={handleRatesImport}
+            className="hidden"
+          />
+          <Button variant="secondary" className="w-full" onClick={() => ratesFileRef.current?.click()}>
+            Import Rates File
+          </Button>
+          <p className="text-sm text-[var(--text-secondary)]">
+            Used to convert expenses in other currencies to {baseCode}. A rates file (JSON or CSV) replaces the whole table.
+            {currentAccount?.mode === 'shared' && ' Shared with everyone in this group.'}
+          </p>
+        </div>
+      </Sheet>
+
+      {/* Category Budgets Modal */}
+      <Sheet
+        isOpen={showCategoryBudgetsModal}
+        onClose={() => setShowCategoryBudgetsModal(false)}
+        title="Category Budgets"
+        actions={
+          <button
+            onClick={handleCategoryBudgetsSave}
+            className="text-[var(--teal-green)] text-[17px] font-semibold px-2 py-1 -mx-2 rounded-lg active:bg-[var(--teal-green)]/10"
+          >
+            Save
+          </button>
+        }
+      >
+        <div className="p-4 space-y-3">
+          {BUDGET_CATEGORY_KEYS.map(key => (
+            <div key={key} className="flex items-center gap-3">
+              <span className="flex-1 font-medium">{getCategoryLabel(key)}</span>
+              <div className="w-32">
+                <Input
+                  type="number"
+                  inputMode="decimal"
+                  value={categoryBudgetInputs[key] ?? ''}
+                  onChange={e => setCategoryBudgetInputs(prev => ({ ...prev, [key]: e.target.value }))}
+                  placeholder="No limit"
+                  aria-label={`${getCategoryLabel(key)} budget`}
+                />
+              </div>
+            </div>
+          ))}
+          <p className="text-sm text-[var(--text-secondary)]">
+            Monthly limit per category. Leave empty for no limit.
+            {currentAccount?.mode === 'shared' && ' Shared with everyone in this group.'}
+          </p>
+        </div>
+      </Sheet>
+
       {/* Delete Confirmation */}
       <Sheet
         isOpen={showDeleteConfirm}
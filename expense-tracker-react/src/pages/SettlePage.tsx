@@ -3,20 +3,39 @@ import { useExpenseStore } from '@/stores/expenseStore';
 import { usePeopleStore } from '@/stores/peopleStore';
 import { usePaymentStore } from '@/stores/paymentStore';
 import { useSettingsStore } from '@/stores/settingsStore';
+import { useAccountStore } from '@/stores/accountStore';
+import { useExchangeRateStore } from '@/stores/exchangeRateStore';
 import { Sheet, Input, Button, useToast } from '@/components/ui';
+import { BalanceCard } from '@/components/settlements';
 import { haptic, cn } from '@/lib/utils';
-import type { Settlement, Person } from '@/types';
+import { getCurrencyCode, convertAmount, formatOriginalAmount } from '@/lib/currency';
+import { computeGroupSettlement, SETTLEMENT_MODE_LABELS } from '@/lib/settlements';
+import { getCurrencyDigits, parseAmount, sanitizeAmountInput, toAmountInput } from '@/lib/format';
+import type { Settlement, SettlementMode } from '@/types';
+import { CURRENCIES } from '@/types';
+
+const SETTLEMENT_MODE_HINTS: Record<SettlementMode, string> = {
+  greedy: 'Biggest debts are paid off first.',
+  optimal: 'The fewest payments that settle everyone up.',
+  direct: 'Everyone pays back the people who paid for them.'
+};
 
 export function SettlePage() {
   const { allExpenses, loadAllExpenses } = useExpenseStore();
   const { people, loadPeople, getPersonName } = usePeopleStore();
   const { payments, addPayment, deletePayment } = usePaymentStore();
   const formatAmount = useSettingsStore(s => s.formatAmount);
+  const settlementMode = useSettingsStore(s => s.settlementMode);
+  const setSettlementMode = useSettingsStore(s => s.setSettlementMode);
+  const baseCode = getCurrencyCode(useSettingsStore(s => s.getCurrency()));
+  const rates = useExchangeRateStore(s => s.rates);
+  const locale = useAccountStore(s => s.getLocale());
   const { showSuccess, showError } = useToast();
   
   const [showPaymentModal, setShowPaymentModal] = useState(false);
   const [selectedSettlement, setSelectedSettlement] = useState<Settlement | null>(null);
   const [paymentAmount, setPaymentAmount] = useState('');
+  const [paymentCurrency, setPaymentCurrency] = useState(baseCode);
   const [saving, setSaving] = useState(false);
 
   useEffect(() => {
@@ -24,157 +43,36 @@ export function SettlePage() {
     loadPeople();
   }, [loadAllExpenses, loadPeople]);
 
-  // Helper to round to 2 decimal places for currency
-  const roundCurrency = (amount: number) => Math.round(amount * 100) / 100;
-
   // Calculate balances and settlements
-  const { totalExpenses, sharePerPerson, personSpent, balances, settlements } = useMemo(() => {
-    if (people.length === 0 || allExpenses.length === 0) {
-      return { totalExpenses: 0, sharePerPerson: 0, personSpent: {}, balances: {}, settlements: [] };
-    }
-
-    const personPaid: Record<string, number> = {};
-    const personOwes: Record<string, number> = {};
-    let total = 0;
-
-    // Initialize all people with 0
-    people.forEach(p => {
-      personPaid[p.id] = 0;
-      personOwes[p.id] = 0;
-    });
-
-    // Calculate what each person paid and owes based on split type
-    allExpenses.forEach(expense => {
-      const amount = expense.amount;
-      total += amount;
-      
-      // Track what the payer paid
-      if (expense.payerId && personPaid[expense.payerId] !== undefined) {
-        personPaid[expense.payerId] += amount;
-      }
-      
-      // Determine who this expense is split with
-      let splitParticipants: string[];
-      
-      if (expense.splitType === 'full' && expense.payerId) {
-        // Full means only the payer owes (no split)
-        splitParticipants = [expense.payerId];
-      } else if (expense.splitWith && expense.splitWith.length > 0) {
-        // Custom split participants
-        splitParticipants = expense.splitWith;
-      } else {
-        // Default: equal split among all people
-        splitParticipants = people.map(p => p.id);
-      }
-
-      // Filter to only include valid people
-      splitParticipants = splitParticipants.filter(id => personOwes[id] !== undefined);
-
-      if (splitParticipants.length === 0) {
-        // Fallback to all people if no valid participants
-        splitParticipants = people.map(p => p.id);
-      }
-
-      // Calculate shares based on split type
-      if (expense.splitType === 'custom' && expense.splitDetails) {
-        // Custom amounts per person
-        for (const [personId, shareAmount] of Object.entries(expense.splitDetails)) {
-          if (personOwes[personId] !== undefined) {
-            personOwes[personId] += shareAmount;
-          }
-        }
-      } else {
-        // Equal split among participants
-        const share = roundCurrency(amount / splitParticipants.length);
-        splitParticipants.forEach(personId => {
-          personOwes[personId] += share;
-        });
-      }
-    });
-
-    // Adjust for payments already made
-    // When A pays B: A's debt decreases, B's credit decreases (B received money they were owed)
-    payments.forEach(payment => {
-      if (personPaid[payment.fromId] !== undefined) {
-        personPaid[payment.fromId] += payment.amount; // fromId effectively "paid" more
-      }
-      if (personOwes[payment.toId] !== undefined) {
-        personOwes[payment.toId] += payment.amount; // toId now "owes" more (cancels their credit)
-      }
-    });
-
-    // Calculate balances (positive = owed money back, negative = owes money)
-    const balanceMap: Record<string, number> = {};
-    for (const person of people) {
-      const paid = personPaid[person.id] || 0;
-      const owes = personOwes[person.id] || 0;
-      balanceMap[person.id] = roundCurrency(paid - owes);
-    }
-
-    // Calculate settlement transactions using greedy algorithm
-    const EPSILON = 0.005; // Half a cent threshold
-    const debtors: { person: Person; amount: number }[] = [];
-    const creditors: { person: Person; amount: number }[] = [];
-
-    for (const person of people) {
-      const balance = balanceMap[person.id] || 0;
-      if (balance < -EPSILON) {
-        debtors.push({ person, amount: roundCurrency(-balance) });
-      } else if (balance > EPSILON) {
-        creditors.push({ person, amount: roundCurrency(balance) });
-      }
-    }
-
-    // Sort by amount descending for optimal settlement
-    debtors.sort((a, b) => b.amount - a.amount);
-    creditors.sort((a, b) => b.amount - a.amount);
-
-    const settlementList: Settlement[] = [];
-    let i = 0, j = 0;
-    while (i < debtors.length && j < creditors.length) {
-      const debtor = debtors[i];
-      const creditor = creditors[j];
-      const paymentAmount = roundCurrency(Math.min(debtor.amount, creditor.amount));
-
-      if (paymentAmount > EPSILON) {
-        settlementList.push({
-          from: debtor.person,
-          to: creditor.person,
-          amount: paymentAmount
-        });
-      }
-
-      debtor.amount = roundCurrency(debtor.amount - paymentAmount);
-      creditor.amount = roundCurrency(creditor.amount - paymentAmount);
-
-      if (debtor.amount <= EPSILON) i++;
-      if (creditor.amount <= EPSILON) j++;
-    }
-
-    return {
-      totalExpenses: roundCurrency(total),
-      sharePerPerson: roundCurrency(total / people.length),
-      personSpent: personPaid,
-      balances: balanceMap,
-      settlements: settlementList
-    };
-  }, [allExpenses, people, payments]);
+  const { total: totalExpenses, perPerson: sharePerPerson, personSpent, balances, settlements } = useMemo(
+    () => computeGroupSettlement(allExpenses, people, payments, getCurrencyDigits(baseCode), settlementMode),
+    [allExpenses, people, payments, baseCode, settlementMode]
+  );
 
   const handleRecordPayment = async () => {
     if (!selectedSettlement) return;
     
-    const amount = parseFloat(paymentAmount);
+    const amount = parseAmount(paymentAmount, locale);
     if (!amount || amount <= 0) {
       showError('Enter a valid amount');
       return;
     }
 
+    // Payments in another currency are recorded at today's rate
+    const baseAmount = convertAmount(amount, paymentCurrency, baseCode, rates);
+    if (baseAmount === null) {
+      showError(`Add an exchange rate for ${paymentCurrency} in Settings`);
+      return;
+    }
+
     setSaving(true);
     try {
       await addPayment({
         fromId: selectedSettlement.from.id,
         toId: selectedSettlement.to.id,
-        amount,
+        amount: baseAmount,
+        currency: paymentCurrency,
+        originalAmount: amount,
         date: new Date().toISOString().split('T')[0]
       });
       
@@ -204,7 +102,8 @@ export function SettlePage() {
 
   const openPaymentModal = (settlement: Settlement) => {
     setSelectedSettlement(settlement);
-    setPaymentAmount(settlement.amount.toFixed(2));
+    setPaymentAmount(toAmountInput(settlement.amount, baseCode, locale));
+    setPaymentCurrency(baseCode);
     setShowPaymentModal(true);
   };
 
@@ -263,37 +162,14 @@ export function SettlePage() {
                 Who Spent What
               </h2>
               <div className="bg-[var(--white)] rounded-xl divide-y divide-[var(--border)]">
-                {people.map(person => {
-                  const spent = personSpent[person.id] || 0;
-                  const balance = balances[person.id] || 0;
-                  
-                  return (
-                    <div key={person.id} className="flex items-center gap-3 p-4">
-                      <div className="w-10 h-10 rounded-full bg-[var(--teal-green)]/10 text-[var(--teal-green)] flex items-center justify-center font-bold">
-                        {person.name.charAt(0).toUpperCase()}
-                      </div>
-                      <div className="flex-1">
-                        <div className="font-medium">{person.name}</div>
-                        <div className="text-sm text-[var(--text-secondary)]">
-                          Spent {formatAmount(spent)}
-                        </div>
-                      </div>
-                      <div className={cn(
-                        'text-sm font-medium text-right',
-                        balance > 0.01 && 'text-[var(--teal-green)]',
-                        balance < -0.01 && 'text-[var(--danger)]'
-                      )}>
-                        {balance > 0.01 ? (
-                          <>gets back<br/>{formatAmount(balance)}</>
-                        ) : balance < -0.01 ? (
-                          <>owes<br/>{formatAmount(-balance)}</>
-                        ) : (
-                          'settled'
-                        )}
-                      </div>
-                    </div>
-                  );
-                })}
+                {balances.map(balance => (
+                  <BalanceCard
+                    key={balance.personId}
+                    balance={balance}
+                    spent={personSpent[balance.personId] || 0}
+                    formatAmount={formatAmount}
+                  />
+                ))}
               </div>
             </div>
 
@@ -302,6 +178,24 @@ export function SettlePage() {
               <h2 className="text-sm font-semibold text-[var(--text-secondary)] uppercase tracking-wide mb-2 px-1">
                 Settlement Plan
               </h2>
+              <div className="flex gap-2 mb-2">
+                {(Object.keys(SETTLEMENT_MODE_LABELS) as SettlementMode[]).map(mode => (
+                  <button
+                    key={mode}
+                    type="button"
+                    onClick={() => { haptic('light'); setSettlementMode(mode); }}
+                    className={cn(
+                      'flex-1 py-2 rounded-full text-sm font-medium transition-colors',
+                      settlementMode === mode ? 'bg-[var(--teal-green)] text-white' : 'bg-[var(--white)]'
+                    )}
+                  >
+                    {SETTLEMENT_MODE_LABELS[mode]}
+                  </button>
+                ))}
+              </div>
+              <p className="text-xs text-[var(--text-secondary)] mb-3 px-1">
+                {SETTLEMENT_MODE_HINTS[settlementMode]}
+              </p>
               {settlements.length === 0 ? (
                 <div className="bg-[var(--white)] rounded-xl p-6 text-center">
                   <div className="text-3xl mb-2">✅</div>
@@ -361,7 +255,12 @@ export function SettlePage() {
                           {formatDate(payment.date)}
                         </div>
                       </div>
-                      <div className="font-semibold">{formatAmount(payment.amount)}</div>
+                      <div className="text-right">
+                        <div className="font-semibold">{formatAmount(payment.amount)}</div>
+                        {formatOriginalAmount(payment, baseCode, locale) && (
+                          <div className="text-xs text-[var(--text-secondary)]">{formatOriginalAmount(payment, baseCode, locale)}</div>
+                        )}
+                      </div>
                       <button
                         onClick={() => handleDeletePayment(payment.id)}
                         className="w-8 h-8 rounded-full text-[var(--danger)] hover:bg-[var(--danger)]/10 flex items-center justify-center"
@@ -413,14 +312,39 @@ export function SettlePage() {
               <span className="text-[var(--text-secondary)]"> pays </span>
               <span className="font-semibold">{selectedSettlement.to.name}</span>
             </div>
-            <Input
-              label="Amount"
-              type="number"
-              value={paymentAmount}
-              onChange={e => setPaymentAmount(e.target.value)}
-              placeholder="0.00"
-              autoFocus
-            />
+            <div className="flex gap-2 items-end">
+              <div className="flex-1">
+                <Input
+                  label="Amount"
+                  type="text"
+                  inputMode="decimal"
+                  value={paymentAmount}
+                  onChange={e => {
+                    const value = sanitizeAmountInput(e.target.value, getCurrencyDigits(paymentCurrency), locale);
+                    if (value !== null) setPaymentAmount(value);
+                  }}
+                  placeholder="0.00"
+                  autoFocus
+                />
+              </div>
+              <select
+                value={paymentCurrency}
+                onChange={e => setPaymentCurrency(e.target.value)}
+                className="h-[50px] px-3 rounded-xl border border-[var(--border)] bg-[var(--white)] text-[16px]"
+                aria-label="Currency"
+              >
+                {CURRENCIES.map(c => (
+                  <option key={c.code} value={c.code}>{c.code}</option>
+                ))}
+              </select>
+            </div>
+            {paymentCurrency !== baseCode && parseAmount(paymentAmount, locale) > 0 && (
+              <p className="text-sm text-[var(--text-secondary)] mt-2">
+                {convertAmount(parseAmount(paymentAmount, locale), paymentCurrency, baseCode, rates) !== null
+                  ? `≈ ${formatAmount(convertAmount(parseAmount(paymentAmount, locale), paymentCurrency, baseCode, rates)!)}`
+                  : `No exchange rate for ${paymentCurrency}`}
+              </p>
+            )}
           </div>
         )}
       </Sheet>
@@ -4,19 +4,19 @@ import { useExpenseStore } from '@/stores/expenseStore';
 import { useSettingsStore } from '@/stores/settingsStore';
 import { PageLoading } from '@/components/ui';
 import { cn } from '@/lib/utils';
+import { BUDGET_CATEGORY_KEYS, getCategoryTotals } from '@/lib/budgets';
 import { getCategoryKey, getCategoryLabel } from '@/types';
-
-/** Round to 2 decimal places for currency to avoid float drift */
-function roundCurrency(amount: number): number {
-  return Math.round(amount * 100) / 100;
-}
+import { fromMinor, roundMoney, sumMoney, toMinor } from '@/lib/money';
 
 export function StatsPage() {
   const navigate = useNavigate();
   const { expenses, allExpenses, loadAllExpenses, loading } = useExpenseStore();
   const formatAmount = useSettingsStore(s => s.formatAmount);
+  const currencyDigits = useSettingsStore(s => s.getCurrencyDigits());
   const monthlyBudget = useSettingsStore(s => s.monthlyBudget);
   const getBudgetStatus = useSettingsStore(s => s.getBudgetStatus);
+  const categoryBudgets = useSettingsStore(s => s.categoryBudgets);
+  const getCategoryBudgetStatus = useSettingsStore(s => s.getCategoryBudgetStatus);
 
   useEffect(() => {
     loadAllExpenses();
@@ -28,37 +28,52 @@ export function StatsPage() {
     return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}`;
   }, []);
 
-  // This month's total for budget: sum only expenses in current calendar month, rounded
-  const thisMonthSpent = useMemo(() => {
-    const sum = allExpenses
-      .filter(e => (e.date && e.date.length >= 7) && e.date.substring(0, 7) === currentYearMonth)
-      .reduce((acc, e) => acc + e.amount, 0);
-    return roundCurrency(sum);
-  }, [allExpenses, currentYearMonth]);
+  const thisMonthExpenses = useMemo(
+    () => allExpenses.filter(e => (e.date && e.date.length >= 7) && e.date.substring(0, 7) === currentYearMonth),
+    [allExpenses, currentYearMonth]
+  );
+
+  // This month's total for budget: sum only expenses in current calendar month
+  const thisMonthSpent = useMemo(
+    () => sumMoney(thisMonthExpenses.map(e => e.amount), currencyDigits),
+    [thisMonthExpenses, currencyDigits]
+  );
 
   const budgetStatus = monthlyBudget > 0 ? getBudgetStatus(thisMonthSpent) : null;
 
+  // This month's spending against each category budget
+  const categoryBudgetRows = useMemo(() => {
+    const totals = getCategoryTotals(thisMonthExpenses, currencyDigits);
+    return BUDGET_CATEGORY_KEYS
+      .filter(key => categoryBudgets[key] > 0)
+      .map(key => {
+        const spent = totals[key] ?? 0;
+        return { key, spent, budget: categoryBudgets[key], status: getCategoryBudgetStatus(key, spent) };
+      });
+  }, [thisMonthExpenses, categoryBudgets, getCategoryBudgetStatus, currencyDigits]);
+
   // Calculate stats (use all expenses for overview; category/monthly use full set)
   const stats = useMemo(() => {
     if (expenses.length === 0 && allExpenses.length === 0) return null;
     const source = allExpenses.length > 0 ? allExpenses : expenses;
 
-    // Category breakdown
+    // Category breakdown (summed in minor units)
     const categoryTotals: Record<string, number> = {};
-    let totalAmount = 0;
+    let totalMinor = 0;
 
     source.forEach(exp => {
       const key = getCategoryKey(exp.description ?? '');
-      const amt = roundCurrency(exp.amount);
-      categoryTotals[key] = roundCurrency((categoryTotals[key] || 0) + amt);
-      totalAmount = roundCurrency(totalAmount + amt);
+      const amt = toMinor(exp.amount, currencyDigits);
+      categoryTotals[key] = (categoryTotals[key] || 0) + amt;
+      totalMinor += amt;
     });
+    const totalAmount = fromMinor(totalMinor, currencyDigits);
 
     const categoryBreakdown = Object.entries(categoryTotals)
-      .map(([key, amount]) => ({
+      .map(([key, minor]) => ({
         key,
-        amount,
-        percent: totalAmount > 0 ? roundCurrency((amount / totalAmount) * 100) : 0
+        amount: fromMinor(minor, currencyDigits),
+        percent: totalMinor > 0 ? Math.round((minor / totalMinor) * 10000) / 100 : 0
       }))
       .sort((a, b) => b.amount - a.amount);
 
@@ -67,19 +82,20 @@ export function StatsPage() {
     source.forEach(exp => {
       const month = (exp.date ?? '').substring(0, 7);
       if (month.length === 7) {
-        monthlyTotals[month] = roundCurrency((monthlyTotals[month] || 0) + exp.amount);
+        monthlyTotals[month] = (monthlyTotals[month] || 0) + toMinor(exp.amount, currencyDigits);
       }
     });
 
     const months = Object.entries(monthlyTotals)
       .sort((a, b) => a[0].localeCompare(b[0]))
-      .slice(-6);
+      .slice(-6)
+      .map(([month, minor]) => [month, fromMinor(minor, currencyDigits)] as [string, number]);
 
     const maxMonthly = months.length > 0 ? Math.max(...months.map(m => m[1])) : 0;
 
     // Average per day (guard against no valid dates)
     const dates = new Set(source.map(e => e.date).filter(Boolean));
-    const avgPerDay = dates.size > 0 ? roundCurrency(totalAmount / dates.size) : 0;
+    const avgPerDay = dates.size > 0 ? fromMinor(Math.round(totalMinor / dates.size), currencyDigits) : 0;
 
     // Top expenses
     const topExpenses = [...source]
@@ -95,7 +111,7 @@ export function StatsPage() {
       avgPerDay,
       topExpenses
     };
-  }, [expenses, allExpenses]);
+  }, [expenses, allExpenses, currencyDigits]);
 
   if (loading) {
     return <PageLoading message="Loading statistics..." />;
@@ -118,7 +134,7 @@ export function StatsPage() {
     );
   }
 
-  const budgetPercent = monthlyBudget > 0 ? Math.min(100, roundCurrency((thisMonthSpent / monthlyBudget) * 100)) : 0;
+  const budgetPercent = monthlyBudget > 0 ? Math.min(100, Math.round((thisMonthSpent / monthlyBudget) * 10000) / 100) : 0;
 
   return (
     <div className="flex flex-col h-full bg-[var(--bg)]">
@@ -171,13 +187,46 @@ export function StatsPage() {
             </div>
             <div className="text-[13px] text-[var(--text-secondary)] mt-1.5">
               {budgetStatus?.status === 'over'
-                ? `Over by ${formatAmount(roundCurrency(thisMonthSpent - monthlyBudget))}`
-                : budgetStatus ? `${formatAmount(roundCurrency(monthlyBudget - thisMonthSpent))} left` : null}
+                ? `Over by ${formatAmount(roundMoney(thisMonthSpent - monthlyBudget, currencyDigits))}`
+                : budgetStatus ? `${formatAmount(roundMoney(monthlyBudget - thisMonthSpent, currencyDigits))} left` : null}
             </div>
           </div>
         </div>
       )}
 
+      {/* Category budgets this month */}
+      {categoryBudgetRows.length > 0 && (
+        <div className="px-4 mb-6">
+          <h2 className="text-lg font-semibold mb-3">Category budgets</h2>
+          <div className="bg-[var(--white)] rounded-xl p-4 space-y-3">
+            {categoryBudgetRows.map(row => (
+              <div key={row.key}>
+                <div className="flex items-center justify-between mb-1">
+                  <span className="font-medium">{getCategoryLabel(row.key)}</span>
+                  <span className="text-sm font-medium">{formatAmount(row.spent)} of {formatAmount(row.budget)}</span>
+                </div>
+                <div className="h-2 bg-[var(--bg)] rounded-full overflow-hidden">
+                  <div
+                    className={cn(
+                      'h-full rounded-full transition-all',
+                      row.status?.status === 'over' && 'bg-[var(--danger)]',
+                      row.status?.status === 'warning' && 'bg-orange-400',
+                      row.status?.status === 'ok' && 'bg-[var(--teal-green)]'
+                    )}
+                    style={{ width: `${row.status?.percent ?? 0}%` }}
+                  />
+                </div>
+                {row.status?.status === 'over' && (
+                  <div className="text-[13px] text-[var(--danger)] mt-1">
+                    Over by {formatAmount(roundMoney(row.spent - row.budget, currencyDigits))}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Overview Cards */}
       <div className="px-4 grid grid-cols-2 gap-3 mb-6">
         <div className="bg-[var(--white)] rounded-xl p-4">
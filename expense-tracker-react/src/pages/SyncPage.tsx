@@ -4,28 +4,32 @@ import { QRCodeSVG } from 'qrcode.react';
 import { useSyncStore } from '@/stores/syncStore';
 import { useAccountStore } from '@/stores/accountStore';
 import { usePeopleStore } from '@/stores/peopleStore';
+import { useSettingsStore } from '@/stores/settingsStore';
 import { Button, Input, useToast, Modal } from '@/components/ui';
-import { QRScanner } from '@/components/sync';
+import { QRScanner, DeviceList, type DeviceListItem } from '@/components/sync';
 import { useSyncActions } from '@/contexts/SyncActionsContext';
 import { haptic, copyToClipboard } from '@/lib/utils';
-import { generateInviteUrl, parseInviteInput } from '@/lib/invite';
-import { useYjs } from '@/sync';
+import { formatBytes } from '@/lib/format';
+import { generateInviteCode, generateInviteUrl, inviteConflictMessage, parseInviteInput, type InviteData } from '@/lib/invite';
+import { useYjs, useYMap, presenceColor } from '@/sync';
 import type { Person } from '@/types';
 
-type InviteData = { accountId: string; deviceId: string; accountName: string };
-
 export function SyncPage() {
   const location = useLocation();
   const navigate = useNavigate();
-  const { deviceId, isConnected, isSynced, connectedPeers } = useSyncStore();
+  const { deviceId, isConnected, isSynced, connectedPeers, reconnecting, transferStats, getLastSyncTime, getLastSyncTimeFormatted } = useSyncStore();
+  const debugMode = useSettingsStore(s => s.debugMode);
   const syncActions = useSyncActions();
-  const { connect, setAwareness, people: yjsPeople } = useYjs();
+  const { connect, setAwareness, people: yjsPeople, devices, reachability, peers } = useYjs();
+  const knownDevices = useYMap(devices);
   const connectRef = useRef(connect);
   const yjsPeopleRef = useRef(yjsPeople);
   connectRef.current = connect;
   yjsPeopleRef.current = yjsPeople;
   const createAccountWithId = useAccountStore(s => s.createAccountWithId);
   const setCurrentAccount = useAccountStore(s => s.setCurrentAccount);
+  const replaceAccountInvite = useAccountStore(s => s.replaceAccountInvite);
+  const accounts = useAccountStore(s => s.accounts);
   const currentAccount = useAccountStore(s => s.getCurrentAccount());
   const selfPersonId = useAccountStore(s => s.selfPersonId);
   const setSelfPersonId = useAccountStore(s => s.setSelfPersonId);
@@ -38,6 +42,13 @@ export function SyncPage() {
   const [pasteInput, setPasteInput] = useState('');
   const [isJoining, setIsJoining] = useState(false);
   const [showQR, setShowQR] = useState(false);
+  const [, setNow] = useState(Date.now);
+
+  // Keep "last synced 3m ago" current
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 60_000);
+    return () => clearInterval(interval);
+  }, []);
 
   // Handle join from /join link (navigated with state.joinData)
   useEffect(() => {
@@ -50,7 +61,7 @@ export function SyncPage() {
   }, []);
 
   const inviteUrl = currentAccount
-    ? generateInviteUrl(currentAccount.id, currentAccount.name, currentAccount.hostDeviceId ?? deviceId ?? undefined)
+    ? generateInviteUrl(currentAccount.id, currentAccount.name, currentAccount.hostDeviceId ?? deviceId ?? undefined, currentAccount.signaling, currentAccount.groupKey)
     : '';
 
   const handleCopyCode = async () => {
@@ -76,7 +87,7 @@ export function SyncPage() {
 
   const handleRegenerateInviteLink = async () => {
     if (!currentAccount) return;
-    const url = generateInviteUrl(currentAccount.id, currentAccount.name, currentAccount.hostDeviceId ?? deviceId ?? undefined);
+    const url = generateInviteUrl(currentAccount.id, currentAccount.name, currentAccount.hostDeviceId ?? deviceId ?? undefined, currentAccount.signaling, currentAccount.groupKey);
     const ok = await copyToClipboard(url);
     if (ok) {
       haptic('success');
@@ -86,19 +97,36 @@ export function SyncPage() {
     }
   };
 
+  // Lost phones and cleared browsers would otherwise be redialed by every member forever
+  const handleForgetDevice = (device: DeviceListItem) => {
+    if (!confirm(`Forget ${device.name}? Members stop trying to reach it. If it comes back online, it rejoins the list by itself.`)) return;
+    devices.delete(device.id);
+    haptic('light');
+    showSuccess(`Forgot ${device.name}`);
+  };
+
   const handleJoinWithInviteData = async (data: InviteData) => {
+    const existing = accounts.find(a => a.id === data.accountId);
+    const conflict = existing && inviteConflictMessage(existing, data);
+    if (conflict && !confirm(conflict)) {
+      showError('Kept the group settings this device already has.');
+      return;
+    }
     setIsJoining(true);
     try {
       const isSameAccount = currentAccount?.id === data.accountId;
+      const account = createAccountWithId(data.accountId, data.accountName, 'shared', '$', data.deviceId || undefined, data.signaling, data.groupKey);
+      if (conflict) replaceAccountInvite(data.accountId, data);
       if (!isSameAccount) {
-        createAccountWithId(data.accountId, data.accountName, 'shared', '$', data.deviceId);
         await setCurrentAccount(data.accountId);
         await new Promise(r => setTimeout(r, 400));
       }
       const roomName = `expense-tracker-${data.accountId}`;
-      const hostDeviceId = data.deviceId || currentAccount?.hostDeviceId || deviceId;
-      connectRef.current(roomName, { deviceId: deviceId ?? '', hostDeviceId });
-      setAwareness({ id: deviceId, name: people.find(p => p.id === selfPersonId)?.name || 'Unknown' });
+      const hostDeviceId = data.deviceId || account.hostDeviceId || deviceId;
+      const signaling = data.signaling ?? account.signaling;
+      const groupKey = data.groupKey ?? account.groupKey;
+      connectRef.current(roomName, { deviceId: deviceId ?? '', hostDeviceId, signaling, groupKey });
+      setAwareness({ name: people.find(p => p.id === selfPersonId)?.name || 'Unknown', personId: selfPersonId ?? undefined });
       let attempts = 0;
       while (attempts < 60) {
         await new Promise(r => setTimeout(r, 500));
@@ -149,7 +177,7 @@ export function SyncPage() {
     await usePeopleStore.getState().claimPerson(person.id, deviceId);
     setSelfPersonId(person.id);
     setShowSelectName(false);
-    setAwareness({ id: deviceId, name: person.name });
+    setAwareness({ name: person.name, personId: person.id });
     showSuccess(`Welcome, ${person.name}!`);
   };
 
@@ -157,8 +185,35 @@ export function SyncPage() {
   const isShared = currentAccount?.mode === 'shared';
   const selfPerson = people.find(p => p.id === selfPersonId);
   const isCreator = currentAccount?.hostDeviceId && deviceId === currentAccount.hostDeviceId;
+  const transferred = Object.values(transferStats).reduce(
+    (total, stats) => ({ sent: total.sent + stats.sent, received: total.received + stats.received }),
+    { sent: 0, received: 0 }
+  );
   const creatorPerson = isCreator ? selfPerson : people.find(p => p.claimedBy === currentAccount?.hostDeviceId);
 
+  // Other members' devices: listed in the group, or seen (older versions don't list themselves)
+  const memberDeviceIds = [...new Set([
+    ...knownDevices.keys(),
+    ...peers.map(p => p.id),
+    ...(currentAccount?.hostDeviceId ? [currentAccount.hostDeviceId] : [])
+  ])].filter(id => id !== deviceId);
+  const members: DeviceListItem[] = memberDeviceIds
+    .map(id => {
+      const presence = peers.find(p => p.id === id);
+      const person = people.find(p => p.id === presence?.personId) ?? people.find(p => p.claimedBy === id);
+      const lastSeen = Math.max(presence?.lastSeen ?? 0, getLastSyncTime(id) ?? 0);
+      return {
+        id,
+        name: person?.name ?? (presence && presence.name !== 'Peer' ? presence.name : `Device ${id}`),
+        color: presence?.color ?? presenceColor(id),
+        status: presence?.online ? 'connected' : reachability[id] ?? 'unreachable',
+        presence,
+        lastSeen: lastSeen || null,
+        isCreator: id === currentAccount?.hostDeviceId
+      };
+    })
+    .sort((a, b) => Number(b.status === 'connected') - Number(a.status === 'connected') || a.name.localeCompare(b.name));
+
   return (
     <div className="flex flex-col h-full bg-[var(--bg)]">
       {/* Header – same compact style as Home */}
@@ -201,7 +256,9 @@ export function SyncPage() {
                   }`}
                 />
                 <span className="font-medium text-[15px]">
-                  {isConnected ? `Connected (${connectedPeers.length} peer${connectedPeers.length !== 1 ? 's' : ''})` : 'Not connected'}
+                  {isConnected
+                    ? `Connected (${connectedPeers.length} peer${connectedPeers.length !== 1 ? 's' : ''})`
+                    : reconnecting ? 'Reconnecting…' : 'Not connected'}
                 </span>
               </div>
               {isShared && !isConnected && syncActions?.retryConnection && (
@@ -215,27 +272,18 @@ export function SyncPage() {
               )}
             </div>
             <p className="text-[13px] text-[var(--text-secondary)] mt-1">
-              {isSynced ? 'Local data synced' : 'Loading local data…'}
+              {!isSynced ? 'Loading local data…' : isShared ? getLastSyncTimeFormatted() : 'Local data synced'}
             </p>
-            {connectedPeers.length > 0 && (
-              <div className="mt-3 pt-3 border-t border-[var(--border)] flex flex-wrap gap-2">
-                {connectedPeers.map(peer => (
-                  <span
-                    key={peer.id}
-                    className="inline-flex items-center gap-1.5 bg-[var(--bg)] rounded-full px-2.5 py-1 text-[12px] text-[var(--text-secondary)]"
-                  >
-                    <span
-                      className="w-1.5 h-1.5 rounded-full shrink-0"
-                      style={{ backgroundColor: peer.color || 'var(--teal-green)' }}
-                    />
-                    {peer.name}
-                  </span>
-                ))}
-              </div>
+            {debugMode && isShared && (
+              <p className="text-[12px] text-[var(--text-secondary)] mt-1">
+                Document data sent {formatBytes(transferred.sent)} · received {formatBytes(transferred.received)}
+              </p>
             )}
           </div>
         </div>
 
+        {isShared && <DeviceList devices={members} onForget={handleForgetDevice} />}
+
         {/* Your code & invite – single card for shared */}
         <div className="px-4 mb-3">
           <div className="bg-[var(--white)] rounded-xl p-4 shadow-sm">
@@ -279,7 +327,7 @@ export function SyncPage() {
                   {showQR && currentAccount && (
                     <div className="mt-3 flex justify-center p-3 bg-[var(--bg)] rounded-xl">
                       <QRCodeSVG
-                        value={`et:${currentAccount.id}:${deviceId}:${currentAccount.name}`}
+                        value={generateInviteCode(currentAccount.id, deviceId, currentAccount.name, currentAccount.signaling, currentAccount.groupKey)}
                         size={180}
                         level="M"
                       />
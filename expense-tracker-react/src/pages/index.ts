@@ -9,3 +9,5 @@ export { SyncPage } from './SyncPage';
 export { SettingsPage } from './SettingsPage';
 export { OnboardingPage } from './OnboardingPage';
 export { JoinFromLinkHandler } from './JoinFromLinkHandler';
+export { RecurringPage } from './RecurringPage';
+export { ImportReceiptsPage } from './ImportReceiptsPage';
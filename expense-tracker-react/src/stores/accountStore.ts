@@ -1,8 +1,11 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
-import type { Account } from '@/types';
+import type { Account, SignalingServer } from '@/types';
 import { generateId } from '@/types';
 import { initDB, closeDB } from '@/db/schema';
+import { getDeviceLocale } from '@/lib/format';
+import { generateGroupKey } from '@/sync/groupAuth';
+import type { InviteData } from '@/lib/invite';
 
 interface AccountState {
   accounts: Account[];
@@ -12,7 +15,15 @@ interface AccountState {
   
   // Actions
   createAccount: (name: string, mode: 'single' | 'shared', currency: string, hostDeviceId?: string) => Account;
-  createAccountWithId: (id: string, name: string, mode: 'single' | 'shared', currency: string, hostDeviceId?: string) => Account;
+  createAccountWithId: (
+    id: string,
+    name: string,
+    mode: 'single' | 'shared',
+    currency: string,
+    hostDeviceId?: string,
+    signaling?: SignalingServer,
+    groupKey?: string
+  ) => Account;
   deleteAccount: (id: string) => void;
   setCurrentAccount: (id: string) => Promise<void>;
   getCurrentAccount: () => Account | undefined;
@@ -20,6 +31,17 @@ interface AccountState {
   setOnboarded: (value: boolean) => void;
   setSelfPersonId: (personId: string | null) => void;
   getSelfPersonId: () => string | null;
+  setAccountLocale: (id: string, locale: string | undefined) => void;
+  /** Signaling server for a shared account; undefined = public PeerJS cloud */
+  setAccountSignaling: (id: string, signaling: SignalingServer | undefined) => void;
+  /** Group key for a shared account (see Account.groupKey); members need a new invite after a change */
+  setAccountGroupKey: (id: string, groupKey: string) => void;
+  /** Take an invite's host device, sync server and group key over the account's own; ask the user first (see inviteConflictMessage) */
+  replaceAccountInvite: (id: string, invite: InviteData) => void;
+  /** Copy of the base currency kept in the account's Yjs document (settingsStore.accountCurrency) */
+  setAccountCurrency: (id: string, currency: string) => void;
+  /** Formatting locale of the current account (device default if not set) */
+  getLocale: () => string;
 }
 
 export const useAccountStore = create<AccountState>()(
@@ -37,7 +59,8 @@ export const useAccountStore = create<AccountState>()(
           mode,
           currency,
           createdAt: Date.now(),
-          ...(mode === 'shared' && hostDeviceId != null && { hostDeviceId })
+          ...(mode === 'shared' && hostDeviceId != null && { hostDeviceId }),
+          ...(mode === 'shared' && { groupKey: generateGroupKey() })
         };
 
         set(state => ({
@@ -48,17 +71,21 @@ export const useAccountStore = create<AccountState>()(
       },
 
       // Create account with a specific ID (used when joining an existing group)
-      createAccountWithId: (id, name, mode, currency, hostDeviceId) => {
+      createAccountWithId: (id, name, mode, currency, hostDeviceId, signaling, groupKey) => {
         const existing = get().accounts.find(a => a.id === id);
         if (existing) {
-          if (hostDeviceId != null) {
-            set(state => ({
-              accounts: state.accounts.map(a =>
-                a.id === id ? { ...a, hostDeviceId } : a
-              )
-            }));
-          }
-          return existing;
+          // Only fill in what the account is missing; replacing goes through replaceAccountInvite
+          const missing: Partial<Account> = {
+            ...(existing.hostDeviceId == null && hostDeviceId != null && { hostDeviceId }),
+            ...(!existing.signaling && signaling && { signaling }),
+            ...(!existing.groupKey && groupKey && { groupKey })
+          };
+          if (Object.keys(missing).length === 0) return existing;
+          const updated = { ...existing, ...missing };
+          set(state => ({
+            accounts: state.accounts.map(a => (a.id === id ? updated : a))
+          }));
+          return updated;
         }
 
         const account: Account = {
@@ -67,7 +94,9 @@ export const useAccountStore = create<AccountState>()(
           mode,
           currency,
           createdAt: Date.now(),
-          ...(hostDeviceId != null && { hostDeviceId })
+          ...(hostDeviceId != null && { hostDeviceId }),
+          ...(signaling && { signaling }),
+          ...(groupKey && { groupKey })
         };
 
         set(state => ({
@@ -121,6 +150,49 @@ export const useAccountStore = create<AccountState>()(
 
       getSelfPersonId: () => {
         return get().selfPersonId;
+      },
+
+      setAccountLocale: (id, locale) => {
+        set(state => ({
+          accounts: state.accounts.map(a => (a.id === id ? { ...a, locale } : a))
+        }));
+      },
+
+      setAccountSignaling: (id, signaling) => {
+        set(state => ({
+          accounts: state.accounts.map(a => (a.id === id ? { ...a, signaling } : a))
+        }));
+      },
+
+      setAccountCurrency: (id, currency) => {
+        set(state => ({
+          accounts: state.accounts.map(a => (a.id === id ? { ...a, currency } : a))
+        }));
+      },
+
+      setAccountGroupKey: (id, groupKey) => {
+        set(state => ({
+          accounts: state.accounts.map(a => (a.id === id ? { ...a, groupKey } : a))
+        }));
+      },
+
+      replaceAccountInvite: (id, invite) => {
+        set(state => ({
+          accounts: state.accounts.map(a =>
+            a.id === id
+              ? {
+                  ...a,
+                  ...(invite.deviceId && { hostDeviceId: invite.deviceId }),
+                  ...(invite.signaling && { signaling: invite.signaling }),
+                  ...(invite.groupKey && { groupKey: invite.groupKey })
+                }
+              : a
+          )
+        }));
+      },
+
+      getLocale: () => {
+        return get().getCurrentAccount()?.locale || getDeviceLocale();
       }
     }),
     {
@@ -0,0 +1,63 @@
+import { create } from 'zustand';
+import type { ExchangeRates } from '@/lib/currency';
+
+interface ExchangeRateState {
+  rates: ExchangeRates;
+
+  // Yjs integration
+  setRates: (rates: ExchangeRates) => void;
+
+  // Actions
+  updateRates: (entries: ExchangeRates) => void;
+  removeRate: (code: string) => void;
+  /** Replace the whole table (imported rates file) */
+  replaceRates: (rates: ExchangeRates) => void;
+}
+
+// Reference to Yjs operations (set by YjsStoreSync)
+let yjsOperations: {
+  updateRates?: (entries: ExchangeRates) => void;
+  removeRate?: (code: string) => void;
+  replaceRates?: (rates: ExchangeRates) => void;
+} = {};
+
+export function setYjsExchangeRateOperations(ops: typeof yjsOperations) {
+  yjsOperations = ops;
+}
+
+export const useExchangeRateStore = create<ExchangeRateState>((set) => ({
+  rates: {},
+
+  // Set rates from Yjs observer
+  setRates: (rates) => {
+    set({ rates });
+  },
+
+  updateRates: (entries) => {
+    if (yjsOperations.updateRates) {
+      yjsOperations.updateRates(entries);
+      return;
+    }
+    set(state => ({ rates: { ...state.rates, ...entries } }));
+  },
+
+  removeRate: (code) => {
+    if (yjsOperations.removeRate) {
+      yjsOperations.removeRate(code);
+      return;
+    }
+    set(state => {
+      const rates = { ...state.rates };
+      delete rates[code];
+      return { rates };
+    });
+  },
+
+  replaceRates: (rates) => {
+    if (yjsOperations.replaceRates) {
+      yjsOperations.replaceRates(rates);
+      return;
+    }
+    set({ rates: { ...rates } });
+  }
+}));
@@ -1,6 +1,8 @@
 import { create } from 'zustand';
 import type { Expense } from '@/types';
 import { getCategoryKey, generateId, getYearMonth } from '@/types';
+import { sumMoney } from '@/lib/money';
+import { useSettingsStore } from './settingsStore';
 
 interface ExpenseState {
   expenses: Expense[];
@@ -36,6 +38,8 @@ interface ExpenseState {
   loadExpenses: () => void;
   loadAllExpenses: () => void;
   addExpense: (expense: Omit<Expense, 'id' | 'syncId' | 'syncStatus' | 'yearMonth' | 'createdAt'>) => Promise<Expense>;
+  /** Add several expenses at once - one Yjs transaction, so peers get all or none */
+  addExpenses: (expenses: Omit<Expense, 'id' | 'syncId' | 'syncStatus' | 'yearMonth' | 'createdAt'>[]) => Promise<Expense[]>;
   updateExpense: (id: string, updates: Partial<Expense>) => Promise<void>;
   deleteExpense: (id: string) => Promise<void>;
   duplicateExpense: (id: string) => Promise<Expense | null>;
@@ -44,6 +48,7 @@ interface ExpenseState {
 // Reference to Yjs operations (set by YjsStoreSync)
 let yjsOperations: {
   addExpense?: (expense: Omit<Expense, 'id' | 'syncId' | 'syncStatus' | 'yearMonth' | 'createdAt'>) => Expense;
+  addExpenses?: (expenses: Omit<Expense, 'id' | 'syncId' | 'syncStatus' | 'yearMonth' | 'createdAt'>[]) => Expense[];
   updateExpense?: (id: string, updates: Partial<Expense>) => void;
   deleteExpense?: (id: string) => void;
 } = {};
@@ -132,6 +137,30 @@ export const useExpenseStore = create<ExpenseState>((set, get) => ({
     return newExpense;
   },
 
+  // Add a batch of expenses via Yjs
+  addExpenses: async (expenses) => {
+    const added = yjsOperations.addExpenses
+      ? yjsOperations.addExpenses(expenses)
+      : expenses.map(expense => ({
+          ...expense,
+          id: generateId(),
+          syncId: generateId(),
+          syncStatus: 'pending' as const,
+          yearMonth: getYearMonth(expense.date),
+          createdAt: Date.now()
+        }));
+    set(state => {
+      const known = new Set(state.allExpenses.map(e => e.id));
+      const newAll = [...added.filter(e => !known.has(e.id)), ...state.allExpenses];
+      const yearMonth = `${state.currentYear}-${String(state.currentMonth + 1).padStart(2, '0')}`;
+      const monthExpenses = newAll
+        .filter(e => e.yearMonth === yearMonth)
+        .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+      return { allExpenses: newAll, expenses: monthExpenses };
+    });
+    return added;
+  },
+
   // Update expense via Yjs
   updateExpense: async (id, updates) => {
     if (yjsOperations.updateExpense) {
@@ -246,13 +275,14 @@ export const useExpenseStore = create<ExpenseState>((set, get) => ({
   },
 
   getTotalForMonth: () => {
-    return get().expenses.reduce((sum, e) => sum + e.amount, 0);
+    return sumMoney(get().expenses.map(e => e.amount), useSettingsStore.getState().getCurrencyDigits());
   },
 
   getTodayTotal: () => {
     const today = new Date().toISOString().split('T')[0];
-    return get().expenses
-      .filter(e => e.date === today)
-      .reduce((sum, e) => sum + e.amount, 0);
+    return sumMoney(
+      get().expenses.filter(e => e.date === today).map(e => e.amount),
+      useSettingsStore.getState().getCurrencyDigits()
+    );
   }
 }));
@@ -0,0 +1,88 @@
+import { create } from 'zustand';
+import type { RecurringExpense } from '@/types';
+import { generateId } from '@/types';
+
+type NewRecurringExpense = Omit<RecurringExpense, 'id' | 'syncId' | 'active' | 'createdAt'>;
+
+interface RecurringState {
+  rules: RecurringExpense[];
+
+  // Yjs integration
+  setRules: (rules: RecurringExpense[]) => void;
+
+  // Actions
+  addRule: (rule: NewRecurringExpense) => Promise<RecurringExpense>;
+  updateRule: (id: string, updates: Partial<RecurringExpense>) => Promise<void>;
+  deleteRule: (id: string) => Promise<void>;
+  setRuleActive: (id: string, active: boolean) => Promise<void>;
+}
+
+// Reference to Yjs operations (set by YjsStoreSync)
+let yjsOperations: {
+  addRule?: (rule: NewRecurringExpense) => RecurringExpense;
+  updateRule?: (id: string, updates: Partial<RecurringExpense>) => void;
+  deleteRule?: (id: string) => void;
+} = {};
+
+export function setYjsRecurringOperations(ops: typeof yjsOperations) {
+  yjsOperations = ops;
+}
+
+export const useRecurringStore = create<RecurringState>((set, get) => ({
+  rules: [],
+
+  // Set rules from Yjs observer
+  setRules: (rules) => {
+    set({ rules });
+  },
+
+  // Add rule via Yjs
+  addRule: async (rule) => {
+    if (yjsOperations.addRule) {
+      return yjsOperations.addRule(rule);
+    }
+    // Fallback: create locally
+    const newRule: RecurringExpense = {
+      ...rule,
+      id: generateId(),
+      syncId: generateId(),
+      active: true,
+      createdAt: Date.now()
+    };
+    set(state => ({
+      rules: [...state.rules, newRule]
+    }));
+    return newRule;
+  },
+
+  // Update rule via Yjs
+  updateRule: async (id, updates) => {
+    if (yjsOperations.updateRule) {
+      yjsOperations.updateRule(id, updates);
+      return;
+    }
+    // Fallback: update locally
+    set(state => ({
+      rules: state.rules.map(r =>
+        r.id === id ? { ...r, ...updates, updatedAt: Date.now() } : r
+      )
+    }));
+  },
+
+  // Delete rule via Yjs
+  deleteRule: async (id) => {
+    if (yjsOperations.deleteRule) {
+      yjsOperations.deleteRule(id);
+      return;
+    }
+    // Fallback: delete locally
+    set(state => ({
+      rules: state.rules.filter(r => r.id !== id)
+    }));
+  },
+
+  // Pause or resume a rule
+  setRuleActive: async (id, active) => {
+    await get().updateRule(id, { active });
+  }
+}));
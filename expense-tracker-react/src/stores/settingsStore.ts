@@ -1,34 +1,91 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
-import type { Settings } from '@/types';
+import type { ImageCompression, Settings, SettlementMode } from '@/types';
 import { CURRENCIES } from '@/types';
+import { formatMoney, getCurrencyDigits } from '@/lib/format';
+import { getCurrencyCode } from '@/lib/currency';
+import { DEFAULT_OCR_LANGUAGES } from '@/lib/ocrLanguages';
+import { DEFAULT_IMAGE_COMPRESSION } from '@/lib/attachments';
+import { useAccountStore } from './accountStore';
+
+type BudgetStatus = { percent: number; remaining: number; status: 'ok' | 'warning' | 'over' };
 
 interface SettingsState extends Settings {
   debugMode: boolean;
+  /**
+   * Base currency (symbol) of the current account, from its Yjs document so
+   * every member converts into the same one; null until the document has one.
+   * `currency` is this device's own setting from before, used until then.
+   */
+  accountCurrency: string | null;
   
   // Actions
+  /** Change the current account's base currency (see canChangeBaseCurrency) */
   setCurrency: (currency: string) => void;
   setMonthlyBudget: (budget: number) => void;
   setDarkMode: (enabled: boolean) => void;
   setDebugMode: (enabled: boolean) => void;
+  setSettlementMode: (mode: SettlementMode) => void;
+  setOcrLanguages: (languages: string[]) => void;
+  setImageCompression: (changes: Partial<ImageCompression>) => void;
   setCategoryBudget: (category: string, amount: number) => void;
   removeCategoryBudget: (category: string) => void;
+  /** Format an amount in the base currency using the current account's locale */
   formatAmount: (amount: number) => string;
-  getBudgetStatus: (spent: number) => { percent: number; remaining: number; status: 'ok' | 'warning' | 'over' } | null;
+  /** Symbol of the base currency */
+  getCurrency: () => string;
+  /** ISO code of the base currency */
+  getCurrencyCode: () => string;
+  /** Decimals of the base currency, the scale for money arithmetic (lib/money) */
+  getCurrencyDigits: () => number;
+  /** Status against `budget`, or against the monthly budget when omitted */
+  getBudgetStatus: (spent: number, budget?: number) => BudgetStatus | null;
+  getCategoryBudgetStatus: (category: string, spent: number) => BudgetStatus | null;
+
+  // Yjs integration
+  setCategoryBudgets: (categoryBudgets: Record<string, number>) => void;
+  setAccountCurrency: (currency: string | null) => void;
   getCurrencyInfo: () => typeof CURRENCIES[0] | undefined;
 }
 
+// Reference to Yjs operations (set by YjsStoreSync); category budgets and the
+// base currency live in the account's Yjs document so everyone in a shared
+// account sees the same ones
+let yjsOperations: {
+  setCategoryBudget?: (category: string, amount: number) => void;
+  removeCategoryBudget?: (category: string) => void;
+} = {};
+let yjsCurrencyOperations: {
+  setCurrency?: (currency: string) => void;
+} = {};
+
+export function setYjsCategoryBudgetOperations(ops: typeof yjsOperations) {
+  yjsOperations = ops;
+}
+
+export function setYjsCurrencyOperations(ops: typeof yjsCurrencyOperations) {
+  yjsCurrencyOperations = ops;
+}
+
 export const useSettingsStore = create<SettingsState>()(
   persist(
     (set, get) => ({
       currency: '$',
+      accountCurrency: null,
       monthlyBudget: 0,
       darkMode: false,
       debugMode: false,
       categoryBudgets: {},
+      settlementMode: 'greedy',
+      ocrLanguages: DEFAULT_OCR_LANGUAGES,
+      imageCompression: DEFAULT_IMAGE_COMPRESSION,
 
       setCurrency: (currency) => {
-        set({ currency });
+        if (yjsCurrencyOperations.setCurrency) {
+          yjsCurrencyOperations.setCurrency(currency);
+          return;
+        }
+        set({ accountCurrency: currency });
       },
 
       setMonthlyBudget: (monthlyBudget) => {
@@ -52,30 +109,70 @@ export const useSettingsStore = create<SettingsState>()(
         }
       },
 
+      setSettlementMode: (settlementMode) => {
+        set({ settlementMode });
+      },
+
+      setOcrLanguages: (ocrLanguages) => {
+        // Tesseract needs at least one language
+        set({ ocrLanguages: ocrLanguages.length > 0 ? ocrLanguages : DEFAULT_OCR_LANGUAGES });
+      },
+
+      setImageCompression: (changes) => {
+        set(state => ({ imageCompression: { ...state.imageCompression, ...changes } }));
+      },
+
       setCategoryBudget: (category, amount) => {
+        if (yjsOperations.setCategoryBudget) {
+          yjsOperations.setCategoryBudget(category, amount);
+          return;
+        }
         set(state => ({
           categoryBudgets: { ...state.categoryBudgets, [category]: amount }
         }));
       },
 
       removeCategoryBudget: (category) => {
+        if (yjsOperations.removeCategoryBudget) {
+          yjsOperations.removeCategoryBudget(category);
+          return;
+        }
         set(state => {
-          const { [category]: _, ...rest } = state.categoryBudgets;
-          return { categoryBudgets: rest };
+          const categoryBudgets = { ...state.categoryBudgets };
+          delete categoryBudgets[category];
+          return { categoryBudgets };
         });
       },
 
+      setCategoryBudgets: (categoryBudgets) => {
+        set({ categoryBudgets });
+      },
+
+      setAccountCurrency: (accountCurrency) => {
+        set({ accountCurrency });
+      },
+
       formatAmount: (amount) => {
-        const { currency } = get();
-        return `${currency}${amount.toFixed(2)}`;
+        return formatMoney(amount, get().getCurrencyCode(), useAccountStore.getState().getLocale());
+      },
+
+      getCurrency: () => {
+        return get().accountCurrency ?? get().currency;
       },
 
-      getBudgetStatus: (spent) => {
-        const { monthlyBudget } = get();
-        if (!monthlyBudget || monthlyBudget <= 0) return null;
+      getCurrencyCode: () => {
+        return getCurrencyCode(get().getCurrency());
+      },
+
+      getCurrencyDigits: () => {
+        return getCurrencyDigits(get().getCurrencyCode());
+      },
+
+      getBudgetStatus: (spent, budget = get().monthlyBudget) => {
+        if (!budget || budget <= 0) return null;
         
-        const percent = Math.min((spent / monthlyBudget) * 100, 100);
-        const remaining = monthlyBudget - spent;
+        const percent = Math.min((spent / budget) * 100, 100);
+        const remaining = budget - spent;
         
         let status: 'ok' | 'warning' | 'over' = 'ok';
         if (percent >= 100) status = 'over';
@@ -84,13 +181,25 @@ export const useSettingsStore = create<SettingsState>()(
         return { percent, remaining, status };
       },
 
+      getCategoryBudgetStatus: (category, spent) => {
+        const budget = get().categoryBudgets[category];
+        return budget ? get().getBudgetStatus(spent, budget) : null;
+      },
+
       getCurrencyInfo: () => {
-        const { currency } = get();
+        const currency = get().getCurrency();
         return CURRENCIES.find(c => c.symbol === currency);
       }
     }),
     {
       name: 'expense-tracker-settings',
+      // Category budgets and the base currency come from the account's Yjs document
+      partialize: (state) => {
+        const persisted: Partial<SettingsState> = { ...state };
+        delete persisted.categoryBudgets;
+        delete persisted.accountCurrency;
+        return persisted;
+      },
       onRehydrateStorage: () => (state) => {
         // Apply dark mode on rehydration
         if (state?.darkMode) {
@@ -0,0 +1,81 @@
+import { create } from 'zustand';
+import type { SplitPreset } from '@/types';
+import { generateId } from '@/types';
+
+type NewSplitPreset = Omit<SplitPreset, 'id' | 'syncId' | 'createdAt'>;
+
+interface SplitPresetState {
+  presets: SplitPreset[];
+
+  // Yjs integration
+  setPresets: (presets: SplitPreset[]) => void;
+
+  // Actions
+  addPreset: (preset: NewSplitPreset) => Promise<SplitPreset>;
+  updatePreset: (id: string, updates: Partial<SplitPreset>) => Promise<void>;
+  deletePreset: (id: string) => Promise<void>;
+}
+
+// Reference to Yjs operations (set by YjsStoreSync)
+let yjsOperations: {
+  addPreset?: (preset: NewSplitPreset) => SplitPreset;
+  updatePreset?: (id: string, updates: Partial<SplitPreset>) => void;
+  deletePreset?: (id: string) => void;
+} = {};
+
+export function setYjsSplitPresetOperations(ops: typeof yjsOperations) {
+  yjsOperations = ops;
+}
+
+export const useSplitPresetStore = create<SplitPresetState>((set) => ({
+  presets: [],
+
+  // Set presets from Yjs observer
+  setPresets: (presets) => {
+    set({ presets });
+  },
+
+  // Add preset via Yjs
+  addPreset: async (preset) => {
+    if (yjsOperations.addPreset) {
+      return yjsOperations.addPreset(preset);
+    }
+    // Fallback: create locally
+    const newPreset: SplitPreset = {
+      ...preset,
+      id: generateId(),
+      syncId: generateId(),
+      createdAt: Date.now()
+    };
+    set(state => ({
+      presets: [...state.presets, newPreset]
+    }));
+    return newPreset;
+  },
+
+  // Update preset via Yjs
+  updatePreset: async (id, updates) => {
+    if (yjsOperations.updatePreset) {
+      yjsOperations.updatePreset(id, updates);
+      return;
+    }
+    // Fallback: update locally
+    set(state => ({
+      presets: state.presets.map(p =>
+        p.id === id ? { ...p, ...updates, updatedAt: Date.now() } : p
+      )
+    }));
+  },
+
+  // Delete preset via Yjs
+  deletePreset: async (id) => {
+    if (yjsOperations.deletePreset) {
+      yjsOperations.deletePreset(id);
+      return;
+    }
+    // Fallback: delete locally
+    set(state => ({
+      presets: state.presets.filter(p => p.id !== id)
+    }));
+  }
+}));
@@ -1,11 +1,10 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
-import type { AwarenessUser } from '@/sync/YjsProvider';
+import type { AwarenessUser, ConnectOptions } from '@/sync/YjsProvider';
+import { formatRelativeTime } from '@/lib/utils';
 
-export interface LastConnectParams {
+export interface LastConnectParams extends ConnectOptions {
   roomName: string;
-  deviceId: string;
-  hostDeviceId?: string;
 }
 
 interface SyncState {
@@ -18,6 +17,14 @@ interface SyncState {
   connectionError: string | null;
   /** Last connect params used for retry. */
   lastConnectParams: LastConnectParams | null;
+  /** Lost the signaling server; a retry is scheduled or running */
+  reconnecting: boolean;
+  /** When updates last went to or came from each peer: room name -> peer device id -> timestamp */
+  lastSyncTimes: Record<string, Record<string, number>>;
+  /** Document bytes on the wire per peer since the app started; counted in debug mode only */
+  transferStats: Record<string, { sent: number; received: number }>;
+  /** Progress (0-1) of attachments being fetched from peers, by id */
+  imageProgress: Record<string, number>;
 
   // Actions
   setDeviceId: (id: string) => void;
@@ -29,6 +36,12 @@ interface SyncState {
   setRoomName: (roomName: string | null) => void;
   setConnectionError: (error: string | null) => void;
   setLastConnectParams: (params: LastConnectParams | null) => void;
+  setReconnecting: (reconnecting: boolean) => void;
+  recordPeerSync: (roomName: string, peerId: string) => void;
+  recordTransfer: (peerId: string, direction: 'sent' | 'received', bytes: number) => void;
+  /** Last sync with a peer, or with anyone when no peer is given, in the current room */
+  getLastSyncTime: (peerId?: string) => number | null;
+  setImageProgress: (imageId: string, progress: number | null) => void;
   getLastSyncTimeFormatted: () => string;
   resetSync: () => void;
 }
@@ -54,6 +67,10 @@ export const useSyncStore = create<SyncState>()(
       roomName: null,
       connectionError: null,
       lastConnectParams: null,
+      reconnecting: false,
+      lastSyncTimes: {},
+      transferStats: {},
+      imageProgress: {},
 
       setDeviceId: (id) => {
         set({ deviceId: id });
@@ -78,7 +95,7 @@ export const useSyncStore = create<SyncState>()(
             return state;
           }
           return {
-            connectedPeers: [...state.connectedPeers, { id: peerId, name: 'Unknown' }]
+            connectedPeers: [...state.connectedPeers, { id: peerId, name: 'Unknown', online: true, lastSeen: Date.now() }]
           };
         });
       },
@@ -101,11 +118,55 @@ export const useSyncStore = create<SyncState>()(
         set({ lastConnectParams });
       },
 
+      setReconnecting: (reconnecting) => {
+        if (get().reconnecting !== reconnecting) set({ reconnecting });
+      },
+
+      recordPeerSync: (roomName, peerId) => {
+        const now = Date.now();
+        const peers = get().lastSyncTimes[roomName] ?? {};
+        // Updates can arrive many times a second; the time is shown in minutes
+        if (now - (peers[peerId] ?? 0) < 1000) return;
+        set(state => ({
+          lastSyncTimes: { ...state.lastSyncTimes, [roomName]: { ...peers, [peerId]: now } }
+        }));
+      },
+
+      recordTransfer: (peerId, direction, bytes) => {
+        set(state => {
+          const stats = state.transferStats[peerId] ?? { sent: 0, received: 0 };
+          return {
+            transferStats: { ...state.transferStats, [peerId]: { ...stats, [direction]: stats[direction] + bytes } }
+          };
+        });
+      },
+
+      getLastSyncTime: (peerId) => {
+        const { lastConnectParams, lastSyncTimes } = get();
+        const peers = lastConnectParams ? lastSyncTimes[lastConnectParams.roomName] : undefined;
+        if (!peers) return null;
+        if (peerId) return peers[peerId] ?? null;
+        const times = Object.values(peers);
+        return times.length ? Math.max(...times) : null;
+      },
+
+      setImageProgress: (imageId, progress) => {
+        set(state => {
+          const imageProgress = { ...state.imageProgress };
+          if (progress === null) delete imageProgress[imageId];
+          else imageProgress[imageId] = progress;
+          return { imageProgress };
+        });
+      },
+
       getLastSyncTimeFormatted: () => {
-        // With Yjs, sync is continuous - just return connection status
-        const { isConnected, isSynced } = get();
+        // While connected, sync is continuous
+        const { isConnected, isSynced, reconnecting, getLastSyncTime } = get();
         if (isConnected) return 'Live';
-        if (isSynced) return 'Offline (synced)';
+        const lastSync = getLastSyncTime();
+        const status = reconnecting ? 'Reconnecting' : 'Offline';
+        if (lastSync) return `${status} · last synced ${formatRelativeTime(new Date(lastSync)).toLowerCase()}`;
+        if (isSynced) return `${status} · never synced with others`;
         return 'Not synced';
       },
 
@@ -116,14 +177,18 @@ export const useSyncStore = create<SyncState>()(
           connectedPeers: [],
           roomName: null,
           connectionError: null,
-          lastConnectParams: null
+          lastConnectParams: null,
+          reconnecting: false,
+          transferStats: {},
+          imageProgress: {}
         });
       }
     }),
     {
       name: 'expense-tracker-sync',
       partialize: (state) => ({
-        deviceId: state.deviceId
+        deviceId: state.deviceId,
+        lastSyncTimes: state.lastSyncTimes
       })
     }
   )
@@ -1,29 +1,37 @@
 import { createContext, useContext, useEffect, useState, useRef, useCallback, useMemo, type ReactNode, type MutableRefObject } from 'react';
 import * as Y from 'yjs';
 import { IndexeddbPersistence } from 'y-indexeddb';
-import Peer, { type DataConnection } from 'peerjs';
-import type { Expense, Person, Payment } from '@/types';
+import Peer, { PeerErrorType, type DataConnection } from 'peerjs';
+import type { Expense, Person, Payment, SplitPreset, RecurringExpense, SignalingServer } from '@/types';
 import { useSyncStore } from '@/stores/syncStore';
-import * as db from '@/db/operations';
-import { blobToBase64, base64ToBlob } from '@/lib/utils';
+import { useSettingsStore } from '@/stores/settingsStore';
+import { peerOptions, sameSignaling } from '@/lib/signaling';
+import { createImageTransfer, isImageMessage, type ImageMessage, type ImageTransfer } from './imageTransfer';
+import { createDocSync, isDocMessage, type DocTransfer } from './docSync';
+import { createPresence, isPresenceMessage, type AwarenessUser, type Presence, type PresenceState } from './presence';
+import { authenticateConnection, isAuthMessage, type Channel, type SecureSession } from './groupAuth';
 
-// Awareness state for each user (peer id only when using simple sync)
-export interface AwarenessUser {
-  name: string;
+export type { AwarenessUser, PresenceState };
+
+/** A device in a shared account. Each one lists itself in the document so members can dial each other directly. */
+export interface GroupDevice {
   id: string;
-  color?: string;
+  addedAt: number;
 }
 
+/** Whether a member's device can be reached right now */
+export type Reachability = 'connecting' | 'connected' | 'unreachable';
+
 export interface ConnectOptions {
   deviceId: string;
-  /** When joining: creator's device id (host). When creating: same as deviceId (we are host). */
+  /** Creator's device id: the first peer a new member dials. Once synced, members also dial each other. */
   hostDeviceId?: string;
+  /** The account's signaling server; public PeerJS cloud when missing */
+  signaling?: SignalingServer;
+  /** Group key from the account: peers must prove they have it, and traffic is encrypted with it */
+  groupKey?: string;
 }
 
-// Image sync message types (JSON over DataConnection)
-type ReqImgMsg = { t: 'reqImg'; id: string };
-type ImgMsg = { t: 'img'; id: string; b: string };
-
 // Context value type
 interface YjsContextValue {
   ydoc: Y.Doc;
@@ -31,14 +39,27 @@ interface YjsContextValue {
   expenses: Y.Array<Expense>;
   people: Y.Array<Person>;
   payments: Y.Array<Payment>;
+  splitPresets: Y.Array<SplitPreset>;
+  recurring: Y.Array<RecurringExpense>;
+  categoryBudgets: Y.Map<number>;
+  exchangeRates: Y.Map<number>;
+  devices: Y.Map<GroupDevice>;
   isConnected: boolean;
   isSynced: boolean;
   connectedPeers: AwarenessUser[];
+  /** Every peer seen since connecting to this account, online or not */
+  peers: AwarenessUser[];
+  /** Device id -> whether it's reachable; devices not dialed yet are missing */
+  reachability: Record<string, Reachability>;
   connect: (roomName: string, options: ConnectOptions) => void;
   disconnect: () => void;
-  setAwareness: (user: AwarenessUser) => void;
-  /** Request receipt image from peers (shared accounts). Resolves when received or after timeout. */
-  requestImage: (imageId: string) => Promise<void>;
+  /** Update what this device tells peers (name, claimed person, color, screen, typing) */
+  setAwareness: (state: Partial<PresenceState>) => void;
+  /**
+   * Fetch an attachment from peers (shared accounts), thumbnail first.
+   * Resolves when saved or when no peer has it; progress is in syncStore.imageProgress.
+   */
+  requestImage: (imageId: string, options?: { thumbnailOnly?: boolean }) => Promise<void>;
 }
 
 const YjsContext = createContext<YjsContextValue | null>(null);
@@ -53,6 +74,21 @@ export function useYjsOptional() {
   return useContext(YjsContext);
 }
 
+/** A dial that hasn't opened by then counts as unreachable */
+const DIAL_TIMEOUT_MS = 15_000;
+/** First retry delay; doubles per failed attempt */
+const RECONNECT_BASE_MS = 1000;
+/** Longest wait before retrying the signaling server */
+const RECONNECT_MAX_MS = 60_000;
+/** Longest wait before redialing a member (offline members get redialed forever) */
+const REDIAL_MAX_MS = 5 * 60_000;
+
+/** Exponential backoff with jitter, so devices that dropped together don't retry in lockstep */
+function backoffDelay(attempt: number, maxMs: number): number {
+  const ceiling = Math.min(maxMs, RECONNECT_BASE_MS * 2 ** attempt);
+  return ceiling / 2 + Math.random() * (ceiling / 2);
+}
+
 interface YjsProviderProps {
   children: ReactNode;
   dbName: string;
@@ -60,100 +96,102 @@ interface YjsProviderProps {
 
 /**
  * Sync Yjs over PeerJS DataChannels (no y-webrtc).
- * 1. Send full state on new connection: Y.encodeStateAsUpdate(ydoc)
+ * 1. On new connection: exchange state vectors, send only the missing diff (docSync)
  * 2. On data: Y.applyUpdate(ydoc, data, conn) so we don't echo back
- * 3. On ydoc update: broadcast to all conns except origin
+ * 3. On ydoc update: batched and sent to this conn unless it came from it
+ * With a session (groups with a key), everything goes through it encrypted.
  */
 function setupYjsSync(
   ydoc: Y.Doc,
   conn: DataConnection,
+  session: SecureSession | null,
   connectionsRef: MutableRefObject<Set<DataConnection>>,
-  setConnectedPeers: (peers: AwarenessUser[]) => void,
   setIsConnected: (v: boolean) => void,
   setConnectionError: (error: string | null) => void,
-  onRequestImage: (conn: DataConnection, imageId: string) => void,
-  onImageReceived: (imageId: string, base64: string) => void
+  imageTransfer: ImageTransfer,
+  presence: Presence,
+  onSync: (peerId: string) => void,
+  onTransfer: (peerId: string, transfer: DocTransfer) => void
 ): () => void {
   const connections = connectionsRef.current;
+  const channel: Channel = session?.channel ?? conn;
   connections.add(conn);
+  imageTransfer.addConnection(channel);
+  presence.addConnection(channel);
   setConnectionError(null);
 
   conn.on('error', (err) => {
     setConnectionError(err?.message ?? 'Connection failed');
   });
 
-  // 1. Send local state to new peer
-  const state = Y.encodeStateAsUpdate(ydoc);
-  if (state.byteLength > 0) {
-    try {
-      conn.send(state.buffer.slice(state.byteOffset, state.byteOffset + state.byteLength));
-    } catch {
-      // ignore
-    }
-  }
+  // 1 and 3: handshake, then local updates to this peer
+  const docSync = createDocSync(ydoc, channel, () => onSync(conn.peer), (transfer) => onTransfer(conn.peer, transfer));
 
-  // 2. Receive updates from peer (origin = conn so we don't re-broadcast to sender). Also handle image sync (JSON).
-  const onData = (data: unknown) => {
+  // 2. Receive updates from peer (origin = conn so we don't re-broadcast to sender).
+  // Attachment transfers come as objects (or JSON strings from older versions).
+  const dispatch = (data: unknown) => {
+    if (isPresenceMessage(data)) {
+      presence.handleMessage(channel, data);
+      return;
+    }
     if (typeof data === 'string') {
       try {
-        const msg = JSON.parse(data) as ReqImgMsg | ImgMsg;
-        if (msg.t === 'reqImg' && msg.id) onRequestImage(conn, msg.id);
-        else if (msg.t === 'img' && msg.id && msg.b) onImageReceived(msg.id, msg.b);
+        imageTransfer.handleMessage(channel, JSON.parse(data) as ImageMessage);
       } catch {
         // ignore invalid JSON
       }
       return;
     }
-    try {
-      const buf = data instanceof ArrayBuffer
-        ? new Uint8Array(data)
-        : data instanceof Uint8Array
-          ? data
-          : null;
-      if (buf && buf.byteLength > 0) {
-        Y.applyUpdate(ydoc, buf, conn);
-      }
-    } catch (e) {
-      console.error('[Yjs] applyUpdate error', e);
+    if (isDocMessage(data)) {
+      docSync.handleMessage(data);
+      return;
+    }
+    if (isImageMessage(data)) {
+      imageTransfer.handleMessage(channel, data);
+      return;
     }
+    // Raw updates come from peers on older versions
+    const buf = data instanceof ArrayBuffer
+      ? new Uint8Array(data)
+      : data instanceof Uint8Array
+        ? data
+        : null;
+    if (buf && buf.byteLength > 0) docSync.handleLegacyUpdate(buf);
   };
 
-  // 3. Broadcast local updates to all peers except the one that sent the update
-  const onUpdate = (update: Uint8Array, origin: unknown) => {
-    const payload = update.buffer.slice(update.byteOffset, update.byteOffset + update.byteLength);
-    for (const c of connections) {
-      if (c !== origin && (c as DataConnection & { open?: boolean }).open !== false) {
-        try {
-          c.send(payload);
-        } catch {
-          // ignore
-        }
-      }
+  const onData = (data: unknown) => {
+    if (session) {
+      session.receive(data, dispatch);
+      return;
     }
+    if (isAuthMessage(data)) {
+      // The peer has a group key and this device doesn't: it will turn us away
+      setConnectionError('This group now verifies its members. Join again with a new invite link to keep syncing.');
+      return;
+    }
+    dispatch(data);
   };
 
+  session?.early.forEach(onData);
   conn.on('data', onData);
-  ydoc.on('update', onUpdate);
 
-  const updatePeerList = () => {
-    setIsConnected(connections.size > 0);
-    setConnectedPeers(
-      Array.from(connections).map((c) => ({ id: c.peer, name: 'Peer' }))
-    );
-  };
-  updatePeerList();
+  setIsConnected(true);
 
   const onClose = () => {
     connections.delete(conn);
-    ydoc.off('update', onUpdate);
-    updatePeerList();
+    imageTransfer.removeConnection(channel);
+    presence.removeConnection(channel);
+    docSync.close();
+    setIsConnected(connections.size > 0);
   };
   conn.on('close', onClose);
 
   return () => {
     connections.delete(conn);
-    ydoc.off('update', onUpdate);
-    updatePeerList();
+    imageTransfer.removeConnection(channel);
+    presence.removeConnection(channel);
+    docSync.close();
+    setIsConnected(connections.size > 0);
   };
 }
 
@@ -165,99 +203,63 @@ export function YjsProvider({ children, dbName }: YjsProviderProps) {
   const cleanupFnsRef = useRef<(() => void)[]>([]);
   const prevDbNameRef = useRef<string>(dbName);
   const currentRoomRef = useRef<string | null>(null);
+  const currentSignalingRef = useRef<SignalingServer | undefined>(undefined);
+  const currentGroupKeyRef = useRef<string | undefined>(undefined);
 
   const [isConnected, setIsConnected] = useState(false);
   const [isSynced, setIsSynced] = useState(false);
-  const [connectedPeers, setConnectedPeers] = useState<AwarenessUser[]>([]);
+  const [peerPresence, setPeerPresence] = useState<Record<string, AwarenessUser>>({});
+  const [reachability, setReachability] = useState<Record<string, Reachability>>({});
   const setConnectionError = useSyncStore((s) => s.setConnectionError);
-  const pendingRequestsRef = useRef<Map<string, { resolve: () => void; reject: (e: Error) => void }>>(new Map());
-
-  const onRequestImage = useCallback(async (conn: DataConnection, imageId: string) => {
-    try {
-      const img = await db.getImage(imageId);
-      if (img?.data) {
-        const b64 = await blobToBase64(img.data);
-        conn.send(JSON.stringify({ t: 'img', id: imageId, b: b64 } as ImgMsg));
-      }
-    } catch {
-      // ignore
-    }
-  }, []);
-  const onImageReceived = useCallback(async (imageId: string, base64: string) => {
-    try {
-      const blob = await base64ToBlob(base64);
-      await db.putImage(imageId, blob);
-    } catch (e) {
-      console.error('[Yjs] putImage error', e);
-    }
-    const p = pendingRequestsRef.current.get(imageId);
-    if (p) {
-      p.resolve();
-      pendingRequestsRef.current.delete(imageId);
-    }
-  }, []);
-  const onRequestImageRef = useRef(onRequestImage);
-  const onImageReceivedRef = useRef(onImageReceived);
-  onRequestImageRef.current = onRequestImage;
-  onImageReceivedRef.current = onImageReceived;
-
-  const requestImage = useCallback((imageId: string): Promise<void> => {
-    return new Promise((resolve, reject) => {
-      void db.getImage(imageId).then((img) => {
-        if (img) {
-          resolve();
-          return;
-        }
-        const conns = connectionsRef.current;
-        if (conns.size === 0) {
-          resolve();
-          return;
-        }
-        pendingRequestsRef.current.set(imageId, { resolve, reject });
-        const msg = JSON.stringify({ t: 'reqImg', id: imageId } as ReqImgMsg);
-        for (const c of conns) {
-          try {
-            c.send(msg);
-          } catch {
-            // ignore
-          }
-        }
-        setTimeout(() => {
-          if (pendingRequestsRef.current.has(imageId)) {
-            pendingRequestsRef.current.get(imageId)?.reject(new Error('Timeout'));
-            pendingRequestsRef.current.delete(imageId);
-          }
-        }, 8000);
-      });
-    });
+  const setImageProgress = useSyncStore((s) => s.setImageProgress);
+  const setLastConnectParams = useSyncStore((s) => s.setLastConnectParams);
+  const setReconnecting = useSyncStore((s) => s.setReconnecting);
+  const recordPeerSync = useSyncStore((s) => s.recordPeerSync);
+  const recordTransfer = useSyncStore((s) => s.recordTransfer);
+  const [imageTransfer] = useState(() => createImageTransfer(setImageProgress));
+  const [presence] = useState(() => createPresence(setPeerPresence));
+  const peers = useMemo(() => Object.values(peerPresence), [peerPresence]);
+  const connectedPeers = useMemo(() => peers.filter((p) => p.online), [peers]);
+  const requestImage = imageTransfer.request;
+
+  /** Stop the reconnect supervisor first, so destroying the peer doesn't schedule a retry */
+  const closePeer = useCallback(() => {
+    const peer = peerRef.current;
+    const connections = [...connectionsRef.current];
+    cleanupFnsRef.current.forEach((fn) => fn());
+    cleanupFnsRef.current = [];
+    connections.forEach((c) => c.close());
+    connectionsRef.current.clear();
+    peerRef.current = null;
+    peer?.destroy();
   }, []);
 
   // Recreate Yjs document when dbName changes
   useEffect(() => {
     if (prevDbNameRef.current !== dbName) {
-      if (peerRef.current) {
-        peerRef.current.destroy();
-        peerRef.current = null;
-      }
-      connectionsRef.current.forEach((c) => c.close());
-      connectionsRef.current.clear();
-      cleanupFnsRef.current.forEach((fn) => fn());
-      cleanupFnsRef.current = [];
+      closePeer();
+      imageTransfer.clear();
       persistenceRef.current?.destroy();
       persistenceRef.current = null;
       ydoc.destroy();
       setYdoc(new Y.Doc());
       setIsConnected(false);
       setIsSynced(false);
-      setConnectedPeers([]);
+      presence.clear();
+      setReachability({});
       currentRoomRef.current = null;
       prevDbNameRef.current = dbName;
     }
-  }, [dbName, ydoc]);
+  }, [dbName, ydoc, imageTransfer, presence, closePeer]);
 
   const expenses = useMemo(() => ydoc.getArray<Expense>('expenses'), [ydoc]);
   const people = useMemo(() => ydoc.getArray<Person>('people'), [ydoc]);
   const payments = useMemo(() => ydoc.getArray<Payment>('payments'), [ydoc]);
+  const splitPresets = useMemo(() => ydoc.getArray<SplitPreset>('splitPresets'), [ydoc]);
+  const recurring = useMemo(() => ydoc.getArray<RecurringExpense>('recurring'), [ydoc]);
+  const categoryBudgets = useMemo(() => ydoc.getMap<number>('categoryBudgets'), [ydoc]);
+  const exchangeRates = useMemo(() => ydoc.getMap<number>('exchangeRates'), [ydoc]);
+  const devices = useMemo(() => ydoc.getMap<GroupDevice>('devices'), [ydoc]);
 
   // IndexedDB persistence
   useEffect(() => {
@@ -271,108 +273,270 @@ export function YjsProvider({ children, dbName }: YjsProviderProps) {
     };
   }, [dbName, ydoc]);
 
+  const markReachability = useCallback((id: string, state: Reachability) => {
+    setReachability((prev) => (prev[id] === state ? prev : { ...prev, [id]: state }));
+  }, []);
+
+  /**
+   * Full mesh: every device accepts connections and dials every other device
+   * listed in the document's 'devices' map (plus the creator, which is how a
+   * new member gets the list). Updates are re-broadcast to all other
+   * connections, so any online member relays between the rest.
+   *
+   * A supervisor keeps it up: losing the signaling server retries
+   * `peer.reconnect()` (or a new Peer once PeerJS has given up on it) with
+   * backoff, dropped and failed members are redialed with backoff, and coming
+   * back online or to the foreground retries everything right away.
+   */
   const connect = useCallback(
     (roomName: string, options: ConnectOptions) => {
       setConnectionError(null);
-      const { deviceId, hostDeviceId } = options;
-      const isHost = !hostDeviceId || hostDeviceId === deviceId;
-
-      if (currentRoomRef.current === roomName && peerRef.current) {
+      const { deviceId, hostDeviceId, signaling, groupKey } = options;
+      setLastConnectParams({ roomName, ...options });
+
+      // Changing the account's server or key reconnects with the new one
+      if (
+        currentRoomRef.current === roomName &&
+        peerRef.current &&
+        sameSignaling(currentSignalingRef.current, signaling) &&
+        currentGroupKeyRef.current === groupKey
+      ) {
         return;
       }
 
-      if (peerRef.current) {
-        peerRef.current.destroy();
-        peerRef.current = null;
-      }
-      connectionsRef.current.forEach((c) => c.close());
-      connectionsRef.current.clear();
-      cleanupFnsRef.current.forEach((fn) => fn());
-      cleanupFnsRef.current = [];
+      closePeer();
+      setReachability({});
       currentRoomRef.current = roomName;
+      currentSignalingRef.current = signaling;
+      currentGroupKeyRef.current = groupKey;
+
+      let peer: Peer;
+      let stopped = false;
+      let retryTimer: ReturnType<typeof setTimeout> | undefined;
+      let brokerAttempt = 0;
+      /** Connections this device dialed (the rest were accepted) */
+      const outgoing = new WeakSet<DataConnection>();
+      /** Dials not open yet: remote device id -> give up */
+      const dialing = new Map<string, () => void>();
+      /** Failed dials in a row and the pending redial, by remote device id */
+      const redials = new Map<string, { attempt: number; timer?: ReturnType<typeof setTimeout> }>();
+      const isConnectedTo = (id: string) => [...connectionsRef.current].some((c) => c.peer === id);
+      const isMember = (id: string) => id !== deviceId && (id === hostDeviceId || devices.has(id));
+      const onSync = (peerId: string) => recordPeerSync(roomName, peerId);
+      const onTransfer = (peerId: string, { direction, bytes, rawBytes, kind }: DocTransfer) => {
+        if (!useSettingsStore.getState().debugMode) return;
+        const compressed = rawBytes !== bytes ? ` (${rawBytes} B uncompressed)` : '';
+        console.log(`[Sync] ${direction === 'sent' ? '→' : '←'} ${peerId} ${kind}: ${bytes} B${compressed}`);
+        recordTransfer(peerId, direction, bytes);
+      };
+
+      const scheduleRedial = (remoteId: string) => {
+        if (stopped || !isMember(remoteId)) return;
+        const redial = redials.get(remoteId) ?? { attempt: 0 };
+        clearTimeout(redial.timer);
+        redial.timer = setTimeout(() => {
+          redial.timer = undefined;
+          dial(remoteId);
+        }, backoffDelay(redial.attempt++, REDIAL_MAX_MS));
+        redials.set(remoteId, redial);
+      };
+
+      const attach = (conn: DataConnection, session: SecureSession | null) => {
+        if (stopped) {
+          conn.close();
+          return;
+        }
+        const existing = [...connectionsRef.current].find((c) => c.peer === conn.peer);
+        if (existing) {
+          // Both sides dialed at once: both keep the connection dialed by the smaller device id
+          const dialer = (c: DataConnection) => (outgoing.has(c) ? deviceId : c.peer);
+          if (dialer(conn) >= dialer(existing)) {
+            conn.close();
+            return;
+          }
+          existing.close();
+        }
+        cleanupFnsRef.current.push(
+          setupYjsSync(ydoc, conn, session, connectionsRef, setIsConnected, setConnectionError, imageTransfer, presence, onSync, onTransfer)
+        );
+        clearTimeout(redials.get(conn.peer)?.timer);
+        redials.delete(conn.peer);
+        markReachability(conn.peer, 'connected');
+        conn.on('close', () => {
+          if (stopped || isConnectedTo(conn.peer)) return;
+          markReachability(conn.peer, 'unreachable');
+          scheduleRedial(conn.peer);
+        });
+      };
 
-      if (isHost) {
-        // We are the host: others connect to us
-        const peer = new Peer(deviceId, {
-          host: '0.peerjs.com',
-          path: '/',
-          secure: true
+      // Groups with a key: nothing is synced until both sides prove they have it
+      const admit = (conn: DataConnection) => {
+        if (!groupKey) {
+          attach(conn, null);
+          return;
+        }
+        authenticateConnection(conn, groupKey, deviceId).then(
+          (session) => attach(conn, session),
+          (err: Error) => {
+            conn.close();
+            if (stopped) return;
+            console.warn('[Sync] rejected', conn.peer, err.message);
+            setConnectionError(err.message);
+            if (!isConnectedTo(conn.peer)) markReachability(conn.peer, 'unreachable');
+          }
+        );
+      };
+
+      const dial = (remoteId: string) => {
+        if (stopped || !remoteId || remoteId === deviceId || peer.destroyed || !peer.open) return;
+        if (dialing.has(remoteId) || isConnectedTo(remoteId)) return;
+        const conn = peer.connect(remoteId, { reliable: true });
+        outgoing.add(conn);
+        markReachability(remoteId, 'connecting');
+
+        const settle = (opened: boolean) => {
+          if (!dialing.has(remoteId)) return;
+          clearTimeout(timer);
+          dialing.delete(remoteId);
+          if (opened) {
+            admit(conn);
+            return;
+          }
+          conn.close();
+          if (stopped || isConnectedTo(remoteId)) return;
+          markReachability(remoteId, 'unreachable');
+          scheduleRedial(remoteId);
+        };
+        const timer = setTimeout(() => settle(false), DIAL_TIMEOUT_MS);
+        dialing.set(remoteId, () => settle(false));
+        conn.on('open', () => settle(true));
+        conn.on('error', () => settle(false));
+        conn.on('close', () => settle(false));
+      };
+
+      const dialKnown = () => {
+        if (hostDeviceId) dial(hostDeviceId);
+        devices.forEach((_, id) => dial(id));
+      };
+
+      // Signaling server lost: reconnect the same peer, or start over once PeerJS destroyed it
+      const restart = () => {
+        if (stopped) return;
+        if (peer.destroyed) startPeer();
+        else if (peer.disconnected) peer.reconnect();
+        else setReconnecting(false);
+      };
+      const scheduleRestart = () => {
+        if (stopped || retryTimer) return;
+        setReconnecting(true);
+        retryTimer = setTimeout(() => {
+          retryTimer = undefined;
+          restart();
+        }, backoffDelay(brokerAttempt++, RECONNECT_MAX_MS));
+      };
+
+      const startPeer = () => {
+        const current = new Peer(deviceId, peerOptions(signaling));
+        peer = current;
+        peerRef.current = current;
+
+        current.on('open', () => {
+          console.log('[Yjs] PeerJS open, id:', deviceId);
+          brokerAttempt = 0;
+          setReconnecting(false);
+          setConnectionError(null);
+          // List this device so members who come online later can find it
+          if (!devices.has(deviceId)) devices.set(deviceId, { id: deviceId, addedAt: Date.now() });
+          dialKnown();
         });
-        peerRef.current = peer;
 
-        peer.on('open', () => {
-          console.log('[Yjs] PeerJS host open, id:', deviceId);
+        current.on('connection', (conn: DataConnection) => {
+          conn.on('open', () => admit(conn));
         });
 
-        peer.on('connection', (conn: DataConnection) => {
-          conn.on('open', () => {
-            const cleanup = setupYjsSync(
-              ydoc,
-              conn,
-              connectionsRef,
-              setConnectedPeers,
-              setIsConnected,
-              setConnectionError,
-              onRequestImageRef.current,
-              onImageReceivedRef.current
-            );
-            cleanupFnsRef.current.push(cleanup);
-          });
+        current.on('error', (err) => {
+          // An offline member isn't a connection problem; other members may still be reachable
+          if (err.type === PeerErrorType.PeerUnavailable) {
+            const remoteId = /(\S+)$/.exec(err.message)?.[1];
+            if (remoteId) dialing.get(remoteId)?.();
+            return;
+          }
+          setConnectionError(err?.message ?? 'Connection failed');
         });
-      } else {
-        // We are the joiner: connect to host (we still need our own peer id)
-        const peer = new Peer(deviceId, {
-          host: '0.peerjs.com',
-          path: '/',
-          secure: true
+        // Open data connections survive losing the server; only new dials need it
+        current.on('disconnected', () => {
+          setIsConnected(connectionsRef.current.size > 0);
+          if (peer === current) scheduleRestart();
         });
-        peerRef.current = peer;
-
-        peer.on('open', () => {
-          const conn = peer.connect(hostDeviceId!, { reliable: true });
-          conn.on('open', () => {
-            const cleanup = setupYjsSync(
-              ydoc,
-              conn,
-              connectionsRef,
-              setConnectedPeers,
-              setIsConnected,
-              setConnectionError,
-              onRequestImageRef.current,
-              onImageReceivedRef.current
-            );
-            cleanupFnsRef.current.push(cleanup);
-          });
-          conn.on('error', (err) => setConnectionError(err?.message ?? 'Connection failed'));
+        current.on('close', () => {
+          if (peer === current) scheduleRestart();
         });
-      }
-
-      peerRef.current.on('error', (err) => setConnectionError(err?.message ?? 'Connection failed'));
-      peerRef.current.on('disconnected', () => {
-        setIsConnected(connectionsRef.current.size > 0);
+      };
+
+      // Back online or in the foreground: don't wait out the backoff
+      const resume = () => {
+        if (stopped || document.visibilityState !== 'visible' || !navigator.onLine) return;
+        brokerAttempt = 0;
+        if (retryTimer) {
+          clearTimeout(retryTimer);
+          retryTimer = undefined;
+          restart();
+          return;
+        }
+        redials.forEach((redial) => clearTimeout(redial.timer));
+        redials.clear();
+        dialKnown();
+      };
+      window.addEventListener('online', resume);
+      document.addEventListener('visibilitychange', resume);
+
+      // Closing the app: peers see us leave now rather than when the connection times out
+      const leave = () => [...connectionsRef.current].forEach((c) => c.close());
+      window.addEventListener('pagehide', leave);
+
+      // Devices learned from peers get dialed as soon as they arrive; forgotten ones aren't redialed
+      const onDevicesChange = (event: Y.YMapEvent<GroupDevice>) => {
+        event.keysChanged.forEach((id) => {
+          if (devices.has(id)) {
+            dial(id);
+          } else if (id === deviceId) {
+            // Forgotten by a member while still in use: list this device again
+            if (peer.open) devices.set(deviceId, { id: deviceId, addedAt: Date.now() });
+          } else if (id !== hostDeviceId) {
+            clearTimeout(redials.get(id)?.timer);
+            redials.delete(id);
+          }
+        });
+      };
+      devices.observe(onDevicesChange);
+
+      cleanupFnsRef.current.push(() => {
+        stopped = true;
+        clearTimeout(retryTimer);
+        redials.forEach((redial) => clearTimeout(redial.timer));
+        dialing.forEach((giveUp) => giveUp());
+        window.removeEventListener('online', resume);
+        document.removeEventListener('visibilitychange', resume);
+        window.removeEventListener('pagehide', leave);
+        devices.unobserve(onDevicesChange);
+        setReconnecting(false);
       });
+
+      startPeer();
     },
-    [ydoc, setConnectionError]
+    [ydoc, devices, closePeer, setConnectionError, setLastConnectParams, setReconnecting, recordPeerSync, recordTransfer, imageTransfer, presence, markReachability]
   );
 
   const disconnect = useCallback(() => {
-    if (peerRef.current) {
-      peerRef.current.destroy();
-      peerRef.current = null;
-    }
-    connectionsRef.current.forEach((c) => c.close());
-    connectionsRef.current.clear();
-    cleanupFnsRef.current.forEach((fn) => fn());
-    cleanupFnsRef.current = [];
+    closePeer();
+    imageTransfer.clear();
     currentRoomRef.current = null;
     setIsConnected(false);
-    setConnectedPeers([]);
+    setReachability({});
     setConnectionError(null);
-  }, [setConnectionError]);
+  }, [closePeer, setConnectionError, imageTransfer]);
 
-  const setAwareness = useCallback((_user: AwarenessUser) => {
-    // No awareness protocol with simple sync; no-op so callers don't break
-  }, []);
+  const setAwareness = useCallback((state: Partial<PresenceState>) => presence.set(state), [presence]);
 
   useEffect(() => {
     return () => {
@@ -388,9 +552,16 @@ export function YjsProvider({ children, dbName }: YjsProviderProps) {
     expenses,
     people,
     payments,
+    splitPresets,
+    recurring,
+    categoryBudgets,
+    exchangeRates,
+    devices,
     isConnected,
     isSynced,
     connectedPeers,
+    peers,
+    reachability,
     connect,
     disconnect,
     setAwareness,
@@ -0,0 +1,200 @@
+/**
+ * Yjs document sync over one data connection. When it opens, each side sends
+ * its state vector and the other answers with only the updates it's missing,
+ * instead of the whole document. After that, local changes are held for a
+ * moment and sent as one merged update. Payloads of a few KB or more are
+ * deflated when the peer said it can inflate them.
+ *
+ * Peers on older versions send their whole state as a raw ArrayBuffer when
+ * the connection opens; they get ours the same way, and raw updates after.
+ */
+import * as Y from 'yjs';
+import type { Channel } from './groupAuth';
+
+/** Local changes within this long of each other go out together */
+const BATCH_DELAY_MS = 50;
+/** A busy document still sends at least this often */
+const BATCH_MAX_DELAY_MS = 500;
+/** Smaller payloads aren't worth deflating */
+const COMPRESS_MIN_BYTES = 4096;
+/** A peer that hasn't sent its state vector by then is treated as an older version */
+const HANDSHAKE_TIMEOUT_MS = 5000;
+
+const canDeflate = typeof CompressionStream !== 'undefined' && typeof DecompressionStream !== 'undefined';
+
+// sv: state vector, z: sender can inflate. d: update, z: deflated
+type SyncMsg = { t: 'ySync'; sv: ArrayBuffer | Uint8Array; z?: boolean };
+type UpdateMsg = { t: 'yUpdate'; d: ArrayBuffer | Uint8Array; z?: boolean };
+
+export type DocMessage = SyncMsg | UpdateMsg;
+
+export interface DocTransfer {
+  direction: 'sent' | 'received';
+  /** Bytes on the wire */
+  bytes: number;
+  /** Bytes before compression */
+  rawBytes: number;
+  kind: 'diff' | 'update' | 'full';
+}
+
+export interface DocSync {
+  handleMessage: (msg: DocMessage) => void;
+  /** A raw update from a peer on an older version */
+  handleLegacyUpdate: (update: Uint8Array) => void;
+  /** Stop sending (the connection closed) */
+  close: () => void;
+}
+
+export function isDocMessage(data: unknown): data is DocMessage {
+  if (typeof data !== 'object' || data === null) return false;
+  const t = (data as { t?: unknown }).t;
+  return t === 'ySync' || t === 'yUpdate';
+}
+
+function toBytes(data: ArrayBuffer | Uint8Array): Uint8Array<ArrayBuffer> {
+  return data instanceof Uint8Array ? data.slice() : new Uint8Array(data);
+}
+
+function toArrayBuffer(data: Uint8Array): ArrayBuffer {
+  return data.slice().buffer;
+}
+
+async function pipe(data: Uint8Array, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+  const piped = new Blob([data.slice()]).stream().pipeThrough(stream);
+  return new Uint8Array(await new Response(piped).arrayBuffer());
+}
+
+/**
+ * @param onSync - an update went to or came from the peer
+ * @param onTransfer - every payload sent or received, for debug stats
+ */
+export function createDocSync(
+  ydoc: Y.Doc,
+  conn: Channel,
+  onSync: () => void,
+  onTransfer: (transfer: DocTransfer) => void
+): DocSync {
+  let mode: 'handshake' | 'sync' | 'legacy' = 'handshake';
+  let closed = false;
+  let peerInflates = false;
+  let pending: Uint8Array[] = [];
+  let batchTimer: ReturnType<typeof setTimeout> | undefined;
+  let firstPendingAt = 0;
+  // Compression is async; chains keep updates in order each way
+  let sending = Promise.resolve();
+  let receiving = Promise.resolve();
+
+  const sendUpdate = (update: Uint8Array, kind: DocTransfer['kind']) => {
+    sending = sending.then(async () => {
+      if (closed) return;
+      if (mode === 'legacy') {
+        conn.send(toArrayBuffer(update));
+        onTransfer({ direction: 'sent', bytes: update.byteLength, rawBytes: update.byteLength, kind });
+        onSync();
+        return;
+      }
+      let payload = update;
+      let z = false;
+      if (peerInflates && update.byteLength >= COMPRESS_MIN_BYTES) {
+        const deflated = await pipe(update, new CompressionStream('deflate-raw'));
+        if (deflated.byteLength < update.byteLength) {
+          payload = deflated;
+          z = true;
+        }
+      }
+      if (closed) return;
+      conn.send({ t: 'yUpdate', d: toArrayBuffer(payload), ...(z && { z: true }) } satisfies UpdateMsg);
+      onTransfer({ direction: 'sent', bytes: payload.byteLength, rawBytes: update.byteLength, kind });
+      onSync();
+    }).catch((e) => {
+      // Closed mid-send; the close handler cleans up
+      if (!closed) console.error('[Yjs] send error', e);
+    });
+  };
+
+  const flush = () => {
+    clearTimeout(batchTimer);
+    batchTimer = undefined;
+    if (pending.length === 0 || mode === 'handshake') return;
+    const update = pending.length === 1 ? pending[0] : Y.mergeUpdates(pending);
+    pending = [];
+    sendUpdate(update, 'update');
+  };
+
+  const onLocalUpdate = (update: Uint8Array, origin: unknown) => {
+    // Don't echo an update back to the peer it came from
+    if (closed || origin === conn) return;
+    if (pending.length === 0) firstPendingAt = Date.now();
+    pending.push(update);
+    if (mode === 'handshake') return;
+    clearTimeout(batchTimer);
+    const wait = Math.min(BATCH_DELAY_MS, Math.max(0, firstPendingAt + BATCH_MAX_DELAY_MS - Date.now()));
+    batchTimer = setTimeout(flush, wait);
+  };
+  ydoc.on('update', onLocalUpdate);
+
+  const applyRemote = (update: Uint8Array) => {
+    if (update.byteLength === 0) return;
+    try {
+      Y.applyUpdate(ydoc, update, conn);
+      onSync();
+    } catch (e) {
+      console.error('[Yjs] applyUpdate error', e);
+    }
+  };
+
+  // Older peers never send a state vector: give them everything, raw
+  const becomeLegacy = () => {
+    if (mode !== 'handshake') return;
+    clearTimeout(handshakeTimer);
+    mode = 'legacy';
+    pending = [];
+    sendUpdate(Y.encodeStateAsUpdate(ydoc), 'full');
+  };
+  const handshakeTimer = setTimeout(becomeLegacy, HANDSHAKE_TIMEOUT_MS);
+
+  try {
+    const sv = Y.encodeStateVector(ydoc);
+    conn.send({ t: 'ySync', sv: toArrayBuffer(sv), ...(canDeflate && { z: true }) } satisfies SyncMsg);
+  } catch {
+    // closed already
+  }
+
+  return {
+    handleMessage(msg) {
+      if (closed) return;
+      if (msg.t === 'ySync') {
+        clearTimeout(handshakeTimer);
+        mode = 'sync';
+        peerInflates = msg.z === true;
+        // The diff covers everything queued so far
+        pending = [];
+        sendUpdate(Y.encodeStateAsUpdate(ydoc, toBytes(msg.sv)), 'diff');
+        return;
+      }
+      const wireBytes = msg.d.byteLength;
+      receiving = receiving.then(async () => {
+        const data = toBytes(msg.d);
+        const update = msg.z ? await pipe(data, new DecompressionStream('deflate-raw')) : data;
+        if (closed) return;
+        onTransfer({ direction: 'received', bytes: wireBytes, rawBytes: update.byteLength, kind: 'update' });
+        applyRemote(update);
+      }).catch((e) => console.error('[Yjs] receive error', e));
+    },
+
+    handleLegacyUpdate(update) {
+      if (closed) return;
+      becomeLegacy();
+      onTransfer({ direction: 'received', bytes: update.byteLength, rawBytes: update.byteLength, kind: 'update' });
+      applyRemote(update);
+    },
+
+    close() {
+      closed = true;
+      clearTimeout(handshakeTimer);
+      clearTimeout(batchTimer);
+      pending = [];
+      ydoc.off('update', onLocalUpdate);
+    }
+  };
+}
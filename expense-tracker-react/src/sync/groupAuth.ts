@@ -0,0 +1,249 @@
+/**
+ * Group membership and encryption for sync connections. Every shared account
+ * has a random group key, created with the account and handed out only in
+ * invites (QR code or link). When a connection opens, each side sends a
+ * random challenge and answers the other's with an HMAC over both challenges
+ * and its device id, keyed from the group key: the key itself never crosses
+ * the wire, and a device without it can't answer. Both challenges then salt
+ * a per-connection AES-GCM key that encrypts every message after that.
+ */
+import type { DataConnection } from 'peerjs';
+
+/** A peer that hasn't finished the handshake by then is turned away */
+const AUTH_TIMEOUT_MS = 10_000;
+const KEY_BYTES = 32;
+const NONCE_BYTES = 16;
+const IV_BYTES = 12;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+// n: challenge, p: proof for the other side's challenge
+type AuthMsg = { t: 'auth'; n: ArrayBuffer | Uint8Array };
+type ProofMsg = { t: 'authProof'; p: ArrayBuffer | Uint8Array };
+type FailMsg = { t: 'authFail' };
+type EncryptedMsg = { t: 'enc'; iv: ArrayBuffer | Uint8Array; c: ArrayBuffer | Uint8Array };
+
+/** What sync messages go through: the connection itself, or its encrypted session */
+export interface Channel {
+  readonly peer: string;
+  send: (data: unknown) => void;
+}
+
+export interface SecureSession {
+  /** Encrypts everything sent through it */
+  channel: Channel;
+  /** Decrypt a message from the peer; delivers in order, drops anything unencrypted or tampered with */
+  receive: (data: unknown, deliver: (msg: unknown) => void) => void;
+  /** Messages that arrived while the handshake was finishing */
+  early: unknown[];
+}
+
+function messageType(data: unknown): unknown {
+  return typeof data === 'object' && data !== null ? (data as { t?: unknown }).t : undefined;
+}
+
+/** An authentication challenge, i.e. the peer expects a group key */
+export function isAuthMessage(data: unknown): data is AuthMsg {
+  return messageType(data) === 'auth';
+}
+
+function toBytes(data: ArrayBuffer | Uint8Array): Uint8Array<ArrayBuffer> {
+  return data instanceof Uint8Array ? data.slice() : new Uint8Array(data);
+}
+
+function concat(...parts: Uint8Array[]): Uint8Array<ArrayBuffer> {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.byteLength, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.byteLength;
+  }
+  return out;
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(encoded: string): Uint8Array<ArrayBuffer> {
+  return Uint8Array.from(atob(encoded.replace(/-/g, '+').replace(/_/g, '/')), c => c.charCodeAt(0));
+}
+
+/** New random group key (base64url), for a new shared account */
+export function generateGroupKey(): string {
+  return toBase64Url(crypto.getRandomValues(new Uint8Array(KEY_BYTES)));
+}
+
+/** Key from an invite, or undefined when it isn't one */
+export function parseGroupKey(encoded: string | null | undefined): string | undefined {
+  if (!encoded || !/^[A-Za-z0-9_-]+$/.test(encoded)) return undefined;
+  try {
+    return fromBase64Url(encoded).byteLength === KEY_BYTES ? encoded : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+async function deriveKeys(groupKey: string, sessionSalt: Uint8Array<ArrayBuffer>) {
+  const base = await crypto.subtle.importKey('raw', fromBase64Url(groupKey), 'HKDF', false, ['deriveKey']);
+  const hkdf = (salt: Uint8Array<ArrayBuffer>, info: string) => ({ name: 'HKDF', hash: 'SHA-256', salt, info: encoder.encode(info) });
+  const [proofKey, sessionKey] = await Promise.all([
+    crypto.subtle.deriveKey(hkdf(new Uint8Array(0), 'expense-tracker proof'), base, { name: 'HMAC', hash: 'SHA-256' }, false, ['sign', 'verify']),
+    crypto.subtle.deriveKey(hkdf(sessionSalt, 'expense-tracker session'), base, { name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt'])
+  ]);
+  return { proofKey, sessionKey };
+}
+
+/** What a device signs to answer `challenge`: both challenges and its own id */
+function proofData(challenge: Uint8Array, ownNonce: Uint8Array, proverId: string): Uint8Array<ArrayBuffer> {
+  return concat(encoder.encode('proof'), challenge, ownNonce, encoder.encode(proverId));
+}
+
+/**
+ * Messages as bytes, binary fields (ArrayBuffer / Uint8Array) kept as they
+ * are: JSON with placeholders, then each binary part with its length.
+ */
+function pack(msg: unknown): Uint8Array<ArrayBuffer> {
+  const parts: Uint8Array[] = [];
+  const json = encoder.encode(JSON.stringify(msg, (_key, value: unknown) => {
+    if (value instanceof ArrayBuffer) value = new Uint8Array(value);
+    if (ArrayBuffer.isView(value)) {
+      parts.push(new Uint8Array(value.buffer, value.byteOffset, value.byteLength));
+      return { $bin: parts.length - 1 };
+    }
+    return value;
+  }));
+  const chunks: Uint8Array[] = [];
+  for (const part of [json, ...parts]) {
+    const length = new Uint8Array(4);
+    new DataView(length.buffer).setUint32(0, part.byteLength);
+    chunks.push(length, part);
+  }
+  return concat(...chunks);
+}
+
+function unpack(bytes: Uint8Array<ArrayBuffer>): unknown {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const parts: Uint8Array<ArrayBuffer>[] = [];
+  for (let offset = 0; offset < bytes.byteLength;) {
+    const length = view.getUint32(offset);
+    parts.push(bytes.slice(offset + 4, offset + 4 + length));
+    offset += 4 + length;
+  }
+  const [json, ...binary] = parts;
+  return JSON.parse(decoder.decode(json), (_key, value: unknown) => {
+    const index = (value as { $bin?: unknown } | null)?.$bin;
+    return typeof index === 'number' ? binary[index].buffer : value;
+  });
+}
+
+function createSession(conn: DataConnection, key: CryptoKey, deviceId: string, early: unknown[]): SecureSession {
+  // Each side's messages are bound to its id, so one can't be reflected back as the other's
+  const ownTag = encoder.encode(deviceId);
+  const peerTag = encoder.encode(conn.peer);
+  let sending = Promise.resolve();
+  let receiving = Promise.resolve();
+
+  return {
+    channel: {
+      peer: conn.peer,
+      send(data) {
+        sending = sending.then(async () => {
+          const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+          const c = await crypto.subtle.encrypt({ name: 'AES-GCM', iv, additionalData: ownTag }, key, pack(data));
+          conn.send({ t: 'enc', iv: iv.buffer, c } satisfies EncryptedMsg);
+        }).catch(() => {
+          // closed; the close handler cleans up
+        });
+      }
+    },
+
+    receive(data, deliver) {
+      if (messageType(data) !== 'enc') return;
+      const { iv, c } = data as EncryptedMsg;
+      receiving = receiving.then(async () => {
+        const plain = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: toBytes(iv), additionalData: peerTag }, key, toBytes(c));
+        deliver(unpack(new Uint8Array(plain)));
+      }).catch(() => console.warn('[Sync] dropped a message from', conn.peer, 'that failed to decrypt'));
+    },
+
+    early
+  };
+}
+
+/**
+ * Prove group membership to the peer on an open connection and check its
+ * proof. Resolves with the encrypted session; rejects with a message for the
+ * user when either side doesn't have the group key.
+ */
+export function authenticateConnection(conn: DataConnection, groupKey: string, deviceId: string): Promise<SecureSession> {
+  return new Promise((resolve, reject) => {
+    const ownNonce = crypto.getRandomValues(new Uint8Array(NONCE_BYTES));
+    let peerNonce: Uint8Array<ArrayBuffer> | null = null;
+    let keys: Awaited<ReturnType<typeof deriveKeys>> | null = null;
+    let proofSent = false;
+    let verified = false;
+    let done = false;
+    const early: unknown[] = [];
+    let handling = Promise.resolve();
+
+    const finish = (error?: Error) => {
+      if (done) return;
+      done = true;
+      clearTimeout(timer);
+      conn.off('data', onData);
+      if (error || !keys) reject(error ?? new Error('Sync handshake failed'));
+      else resolve(createSession(conn, keys.sessionKey, deviceId, early));
+    };
+    const timer = setTimeout(
+      () => finish(new Error(`Device ${conn.peer} didn't verify it's in this group. It may need an update or a new invite link.`)),
+      AUTH_TIMEOUT_MS
+    );
+
+    const handle = async (data: AuthMsg | ProofMsg | FailMsg) => {
+      if (done) return;
+      if (data.t === 'authFail') {
+        finish(new Error(`Device ${conn.peer} turned this device away: the group key doesn't match. Join again with a new invite link.`));
+        return;
+      }
+      if (data.t === 'auth') {
+        peerNonce = toBytes(data.n);
+        // Both sides get the same session salt: the two challenges, ordered by device id
+        const salt = deviceId < conn.peer ? concat(ownNonce, peerNonce) : concat(peerNonce, ownNonce);
+        keys = await deriveKeys(groupKey, salt);
+        const proof = await crypto.subtle.sign('HMAC', keys.proofKey, proofData(peerNonce, ownNonce, deviceId));
+        conn.send({ t: 'authProof', p: proof } satisfies ProofMsg);
+        proofSent = true;
+      } else {
+        if (!keys || !peerNonce) return;
+        verified = await crypto.subtle.verify('HMAC', keys.proofKey, toBytes(data.p), proofData(ownNonce, peerNonce, conn.peer));
+        if (!verified) {
+          conn.send({ t: 'authFail' } satisfies FailMsg);
+          finish(new Error(`Device ${conn.peer} isn't in this group: its key doesn't match. Ask them to join with a new invite link.`));
+          return;
+        }
+      }
+      if (proofSent && verified) finish();
+    };
+
+    // Handshake messages in order; anything else is the peer starting to sync after verifying us
+    const onData = (data: unknown) => {
+      const t = messageType(data);
+      if (t === 'auth' || t === 'authProof' || t === 'authFail') {
+        handling = handling
+          .then(() => handle(data as AuthMsg | ProofMsg | FailMsg))
+          .catch(() => finish(new Error(`Couldn't verify device ${conn.peer}`)));
+      } else {
+        early.push(data);
+      }
+    };
+    conn.on('data', onData);
+
+    try {
+      conn.send({ t: 'auth', n: ownNonce.buffer } satisfies AuthMsg);
+    } catch {
+      finish(new Error(`Lost the connection to device ${conn.peer}`));
+    }
+  });
+}
@@ -0,0 +1,415 @@
+/**
+ * Attachment transfer between peers. Files go as binary chunks that the
+ * receiver acknowledges one by one, thumbnail first so lists fill in quickly.
+ * A transfer that stalls or loses its connection keeps the chunks it has and
+ * resumes from there - with another peer, or once a peer reconnects. Each
+ * part is checked against the sender's SHA-256 hash before it's saved.
+ *
+ * Messages are objects (PeerJS packs their ArrayBuffers as binary). Peers on
+ * older versions ask with `reqImg` and get the whole file as base64 JSON.
+ */
+import * as db from '@/db/operations';
+import { blobToBase64, base64ToBlob, sha256Hex } from '@/lib/utils';
+import { createThumbnail, getAttachmentKind } from '@/lib/attachments';
+import type { Channel } from './groupAuth';
+
+/** Stays under the WebRTC message size browsers agree on */
+const CHUNK_SIZE = 16 * 1024;
+/** Chunks sent ahead of the last acknowledged one */
+const WINDOW = 8;
+/** Transfers running at once, across all peers */
+const MAX_ACTIVE_TRANSFERS = 2;
+/** A peer that sends nothing for this long is given up on (its chunks are kept) */
+const STALL_TIMEOUT = 15_000;
+/** A request fails when no peer could be asked for this long */
+const NO_PEER_TIMEOUT = 60_000;
+/** Hash mismatches before a peer's copy is given up on */
+const MAX_HASH_RETRIES = 2;
+
+type Part = 'thumb' | 'data';
+
+// Messages from older versions (JSON strings)
+type ReqImgMsg = { t: 'reqImg'; id: string };
+/** m: MIME type and n: file name, for PDF and e-receipt attachments */
+type ImgMsg = { t: 'img'; id: string; b: string; m?: string; n?: string };
+
+// Chunked transfer: receiver asks from a chunk index, sender describes the part then streams it
+type GetMsg = { t: 'imgGet'; id: string; part: Part; from: number };
+type InfoMsg =
+  | { t: 'imgInfo'; id: string; part: Part; size: number; chunks: number; hash: string; m?: string; n?: string; missing?: false }
+  | { t: 'imgInfo'; id: string; part: Part; missing: true };
+type ChunkMsg = { t: 'imgChunk'; id: string; part: Part; i: number; d: ArrayBuffer | Uint8Array };
+type AckMsg = { t: 'imgAck'; id: string; part: Part; i: number };
+
+export type ImageMessage = ReqImgMsg | ImgMsg | GetMsg | InfoMsg | ChunkMsg | AckMsg;
+
+type PartInfo = Extract<InfoMsg, { missing?: false }>;
+
+interface Incoming {
+  id: string;
+  part: Part;
+  info: PartInfo | null;
+  /** Chunks received so far, in order */
+  received: Uint8Array[];
+  /** Peer sending it right now */
+  conn: Channel | null;
+  /** Peers that don't have it (or sent a broken copy) */
+  tried: Set<Channel>;
+  /** Peers asked the old way after they didn't answer */
+  askedLegacy: Set<Channel>;
+  hashRetries: number;
+  timer: ReturnType<typeof setTimeout> | undefined;
+  waiters: { resolve: () => void; reject: (e: Error) => void }[];
+}
+
+interface Outgoing {
+  bytes: Uint8Array;
+  chunks: number;
+  next: number;
+  acked: number;
+  timer: ReturnType<typeof setTimeout> | undefined;
+}
+
+export interface ImageTransfer {
+  /** Fetch an attachment (or just its thumbnail) from peers; resolves when saved or no peer has it */
+  request: (id: string, options?: { thumbnailOnly?: boolean }) => Promise<void>;
+  handleMessage: (conn: Channel, msg: ImageMessage) => void;
+  addConnection: (conn: Channel) => void;
+  removeConnection: (conn: Channel) => void;
+  /** Fail pending requests and stop sending (e.g. when leaving sync) */
+  clear: () => void;
+}
+
+export function isImageMessage(data: unknown): data is ImageMessage {
+  return typeof data === 'object' && data !== null
+    && !(data instanceof ArrayBuffer) && !ArrayBuffer.isView(data)
+    && typeof (data as { t?: unknown }).t === 'string';
+}
+
+function send(conn: Channel, msg: ImageMessage | string) {
+  try {
+    conn.send(msg);
+  } catch {
+    // closed; the close handler cleans up
+  }
+}
+
+/** Save a whole attachment; documents get their thumbnail rendered here */
+async function saveReceived(id: string, blob: Blob, meta: { type?: string; name?: string }, thumbnail?: Blob) {
+  const kind = getAttachmentKind(meta.type, meta.name);
+  // Photos without a thumbnail yet are their own thumbnail
+  const thumb = thumbnail ?? (kind === 'image' ? undefined : await createThumbnail(blob, kind).catch(() => undefined));
+  await db.putImage(id, blob, thumb, meta);
+}
+
+/**
+ * @param onProgress - progress (0-1) of the file being fetched, null when done
+ */
+export function createImageTransfer(onProgress: (id: string, progress: number | null) => void): ImageTransfer {
+  const connections = new Set<Channel>();
+  const transfers = new Map<string, Incoming>();
+  const active = new Set<Incoming>();
+  /** Chunks of failed transfers, so asking again resumes */
+  const partials = new Map<string, { info: PartInfo; received: Uint8Array[] }>();
+  const outgoing = new Map<Channel, Map<string, Outgoing>>();
+
+  const keyOf = (id: string, part: Part) => `${id}:${part}`;
+
+  const settle = (transfer: Incoming, error?: Error) => {
+    clearTimeout(transfer.timer);
+    active.delete(transfer);
+    transfers.delete(keyOf(transfer.id, transfer.part));
+    if (error && transfer.info && transfer.received.length > 0) {
+      partials.set(keyOf(transfer.id, transfer.part), { info: transfer.info, received: transfer.received });
+    } else {
+      partials.delete(keyOf(transfer.id, transfer.part));
+    }
+    if (transfer.part === 'data') onProgress(transfer.id, null);
+    transfer.waiters.forEach(w => (error ? w.reject(error) : w.resolve()));
+    pump();
+  };
+
+  /** Wait for a peer to ask; give up if none comes along */
+  const requeue = (transfer: Incoming) => {
+    clearTimeout(transfer.timer);
+    active.delete(transfer);
+    transfer.conn = null;
+    transfer.timer = setTimeout(() => settle(transfer, new Error('Timeout')), NO_PEER_TIMEOUT);
+  };
+
+  const armStallTimer = (transfer: Incoming) => {
+    clearTimeout(transfer.timer);
+    transfer.timer = setTimeout(() => {
+      const conn = transfer.conn;
+      if (!conn) return;
+      // Peers on older versions don't know the chunked protocol; ask them the old way once
+      if (!transfer.info && !transfer.askedLegacy.has(conn)) {
+        transfer.askedLegacy.add(conn);
+        send(conn, JSON.stringify({ t: 'reqImg', id: transfer.id } satisfies ReqImgMsg));
+        armStallTimer(transfer);
+        return;
+      }
+      transfer.tried.add(conn);
+      requeue(transfer);
+      pump();
+    }, STALL_TIMEOUT);
+  };
+
+  const ask = (transfer: Incoming, conn: Channel) => {
+    transfer.conn = conn;
+    active.add(transfer);
+    send(conn, { t: 'imgGet', id: transfer.id, part: transfer.part, from: transfer.received.length });
+    armStallTimer(transfer);
+  };
+
+  /** Start waiting transfers while there's room and a peer to ask */
+  function pump() {
+    for (const transfer of transfers.values()) {
+      if (active.size >= MAX_ACTIVE_TRANSFERS) return;
+      if (transfer.conn) continue;
+      const untried = [...connections].filter(c => !transfer.tried.has(c));
+      if (untried.length > 0) {
+        ask(transfer, untried[0]);
+      } else if (connections.size > 0) {
+        // Every connected peer was asked and none has it
+        settle(transfer);
+      }
+    }
+  }
+
+  const fetchPart = (id: string, part: Part): Promise<void> => {
+    return new Promise((resolve, reject) => {
+      const key = keyOf(id, part);
+      const existing = transfers.get(key);
+      if (existing) {
+        existing.waiters.push({ resolve, reject });
+        return;
+      }
+      const partial = partials.get(key);
+      const transfer: Incoming = {
+        id,
+        part,
+        info: partial?.info ?? null,
+        received: partial?.received ?? [],
+        conn: null,
+        tried: new Set(),
+        askedLegacy: new Set(),
+        hashRetries: 0,
+        timer: undefined,
+        waiters: [{ resolve, reject }]
+      };
+      transfers.set(key, transfer);
+      if (part === 'data') onProgress(id, transfer.info ? transfer.received.length / transfer.info.chunks : 0);
+      requeue(transfer);
+      pump();
+    });
+  };
+
+  const request: ImageTransfer['request'] = async (id, options = {}) => {
+    const existing = await db.getImage(id);
+    if (existing && (!existing.partial || options.thumbnailOnly)) return;
+    if (connections.size === 0) return;
+    if (!existing) {
+      await fetchPart(id, 'thumb');
+      const saved = await db.getImage(id);
+      // No peer has it, or an older peer sent the whole file
+      if (!saved || !saved.partial) return;
+    }
+    if (!options.thumbnailOnly) await fetchPart(id, 'data');
+  };
+
+  const complete = async (transfer: Incoming) => {
+    const info = transfer.info!;
+    const blob = new Blob(transfer.received as BlobPart[], { type: transfer.part === 'data' ? info.m : undefined });
+    if (await sha256Hex(blob) !== info.hash) {
+      console.warn(`[Images] ${transfer.id} ${transfer.part} failed its integrity check`);
+      transfer.received = [];
+      if (transfer.conn && transfer.hashRetries++ < MAX_HASH_RETRIES) {
+        ask(transfer, transfer.conn);
+      } else {
+        if (transfer.conn) transfer.tried.add(transfer.conn);
+        transfer.hashRetries = 0;
+        requeue(transfer);
+        pump();
+      }
+      return;
+    }
+
+    try {
+      const meta = { type: info.m, name: info.n };
+      const saved = await db.getImage(transfer.id);
+      if (transfer.part === 'thumb') {
+        // Until the file arrives the thumbnail stands in for it
+        if (!saved) await db.putImage(transfer.id, blob, blob, { ...meta, partial: true });
+      } else if (!saved || saved.partial) {
+        await saveReceived(transfer.id, blob, meta, saved?.thumbnail);
+      }
+      settle(transfer);
+    } catch (e) {
+      console.error('[Images] Failed to save', e);
+      settle(transfer, e instanceof Error ? e : new Error('Failed to save'));
+    }
+  };
+
+  // ---- Receiving ----
+
+  const onInfo = (conn: Channel, msg: InfoMsg) => {
+    const transfer = transfers.get(keyOf(msg.id, msg.part));
+    if (!transfer || transfer.conn !== conn) return;
+    if (msg.missing) {
+      transfer.tried.add(conn);
+      requeue(transfer);
+      pump();
+      return;
+    }
+    if (transfer.info && transfer.info.hash !== msg.hash && transfer.received.length > 0) {
+      // A different file than the chunks we have: start over
+      transfer.info = msg;
+      transfer.received = [];
+      ask(transfer, conn);
+      return;
+    }
+    transfer.info = msg;
+    armStallTimer(transfer);
+    if (transfer.received.length >= msg.chunks) void complete(transfer);
+  };
+
+  const onChunk = (conn: Channel, msg: ChunkMsg) => {
+    const transfer = transfers.get(keyOf(msg.id, msg.part));
+    if (!transfer?.info || transfer.conn !== conn || msg.i !== transfer.received.length) return;
+    transfer.received.push(msg.d instanceof Uint8Array ? msg.d.slice() : new Uint8Array(msg.d));
+    send(conn, { t: 'imgAck', id: msg.id, part: msg.part, i: msg.i });
+    if (transfer.part === 'data') onProgress(transfer.id, transfer.received.length / transfer.info.chunks);
+    if (transfer.received.length >= transfer.info.chunks) {
+      clearTimeout(transfer.timer);
+      void complete(transfer);
+    } else {
+      armStallTimer(transfer);
+    }
+  };
+
+  /** A whole file from a peer on an older version */
+  const onLegacyImage = async (msg: ImgMsg) => {
+    try {
+      const blob = await base64ToBlob(msg.b, msg.m);
+      const saved = await db.getImage(msg.id);
+      if (!saved || saved.partial) await saveReceived(msg.id, blob, { type: msg.m, name: msg.n }, saved?.thumbnail);
+    } catch (e) {
+      console.error('[Images] putImage error', e);
+    }
+    for (const part of ['thumb', 'data'] as const) {
+      const transfer = transfers.get(keyOf(msg.id, part));
+      if (transfer) settle(transfer);
+    }
+  };
+
+  // ---- Sending ----
+
+  const sendWindow = (conn: Channel, id: string, part: Part, out: Outgoing) => {
+    while (out.next < out.chunks && out.next < out.acked + WINDOW) {
+      const start = out.next * CHUNK_SIZE;
+      const d = out.bytes.slice(start, start + CHUNK_SIZE).buffer;
+      send(conn, { t: 'imgChunk', id, part, i: out.next, d });
+      out.next++;
+    }
+  };
+
+  const onGet = async (conn: Channel, msg: GetMsg) => {
+    const record = await db.getImage(msg.id).catch(() => undefined);
+    // A partial record only has the thumbnail
+    const blob = msg.part === 'thumb' ? record?.thumbnail : record && !record.partial ? record.data : undefined;
+    if (!blob) {
+      send(conn, { t: 'imgInfo', id: msg.id, part: msg.part, missing: true });
+      return;
+    }
+    const bytes = new Uint8Array(await blob.arrayBuffer());
+    const chunks = Math.ceil(bytes.byteLength / CHUNK_SIZE);
+    send(conn, {
+      t: 'imgInfo',
+      id: msg.id,
+      part: msg.part,
+      size: bytes.byteLength,
+      chunks,
+      hash: await sha256Hex(bytes),
+      m: record!.type,
+      n: record!.name
+    });
+
+    const sending = outgoing.get(conn) ?? new Map<string, Outgoing>();
+    outgoing.set(conn, sending);
+    const key = keyOf(msg.id, msg.part);
+    clearTimeout(sending.get(key)?.timer);
+    const from = Math.max(0, Math.min(msg.from, chunks));
+    const out: Outgoing = { bytes, chunks, next: from, acked: from, timer: undefined };
+    sending.set(key, out);
+    sendWindow(conn, msg.id, msg.part, out);
+    out.timer = setTimeout(() => sending.delete(key), STALL_TIMEOUT * 2);
+  };
+
+  const onAck = (conn: Channel, msg: AckMsg) => {
+    const sending = outgoing.get(conn);
+    const key = keyOf(msg.id, msg.part);
+    const out = sending?.get(key);
+    if (!sending || !out) return;
+    out.acked = Math.max(out.acked, msg.i + 1);
+    clearTimeout(out.timer);
+    if (out.acked >= out.chunks) {
+      sending.delete(key);
+      return;
+    }
+    sendWindow(conn, msg.id, msg.part, out);
+    out.timer = setTimeout(() => sending.delete(key), STALL_TIMEOUT * 2);
+  };
+
+  /** Older versions ask for the whole file at once */
+  const onLegacyRequest = async (conn: Channel, msg: ReqImgMsg) => {
+    try {
+      const img = await db.getImage(msg.id);
+      if (img?.data && !img.partial) {
+        const b64 = await blobToBase64(img.data);
+        send(conn, JSON.stringify({ t: 'img', id: msg.id, b: b64, m: img.type, n: img.name } satisfies ImgMsg));
+      }
+    } catch {
+      // ignore
+    }
+  };
+
+  const handleMessage: ImageTransfer['handleMessage'] = (conn, msg) => {
+    if (!msg.id) return;
+    switch (msg.t) {
+      case 'imgGet': void onGet(conn, msg); break;
+      case 'imgInfo': onInfo(conn, msg); break;
+      case 'imgChunk': onChunk(conn, msg); break;
+      case 'imgAck': onAck(conn, msg); break;
+      case 'reqImg': void onLegacyRequest(conn, msg); break;
+      case 'img': if (msg.b) void onLegacyImage(msg); break;
+    }
+  };
+
+  const addConnection = (conn: Channel) => {
+    connections.add(conn);
+    pump();
+  };
+
+  const removeConnection = (conn: Channel) => {
+    connections.delete(conn);
+    outgoing.get(conn)?.forEach(out => clearTimeout(out.timer));
+    outgoing.delete(conn);
+    for (const transfer of transfers.values()) {
+      transfer.tried.delete(conn);
+      transfer.askedLegacy.delete(conn);
+      // Keeps its chunks and resumes with the next peer
+      if (transfer.conn === conn) requeue(transfer);
+    }
+    pump();
+  };
+
+  const clear = () => {
+    connections.clear();
+    outgoing.forEach(sending => sending.forEach(out => clearTimeout(out.timer)));
+    outgoing.clear();
+    [...transfers.values()].forEach(transfer => settle(transfer, new Error('Disconnected')));
+  };
+
+  return { request, handleMessage, addConnection, removeConnection, clear };
+}
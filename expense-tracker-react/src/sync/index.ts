@@ -1,4 +1,10 @@
 export { YjsProvider, useYjs, useYjsOptional, useYArray, useYMap } from './YjsProvider';
-export type { AwarenessUser, ConnectOptions } from './YjsProvider';
+export type { AwarenessUser, PresenceState, ConnectOptions, GroupDevice, Reachability } from './YjsProvider';
+export { presenceColor, screenLabel } from './presence';
+export { generateGroupKey } from './groupAuth';
 export { useYjsSync } from './useYjsSync';
+export { useTypingPresence } from './useTypingPresence';
 export { migrateToYjs, isMigrationComplete, resetMigration, exportYjsData } from './migration';
+export { useRecurringScheduler, processRecurring } from './useRecurringScheduler';
+export { useAttachmentMigration, migrateAttachmentIds } from './useAttachmentMigration';
+export { useImageGC, collectImageGarbage } from './useImageGC';
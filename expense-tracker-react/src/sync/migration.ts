@@ -1,6 +1,6 @@
 import * as Y from 'yjs';
 import { getDB } from '@/db/schema';
-import type { Expense, Person, Payment } from '@/types';
+import type { Expense, Person, Payment, SplitPreset, RecurringExpense } from '@/types';
 
 const MIGRATION_KEY = 'yjs-migration-complete';
 
@@ -27,6 +27,9 @@ export async function migrateToYjs(ydoc: Y.Doc): Promise<{
   migratedExpenses: number;
   migratedPeople: number;
   migratedPayments: number;
+  migratedSplitPresets: number;
+  migratedRecurring: number;
+  migratedCategoryBudgets: number;
   error?: string;
 }> {
   // Skip if already migrated
@@ -36,7 +39,10 @@ export async function migrateToYjs(ydoc: Y.Doc): Promise<{
       success: true,
       migratedExpenses: 0,
       migratedPeople: 0,
-      migratedPayments: 0
+      migratedPayments: 0,
+      migratedSplitPresets: 0,
+      migratedRecurring: 0,
+      migratedCategoryBudgets: 0
     };
   }
 
@@ -46,11 +52,17 @@ export async function migrateToYjs(ydoc: Y.Doc): Promise<{
     const db = getDB();
     
     // Load all data from Dexie
-    const [expenses, people, payments] = await Promise.all([
+    const [expenses, people, payments, storedPresets, storedRecurring, categoryBudgets] = await Promise.all([
       db.expenses.toArray(),
       db.people.toArray(),
-      db.payments.toArray()
+      db.payments.toArray(),
+      db.splitPresets.toArray(),
+      db.recurring.toArray(),
+      db.categoryBudgets.toArray()
     ]);
+    // Presets and recurring rules stored before they synced have no syncId; reuse the id
+    const splitPresets = storedPresets.map(p => ({ ...p, syncId: p.syncId ?? p.id }));
+    const recurring = storedRecurring.map(r => ({ ...r, syncId: r.syncId ?? r.id }));
 
     console.log(`[Migration] Found ${expenses.length} expenses, ${people.length} people, ${payments.length} payments`);
 
@@ -58,21 +70,32 @@ export async function migrateToYjs(ydoc: Y.Doc): Promise<{
     const yExpenses = ydoc.getArray<Expense>('expenses');
     const yPeople = ydoc.getArray<Person>('people');
     const yPayments = ydoc.getArray<Payment>('payments');
+    const ySplitPresets = ydoc.getArray<SplitPreset>('splitPresets');
+    const yRecurring = ydoc.getArray<RecurringExpense>('recurring');
+    const yBudgets = ydoc.getMap<number>('categoryBudgets');
 
     // Check if Yjs already has data (from another device sync)
     const existingExpenses = yExpenses.toArray();
     const existingPeople = yPeople.toArray();
     const existingPayments = yPayments.toArray();
+    const existingSplitPresets = ySplitPresets.toArray();
+    const existingRecurring = yRecurring.toArray();
 
     // Create sets of existing syncIds to avoid duplicates
     const existingExpenseSyncIds = new Set(existingExpenses.map(e => e.syncId));
     const existingPeopleSyncIds = new Set(existingPeople.map(p => p.syncId));
     const existingPaymentSyncIds = new Set(existingPayments.map(p => p.syncId));
+    const existingSplitPresetSyncIds = new Set(existingSplitPresets.map(p => p.syncId));
+    const existingRecurringSyncIds = new Set(existingRecurring.map(r => r.syncId));
 
     // Filter out items that already exist in Yjs
     const newExpenses = expenses.filter(e => !existingExpenseSyncIds.has(e.syncId));
     const newPeople = people.filter(p => !existingPeopleSyncIds.has(p.syncId));
     const newPayments = payments.filter(p => !existingPaymentSyncIds.has(p.syncId));
+    const newSplitPresets = splitPresets.filter(p => !existingSplitPresetSyncIds.has(p.syncId));
+    const newRecurring = recurring.filter(r => !existingRecurringSyncIds.has(r.syncId));
+    // Budgets already set in Yjs (e.g. by another device) win over local ones
+    const newCategoryBudgets = categoryBudgets.filter(b => !yBudgets.has(b.category));
 
     console.log(`[Migration] New items to migrate: ${newExpenses.length} expenses, ${newPeople.length} people, ${newPayments.length} payments`);
 
@@ -87,6 +110,13 @@ export async function migrateToYjs(ydoc: Y.Doc): Promise<{
       if (newPayments.length > 0) {
         yPayments.push(newPayments);
       }
+      if (newSplitPresets.length > 0) {
+        ySplitPresets.push(newSplitPresets);
+      }
+      if (newRecurring.length > 0) {
+        yRecurring.push(newRecurring);
+      }
+      newCategoryBudgets.forEach(b => yBudgets.set(b.category, b.amount));
     });
 
     // Mark migration as complete
@@ -98,7 +128,10 @@ export async function migrateToYjs(ydoc: Y.Doc): Promise<{
       success: true,
       migratedExpenses: newExpenses.length,
       migratedPeople: newPeople.length,
-      migratedPayments: newPayments.length
+      migratedPayments: newPayments.length,
+      migratedSplitPresets: newSplitPresets.length,
+      migratedRecurring: newRecurring.length,
+      migratedCategoryBudgets: newCategoryBudgets.length
     };
   } catch (error) {
     console.error('[Migration] Migration failed:', error);
@@ -107,6 +140,9 @@ export async function migrateToYjs(ydoc: Y.Doc): Promise<{
       migratedExpenses: 0,
       migratedPeople: 0,
       migratedPayments: 0,
+      migratedSplitPresets: 0,
+      migratedRecurring: 0,
+      migratedCategoryBudgets: 0,
       error: error instanceof Error ? error.message : 'Unknown error'
     };
   }
@@ -127,14 +163,26 @@ export function exportYjsData(ydoc: Y.Doc): {
   expenses: Expense[];
   people: Person[];
   payments: Payment[];
+  splitPresets: SplitPreset[];
+  recurring: RecurringExpense[];
+  categoryBudgets: Record<string, number>;
+  exchangeRates: Record<string, number>;
 } {
   const yExpenses = ydoc.getArray<Expense>('expenses');
   const yPeople = ydoc.getArray<Person>('people');
   const yPayments = ydoc.getArray<Payment>('payments');
+  const ySplitPresets = ydoc.getArray<SplitPreset>('splitPresets');
+  const yRecurring = ydoc.getArray<RecurringExpense>('recurring');
+  const yBudgets = ydoc.getMap<number>('categoryBudgets');
+  const yRates = ydoc.getMap<number>('exchangeRates');
 
   return {
     expenses: yExpenses.toArray(),
     people: yPeople.toArray(),
-    payments: yPayments.toArray()
+    payments: yPayments.toArray(),
+    splitPresets: ySplitPresets.toArray(),
+    recurring: yRecurring.toArray(),
+    categoryBudgets: yBudgets.toJSON(),
+    exchangeRates: yRates.toJSON()
   };
 }
@@ -0,0 +1,152 @@
+/**
+ * Presence: who is connected and what they're doing. Each device sends its
+ * own state (name, claimed person, color, screen, typing) to a peer when the
+ * connection opens and to every peer whenever it changes. Peers that
+ * disconnect stay listed as offline with the time they were last seen.
+ *
+ * Messages are objects like attachment transfers; peers on older versions
+ * ignore them (and show up here as "Peer").
+ */
+import type { Channel } from './groupAuth';
+
+/** What a device tells its peers about itself */
+export interface PresenceState {
+  name: string;
+  /** Person this device claimed ("This is me") */
+  personId?: string;
+  color?: string;
+  /** Route the device is on, e.g. '/settle' */
+  screen?: string;
+  /** Adding or editing an expense right now */
+  typing?: boolean;
+}
+
+/** A peer as seen from this device; id is its device id */
+export interface AwarenessUser extends PresenceState {
+  id: string;
+  /** Connected right now */
+  online?: boolean;
+  /** Last message or disconnect time */
+  lastSeen?: number;
+}
+
+export type PresenceMessage = { t: 'presence'; s: PresenceState };
+
+export interface Presence {
+  /** Change this device's state and tell every peer */
+  set: (changes: Partial<PresenceState>) => void;
+  handleMessage: (conn: Channel, msg: PresenceMessage) => void;
+  addConnection: (conn: Channel) => void;
+  removeConnection: (conn: Channel) => void;
+  /** Forget every peer (switching accounts) */
+  clear: () => void;
+}
+
+const MAX_NAME_LENGTH = 100;
+const COLORS = ['#FF6B6B', '#4ECDC4', '#45B7D1', '#96CEB4', '#FFEAA7', '#DDA0DD', '#98D8C8', '#F7DC6F'];
+
+export function isPresenceMessage(data: unknown): data is PresenceMessage {
+  return typeof data === 'object' && data !== null && (data as { t?: unknown }).t === 'presence';
+}
+
+/** Stable color for a device id */
+export function presenceColor(id: string): string {
+  let hash = 0;
+  for (let i = 0; i < id.length; i++) {
+    hash = id.charCodeAt(i) + ((hash << 5) - hash);
+  }
+  return COLORS[Math.abs(hash) % COLORS.length];
+}
+
+/** Screen name for a route, e.g. "Settle up" */
+export function screenLabel(path: string | undefined): string | null {
+  if (!path) return null;
+  if (path === '/') return 'Home';
+  if (path === '/add' || path.endsWith('/edit')) return 'Adding an expense';
+  if (path.startsWith('/expense/')) return 'Viewing an expense';
+  if (path.startsWith('/people')) return 'People';
+  if (path === '/stats') return 'Stats';
+  if (path === '/settle') return 'Settle up';
+  if (path === '/sync') return 'Sync';
+  if (path === '/settings') return 'Settings';
+  if (path === '/recurring') return 'Recurring';
+  if (path === '/camera' || path === '/import') return 'Scanning receipts';
+  return null;
+}
+
+/** Only known fields, with sane types: peers are other people's devices */
+function sanitize(state: Partial<PresenceState> | undefined): PresenceState {
+  const s = state ?? {};
+  return {
+    name: typeof s.name === 'string' && s.name.trim() ? s.name.trim().slice(0, MAX_NAME_LENGTH) : 'Peer',
+    ...(typeof s.personId === 'string' && { personId: s.personId }),
+    ...(typeof s.color === 'string' && /^#[0-9a-f]{3,8}$/i.test(s.color) && { color: s.color }),
+    ...(typeof s.screen === 'string' && { screen: s.screen.slice(0, 200) }),
+    ...(s.typing === true && { typing: true })
+  };
+}
+
+function send(conn: Channel, msg: PresenceMessage) {
+  try {
+    conn.send(msg);
+  } catch {
+    // closed; the close handler cleans up
+  }
+}
+
+/**
+ * @param onChange - every peer seen since the last clear, by device id
+ */
+export function createPresence(onChange: (peers: Record<string, AwarenessUser>) => void): Presence {
+  let local: PresenceState = { name: 'Unknown' };
+  const connections = new Set<Channel>();
+  let peers: Record<string, AwarenessUser> = {};
+
+  const update = (id: string, changes: Partial<AwarenessUser>) => {
+    const prev: AwarenessUser = peers[id] ?? { id, name: 'Peer' };
+    peers = { ...peers, [id]: { ...prev, ...changes, id } };
+    onChange(peers);
+  };
+
+  return {
+    set(changes: Partial<PresenceState>) {
+      const next = { ...local, ...changes };
+      if (JSON.stringify(next) === JSON.stringify(local)) return;
+      local = next;
+      connections.forEach(conn => send(conn, { t: 'presence', s: local }));
+    },
+
+    addConnection(conn: Channel) {
+      connections.add(conn);
+      send(conn, { t: 'presence', s: local });
+      update(conn.peer, { online: true, lastSeen: Date.now() });
+    },
+
+    removeConnection(conn: Channel) {
+      if (!connections.delete(conn)) return;
+      // A duplicate connection to the same device closing doesn't take it offline
+      if ([...connections].some(c => c.peer === conn.peer)) return;
+      update(conn.peer, { online: false, typing: false, lastSeen: Date.now() });
+    },
+
+    handleMessage(conn: Channel, msg: PresenceMessage) {
+      if (!connections.has(conn)) return;
+      const { typing, ...state } = sanitize(msg.s);
+      update(conn.peer, {
+        personId: undefined,
+        color: undefined,
+        screen: undefined,
+        ...state,
+        typing: typing ?? false,
+        online: true,
+        lastSeen: Date.now()
+      });
+    },
+
+    clear() {
+      connections.clear();
+      peers = {};
+      onChange(peers);
+    }
+  };
+}
@@ -0,0 +1,60 @@
+import { useEffect } from 'react';
+import * as Y from 'yjs';
+import type { Expense } from '@/types';
+import { removeDuplicateIds } from './useRecurringScheduler';
+
+/** Transaction origin for migration writes */
+const MIGRATION_ORIGIN = 'attachment-migration';
+
+/**
+ * Give expenses from before multiple attachments an `attachmentIds` list with
+ * their `imageId` (which stays, for devices on older versions). Two devices
+ * migrating the same expense at once leave two copies after merging; the
+ * next run removes the extra one. Returns the number of expenses migrated.
+ */
+export function migrateAttachmentIds(ydoc: Y.Doc): number {
+  const yExpenses = ydoc.getArray<Expense>('expenses');
+  let migrated = 0;
+
+  ydoc.transact(() => {
+    removeDuplicateIds(yExpenses, e => Boolean(e.attachmentIds));
+    yExpenses.toArray().forEach((expense, index) => {
+      if (!expense.imageId || expense.attachmentIds) return;
+      // Not an edit: updatedAt stays so the migrated copy doesn't win over real edits
+      yExpenses.delete(index, 1);
+      yExpenses.insert(index, [{ ...expense, attachmentIds: [expense.imageId] }]);
+      migrated++;
+    });
+  }, MIGRATION_ORIGIN);
+
+  if (migrated > 0) {
+    console.log(`[Migration] Moved ${migrated} expense image${migrated === 1 ? '' : 's'} to attachments`);
+  }
+  return migrated;
+}
+
+/**
+ * Migrate once the local document has loaded, and again when peers (possibly
+ * on older versions) send expenses.
+ */
+export function useAttachmentMigration(ydoc: Y.Doc, isSynced: boolean) {
+  useEffect(() => {
+    if (!isSynced) return;
+    const yExpenses = ydoc.getArray<Expense>('expenses');
+    const run = () => {
+      try {
+        migrateAttachmentIds(ydoc);
+      } catch (e) {
+        console.error('[Migration] Failed to migrate attachments', e);
+      }
+    };
+
+    const onExpensesChanged = (_event: Y.YArrayEvent<Expense>, transaction: Y.Transaction) => {
+      if (!transaction.local) run();
+    };
+
+    run();
+    yExpenses.observe(onExpensesChanged);
+    return () => yExpenses.unobserve(onExpensesChanged);
+  }, [ydoc, isSynced]);
+}
@@ -0,0 +1,39 @@
+import { useEffect } from 'react';
+import * as Y from 'yjs';
+import type { Expense } from '@/types';
+import { countAttachmentRefs } from '@/lib/attachments';
+import { getDB, isDBInitialized } from '@/db/schema';
+import * as db from '@/db/operations';
+import { isMigrationComplete } from './migration';
+
+/** Wait after load so collection doesn't slow down startup */
+const GC_DELAY_MS = 30 * 1000;
+
+/**
+ * Collect attachments no expense in the document uses any more (see
+ * db.collectUnusedImages). Pass `graceMs = 0` to delete them right away.
+ * Returns null without touching anything until the document lists every
+ * expense: it has loaded (`isSynced`), expenses have moved to Yjs, and the
+ * database open is `accountId`'s. Before that every attachment looks unused.
+ */
+export async function collectImageGarbage(ydoc: Y.Doc, isSynced: boolean, accountId: string | null, graceMs?: number) {
+  if (!isSynced || !accountId || !isMigrationComplete() || !isDBInitialized()) return null;
+  if (getDB().name !== `ExpenseTracker_${accountId}`) return null;
+  const refs = countAttachmentRefs(ydoc.getArray<Expense>('expenses').toArray());
+  const result = await db.collectUnusedImages(refs, graceMs);
+  if (result.removed > 0) {
+    console.log(`[Images] Removed ${result.removed} unused attachment${result.removed === 1 ? '' : 's'} (${result.freedBytes} bytes)`);
+  }
+  return result;
+}
+
+/** Collect unused attachments once per load of an account's document */
+export function useImageGC(ydoc: Y.Doc, isSynced: boolean, accountId: string | null) {
+  useEffect(() => {
+    if (!isSynced || !accountId) return;
+    const timer = setTimeout(() => {
+      collectImageGarbage(ydoc, isSynced, accountId).catch(e => console.error('[Images] Garbage collection failed', e));
+    }, GC_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [ydoc, isSynced, accountId]);
+}
@@ -0,0 +1,129 @@
+import { useEffect } from 'react';
+import * as Y from 'yjs';
+import type { Expense, RecurringExpense } from '@/types';
+import { getToday } from '@/types';
+import {
+  getDueOccurrences,
+  getNextOccurrence,
+  getRecurringExpenseId,
+  buildRecurringExpense
+} from '@/lib/recurring';
+
+/** Transaction origin for scheduler writes, so its own changes don't retrigger it */
+const SCHEDULER_ORIGIN = 'recurring-scheduler';
+
+/**
+ * Remove items that share an id, keeping the most recently updated copy.
+ * Concurrent edits from two devices (delete + insert of the same item) merge
+ * into two copies; array order is identical on every peer after the merge,
+ * so every device removes the same copies.
+ */
+export function removeDuplicateIds<T extends { id: string; updatedAt?: number; createdAt: number }>(
+  yarray: Y.Array<T>,
+  filter: (item: T) => boolean = () => true
+): number {
+  const items = yarray.toArray();
+  const keep = new Map<string, number>();
+  items.forEach((item, index) => {
+    if (!filter(item)) return;
+    const current = keep.get(item.id);
+    if (current === undefined) {
+      keep.set(item.id, index);
+      return;
+    }
+    const kept = items[current];
+    if ((item.updatedAt ?? item.createdAt) > (kept.updatedAt ?? kept.createdAt)) {
+      keep.set(item.id, index);
+    }
+  });
+
+  let removed = 0;
+  for (let index = items.length - 1; index >= 0; index--) {
+    const item = items[index];
+    if (filter(item) && keep.get(item.id) !== index) {
+      yarray.delete(index, 1);
+      removed++;
+    }
+  }
+  return removed;
+}
+
+/**
+ * Create every expense that is due for the active recurring rules, including
+ * all periods missed since the rule was last processed, and advance nextDue.
+ * Returns the number of expenses created.
+ */
+export function processRecurring(ydoc: Y.Doc, today: string = getToday()): number {
+  const yRecurring = ydoc.getArray<RecurringExpense>('recurring');
+  const yExpenses = ydoc.getArray<Expense>('expenses');
+  let created = 0;
+
+  ydoc.transact(() => {
+    removeDuplicateIds(yRecurring);
+    removeDuplicateIds(yExpenses, e => Boolean(e.recurringId) && e.id.startsWith('recurring-'));
+
+    const existingIds = new Set(yExpenses.toArray().map(e => e.id));
+    yRecurring.toArray().forEach((rule, index) => {
+      const dates = getDueOccurrences(rule, today);
+      if (dates.length === 0) return;
+
+      const newExpenses = dates
+        .filter(date => !existingIds.has(getRecurringExpenseId(rule.id, date)))
+        .map(date => buildRecurringExpense(rule, date));
+      if (newExpenses.length > 0) {
+        yExpenses.push(newExpenses);
+        created += newExpenses.length;
+      }
+
+      const anchorDate = rule.anchorDate ?? rule.nextDue;
+      const updated: RecurringExpense = {
+        ...rule,
+        anchorDate,
+        nextDue: getNextOccurrence(anchorDate, rule.frequency, dates[dates.length - 1]),
+        lastProcessed: today,
+        updatedAt: Date.now()
+      };
+      yRecurring.delete(index, 1);
+      yRecurring.insert(index, [updated]);
+    });
+  }, SCHEDULER_ORIGIN);
+
+  if (created > 0) {
+    console.log(`[Recurring] Created ${created} expense${created === 1 ? '' : 's'}`);
+  }
+  return created;
+}
+
+/**
+ * Run the recurring scheduler once the local document has loaded, whenever
+ * the app comes back to the foreground, and whenever rules change (including
+ * changes merged in from peers).
+ */
+export function useRecurringScheduler(ydoc: Y.Doc, isSynced: boolean) {
+  useEffect(() => {
+    if (!isSynced) return;
+    const yRecurring = ydoc.getArray<RecurringExpense>('recurring');
+    const run = () => {
+      try {
+        processRecurring(ydoc);
+      } catch (e) {
+        console.error('[Recurring] Failed to process rules', e);
+      }
+    };
+
+    const onRulesChanged = (_event: Y.YArrayEvent<RecurringExpense>, transaction: Y.Transaction) => {
+      if (transaction.origin !== SCHEDULER_ORIGIN) run();
+    };
+    const onVisibilityChange = () => {
+      if (document.visibilityState === 'visible') run();
+    };
+
+    run();
+    yRecurring.observe(onRulesChanged);
+    document.addEventListener('visibilitychange', onVisibilityChange);
+    return () => {
+      yRecurring.unobserve(onRulesChanged);
+      document.removeEventListener('visibilitychange', onVisibilityChange);
+    };
+  }, [ydoc, isSynced]);
+}
@@ -0,0 +1,28 @@
+import { useCallback, useEffect, useRef } from 'react';
+import { useYjsOptional } from './YjsProvider';
+
+/** Typing stops counting after this long without input */
+const TYPING_IDLE_MS = 5000;
+
+/**
+ * Hook for forms: call the returned function on input, and peers see this
+ * device as "typing" until input stops for a few seconds or the form closes.
+ */
+export function useTypingPresence(): () => void {
+  const setAwareness = useYjsOptional()?.setAwareness;
+  const timerRef = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
+
+  useEffect(() => {
+    return () => {
+      clearTimeout(timerRef.current);
+      setAwareness?.({ typing: false });
+    };
+  }, [setAwareness]);
+
+  return useCallback(() => {
+    if (!setAwareness) return;
+    setAwareness({ typing: true });
+    clearTimeout(timerRef.current);
+    timerRef.current = setTimeout(() => setAwareness({ typing: false }), TYPING_IDLE_MS);
+  }, [setAwareness]);
+}
@@ -1,5 +1,6 @@
 import { useCallback, useEffect } from 'react';
 import { useYjs, useYArray } from './YjsProvider';
+import { presenceColor } from './presence';
 import { useAccountStore } from '@/stores/accountStore';
 import { useSyncStore } from '@/stores/syncStore';
 import type { Expense, Person, Payment } from '@/types';
@@ -15,7 +16,7 @@ export function useYjsSync() {
   
   const currentAccount = useAccountStore(s => s.getCurrentAccount());
   const selfPersonId = useAccountStore(s => s.selfPersonId);
-  const { deviceId, setConnected, addConnectedPeer } = useSyncStore();
+  const { deviceId, setConnected, setConnectedPeers } = useSyncStore();
   
   // Get reactive arrays
   const expenses = useYArray(yExpenses);
@@ -27,13 +28,10 @@ export function useYjsSync() {
     setConnected(isConnected);
   }, [isConnected, setConnected]);
   
-  // Sync connected peers to syncStore
+  // Sync connected peers to syncStore (replaced as a whole, so peers that left drop out)
   useEffect(() => {
-    // Clear existing peers and add new ones
-    connectedPeers.forEach(peer => {
-      addConnectedPeer(peer.id);
-    });
-  }, [connectedPeers, addConnectedPeer]);
+    setConnectedPeers(connectedPeers);
+  }, [connectedPeers, setConnectedPeers]);
   
   // Connect to room when account is shared (PeerJS: host = creator, joiners connect to host)
   useEffect(() => {
@@ -44,9 +42,9 @@ export function useYjsSync() {
       
       const selfPerson = people.find(p => p.id === selfPersonId);
       setAwareness({
-        id: deviceId,
         name: selfPerson?.name || 'Unknown',
-        color: getRandomColor(deviceId)
+        personId: selfPerson?.id,
+        color: presenceColor(deviceId)
       });
     }
   }, [currentAccount?.mode, currentAccount?.id, currentAccount?.hostDeviceId, connect, deviceId, selfPersonId, people, setAwareness]);
@@ -238,19 +236,4 @@ export function useYjsSync() {
   };
 }
 
-// Helper to generate consistent color from ID
-function getRandomColor(id: string): string {
-  const colors = [
-    '#FF6B6B', '#4ECDC4', '#45B7D1', '#96CEB4', 
-    '#FFEAA7', '#DDA0DD', '#98D8C8', '#F7DC6F'
-  ];
-  
-  let hash = 0;
-  for (let i = 0; i < id.length; i++) {
-    hash = id.charCodeAt(i) + ((hash << 5) - hash);
-  }
-  
-  return colors[Math.abs(hash) % colors.length];
-}
-
 export default useYjsSync;
@@ -2,14 +2,28 @@
 export interface Expense {
   id: string;
   description: string;
+  /** Amount in the account's base currency (converted when saved) */
   amount: number;
+  /** ISO 4217 code of the currency it was paid in; missing = base currency */
+  currency?: string;
+  /** Amount in `currency` as entered */
+  originalAmount?: number;
   date: string; // YYYY-MM-DD
   payerId?: string;
+  /** First attachment, from before expenses could have several (see attachmentIds) */
   imageId?: string;
+  /** Ids of attached receipts (ImageRecord): photos, PDFs, e-receipts */
+  attachmentIds?: string[];
   splitType: 'equal' | 'full' | 'custom';
   splitWith?: string[];
   splitDetails?: Record<string, number>;
+  /** How a custom split was entered; splitDetails always holds the resulting amounts */
+  splitMode?: SplitMode;
+  /** Raw per-person percentages or shares for 'percent' / 'shares' splits (for editing) */
+  splitWeights?: Record<string, number>;
   recurring?: 'weekly' | 'monthly' | 'yearly' | '';
+  /** RecurringExpense rule that created this expense (or that it created) */
+  recurringId?: string;
   tags?: string;
   notes?: string;
   syncId: string;
@@ -19,6 +33,9 @@ export interface Expense {
   updatedAt?: number;
 }
 
+// Split editor modes: equal among selected, exact amounts, percentages, weighted shares
+export type SplitMode = 'equal' | 'exact' | 'percent' | 'shares';
+
 // Person Types
 export interface Person {
   id: string;
@@ -35,16 +52,56 @@ export interface Account {
   name: string;
   mode: 'single' | 'shared';
   currency: string;
+  /** BCP 47 locale for number and money formatting; missing = device default */
+  locale?: string;
   createdAt: number;
   /** For shared: deviceId of the peer others connect to (creator). Set when creating or when joining from QR/link. */
   hostDeviceId?: string;
+  /** For shared: the group's own signaling server; missing = public PeerJS cloud */
+  signaling?: SignalingServer;
+  /**
+   * For shared: random secret (base64url) that members prove they have before
+   * syncing, and that encrypts sync traffic. Shared only in invites. Missing on
+   * groups created before keys, which sync unverified until the creator adds one.
+   */
+  groupKey?: string;
+}
+
+/** A PeerJS-compatible signaling server, e.g. signaling-server/ from this repo (see lib/signaling) */
+export interface SignalingServer {
+  host: string;
+  port: number;
+  /** Path the server is mounted on, e.g. '/' or '/sync' */
+  path: string;
+  /** wss/https rather than ws/http */
+  secure: boolean;
+  /** PeerJS API key; 'peerjs' when missing */
+  key?: string;
+  /** STUN/TURN servers for WebRTC; PeerJS's defaults when missing */
+  iceServers?: IceServer[];
+}
+
+export interface IceServer {
+  urls: string;
+  username?: string;
+  credential?: string;
 }
 
 // Image Types
+/** An expense attachment: receipt photo, PDF or e-receipt (see lib/attachments) */
 export interface ImageRecord {
   id: string;
   data: Blob;
   thumbnail: Blob;
+  /** MIME type of `data`; missing = photo */
+  type?: string;
+  /** Original file name, for documents */
+  name?: string;
+  /** Only the thumbnail has arrived from a peer so far; `data` is the thumbnail too */
+  partial?: boolean;
+  /** When garbage collection first found no expense using it */
+  unreferencedAt?: number;
+  /** SHA-256 of `data`; new attachments use it as their id too */
   syncId: string;
   createdAt: number;
 }
@@ -54,11 +111,24 @@ export interface RecurringExpense {
   id: string;
   description: string;
   amount: number;
+  currency?: string;
+  originalAmount?: number;
   frequency: 'weekly' | 'monthly' | 'yearly';
   nextDue: string;
+  /** First date of the schedule; month-end dates are clamped from this (e.g. the 31st) */
+  anchorDate?: string;
   payerId?: string;
+  splitType?: Expense['splitType'];
+  splitWith?: string[];
+  splitDetails?: Record<string, number>;
+  splitMode?: SplitMode;
+  splitWeights?: Record<string, number>;
+  tags?: string;
+  notes?: string;
   active: boolean;
+  syncId?: string;
   createdAt: number;
+  updatedAt?: number;
   lastProcessed?: string;
 }
 
@@ -74,7 +144,12 @@ export interface Payment {
   id: string;
   fromId: string;
   toId: string;
+  /** Amount in the account's base currency (converted when saved) */
   amount: number;
+  /** ISO 4217 code of the currency it was paid in; missing = base currency */
+  currency?: string;
+  /** Amount in `currency` as entered */
+  originalAmount?: number;
   date: string;
   syncId: string;
   createdAt: number;
@@ -94,8 +169,13 @@ export interface Template {
 export interface SplitPreset {
   id: string;
   name: string;
+  /** personId -> value in the unit of `mode` (percentages, shares or amounts) */
   splits: Record<string, number>;
+  /** How `splits` is interpreted; presets saved before modes existed are shares */
+  mode?: SplitMode;
+  syncId: string;
   createdAt: number;
+  updatedAt?: number;
 }
 
 // Tombstone for sync deletions
@@ -128,9 +208,32 @@ export interface Settings {
   monthlyBudget: number;
   darkMode: boolean;
   categoryBudgets: Record<string, number>;
+  settlementMode: SettlementMode;
+  /** Tesseract language codes used to read receipts, see OCR_LANGUAGES */
+  ocrLanguages: string[];
+  imageCompression: ImageCompression;
+}
+
+/** How receipt photos are stored; PDFs and e-receipts are kept as they are */
+export interface ImageCompression {
+  /** Longest side in pixels; larger photos are scaled down */
+  maxDimension: number;
+  format: 'jpeg' | 'webp';
+  /** Encoder quality, 0-1 */
+  quality: number;
+  /** Store photos exactly as taken or picked */
+  keepOriginal: boolean;
 }
 
 // Balance Types
+/**
+ * How suggested payments are worked out:
+ * greedy - largest debtor pays largest creditor (quick, usually few payments)
+ * optimal - fewest payments possible (greedy for very large groups)
+ * direct - no simplifying: everyone pays back the people who paid for them
+ */
+export type SettlementMode = 'greedy' | 'optimal' | 'direct';
+
 export interface Balance {
   personId: string;
   personName: string;
@@ -197,11 +300,6 @@ export const CURRENCIES = [
   { symbol: '₿', name: 'Bitcoin', code: 'BTC' },
 ];
 
-// Helper to format amount
-export function formatAmount(amount: number, currency: string = '$'): string {
-  return `${currency}${amount.toFixed(2)}`;
-}
-
 // Helper to format date
 export function formatDate(dateStr: string): string {
   if (!dateStr || typeof dateStr !== 'string') return '—';
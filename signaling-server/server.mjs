@@ -0,0 +1,316 @@
+#!/usr/bin/env node
+/**
+ * Minimal PeerJS-compatible signaling server for Expense Tracker groups that
+ * don't want to depend on the public 0.peerjs.com broker. Only signaling goes
+ * through it (WebRTC offers, answers and ICE candidates); expenses and
+ * receipts still travel directly between devices.
+ *
+ * No dependencies - Node 18+:
+ *
+ *   node server.mjs
+ *   PORT=9000 PEER_PATH=/sync node server.mjs
+ *   TLS_CERT=fullchain.pem TLS_KEY=privkey.pem PORT=443 node server.mjs
+ *
+ * Speaks the PeerJS server protocol (peerjs 1.x clients): GET {path}{key}/id
+ * hands out ids, and a WebSocket at {path}peerjs?key=&id=&token= relays
+ * OFFER / ANSWER / CANDIDATE / LEAVE messages between peers.
+ */
+import http from 'node:http';
+import https from 'node:https';
+import crypto from 'node:crypto';
+import fs from 'node:fs';
+
+const config = {
+  host: process.env.HOST || '0.0.0.0',
+  port: Number(process.env.PORT || 9000),
+  /** Mount path; clients use the same `path` option */
+  path: normalizePath(process.env.PEER_PATH || '/'),
+  key: process.env.PEER_KEY || 'peerjs',
+  /** Messages for a peer that isn't connected yet wait this long, then the sender gets EXPIRE */
+  expireTimeout: Number(process.env.EXPIRE_TIMEOUT || 5000),
+  /** Clients that send nothing (not even a heartbeat) for this long are dropped */
+  aliveTimeout: Number(process.env.ALIVE_TIMEOUT || 60000),
+  concurrentLimit: Number(process.env.CONCURRENT_LIMIT || 5000),
+  tlsCert: process.env.TLS_CERT,
+  tlsKey: process.env.TLS_KEY
+};
+
+const WS_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+/** Signaling messages are small; anything bigger is a broken or hostile client */
+const MAX_FRAME_SIZE = 512 * 1024;
+const RELAYED_TYPES = new Set(['OFFER', 'ANSWER', 'CANDIDATE', 'LEAVE', 'EXPIRE']);
+
+function normalizePath(path) {
+  let p = path.startsWith('/') ? path : `/${path}`;
+  if (!p.endsWith('/')) p += '/';
+  return p;
+}
+
+function log(...args) {
+  console.log(new Date().toISOString(), ...args);
+}
+
+// ============ WEBSOCKET (RFC 6455, text frames only) ============
+
+function encodeFrame(opcode, payload) {
+  const length = payload.length;
+  const header = length < 126 ? Buffer.alloc(2) : length < 65536 ? Buffer.alloc(4) : Buffer.alloc(10);
+  header[0] = 0x80 | opcode;
+  if (length < 126) {
+    header[1] = length;
+  } else if (length < 65536) {
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+  return Buffer.concat([header, payload]);
+}
+
+/** Wrap an upgraded socket: `onMessage(text)` per message, `onClose()` once */
+function createWebSocket(socket, onMessage, onClose) {
+  let buffer = Buffer.alloc(0);
+  let fragments = [];
+  let closed = false;
+
+  const close = (code = 1000) => {
+    if (closed) return;
+    closed = true;
+    const body = Buffer.alloc(2);
+    body.writeUInt16BE(code);
+    try {
+      socket.end(encodeFrame(0x8, body));
+    } catch {
+      socket.destroy();
+    }
+    onClose();
+  };
+
+  const ws = {
+    send(text) {
+      if (!closed && socket.writable) socket.write(encodeFrame(0x1, Buffer.from(text)));
+    },
+    close
+  };
+
+  socket.on('data', chunk => {
+    buffer = Buffer.concat([buffer, chunk]);
+    while (buffer.length >= 2) {
+      const fin = (buffer[0] & 0x80) !== 0;
+      const opcode = buffer[0] & 0x0f;
+      const masked = (buffer[1] & 0x80) !== 0;
+      let length = buffer[1] & 0x7f;
+      let offset = 2;
+      if (length === 126) {
+        if (buffer.length < 4) return;
+        length = buffer.readUInt16BE(2);
+        offset = 4;
+      } else if (length === 127) {
+        if (buffer.length < 10) return;
+        length = Number(buffer.readBigUInt64BE(2));
+        offset = 10;
+      }
+      // Clients must mask their frames
+      if (!masked || length > MAX_FRAME_SIZE) return close(1002);
+      if (buffer.length < offset + 4 + length) return;
+      const mask = buffer.subarray(offset, offset + 4);
+      const payload = Buffer.from(buffer.subarray(offset + 4, offset + 4 + length));
+      for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4];
+      buffer = buffer.subarray(offset + 4 + length);
+
+      if (opcode === 0x8) return close();
+      if (opcode === 0x9) {
+        socket.write(encodeFrame(0xa, payload));
+        continue;
+      }
+      if (opcode === 0xa) continue;
+      if (opcode !== 0x0 && opcode !== 0x1 && opcode !== 0x2) return close(1002);
+      fragments.push(payload);
+      if (fin) {
+        const message = Buffer.concat(fragments).toString('utf8');
+        fragments = [];
+        onMessage(message);
+      }
+    }
+  });
+  socket.on('close', () => {
+    if (!closed) {
+      closed = true;
+      onClose();
+    }
+  });
+  socket.on('error', () => socket.destroy());
+  return ws;
+}
+
+// ============ PEERJS PROTOCOL ============
+
+/** Connected peers by id */
+const clients = new Map();
+/** Messages waiting for a peer to connect, by destination id */
+const queues = new Map();
+
+function relay(src, message) {
+  const { type, dst, payload } = message;
+  if (!RELAYED_TYPES.has(type) || typeof dst !== 'string') return;
+  const out = { type, src, dst, payload };
+  const target = clients.get(dst);
+  if (target) {
+    target.ws.send(JSON.stringify(out));
+    return;
+  }
+  // Leaving or expiring for a peer that's gone: nothing to do
+  if (type === 'LEAVE' || type === 'EXPIRE') return;
+  const queue = queues.get(dst) ?? [];
+  queue.push({ message: out, queuedAt: Date.now() });
+  queues.set(dst, queue);
+}
+
+function deliverQueued(id) {
+  const queue = queues.get(id);
+  if (!queue) return;
+  queues.delete(id);
+  const client = clients.get(id);
+  queue.forEach(({ message }) => client?.ws.send(JSON.stringify(message)));
+}
+
+function handleConnection(socket, params) {
+  const id = params.get('id');
+  const token = params.get('token');
+  const key = params.get('key');
+
+  const ws = createWebSocket(
+    socket,
+    text => {
+      const client = clients.get(id);
+      if (!client || client.ws !== ws) return;
+      client.lastSeen = Date.now();
+      let message;
+      try {
+        message = JSON.parse(text);
+      } catch {
+        return;
+      }
+      if (message?.type === 'HEARTBEAT') return;
+      relay(id, message);
+    },
+    () => {
+      const client = clients.get(id);
+      if (client?.ws === ws) {
+        clients.delete(id);
+        log(`peer left: ${id} (${clients.size} connected)`);
+      }
+    }
+  );
+
+  const reject = (type, msg) => {
+    ws.send(JSON.stringify({ type, payload: { msg } }));
+    ws.close();
+  };
+
+  if (key !== config.key) return reject('INVALID-KEY', `Invalid key provided`);
+  if (!id || !token) return reject('ERROR', 'No id, token, or key supplied to websocket server');
+  if (!clients.has(id) && clients.size >= config.concurrentLimit) {
+    return reject('ERROR', 'Server has reached its concurrent user limit');
+  }
+  const existing = clients.get(id);
+  if (existing && existing.token !== token) return reject('ID-TAKEN', 'ID is taken');
+
+  // Same id and token: the peer reconnected, replace its old socket
+  if (existing) existing.ws.close();
+  clients.set(id, { ws, token, lastSeen: Date.now() });
+  log(`peer joined: ${id} (${clients.size} connected)`);
+  ws.send(JSON.stringify({ type: 'OPEN' }));
+  deliverQueued(id);
+}
+
+// Expire queued messages and drop silent clients
+setInterval(() => {
+  const now = Date.now();
+  for (const [dst, queue] of queues) {
+    const waiting = queue.filter(({ message, queuedAt }) => {
+      if (now - queuedAt < config.expireTimeout) return true;
+      const sender = clients.get(message.src);
+      if (sender) sender.ws.send(JSON.stringify({ type: 'EXPIRE', src: dst, dst: message.src }));
+      return false;
+    });
+    if (waiting.length) queues.set(dst, waiting);
+    else queues.delete(dst);
+  }
+  for (const [id, client] of clients) {
+    if (now - client.lastSeen > config.aliveTimeout) {
+      log(`peer timed out: ${id}`);
+      client.ws.close();
+      clients.delete(id);
+    }
+  }
+}, 1000).unref();
+
+// ============ HTTP ============
+
+function handleRequest(req, res) {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, OPTIONS');
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204).end();
+    return;
+  }
+  const url = new URL(req.url ?? '/', 'http://localhost');
+  if (url.pathname === config.path || `${url.pathname}/` === config.path) {
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({
+      name: 'PeerJS Server',
+      description: 'Expense Tracker signaling server',
+      peers: clients.size
+    }));
+    return;
+  }
+  if (url.pathname === `${config.path}${config.key}/id`) {
+    res.writeHead(200, { 'Content-Type': 'text/plain' });
+    res.end(crypto.randomUUID());
+    return;
+  }
+  // Listing peers is never allowed: ids are device ids
+  if (url.pathname === `${config.path}${config.key}/peers`) {
+    res.writeHead(401).end();
+    return;
+  }
+  res.writeHead(404).end();
+}
+
+function handleUpgrade(req, socket) {
+  const url = new URL(req.url ?? '/', 'http://localhost');
+  const wsKey = req.headers['sec-websocket-key'];
+  if (url.pathname !== `${config.path}peerjs` || req.headers.upgrade?.toLowerCase() !== 'websocket' || !wsKey) {
+    socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+    return;
+  }
+  const accept = crypto.createHash('sha1').update(wsKey + WS_GUID).digest('base64');
+  socket.write([
+    'HTTP/1.1 101 Switching Protocols',
+    'Upgrade: websocket',
+    'Connection: Upgrade',
+    `Sec-WebSocket-Accept: ${accept}`,
+    '',
+    ''
+  ].join('\r\n'));
+  socket.setNoDelay(true);
+  handleConnection(socket, url.searchParams);
+}
+
+const server = config.tlsCert && config.tlsKey
+  ? https.createServer({ cert: fs.readFileSync(config.tlsCert), key: fs.readFileSync(config.tlsKey) }, handleRequest)
+  : http.createServer(handleRequest);
+server.on('upgrade', handleUpgrade);
+server.listen(config.port, config.host, () => {
+  const scheme = server instanceof https.Server ? 'https' : 'http';
+  log(`PeerJS signaling server on ${scheme}://${config.host}:${config.port}${config.path} (key "${config.key}")`);
+});
+
+function shutdown() {
+  clients.forEach(client => client.ws.close(1001));
+  server.close(() => process.exit(0));
+}
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);